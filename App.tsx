@@ -8,17 +8,31 @@ import {
 import Feather from 'react-native-vector-icons/Feather';
 import {CustomerScreen} from './src/screens/CustomerScreen';
 import {AddEditCustomerScreen} from './src/screens/AddEditCustomerScreen';
+import {SettingsScreen} from './src/screens/SettingsScreen';
+import {TrashScreen} from './src/screens/TrashScreen';
+import {QuarantineScreen} from './src/screens/QuarantineScreen';
+import {RoleRequestsScreen} from './src/screens/RoleRequestsScreen';
 import {LoadingScreen} from './src/components/LoadingScreen';
-import {DatabaseService} from './src/database/DatabaseService';
+import {EnvironmentService} from './src/services/EnvironmentService';
+import {
+  EnvironmentConfig,
+  EnvironmentConfigError,
+  EnvironmentName,
+} from './src/config/environment';
+import {useCustomerStore} from './src/store/customerStore';
 import {ZellerCustomer} from './src/types';
 
 function App(): React.JSX.Element {
   const [showAddEditModal, setShowAddEditModal] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<ZellerCustomer | undefined>();
-  const [databaseReady, setDatabaseReady] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [showRoleRequests, setShowRoleRequests] = useState(false);
+  const [environment, setEnvironment] = useState<EnvironmentConfig | null>(null);
 
   useEffect(() => {
-    initializeDatabase();
+    initializeEnvironment();
   }, []);
 
   useEffect(() => {
@@ -27,21 +41,37 @@ function App(): React.JSX.Element {
     });
   }, []);
 
-  const initializeDatabase = async () => {
+  // Validates the configured environment and opens its database.
+  const initializeEnvironment = async () => {
     try {
-      const dbService = DatabaseService.getInstance();
-      await dbService.initDatabase();
-      setDatabaseReady(true);
+      setEnvironment(await EnvironmentService.initialize());
     } catch (error) {
-      console.error('Failed to initialize database:', error);
+      console.error('Failed to initialize environment:', error);
       Alert.alert(
-        'Database Error',
-        'Failed to initialize the database. Please restart the app.',
+        'Startup Error',
+        error instanceof EnvironmentConfigError
+          ? error.message
+          : 'Failed to initialize the database. Please restart the app.',
         [{text: 'OK'}]
       );
     }
   };
 
+  const handleSelectEnvironment = async (name: EnvironmentName) => {
+    setShowSettings(false);
+    setEnvironment(null);
+    useCustomerStore.getState().resetForEnvironmentChange();
+
+    try {
+      setEnvironment(await EnvironmentService.switchTo(name));
+    } catch (error) {
+      console.error('Failed to switch environment:', error);
+      Alert.alert('Switch Failed', 'Could not switch environments.', [
+        {text: 'OK', onPress: initializeEnvironment},
+      ]);
+    }
+  };
+
   const handleAddCustomer = () => {
     setEditingCustomer(undefined);
     setShowAddEditModal(true);
@@ -57,7 +87,7 @@ function App(): React.JSX.Element {
     setEditingCustomer(undefined);
   };
 
-  if (!databaseReady) {
+  if (!environment) {
     return <LoadingScreen />;
   }
 
@@ -65,9 +95,15 @@ function App(): React.JSX.Element {
     <>
       <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
       
+      {/* Keyed so switching environments remounts and reloads the screen */}
       <CustomerScreen
+        key={environment.name}
         onAddCustomer={handleAddCustomer}
         onEditCustomer={handleEditCustomer}
+        onOpenSettings={() => setShowSettings(true)}
+        onOpenTrash={() => setShowTrash(true)}
+        onOpenReview={() => setShowReview(true)}
+        onOpenRoleRequests={() => setShowRoleRequests(true)}
       />
 
       <Modal
@@ -80,6 +116,45 @@ function App(): React.JSX.Element {
           onClose={handleCloseModal}
         />
       </Modal>
+
+      <Modal
+        visible={showTrash}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <TrashScreen
+          retentionDays={environment.trashRetentionDays}
+          onClose={() => setShowTrash(false)}
+        />
+      </Modal>
+
+      <Modal
+        visible={showReview}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <QuarantineScreen onClose={() => setShowReview(false)} />
+      </Modal>
+
+      <Modal
+        visible={showRoleRequests}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <RoleRequestsScreen onClose={() => setShowRoleRequests(false)} />
+      </Modal>
+
+      <Modal
+        visible={showSettings}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <SettingsScreen
+          activeEnvironment={environment.name}
+          onSelectEnvironment={handleSelectEnvironment}
+          onClose={() => setShowSettings(false)}
+        />
+      </Modal>
     </>
   );
 }
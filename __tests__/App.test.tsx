@@ -3,18 +3,52 @@
  */
 
 import React from 'react';
+import {Alert} from 'react-native';
 import ReactTestRenderer from 'react-test-renderer';
 
 const mockDatabaseInstance = {
+  setMinimumAdmins: jest.fn(),
   initDatabase: jest.fn().mockResolvedValue(undefined),
   testDatabaseConnection: jest.fn().mockResolvedValue(true),
   testInsertSingleCustomer: jest.fn().mockResolvedValue(undefined),
   getAllCustomers: jest.fn().mockResolvedValue([]),
+  getCustomerPage: jest.fn().mockResolvedValue({customers: [], nextCursor: null}),
   getCustomerCount: jest.fn().mockResolvedValue(0),
-  insertCustomers: jest.fn().mockResolvedValue(undefined),
+  insertCustomers: jest.fn().mockResolvedValue({
+    inserted: 0,
+    replaced: 0,
+    rejected: 0,
+    rejections: [],
+  }),
   insertCustomer: jest.fn().mockResolvedValue(undefined),
   updateCustomer: jest.fn().mockResolvedValue(undefined),
   deleteCustomer: jest.fn().mockResolvedValue(undefined),
+  getPendingDeletions: jest.fn().mockResolvedValue([]),
+  purgeDeletedCustomers: jest.fn().mockResolvedValue(undefined),
+  rotateDatabaseKey: jest.fn().mockResolvedValue(undefined),
+  getRoles: jest.fn(() => require('../src/utils/roles').DEFAULT_ROLES),
+  watchCustomers: jest.fn((_scope, {onResults}) => {
+    onResults({customers: [], hasMore: false});
+    return {
+      loadMore: jest.fn().mockResolvedValue(undefined),
+      settled: () => Promise.resolve(),
+      close: jest.fn(),
+    };
+  }),
+  revertExpiredGrants: jest.fn().mockResolvedValue([]),
+  getRoleGrants: jest.fn().mockResolvedValue([]),
+  getRoleRequests: jest.fn().mockResolvedValue([]),
+  getAdmins: jest.fn().mockResolvedValue([]),
+  getMetadata: jest.fn().mockResolvedValue(null),
+  setMetadata: jest.fn().mockResolvedValue(undefined),
+  getMinimumAdmins: jest.fn(() => 1),
+  getProtectedAdminIds: jest.fn().mockResolvedValue([]),
+  getSyncState: jest.fn().mockResolvedValue({}),
+  getLocalChangeTimes: jest.fn().mockResolvedValue({}),
+  getSyncConflicts: jest.fn().mockResolvedValue([]),
+  getQuarantinedCustomers: jest.fn().mockResolvedValue([]),
+  getOutboxEntries: jest.fn().mockResolvedValue([]),
+  applySyncChanges: jest.fn().mockResolvedValue(undefined),
 };
 
 jest.mock('../src/database/DatabaseService', () => ({
@@ -26,6 +60,7 @@ jest.mock('../src/database/DatabaseService', () => ({
 jest.mock('../src/services/GraphQLService', () => ({
   GraphQLService: {
     fetchAllCustomers: jest.fn().mockResolvedValue({items: []}),
+    iterateCustomerPages: jest.fn(() => []),
     createCustomer: jest.fn().mockResolvedValue({
       id: 'mock-id',
       name: 'Mock User',
@@ -39,13 +74,22 @@ jest.mock('../src/services/GraphQLService', () => ({
       role: 'Admin',
     }),
     deleteCustomer: jest.fn().mockResolvedValue('mock-id'),
+    subscribeToCustomerChanges: jest.fn(() => jest.fn()),
+    configure: jest.fn().mockResolvedValue(undefined),
   },
 }));
 
 import App from '../App';
+import {CustomerScreen} from '../src/screens/CustomerScreen';
 
 test('renders correctly', async () => {
-  await ReactTestRenderer.act(() => {
-    ReactTestRenderer.create(<App />);
+  const alert = jest.spyOn(Alert, 'alert');
+  let renderer: ReactTestRenderer.ReactTestRenderer;
+
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(<App />);
   });
+
+  expect(alert).not.toHaveBeenCalled();
+  expect(renderer!.root.findAllByType(CustomerScreen)).toHaveLength(1);
 });
@@ -1,4 +1,25 @@
 module.exports = {
   presets: ['module:@react-native/babel-preset'],
-  plugins: ['react-native-reanimated/plugin'],
+  plugins: [
+    // Bakes these variables into the bundle at build time; see
+    // src/config/environment.ts. Restart Metro with --reset-cache after
+    // changing them.
+    [
+      'transform-inline-environment-variables',
+      {
+        include: [
+          'APP_ENV',
+          'APPSYNC_GRAPHQL_ENDPOINT',
+          'APPSYNC_API_KEY',
+          'STAGING_APPSYNC_GRAPHQL_ENDPOINT',
+          'STAGING_APPSYNC_API_KEY',
+          'PROD_APPSYNC_GRAPHQL_ENDPOINT',
+          'PROD_APPSYNC_API_KEY',
+          'TRASH_RETENTION_DAYS',
+          'MINIMUM_ADMINS',
+        ],
+      },
+    ],
+    'react-native-reanimated/plugin',
+  ],
 };
@@ -1,16 +1,30 @@
 // Jest setup for React Native
 
-// Mock react-native-sqlite-storage
-jest.mock('react-native-sqlite-storage', () => ({
-  DEBUG: jest.fn(),
-  enablePromise: jest.fn(),
-  openDatabase: jest.fn(() => Promise.resolve({
-    executeSql: jest.fn(() => Promise.resolve([{rows: {length: 0, item: jest.fn()}}])),
-    transaction: jest.fn(),
+// Mock op-sqlite, which needs the native module
+jest.mock('@op-engineering/op-sqlite', () => ({
+  open: jest.fn(() => ({
+    execute: jest.fn(() => Promise.resolve({rows: [], rowsAffected: 0})),
     close: jest.fn(),
+    delete: jest.fn(),
   })),
 }));
 
+// Mock react-native-keychain with an in-memory keychain
+jest.mock('react-native-keychain', () => {
+  const entries = new Map();
+  return {
+    ACCESSIBLE: {
+      AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY: 'AccessibleAfterFirstUnlockThisDeviceOnly',
+    },
+    getGenericPassword: async ({service} = {}) => entries.get(service) || false,
+    setGenericPassword: async (username, password, {service} = {}) => {
+      entries.set(service, {username, password, service, storage: 'mock'});
+      return {service, storage: 'mock'};
+    },
+    resetGenericPassword: async ({service} = {}) => entries.delete(service),
+  };
+});
+
 // Mock react-native-pager-view
 jest.mock('react-native-pager-view', () => {
   const React = require('react');
@@ -0,0 +1,88 @@
+// AppSync's names for the ways a request can be authorised
+export type AuthMode =
+  | 'API_KEY'
+  | 'AMAZON_COGNITO_USER_POOLS'
+  | 'OPENID_CONNECT'
+  | 'AWS_IAM';
+
+export type AuthHeaders = Record<string, string>;
+
+// What a provider may need to know about the request it authorises. IAM
+// signs all of it; the others ignore it.
+export interface AuthRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface AuthProvider {
+  readonly mode: AuthMode;
+  // Headers that authorise `request`, renewing credentials first if they
+  // are about to expire
+  getAuthHeaders(request: AuthRequest): Promise<AuthHeaders>;
+  // Called when the server rejected a request sent with `rejected`. Resolves
+  // true if credentials were renewed and the request is worth retrying.
+  handleUnauthorized?(rejected: AuthHeaders): Promise<boolean>;
+}
+
+export interface FetchInit {
+  method?: string;
+  headers?: any;
+  body?: any;
+  [option: string]: any;
+}
+
+export type FetchFunction = (input: any, init?: FetchInit) => Promise<Response>;
+
+const HTTP_UNAUTHORIZED = 401;
+
+// Apollo passes a plain object, but a Headers instance is accepted too
+const toHeaderRecord = (headers: any): Record<string, string> => {
+  const record: Record<string, string> = {};
+  if (headers && typeof headers.forEach === 'function' && !Array.isArray(headers)) {
+    headers.forEach((value: string, name: string) => {
+      record[name] = value;
+    });
+  } else if (headers) {
+    Object.entries(headers).forEach(([name, value]) => {
+      record[name] = String(value);
+    });
+  }
+  return record;
+};
+
+// Wraps `fetchImpl` so every request carries the provider's headers. A 401 is
+// retried once if the provider renews its credentials, so callers never see
+// an expired token.
+export const createAuthFetch = (
+  provider: AuthProvider,
+  fetchImpl?: FetchFunction,
+): FetchFunction => async (input, init = {}) => {
+  const baseFetch: FetchFunction = fetchImpl ?? ((...args) => fetch(...args));
+  const headers = toHeaderRecord(init.headers);
+  const request: AuthRequest = {
+    method: init.method ?? 'GET',
+    url: typeof input === 'string' ? input : input.url,
+    headers,
+    body: typeof init.body === 'string' ? init.body : undefined,
+  };
+
+  const send = async () => {
+    const auth = await provider.getAuthHeaders(request);
+    const response = await baseFetch(input, {...init, headers: {...headers, ...auth}});
+    return {auth, response};
+  };
+
+  const first = await send();
+  if (
+    first.response.status !== HTTP_UNAUTHORIZED ||
+    !provider.handleUnauthorized ||
+    !(await provider.handleUnauthorized(first.auth))
+  ) {
+    return first.response;
+  }
+
+  const retry = await send();
+  return retry.response;
+};
@@ -0,0 +1,172 @@
+import {createAuthFetch} from '../AuthProvider';
+import {ApiKeyAuthProvider, IamAuthProvider, TokenAuthProvider} from '../providers';
+
+const ENDPOINT = 'https://abc.appsync-api.ap-southeast-2.amazonaws.com/graphql';
+const request = {method: 'POST', url: ENDPOINT, headers: {}, body: '{}'};
+
+describe('TokenAuthProvider', () => {
+  let now: number;
+  let issued: number;
+  let refresh: jest.Mock;
+
+  const createProvider = () =>
+    new TokenAuthProvider({
+      tokens: {accessToken: 'token-0', expiresAt: 10 * 60 * 1000},
+      refresh,
+      now: () => now,
+    });
+
+  beforeEach(() => {
+    now = 0;
+    issued = 0;
+    refresh = jest.fn(async () => ({
+      accessToken: `token-${++issued}`,
+      expiresAt: now + 10 * 60 * 1000,
+    }));
+  });
+
+  it('should reuse a token until it is about to expire', async () => {
+    const provider = createProvider();
+
+    expect(await provider.getAuthHeaders()).toEqual({Authorization: 'token-0'});
+    now = 9 * 60 * 1000 - 1;
+    expect(await provider.getAuthHeaders()).toEqual({Authorization: 'token-0'});
+
+    now = 9 * 60 * 1000;
+    expect(await provider.getAuthHeaders()).toEqual({Authorization: 'token-1'});
+    expect(refresh).toHaveBeenCalledWith(
+      expect.objectContaining({accessToken: 'token-0'}),
+    );
+  });
+
+  it('should share one refresh between concurrent requests', async () => {
+    const provider = createProvider();
+    now = 10 * 60 * 1000;
+
+    const headers = await Promise.all([
+      provider.getAuthHeaders(),
+      provider.getAuthHeaders(),
+      provider.getAuthHeaders(),
+    ]);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(headers.map(h => h.Authorization)).toEqual(['token-1', 'token-1', 'token-1']);
+  });
+
+  it('should only refresh a rejected token once', async () => {
+    const provider = createProvider();
+
+    expect(await provider.handleUnauthorized({Authorization: 'token-0'})).toBe(true);
+    expect(await provider.handleUnauthorized({Authorization: 'token-0'})).toBe(true);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(await provider.getAuthHeaders()).toEqual({Authorization: 'token-1'});
+  });
+
+  it('should give up when the refresh fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    refresh.mockRejectedValueOnce(new Error('refresh token revoked'));
+
+    expect(await createProvider().handleUnauthorized({Authorization: 'token-0'})).toBe(
+      false,
+    );
+  });
+});
+
+describe('IamAuthProvider', () => {
+  let now: number;
+  let getCredentials: jest.Mock;
+
+  beforeEach(() => {
+    now = Date.UTC(2024, 0, 2, 3, 4, 5);
+    let issued = 0;
+    getCredentials = jest.fn(async () => ({
+      accessKeyId: `AKID${++issued}`,
+      secretAccessKey: 'secret',
+      sessionToken: 'session',
+      expiration: now + 15 * 60 * 1000,
+    }));
+  });
+
+  const credentialOf = (headers: Record<string, string>) =>
+    /Credential=(\w+)\//.exec(headers.Authorization)?.[1];
+
+  it('should sign with cached credentials until they near expiry', async () => {
+    const provider = new IamAuthProvider({
+      region: 'ap-southeast-2',
+      getCredentials,
+      now: () => now,
+    });
+
+    const first = await provider.getAuthHeaders(request);
+    expect(first['x-amz-date']).toBe('20240102T030405Z');
+    expect(first['x-amz-security-token']).toBe('session');
+    expect(first.Authorization).toContain('/ap-southeast-2/appsync/aws4_request');
+    expect(credentialOf(first)).toBe('AKID1');
+
+    now += 13 * 60 * 1000;
+    expect(credentialOf(await provider.getAuthHeaders(request))).toBe('AKID1');
+
+    now += 60 * 1000;
+    expect(credentialOf(await provider.getAuthHeaders(request))).toBe('AKID2');
+  });
+
+  it('should fetch new credentials after a rejection', async () => {
+    const provider = new IamAuthProvider({
+      region: 'ap-southeast-2',
+      getCredentials,
+      now: () => now,
+    });
+    await provider.getAuthHeaders(request);
+
+    expect(await provider.handleUnauthorized()).toBe(true);
+
+    expect(credentialOf(await provider.getAuthHeaders(request))).toBe('AKID2');
+  });
+});
+
+describe('createAuthFetch', () => {
+  const response = (status: number) => ({status} as Response);
+
+  it('should add the provider headers to each request', async () => {
+    const fetchImpl = jest.fn(async () => response(200));
+    const authFetch = createAuthFetch(new ApiKeyAuthProvider('da2-test'), fetchImpl);
+
+    await authFetch(ENDPOINT, {
+      method: 'POST',
+      headers: {'content-type': 'application/json'},
+      body: '{}',
+    });
+
+    expect(fetchImpl).toHaveBeenCalledWith(ENDPOINT, {
+      method: 'POST',
+      headers: {'content-type': 'application/json', 'x-api-key': 'da2-test'},
+      body: '{}',
+    });
+  });
+
+  it('should retry once with a refreshed token after a 401', async () => {
+    let issued = 0;
+    const provider = new TokenAuthProvider({
+      tokens: {accessToken: 'expired', expiresAt: Number.MAX_SAFE_INTEGER},
+      refresh: async () => ({
+        accessToken: `token-${++issued}`,
+        expiresAt: Number.MAX_SAFE_INTEGER,
+      }),
+    });
+    const fetchImpl = jest
+      .fn()
+      .mockResolvedValueOnce(response(401))
+      .mockResolvedValueOnce(response(401));
+    const authFetch = createAuthFetch(provider, fetchImpl);
+
+    const result = await authFetch(ENDPOINT, {method: 'POST', body: '{}'});
+
+    expect(result.status).toBe(401);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+    expect(fetchImpl.mock.calls.map(([, init]) => init.headers.Authorization)).toEqual([
+      'expired',
+      'token-1',
+    ]);
+  });
+});
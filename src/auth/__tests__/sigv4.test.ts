@@ -0,0 +1,68 @@
+import {signRequest, toAmzDate} from '../sigv4';
+
+// Credentials and clock from AWS's published SigV4 test suite
+const credentials = {
+  accessKeyId: 'AKIDEXAMPLE',
+  secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+};
+const NOW = Date.UTC(2015, 7, 30, 12, 36, 0);
+
+describe('signRequest', () => {
+  it('should format the request date', () => {
+    expect(toAmzDate(NOW)).toBe('20150830T123600Z');
+  });
+
+  it('should match the get-vanilla test vector', () => {
+    const headers = signRequest(
+      {method: 'GET', url: 'https://example.amazonaws.com/', headers: {}},
+      credentials,
+      {region: 'us-east-1', service: 'service', now: NOW},
+    );
+
+    expect(headers).toEqual({
+      'x-amz-date': '20150830T123600Z',
+      Authorization:
+        'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+        'SignedHeaders=host;x-amz-date, ' +
+        'Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31',
+    });
+  });
+
+  it('should sort query parameters', () => {
+    const headers = signRequest(
+      {
+        method: 'GET',
+        url: 'https://example.amazonaws.com/?Param2=value2&Param1=value1',
+        headers: {},
+      },
+      credentials,
+      {region: 'us-east-1', service: 'service', now: NOW},
+    );
+
+    expect(headers.Authorization).toMatch(
+      /Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500$/,
+    );
+  });
+
+  it('should sign an AppSync request with temporary credentials', () => {
+    const headers = signRequest(
+      {
+        method: 'POST',
+        url: 'https://abc.appsync-api.ap-southeast-2.amazonaws.com/graphql',
+        headers: {'Content-Type': 'application/json'},
+        body: '{"query":"{ listZellerCustomers { items { id } } }"}',
+      },
+      {...credentials, sessionToken: 'session-token'},
+      {region: 'ap-southeast-2', service: 'appsync', now: Date.UTC(2024, 0, 2, 3, 4, 5)},
+    );
+
+    expect(headers).toEqual({
+      'x-amz-date': '20240102T030405Z',
+      'x-amz-security-token': 'session-token',
+      Authorization:
+        'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20240102/ap-southeast-2/appsync/aws4_request, ' +
+        'SignedHeaders=content-type;host;x-amz-date;x-amz-security-token, ' +
+        'Signature=7a6410df8cc71b8da15205b66cdc0dc92bb77a8eba60a919ce9f3b58b291698e',
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import {AuthHeaders, AuthProvider, AuthRequest} from './AuthProvider';
+import {AwsCredentials, signRequest} from './sigv4';
+
+// Renew this long before expiry so a request cannot expire in flight
+export const DEFAULT_REFRESH_MARGIN_MS = 60 * 1000;
+
+export class ApiKeyAuthProvider implements AuthProvider {
+  public readonly mode = 'API_KEY';
+
+  constructor(private readonly apiKey: string) {}
+
+  public async getAuthHeaders(): Promise<AuthHeaders> {
+    return {'x-api-key': this.apiKey};
+  }
+}
+
+export interface AuthTokens {
+  // Sent as-is in the Authorization header, which is what AppSync expects
+  // for both Cognito user pools and OIDC
+  accessToken: string;
+  // Epoch milliseconds
+  expiresAt: number;
+  refreshToken?: string;
+}
+
+export interface TokenAuthProviderOptions {
+  mode?: 'AMAZON_COGNITO_USER_POOLS' | 'OPENID_CONNECT';
+  tokens?: AuthTokens | null;
+  // Exchanges the current tokens (null if there are none yet) for new ones
+  refresh: (current: AuthTokens | null) => Promise<AuthTokens>;
+  now?: () => number;
+  refreshMarginMs?: number;
+}
+
+// Bearer tokens from Cognito user pools or an OIDC provider. Tokens are
+// refreshed shortly before they expire, and again if the server rejects one
+// early (e.g. after it was revoked). Concurrent requests share one refresh.
+export class TokenAuthProvider implements AuthProvider {
+  public readonly mode: 'AMAZON_COGNITO_USER_POOLS' | 'OPENID_CONNECT';
+  private tokens: AuthTokens | null;
+  private refreshing: Promise<AuthTokens> | null = null;
+  private readonly now: () => number;
+  private readonly refreshMarginMs: number;
+
+  constructor(private readonly options: TokenAuthProviderOptions) {
+    this.mode = options.mode ?? 'AMAZON_COGNITO_USER_POOLS';
+    this.tokens = options.tokens ?? null;
+    this.now = options.now ?? Date.now;
+    this.refreshMarginMs = options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS;
+  }
+
+  public setTokens(tokens: AuthTokens | null): void {
+    this.tokens = tokens;
+  }
+
+  public async getAuthHeaders(): Promise<AuthHeaders> {
+    const tokens =
+      this.tokens && this.tokens.expiresAt - this.refreshMarginMs > this.now()
+        ? this.tokens
+        : await this.refresh();
+    return {Authorization: tokens.accessToken};
+  }
+
+  public async handleUnauthorized(rejected: AuthHeaders): Promise<boolean> {
+    // Another request already replaced the rejected token
+    if (this.tokens && rejected.Authorization !== this.tokens.accessToken) {
+      return true;
+    }
+    try {
+      await this.refresh();
+      return true;
+    } catch (error) {
+      console.error('Token refresh failed:', error);
+      return false;
+    }
+  }
+
+  public refresh(): Promise<AuthTokens> {
+    if (!this.refreshing) {
+      this.refreshing = this.options
+        .refresh(this.tokens)
+        .then(tokens => {
+          this.tokens = tokens;
+          return tokens;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+}
+
+export interface IamAuthProviderOptions {
+  region: string;
+  service?: string;
+  // Fetches credentials, e.g. from a Cognito identity pool. Called again
+  // when the cached ones near their expiration or are rejected.
+  getCredentials: () => Promise<AwsCredentials>;
+  now?: () => number;
+  refreshMarginMs?: number;
+}
+
+// Signs each request with SigV4 using (usually temporary) IAM credentials.
+export class IamAuthProvider implements AuthProvider {
+  public readonly mode = 'AWS_IAM';
+  private credentials: AwsCredentials | null = null;
+  private loading: Promise<AwsCredentials> | null = null;
+  private readonly now: () => number;
+  private readonly refreshMarginMs: number;
+
+  constructor(private readonly options: IamAuthProviderOptions) {
+    this.now = options.now ?? Date.now;
+    this.refreshMarginMs = options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS;
+  }
+
+  public async getAuthHeaders(request: AuthRequest): Promise<AuthHeaders> {
+    const credentials = await this.getCredentials();
+    return signRequest(request, credentials, {
+      region: this.options.region,
+      service: this.options.service ?? 'appsync',
+      now: this.now(),
+    });
+  }
+
+  public async handleUnauthorized(): Promise<boolean> {
+    this.credentials = null;
+    return true;
+  }
+
+  private getCredentials(): Promise<AwsCredentials> {
+    const cached = this.credentials;
+    if (
+      cached &&
+      (cached.expiration === undefined ||
+        cached.expiration - this.refreshMarginMs > this.now())
+    ) {
+      return Promise.resolve(cached);
+    }
+
+    if (!this.loading) {
+      this.loading = this.options
+        .getCredentials()
+        .then(credentials => {
+          this.credentials = credentials;
+          return credentials;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+}
+
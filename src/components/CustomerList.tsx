@@ -1,4 +1,4 @@
-import React, {useMemo} from 'react';
+import React, {useEffect, useMemo, useState} from 'react';
 import {
   View,
   Text,
@@ -7,8 +7,11 @@ import {
   StyleSheet,
   Alert,
   RefreshControl,
+  ActivityIndicator,
 } from 'react-native';
+import Feather from 'react-native-vector-icons/Feather';
 import {ZellerCustomer} from '../types';
+import {DEFAULT_MINIMUM_ADMINS, describeAdminMinimum, describeTimeLeft} from '../utils/roles';
 
 interface CustomerListProps {
   customers: ZellerCustomer[];
@@ -18,12 +21,30 @@ interface CustomerListProps {
   onRefresh?: () => void;
   showFetchButton?: boolean;
   onFetchCustomers?: () => void;
+  // Asks for the next page as the user nears the end of the loaded rows
+  onEndReached?: () => void;
+  loadingMore?: boolean;
+  // Admins the team can't lose, and the minimum that protects them
+  protectedIds?: string[];
+  minimumAdmins?: number;
+  // Label of the role each customer with a pending promotion asked for, by id
+  pendingRoles?: Record<string, string>;
+  // When each temporarily elevated customer's role ends, by id
+  grantExpiries?: Record<string, number>;
 }
 
+// How often the countdowns are brought up to date
+const COUNTDOWN_INTERVAL_MS = 60 * 1000;
+
 interface CustomerItemProps {
   customer: ZellerCustomer;
   onEdit: () => void;
   onDelete: () => void;
+  // Why the customer can't be deleted, if it can't
+  protectedReason: string | null;
+  pendingRole: string | null;
+  // e.g. "5h", while the customer's role is temporary
+  timeLeft: string | null;
 }
 
 interface CustomerSection {
@@ -40,39 +61,36 @@ const getInitial = (name: string) => {
   return firstChar.match(/[A-Z]/) ? firstChar : '#';
 };
 
+// Customers arrive already in list order, a page at a time. A page that
+// carries on with the same initial extends the section above it instead of
+// starting another one.
 const buildSections = (customers: ZellerCustomer[]): CustomerSection[] => {
-  if (!customers.length) {
-    return [];
-  }
-
-  const sorted = [...customers].sort((a, b) =>
-    a.name.localeCompare(b.name, undefined, {sensitivity: 'base'}),
-  );
-
-  const mapped: Record<string, ZellerCustomer[]> = {};
-  sorted.forEach(customer => {
-    const key = getInitial(customer.name);
-    if (!mapped[key]) {
-      mapped[key] = [];
+  const sections: CustomerSection[] = [];
+  customers.forEach(customer => {
+    const title = getInitial(customer.name);
+    const last = sections[sections.length - 1];
+    if (last && last.title === title) {
+      last.data.push(customer);
+    } else {
+      sections.push({title, data: [customer]});
     }
-    mapped[key].push(customer);
   });
-
-  return Object.keys(mapped)
-    .sort((a, b) => {
-      if (a === '#') {
-        return 1;
-      }
-      if (b === '#') {
-        return -1;
-      }
-      return a.localeCompare(b);
-    })
-    .map(key => ({title: key, data: mapped[key]}));
+  return sections;
 };
 
-const CustomerItem: React.FC<CustomerItemProps> = ({customer, onEdit, onDelete}) => {
+const CustomerItem: React.FC<CustomerItemProps> = ({
+  customer,
+  onEdit,
+  onDelete,
+  protectedReason,
+  pendingRole,
+  timeLeft,
+}) => {
   const handleDelete = () => {
+    if (protectedReason) {
+      Alert.alert("Can't Delete", protectedReason);
+      return;
+    }
     Alert.alert(
       'Delete Customer',
       `Are you sure you want to delete ${customer.name}?`,
@@ -94,13 +112,27 @@ const CustomerItem: React.FC<CustomerItemProps> = ({customer, onEdit, onDelete})
         <Text style={styles.avatarText}>{getInitial(customer.name)}</Text>
       </View>
       <Text style={styles.customerName}>{customer.name}</Text>
-      <Text
-        style={[
-          styles.roleText,
-          customer.role === 'Admin' ? styles.adminRole : styles.managerRole,
-        ]}>
-        {customer.role}
-      </Text>
+      {protectedReason && (
+        <Feather
+          name="lock"
+          size={14}
+          color="#6B778C"
+          style={styles.lockIcon}
+          accessibilityLabel="Required admin"
+        />
+      )}
+      {pendingRole && (
+        <View style={styles.pendingBadge}>
+          <Text style={styles.pendingBadgeText}>{pendingRole} pending</Text>
+        </View>
+      )}
+      {timeLeft && (
+        <View style={styles.countdownChip}>
+          <Feather name="clock" size={12} color="#1B6FF9" />
+          <Text style={styles.countdownChipText}>{timeLeft}</Text>
+        </View>
+      )}
+      <Text style={styles.roleText}>{customer.role}</Text>
     </TouchableOpacity>
   );
 };
@@ -113,14 +145,38 @@ export const CustomerList: React.FC<CustomerListProps> = ({
   onRefresh,
   showFetchButton,
   onFetchCustomers,
+  onEndReached,
+  loadingMore = false,
+  protectedIds = [],
+  minimumAdmins = DEFAULT_MINIMUM_ADMINS,
+  pendingRoles = {},
+  grantExpiries = {},
 }) => {
   const sections = useMemo(() => buildSections(customers), [customers]);
+  const [now, setNow] = useState(Date.now());
+  const hasCountdowns = Object.keys(grantExpiries).length > 0;
+
+  useEffect(() => {
+    if (!hasCountdowns) {
+      return;
+    }
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), COUNTDOWN_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasCountdowns]);
 
   const renderCustomer = ({item}: {item: ZellerCustomer}) => (
     <CustomerItem
       customer={item}
       onEdit={() => onEditCustomer(item)}
       onDelete={() => onDeleteCustomer(item.id)}
+      protectedReason={
+        protectedIds.includes(item.id) ? describeAdminMinimum(item.name, minimumAdmins) : null
+      }
+      pendingRole={pendingRoles[item.id] ?? null}
+      timeLeft={
+        grantExpiries[item.id] !== undefined ? describeTimeLeft(grantExpiries[item.id], now) : null
+      }
     />
   );
 
@@ -165,7 +221,13 @@ export const CustomerList: React.FC<CustomerListProps> = ({
           />
         ) : undefined
       }
-      ListFooterComponent={<View style={{height: 48}} />}
+      onEndReached={onEndReached}
+      onEndReachedThreshold={0.5}
+      ListFooterComponent={
+        <View style={styles.footer}>
+          {loadingMore && <ActivityIndicator color="#1B6FF9" />}
+        </View>
+      }
     />
   );
 };
@@ -174,6 +236,10 @@ const styles = StyleSheet.create({
   list: {
     flex: 1,
   },
+  footer: {
+    height: 48,
+    justifyContent: 'center',
+  },
   customerItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -201,14 +267,39 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#1F2933',
   },
-  roleText: {
-    fontSize: 14,
+  lockIcon: {
+    marginRight: 6,
+  },
+  pendingBadge: {
+    marginRight: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 999,
+    backgroundColor: '#FEF3C7',
+  },
+  pendingBadgeText: {
+    fontSize: 12,
     fontWeight: '600',
+    color: '#B45309',
   },
-  adminRole: {
-    color: '#5B6C94',
+  countdownChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginRight: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 999,
+    backgroundColor: '#E6F1FF',
   },
-  managerRole: {
+  countdownChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1B6FF9',
+  },
+  roleText: {
+    fontSize: 14,
+    fontWeight: '600',
     color: '#5B6C94',
   },
   sectionHeader: {
@@ -0,0 +1,176 @@
+import React, {useState} from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import {CustomerEvent, CustomerEventSource, ZellerCustomer} from '../types';
+
+interface CustomerTimelineProps {
+  events: CustomerEvent[];
+}
+
+const SOURCE_LABELS: Record<CustomerEventSource, string> = {
+  local: 'on this device',
+  sync: 'by sync',
+  import: 'by import',
+  expiry: 'as a temporary role ended',
+  repair: 'by a database repair',
+};
+
+const describeEvent = (event: CustomerEvent): string => {
+  if (event.roleChange) {
+    return event.roleChange === 'promotion' ? 'Promoted to Admin' : 'Demoted to Manager';
+  }
+
+  switch (event.type) {
+    case 'create':
+      return 'Created';
+    case 'update':
+      return 'Updated';
+    case 'delete':
+      return 'Deleted';
+    case 'restore':
+      return 'Restored';
+    case 'purge':
+      return 'Deleted forever';
+  }
+};
+
+// Field-by-field differences, e.g. "Email: a@x.com → b@x.com"
+const describeChanges = (
+  before: ZellerCustomer | null,
+  after: ZellerCustomer | null,
+): string[] => {
+  if (!before || !after) {
+    return [];
+  }
+
+  const changes: string[] = [];
+  if (before.name !== after.name) {
+    changes.push(`Name: ${before.name} → ${after.name}`);
+  }
+  if (before.email !== after.email) {
+    changes.push(`Email: ${before.email} → ${after.email}`);
+  }
+  if (before.role !== after.role) {
+    changes.push(`Role: ${before.role} → ${after.role}`);
+  }
+  return changes;
+};
+
+// A customer's audit log, newest first, with a filter for role changes.
+export const CustomerTimeline: React.FC<CustomerTimelineProps> = ({events}) => {
+  const [roleChangesOnly, setRoleChangesOnly] = useState(false);
+  const visibleEvents = roleChangesOnly
+    ? events.filter(event => event.roleChange !== null)
+    : events;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>History</Text>
+        <TouchableOpacity
+          style={[styles.filter, roleChangesOnly && styles.filterActive]}
+          onPress={() => setRoleChangesOnly(prev => !prev)}
+          accessibilityRole="switch"
+          accessibilityState={{checked: roleChangesOnly}}
+        >
+          <Text style={[styles.filterText, roleChangesOnly && styles.filterTextActive]}>
+            Role changes
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {visibleEvents.length === 0 ? (
+        <Text style={styles.emptyText}>
+          {roleChangesOnly ? 'No role changes recorded' : 'No changes recorded'}
+        </Text>
+      ) : (
+        visibleEvents.map(event => (
+          <View key={event.id} style={styles.event}>
+            <View style={[styles.dot, event.roleChange && styles.dotRoleChange]} />
+            <View style={styles.eventText}>
+              <Text style={styles.eventTitle}>{describeEvent(event)}</Text>
+              <Text style={styles.eventDetail}>
+                {new Date(event.occurredAt).toLocaleString()} · {SOURCE_LABELS[event.source]}
+              </Text>
+              {describeChanges(event.before, event.after).map(change => (
+                <Text key={change} style={styles.eventChange}>
+                  {change}
+                </Text>
+              ))}
+            </View>
+          </View>
+        ))
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 32,
+    paddingHorizontal: 24,
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 15,
+    color: '#2F3A4C',
+    fontWeight: '500',
+  },
+  filter: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  filterActive: {
+    borderColor: '#1B6FF9',
+    backgroundColor: '#EEF3FF',
+  },
+  filterText: {
+    fontSize: 13,
+    color: '#6B778C',
+  },
+  filterTextActive: {
+    color: '#1B6FF9',
+  },
+  event: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    marginTop: 5,
+    borderRadius: 5,
+    backgroundColor: '#CBD5E1',
+  },
+  dotRoleChange: {
+    backgroundColor: '#1B6FF9',
+  },
+  eventText: {
+    flex: 1,
+    gap: 2,
+  },
+  eventTitle: {
+    fontSize: 15,
+    color: '#0F172A',
+    fontWeight: '500',
+  },
+  eventDetail: {
+    fontSize: 13,
+    color: '#6B778C',
+  },
+  eventChange: {
+    fontSize: 13,
+    color: '#2F3A4C',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#6B778C',
+  },
+});
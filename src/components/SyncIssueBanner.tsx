@@ -0,0 +1,53 @@
+import React from 'react';
+import {Text, TouchableOpacity, StyleSheet} from 'react-native';
+import Feather from 'react-native-vector-icons/Feather';
+
+interface SyncIssueBannerProps {
+  message: string;
+  onPress: () => void;
+  accessibilityLabel?: string;
+}
+
+export const SyncIssueBanner: React.FC<SyncIssueBannerProps> = ({
+  message,
+  onPress,
+  accessibilityLabel,
+}) => {
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onPress={onPress}
+      activeOpacity={0.8}
+      accessibilityLabel={accessibilityLabel ?? message}>
+      <Feather name="alert-triangle" size={16} color="#B45309" />
+      <Text style={styles.text}>{message}</Text>
+      <Text style={styles.action}>Review</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#FFF7E6',
+    borderWidth: 1,
+    borderColor: '#FCD9A8',
+  },
+  text: {
+    flex: 1,
+    fontSize: 14,
+    color: '#92400E',
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#B45309',
+  },
+});
@@ -8,18 +8,20 @@ import Animated, {
 } from 'react-native-reanimated';
 import {UserRole} from '../types';
 
+export interface RoleTab {
+  role: UserRole;
+  label: string;
+}
+
 interface TabSelectorProps {
+  // In display order, from the role catalog
+  tabs: RoleTab[];
   selectedRole: UserRole;
   onRoleChange: (role: UserRole) => void;
 }
 
-const tabs: {role: UserRole; label: string}[] = [
-  {role: 'All', label: 'All'},
-  {role: 'Admin', label: 'Admin'},
-  {role: 'Manager', label: 'Manager'},
-];
-
 export const TabSelector: React.FC<TabSelectorProps> = ({
+  tabs,
   selectedRole,
   onRoleChange,
 }) => {
@@ -47,7 +49,7 @@ export const TabSelector: React.FC<TabSelectorProps> = ({
       duration: 200,
       easing: Easing.out(Easing.quad),
     });
-  }, [selectedRole, tabWidth, translateX]);
+  }, [selectedRole, tabWidth, tabs, translateX]);
 
   const animatedThumbStyle = useAnimatedStyle(() => {
     'worklet';
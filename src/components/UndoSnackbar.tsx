@@ -0,0 +1,57 @@
+import React from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+
+interface UndoSnackbarProps {
+  message: string;
+  onUndo: () => void;
+}
+
+// Shown along the bottom of the screen while a change can still be undone.
+// The caller decides when it appears and disappears.
+export const UndoSnackbar: React.FC<UndoSnackbarProps> = ({message, onUndo}) => {
+  return (
+    <View style={styles.container} accessibilityLiveRegion="polite">
+      <Text style={styles.text} numberOfLines={1}>
+        {message}
+      </Text>
+      <TouchableOpacity
+        onPress={onUndo}
+        hitSlop={{top: 8, bottom: 8, left: 8, right: 8}}
+        accessibilityRole="button"
+        accessibilityLabel="Undo">
+        <Text style={styles.action}>Undo</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 20,
+    right: 96,
+    bottom: 36,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#1B1F3B',
+    shadowColor: '#000000',
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    shadowOffset: {width: 0, height: 4},
+    elevation: 6,
+  },
+  text: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8AB4FF',
+  },
+});
@@ -85,6 +85,40 @@ describe('CustomerList', () => {
     expect(alertSpy).toHaveBeenCalled();
   });
 
+  it('should explain instead of confirming when the row is a required admin', () => {
+    const alertSpy = jest.spyOn(Alert, 'alert').mockImplementation(jest.fn());
+    const {getByText} = render(
+      <CustomerList
+        customers={mockCustomers}
+        onEditCustomer={mockOnEditCustomer}
+        onDeleteCustomer={mockOnDeleteCustomer}
+        protectedIds={['1']}
+        minimumAdmins={1}
+      />
+    );
+
+    fireEvent(getByText('John Doe'), 'longPress');
+
+    expect(alertSpy).toHaveBeenCalledWith(
+      "Can't Delete",
+      'John Doe is needed to keep at least one Admin on the team. Make someone else an Admin first.',
+    );
+  });
+
+  it('should count down a temporary role', () => {
+    const {getByText, queryByText} = render(
+      <CustomerList
+        customers={mockCustomers}
+        onEditCustomer={mockOnEditCustomer}
+        onDeleteCustomer={mockOnDeleteCustomer}
+        grantExpiries={{'2': Date.now() + 5 * 60 * 60 * 1000}}
+      />
+    );
+
+    expect(getByText('5h')).toBeTruthy();
+    expect(queryByText('pending')).toBeNull();
+  });
+
   it('should render section headers', () => {
     const {getAllByText} = render(
       <CustomerList
@@ -99,4 +133,32 @@ describe('CustomerList', () => {
     const headers = getAllByText('J');
     expect(headers.length).toBeGreaterThan(0);
   });
+
+  it('should continue a section when the next page starts with the same letter', () => {
+    const firstPage = [mockCustomers[1], mockCustomers[0]];
+    const nextPage: ZellerCustomer[] = [
+      {id: '3', name: 'Julia Roberts', email: 'julia@example.com', role: 'Admin'},
+      {id: '4', name: '4 Corners Pty', email: 'corners@example.com', role: 'Manager'},
+    ];
+    const {getAllByText, getByText, rerender} = render(
+      <CustomerList
+        customers={firstPage}
+        onEditCustomer={mockOnEditCustomer}
+        onDeleteCustomer={mockOnDeleteCustomer}
+      />
+    );
+
+    rerender(
+      <CustomerList
+        customers={[...firstPage, ...nextPage]}
+        onEditCustomer={mockOnEditCustomer}
+        onDeleteCustomer={mockOnDeleteCustomer}
+      />
+    );
+
+    // One "J" header plus an avatar per J customer
+    expect(getAllByText('J')).toHaveLength(4);
+    expect(getAllByText('#')).toHaveLength(2);
+    expect(getByText('Julia Roberts')).toBeTruthy();
+  });
 });
@@ -0,0 +1,66 @@
+import React from 'react';
+import {render, fireEvent} from '@testing-library/react-native';
+import {CustomerTimeline} from '../CustomerTimeline';
+import {CustomerEvent, ZellerCustomer} from '../../types';
+
+describe('CustomerTimeline', () => {
+  const manager: ZellerCustomer = {
+    id: '1',
+    name: 'John Doe',
+    email: 'john@example.com',
+    role: 'Manager',
+  };
+  const admin: ZellerCustomer = {...manager, role: 'Admin'};
+
+  const events: CustomerEvent[] = [
+    {
+      id: 3,
+      customerId: '1',
+      type: 'update',
+      source: 'sync',
+      before: admin,
+      after: {...admin, email: 'john@zeller.com'},
+      roleChange: null,
+      occurredAt: 3000,
+    },
+    {
+      id: 2,
+      customerId: '1',
+      type: 'update',
+      source: 'local',
+      before: manager,
+      after: admin,
+      roleChange: 'promotion',
+      occurredAt: 2000,
+    },
+    {
+      id: 1,
+      customerId: '1',
+      type: 'create',
+      source: 'import',
+      before: null,
+      after: manager,
+      roleChange: null,
+      occurredAt: 1000,
+    },
+  ];
+
+  it('should list each change with what changed', () => {
+    const {getByText} = render(<CustomerTimeline events={events} />);
+
+    expect(getByText('Created')).toBeTruthy();
+    expect(getByText('Promoted to Admin')).toBeTruthy();
+    expect(getByText('Role: Manager → Admin')).toBeTruthy();
+    expect(getByText('Email: john@example.com → john@zeller.com')).toBeTruthy();
+  });
+
+  it('should filter down to role changes', () => {
+    const {getByText, queryByText} = render(<CustomerTimeline events={events} />);
+
+    fireEvent.press(getByText('Role changes'));
+
+    expect(getByText('Promoted to Admin')).toBeTruthy();
+    expect(queryByText('Created')).toBeNull();
+    expect(queryByText('Updated')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  EnvironmentConfigError,
+  assertEnvironmentUsable,
+  getDefaultEnvironmentName,
+  getEnvironmentConfig,
+  validateEnvironment,
+} from '../environment';
+
+const STAGING = 'https://staging123.appsync-api.ap-southeast-2.amazonaws.com/graphql';
+
+describe('environment config', () => {
+  it('should read each environment from its own variables', () => {
+    const config = getEnvironmentConfig('staging', {
+      STAGING_APPSYNC_GRAPHQL_ENDPOINT: ` ${STAGING} `,
+      STAGING_APPSYNC_API_KEY: 'da2-staging',
+    });
+
+    expect(config).toEqual({
+      name: 'staging',
+      label: 'Staging',
+      graphqlEndpoint: STAGING,
+      apiKey: 'da2-staging',
+      databaseName: 'ZellerCustomers-staging.db',
+      trashRetentionDays: 30,
+      minimumAdmins: 1,
+      roleCatalogQuery: false,
+    });
+  });
+
+  it('should fall back to aws-exports for dev only', () => {
+    expect(getEnvironmentConfig('dev', {}).graphqlEndpoint).toMatch(
+      /^https:\/\/.+\/graphql$/,
+    );
+    expect(getEnvironmentConfig('dev', {}).databaseName).toBe('ZellerCustomers.db');
+    expect(getEnvironmentConfig('prod', {}).graphqlEndpoint).toBe('');
+  });
+
+  it('should need no configuration for the mock environment', () => {
+    expect(validateEnvironment(getEnvironmentConfig('mock', {}))).toEqual([]);
+  });
+
+  it('should report missing and malformed values', () => {
+    expect(validateEnvironment(getEnvironmentConfig('prod', {}))).toEqual([
+      'GraphQL endpoint is not set',
+      'API key is not set',
+    ]);
+    expect(
+      validateEnvironment(
+        getEnvironmentConfig('staging', {
+          STAGING_APPSYNC_GRAPHQL_ENDPOINT: 'http://example.com/api',
+          STAGING_APPSYNC_API_KEY: 'your-appsync-api-key',
+        }),
+      ),
+    ).toEqual([
+      'GraphQL endpoint must be an https URL ending in /graphql',
+      'API key looks like a placeholder',
+    ]);
+  });
+
+  it('should read the trash retention period', () => {
+    expect(
+      getEnvironmentConfig('mock', {TRASH_RETENTION_DAYS: '7'}).trashRetentionDays,
+    ).toBe(7);
+    expect(
+      validateEnvironment(getEnvironmentConfig('mock', {TRASH_RETENTION_DAYS: 'a week'})),
+    ).toEqual(['Trash retention must be a whole number of days above zero']);
+  });
+
+  it('should read the minimum number of admins', () => {
+    expect(getEnvironmentConfig('mock', {MINIMUM_ADMINS: '2'}).minimumAdmins).toBe(2);
+    expect(getEnvironmentConfig('mock', {MINIMUM_ADMINS: '0'}).minimumAdmins).toBe(0);
+    expect(
+      validateEnvironment(getEnvironmentConfig('mock', {MINIMUM_ADMINS: 'two'})),
+    ).toEqual(['Minimum admins must be a whole number']);
+  });
+
+  it('should only query the role catalog where the endpoint offers it', () => {
+    expect(getEnvironmentConfig('prod', {}).roleCatalogQuery).toBe(false);
+    expect(
+      getEnvironmentConfig('prod', {ROLE_CATALOG_QUERY: 'true'}).roleCatalogQuery,
+    ).toBe(true);
+    expect(getEnvironmentConfig('mock', {}).roleCatalogQuery).toBe(true);
+  });
+
+  it('should throw a config error for an unusable environment', () => {
+    expect(() => assertEnvironmentUsable(getEnvironmentConfig('prod', {}))).toThrow(
+      EnvironmentConfigError,
+    );
+  });
+
+  it('should default to dev and reject unknown APP_ENV values', () => {
+    expect(getDefaultEnvironmentName({})).toBe('dev');
+    expect(getDefaultEnvironmentName({APP_ENV: 'staging'})).toBe('staging');
+    expect(() => getDefaultEnvironmentName({APP_ENV: 'qa'})).toThrow(
+      EnvironmentConfigError,
+    );
+  });
+});
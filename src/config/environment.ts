@@ -0,0 +1,186 @@
+import awsconfig from '../../aws-exports';
+import {DEFAULT_MINIMUM_ADMINS} from '../utils/roles';
+
+export type EnvironmentName = 'dev' | 'staging' | 'prod' | 'mock';
+
+export interface EnvironmentConfig {
+  name: EnvironmentName;
+  label: string;
+  graphqlEndpoint: string;
+  apiKey: string;
+  databaseName: string;
+  // Days a deleted customer stays in the trash before it is purged
+  trashRetentionDays: number;
+  // Admins the team must keep; changes that would leave fewer are refused.
+  // 0 turns the rule off.
+  minimumAdmins: number;
+  // Whether the endpoint answers listZellerRoles, which the AppSync schema
+  // lacks. Without it the role catalog is only kept on the device.
+  roleCatalogQuery: boolean;
+}
+
+// The build's environment variables cannot produce a usable configuration
+export class EnvironmentConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnvironmentConfigError';
+  }
+}
+
+// Raw variables as read from the build environment
+export type EnvironmentVariables = Record<string, string | undefined>;
+
+export const ENVIRONMENT_NAMES: EnvironmentName[] = ['dev', 'staging', 'prod', 'mock'];
+
+const LABELS: Record<EnvironmentName, string> = {
+  dev: 'Development',
+  staging: 'Staging',
+  prod: 'Production',
+  mock: 'Local mock',
+};
+
+// Dev keeps the original file name (DatabaseService's default) so existing
+// installs keep their data.
+const DATABASE_NAMES: Record<EnvironmentName, string> = {
+  dev: 'ZellerCustomers.db',
+  staging: 'ZellerCustomers-staging.db',
+  prod: 'ZellerCustomers-prod.db',
+  mock: 'ZellerCustomers-mock.db',
+};
+
+// The babel inline-environment-variables plugin only replaces direct
+// `process.env.NAME` references, so each variable is read by name.
+export const readEnvironmentVariables = (): EnvironmentVariables => ({
+  APP_ENV: process.env.APP_ENV,
+  APPSYNC_GRAPHQL_ENDPOINT: process.env.APPSYNC_GRAPHQL_ENDPOINT,
+  APPSYNC_API_KEY: process.env.APPSYNC_API_KEY,
+  STAGING_APPSYNC_GRAPHQL_ENDPOINT: process.env.STAGING_APPSYNC_GRAPHQL_ENDPOINT,
+  STAGING_APPSYNC_API_KEY: process.env.STAGING_APPSYNC_API_KEY,
+  PROD_APPSYNC_GRAPHQL_ENDPOINT: process.env.PROD_APPSYNC_GRAPHQL_ENDPOINT,
+  PROD_APPSYNC_API_KEY: process.env.PROD_APPSYNC_API_KEY,
+  TRASH_RETENTION_DAYS: process.env.TRASH_RETENTION_DAYS,
+  MINIMUM_ADMINS: process.env.MINIMUM_ADMINS,
+  ROLE_CATALOG_QUERY: process.env.ROLE_CATALOG_QUERY,
+});
+
+export const isEnvironmentName = (value: any): value is EnvironmentName =>
+  ENVIRONMENT_NAMES.includes(value);
+
+const clean = (value?: string) => (value || '').trim();
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// NaN for anything but a whole number of days, so validation can report it
+const parseRetentionDays = (value?: string): number => {
+  const days = clean(value);
+  if (!days) {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+  return /^\d+$/.test(days) ? Number(days) : NaN;
+};
+
+// NaN for anything but a whole number, so validation can report it
+const parseMinimumAdmins = (value?: string): number => {
+  const minimum = clean(value);
+  if (!minimum) {
+    return DEFAULT_MINIMUM_ADMINS;
+  }
+  return /^\d+$/.test(minimum) ? Number(minimum) : NaN;
+};
+
+export const getEnvironmentConfig = (
+  name: EnvironmentName,
+  variables: EnvironmentVariables = readEnvironmentVariables(),
+): EnvironmentConfig => {
+  let graphqlEndpoint = '';
+  let apiKey = '';
+
+  switch (name) {
+    case 'dev':
+      // aws-exports.js is what `amplify pull` generates, so it remains the
+      // fallback for dev only
+      graphqlEndpoint =
+        clean(variables.APPSYNC_GRAPHQL_ENDPOINT) ||
+        awsconfig.aws_appsync_graphqlEndpoint;
+      apiKey = clean(variables.APPSYNC_API_KEY) || awsconfig.aws_appsync_apiKey;
+      break;
+    case 'staging':
+      graphqlEndpoint = clean(variables.STAGING_APPSYNC_GRAPHQL_ENDPOINT);
+      apiKey = clean(variables.STAGING_APPSYNC_API_KEY);
+      break;
+    case 'prod':
+      graphqlEndpoint = clean(variables.PROD_APPSYNC_GRAPHQL_ENDPOINT);
+      apiKey = clean(variables.PROD_APPSYNC_API_KEY);
+      break;
+    case 'mock':
+      // Requests never leave the device; see src/mock
+      graphqlEndpoint = 'https://mock.appsync-api.local/graphql';
+      apiKey = 'mock-api-key';
+      break;
+  }
+
+  return {
+    name,
+    label: LABELS[name],
+    graphqlEndpoint,
+    apiKey,
+    databaseName: DATABASE_NAMES[name],
+    trashRetentionDays: parseRetentionDays(variables.TRASH_RETENTION_DAYS),
+    minimumAdmins: parseMinimumAdmins(variables.MINIMUM_ADMINS),
+    // The mock serves the query itself
+    roleCatalogQuery: name === 'mock' || clean(variables.ROLE_CATALOG_QUERY) === 'true',
+  };
+};
+
+// Returns what is wrong with `config`, or an empty list when it is usable.
+export const validateEnvironment = (config: EnvironmentConfig): string[] => {
+  const problems: string[] = [];
+
+  if (!config.graphqlEndpoint) {
+    problems.push('GraphQL endpoint is not set');
+  } else if (!/^https:\/\/[^/\s]+\/graphql$/.test(config.graphqlEndpoint)) {
+    problems.push('GraphQL endpoint must be an https URL ending in /graphql');
+  }
+
+  if (!config.apiKey) {
+    problems.push('API key is not set');
+  } else if (/\s/.test(config.apiKey) || config.apiKey.startsWith('your-')) {
+    problems.push('API key looks like a placeholder');
+  }
+
+  if (!(config.trashRetentionDays > 0)) {
+    problems.push('Trash retention must be a whole number of days above zero');
+  }
+
+  if (!(config.minimumAdmins >= 0)) {
+    problems.push('Minimum admins must be a whole number');
+  }
+
+  return problems;
+};
+
+// Environment used when nothing has been chosen in settings. An APP_ENV that
+// is not a known name is a build mistake and fails loudly.
+export const getDefaultEnvironmentName = (
+  variables: EnvironmentVariables = readEnvironmentVariables(),
+): EnvironmentName => {
+  const value = clean(variables.APP_ENV);
+  if (!value) {
+    return 'dev';
+  }
+  if (!isEnvironmentName(value)) {
+    throw new EnvironmentConfigError(
+      `APP_ENV must be one of ${ENVIRONMENT_NAMES.join(', ')}; got "${value}"`,
+    );
+  }
+  return value;
+};
+
+export const assertEnvironmentUsable = (config: EnvironmentConfig): void => {
+  const problems = validateEnvironment(config);
+  if (problems.length > 0) {
+    throw new EnvironmentConfigError(
+      `${config.label} environment is misconfigured: ${problems.join('; ')}`,
+    );
+  }
+};
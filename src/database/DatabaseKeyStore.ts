@@ -0,0 +1,10 @@
+// Which of a database's keys: the one it is encrypted under, or one it is
+// being moved to, kept until the move is known to have finished.
+export type DatabaseKeySlot = 'current' | 'pending';
+
+// Keeps database keys off the device's disk. The app uses KeychainKeyStore.
+export interface DatabaseKeyStore {
+  getKey: (name: string, slot: DatabaseKeySlot) => Promise<string | null>;
+  setKey: (name: string, slot: DatabaseKeySlot, key: string) => Promise<void>;
+  deleteKey: (name: string, slot: DatabaseKeySlot) => Promise<void>;
+}
@@ -1,342 +1,2336 @@
-import SQLite from 'react-native-sqlite-storage';
-import {ZellerCustomer} from '../types';
+import {
+  BackupCustomer,
+  BackupImportMode,
+  BackupImportReport,
+  BulkInsertReport,
+  CustomerEvent,
+  CustomerRole,
+  CustomerPage,
+  CustomerPageQuery,
+  CustomerQueryScope,
+  CustomerEventSource,
+  CustomerEventType,
+  DatabaseBackup,
+  DatabaseHealthReport,
+  DeletedCustomer,
+  OutboxEntry,
+  OutboxOperation,
+  OutboxStatus,
+  PendingDeletion,
+  QuarantinedCustomer,
+  RoleDefinition,
+  RoleGrant,
+  RoleRequest,
+  RoleRequestStatus,
+  SyncChangeSet,
+  SyncConflict,
+  SyncStateRecord,
+  ZellerCustomer,
+} from '../types';
+import {buildFtsMatchQuery, matchesSearchTerm} from '../utils/search';
+import {
+  DEFAULT_MINIMUM_ADMINS,
+  DEFAULT_ROLES,
+  describeAdminMinimum,
+  getAdminRoles,
+  getRoleChange,
+  getRoleLabel,
+  isAdminRole,
+  normalizeRole,
+  sortRoles,
+} from '../utils/roles';
+import {
+  InputValidationError,
+  NotFoundError,
+  PolicyError,
+  StorageError,
+  toStorageError,
+} from '../errors/AppError';
+import {getPendingMigrations, SqlExecutor} from './migrations';
+import {SqlResultSet, StorageAdapter, StorageConnection} from './StorageAdapter';
+import {ReactNativeSqliteAdapter} from './adapters/ReactNativeSqliteAdapter';
+import {DatabaseKeyStore} from './DatabaseKeyStore';
+import {KeychainKeyStore} from './adapters/KeychainKeyStore';
+import {openEncryptedDatabase, rotateDatabaseKey} from './encryption';
+import {
+  checkDatabaseHealth,
+  checkIntegrity,
+  needsRebuild,
+  repairInPlace,
+  restoreSalvagedRows,
+  salvageRows,
+} from './health';
+import {
+  CustomerChange,
+  LiveCustomerQuery,
+  LiveCustomerQueryOptions,
+} from './LiveCustomerQuery';
 
-// Disable verbose SQLite debug logging in production
-SQLite.DEBUG(false);
-SQLite.enablePromise(true);
+// Four bound parameters per row keeps each statement well under SQLite's
+// default limit of 999 variables.
+const BULK_INSERT_BATCH_SIZE = 200;
+
+// Seven bound parameters per event row
+const EVENT_BATCH_SIZE = 100;
+
+// Six bound parameters per restored customer row
+const BACKUP_BATCH_SIZE = 100;
+
+export const DEFAULT_DATABASE_NAME = 'ZellerCustomers.db';
+
+// app_metadata key for when the database key was last replaced
+const KEY_ISSUED_AT_METADATA_KEY = 'database_key_issued_at';
+
+// The order the list shows customers in: names starting with a letter before
+// the rest, then case-insensitively by name. SQLite only uses the indexes
+// from migration 9 when this matches their expression exactly.
+const CUSTOMER_SORT_KEY =
+  "(CASE WHEN upper(substr(ltrim(name), 1, 1)) BETWEEN 'A' AND 'Z' THEN '0' ELSE '1' END || lower(ltrim(name)))";
+
+// A customer row as stored, including whether it is in the trash
+interface StoredCustomer {
+  customer: ZellerCustomer;
+  deletedAt: number | null;
+}
+
+interface NewCustomerEvent {
+  type: CustomerEventType;
+  source: CustomerEventSource;
+  before: ZellerCustomer | null;
+  after: ZellerCustomer | null;
+}
+
+const isSameCustomer = (a: ZellerCustomer, b: ZellerCustomer) =>
+  a.name === b.name && a.email === b.email && a.role === b.role;
+
+// What writing `after` over `before` amounts to, or null when nothing changed
+const describeUpsert = (
+  before: StoredCustomer | undefined,
+  after: ZellerCustomer,
+  source: CustomerEventSource,
+): NewCustomerEvent | null => {
+  if (!before) {
+    return {type: 'create', source, before: null, after};
+  }
+  if (before.deletedAt !== null) {
+    return {type: 'restore', source, before: before.customer, after};
+  }
+  if (isSameCustomer(before.customer, after)) {
+    return null;
+  }
+  return {type: 'update', source, before: before.customer, after};
+};
+
+// What restoring a backed-up row over `before` amounts to. A row that
+// arrives already in the trash was never on the list, so it goes unlogged.
+const describeBackupRow = (
+  before: StoredCustomer | undefined,
+  row: BackupCustomer,
+): NewCustomerEvent | null => {
+  const after = {id: row.id, name: row.name, email: row.email, role: row.role};
+  if (row.deletedAt === null) {
+    return describeUpsert(before, after, 'import');
+  }
+  if (before && before.deletedAt === null) {
+    return {type: 'delete', source: 'import', before: before.customer, after: null};
+  }
+  return null;
+};
+
+// Identifies an outbox entry across devices, where ids differ
+const getOutboxEntryKey = (entry: {
+  operation: string;
+  customerId: string;
+  payload: string;
+  createdAt: number;
+}) => `${entry.operation}:${entry.customerId}:${entry.createdAt}:${entry.payload}`;
+
+// Wraps the connection so a failed statement surfaces as a StorageError
+// whichever method ran it. The native connection itself is left untouched.
+const withStorageErrors = (database: StorageConnection): StorageConnection => {
+  const wrapped = Object.create(database);
+  wrapped.executeSql = (statement: string, params?: any[]) =>
+    database.executeSql(statement, params).catch(error => {
+      throw toStorageError(error);
+    });
+  return wrapped;
+};
 
 export class DatabaseService {
   private static instance: DatabaseService;
-  private database: SQLite.SQLiteDatabase | null = null;
+  private storage: StorageAdapter = new ReactNativeSqliteAdapter();
+  private keyStore: DatabaseKeyStore = new KeychainKeyStore();
+  private database: StorageConnection | null = null;
+  private databaseName: string | null = null;
+  private healthReport: DatabaseHealthReport | null = null;
+  private transactionQueue: Promise<void> = Promise.resolve();
+  private liveQueries = new Set<LiveCustomerQuery>();
+  // Rows changed by the open transaction, announced once it commits
+  private uncommittedChanges: CustomerChange[] = [];
+
+  // The role catalog of the open database, most senior first
+  private roles: RoleDefinition[] = DEFAULT_ROLES;
+  private minimumAdmins = DEFAULT_MINIMUM_ADMINS;
+
+  private constructor() {}
+
+  // Applies the same normalization as the write paths, so callers comparing
+  // against stored rows see identical values.
+  public normalizeCustomer(customer: ZellerCustomer): ZellerCustomer {
+    return {
+      id: customer.id,
+      name: customer.name,
+      email: customer.email,
+      role: normalizeRole(customer.role, this.roles),
+    };
+  }
+
+  public static getInstance(): DatabaseService {
+    if (!DatabaseService.instance) {
+      DatabaseService.instance = new DatabaseService();
+    }
+    return DatabaseService.instance;
+  }
+
+  // Where databases are opened from the next initDatabase call on
+  public setStorageAdapter(storage: StorageAdapter): void {
+    this.storage = storage;
+  }
+
+  // Where database keys are kept from the next initDatabase call on
+  public setKeyStore(keyStore: DatabaseKeyStore): void {
+    this.keyStore = keyStore;
+  }
+
+  // Local deletes and role changes that would leave fewer admins than this
+  // are refused. Changes from the server and from backups are not checked.
+  public setMinimumAdmins(minimumAdmins: number): void {
+    this.minimumAdmins = minimumAdmins;
+  }
+
+  public getMinimumAdmins(): number {
+    return this.minimumAdmins;
+  }
+
+  // Each environment keeps its own file; opening another one closes the
+  // current connection first. Files are encrypted, and one left in plaintext
+  // by an older version is encrypted before it is used. Every open is
+  // followed by a health check, and whatever it finds is repaired if it can
+  // be, before anything else reads the tables: damage is looked for before
+  // migrations write to the file, the rest once the tables are the ones this
+  // version expects. getHealthReport says what was found and done.
+  public async initDatabase(name: string = DEFAULT_DATABASE_NAME): Promise<void> {
+    try {
+      if (this.database) {
+        await this.closeDatabase();
+      }
+
+      const database = await this.openDatabase(name);
+      const damage = await checkIntegrity(database);
+      let report: DatabaseHealthReport;
+      if (damage) {
+        console.warn('Database health check failed:', [damage]);
+        report = await this.rebuildDatabase(name);
+      } else {
+        await this.runMigrations();
+        report = await this.checkHealth();
+        if (!report.healthy) {
+          console.warn('Database health check failed:', report.issues);
+          report = await this.repairDatabase(name, report);
+        }
+      }
+      this.healthReport = report;
+      if (needsRebuild(report)) {
+        throw new StorageError(
+          `Database is damaged beyond repair: ${report.issues.map(issue => issue.detail).join('; ')}`,
+        );
+      }
+      this.roles = await this.readRoles();
+    } catch (error) {
+      console.error('Database initialization failed:', error);
+      throw toStorageError(error);
+    }
+  }
+
+  private async openDatabase(name: string): Promise<StorageConnection> {
+    const database = withStorageErrors(
+      await openEncryptedDatabase(this.storage, this.keyStore, name),
+    );
+    this.database = database;
+    this.databaseName = name;
+
+    // INSERT OR REPLACE only fires DELETE triggers (which keep the search
+    // index in sync) when recursive triggers are enabled.
+    await database.executeSql('PRAGMA recursive_triggers = ON;');
+    return database;
+  }
+
+  private async readRoles(): Promise<RoleDefinition[]> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const [result] = await this.database.executeSql(
+      'SELECT name, label, rank, aliases FROM roles;',
+    );
+    const roles: RoleDefinition[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      const row = result.rows.item(i);
+      roles.push({
+        name: row.name,
+        label: row.label,
+        rank: row.rank,
+        aliases: JSON.parse(row.aliases),
+      });
+    }
+    return sortRoles(roles);
+  }
+
+  // Adds `roles` to the catalog. With `overwrite`, roles already in it take
+  // the new label, rank and aliases. Must be called inside a transaction.
+  private async writeRoles(roles: RoleDefinition[], overwrite: boolean): Promise<void> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    for (const role of roles) {
+      const aliases = JSON.stringify(role.aliases);
+      await this.database.executeSql(
+        'INSERT OR IGNORE INTO roles (name, label, rank, aliases) VALUES (?, ?, ?, ?);',
+        [role.name, role.label, role.rank, aliases],
+      );
+      if (overwrite) {
+        await this.database.executeSql(
+          'UPDATE roles SET label = ?, rank = ?, aliases = ? WHERE name = ?;',
+          [role.label, role.rank, aliases, role.name],
+        );
+      }
+    }
+  }
+
+  // The role catalog, most senior first. Customers only ever hold one of
+  // these roles.
+  public getRoles(): RoleDefinition[] {
+    return this.roles;
+  }
+
+  // Makes the catalog match `roles`, e.g. as the server lists them. A role
+  // left out is dropped once no customer, trashed ones included, holds it;
+  // until then it stays so those customers keep their role.
+  public async replaceRoles(roles: RoleDefinition[]): Promise<RoleDefinition[]> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+    if (roles.length === 0) {
+      throw new StorageError('The role catalog cannot be empty');
+    }
+
+    await this.runInTransaction(async () => {
+      await this.writeRoles(roles, true);
+      await database.executeSql(
+        `DELETE FROM roles
+         WHERE name NOT IN (${roles.map(() => '?').join(', ')})
+           AND name NOT IN (SELECT role FROM customers);`,
+        roles.map(role => role.name),
+      );
+    });
+    this.roles = await this.readRoles();
+    return this.roles;
+  }
+
+  // Admins on the list, leaving out those awaiting deletion. With
+  // `permanentOnly`, also leaving out those whose admin role is temporary.
+  private async readActiveAdmins(permanentOnly: boolean = false): Promise<ZellerCustomer[]> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const adminRoles = getAdminRoles(this.roles);
+    if (adminRoles.length === 0) {
+      return [];
+    }
+    const result = await database.executeSql(
+      `SELECT id, name, email, role FROM customers
+       WHERE deleted_at IS NULL
+         AND role IN (${adminRoles.map(() => '?').join(', ')})
+         AND id NOT IN (SELECT customer_id FROM pending_deletions)
+         ${permanentOnly ? "AND id NOT IN (SELECT customer_id FROM role_grants WHERE status = 'active')" : ''};`,
+      adminRoles,
+    );
+    return this.readCustomers(result[0]);
+  }
+
+  // Throws a PolicyError if deleting the customer (`role` null) or giving it
+  // `role` would leave fewer admins than the minimum. Temporary admins don't
+  // count, since they leave on their own. Must be called inside a
+  // transaction.
+  private async assertAdminsRemain(id: string, role: CustomerRole | null): Promise<void> {
+    if (role !== null && isAdminRole(this.roles, role)) {
+      return;
+    }
+    const admins = await this.readActiveAdmins(true);
+    const admin = admins.find(customer => customer.id === id);
+    if (admin && admins.length - 1 < this.minimumAdmins) {
+      throw new PolicyError(describeAdminMinimum(admin.name, this.minimumAdmins));
+    }
+  }
+
+  // Admins that can be neither deleted nor demoted right now, because the
+  // team has no more than the minimum
+  public async getProtectedAdminIds(): Promise<string[]> {
+    const admins = await this.readActiveAdmins(true);
+    return admins.length <= this.minimumAdmins ? admins.map(customer => customer.id) : [];
+  }
+
+  // Admins on the list, by name
+  public async getAdmins(): Promise<ZellerCustomer[]> {
+    const admins = await this.readActiveAdmins();
+    return admins.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Moves into an admin role wait for a second Admin's approval, since the
+  // one asking cannot give it; with fewer than two, nobody could
+  public async needsApproval(fromRole: CustomerRole, toRole: CustomerRole): Promise<boolean> {
+    if (isAdminRole(this.roles, fromRole) || !isAdminRole(this.roles, toRole)) {
+      return false;
+    }
+    return (await this.readActiveAdmins()).length > 1;
+  }
+
+  private readRoleRequests(resultSet: SqlResultSet): RoleRequest[] {
+    const requests: RoleRequest[] = [];
+    const rows = resultSet.rows;
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows.item(i);
+      requests.push({
+        id: row.id,
+        customerId: row.customer_id,
+        customerName: row.customer_name,
+        fromRole: row.from_role,
+        toRole: row.to_role,
+        requestedBy: row.requested_by ?? null,
+        requestedAt: row.requested_at,
+        grantFor: row.grant_for ?? null,
+        status: row.status,
+        decidedBy: row.decided_by ?? null,
+        decidedAt: row.decided_at ?? null,
+      });
+    }
+
+    return requests;
+  }
+
+  // Oldest first. Pending requests for customers no longer on the list,
+  // e.g. removed by a sync or awaiting deletion, are left out.
+  public async getRoleRequests(status: RoleRequestStatus = 'pending'): Promise<RoleRequest[]> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const result = await this.database.executeSql(
+      `SELECT role_requests.*, customers.name AS customer_name
+       FROM role_requests JOIN customers ON customers.id = role_requests.customer_id
+       WHERE role_requests.status = ?
+         AND (
+           role_requests.status <> 'pending' OR (
+             customers.deleted_at IS NULL
+             AND role_requests.customer_id NOT IN (SELECT customer_id FROM pending_deletions)
+           )
+         )
+       ORDER BY role_requests.requested_at ASC, role_requests.id ASC;`,
+      [status],
+    );
+    return this.readRoleRequests(result[0]);
+  }
+
+  // Asks, as the Admin `requestedBy`, for the customer to be moved into an
+  // admin role, replacing any request still open for them. The customer
+  // keeps their role until another Admin approves, and then for `grantFor`
+  // ms if given.
+  public async requestRoleChange(
+    customerId: string,
+    role: CustomerRole,
+    requestedBy: string,
+    grantFor: number | null = null,
+  ): Promise<RoleRequest> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const toRole = normalizeRole(role, this.roles);
+    return this.runInTransaction(async () => {
+      const stored = (await this.readStoredCustomers([customerId])).get(customerId);
+      if (!stored || stored.deletedAt !== null) {
+        throw new NotFoundError(`Customer ${customerId} is not on the list`);
+      }
+      const fromRole = stored.customer.role;
+      if (!(await this.needsApproval(fromRole, toRole))) {
+        throw new PolicyError(
+          `Making ${stored.customer.name} ${getRoleLabel(this.roles, toRole)} needs no approval`,
+        );
+      }
+      const admins = await this.readActiveAdmins();
+      if (!admins.some(admin => admin.id === requestedBy)) {
+        throw new PolicyError('Only an Admin can ask for a promotion');
+      }
+
+      const now = Date.now();
+      await database.executeSql(
+        `UPDATE role_requests SET to_role = ?, requested_by = ?, requested_at = ?, grant_for = ?
+         WHERE customer_id = ? AND status = 'pending';`,
+        [toRole, requestedBy, now, grantFor, customerId],
+      );
+      await database.executeSql(
+        `INSERT OR IGNORE INTO role_requests
+           (customer_id, from_role, to_role, requested_by, requested_at, grant_for)
+         VALUES (?, ?, ?, ?, ?, ?);`,
+        [customerId, fromRole, toRole, requestedBy, now, grantFor],
+      );
+      const result = await database.executeSql(
+        "SELECT *, ? AS customer_name FROM role_requests WHERE customer_id = ? AND status = 'pending';",
+        [stored.customer.name, customerId],
+      );
+      return this.readRoleRequests(result[0])[0];
+    });
+  }
+
+  // Throws unless `deciderId` is an Admin on the list other than the one
+  // who asked. Must be called inside a transaction.
+  private async readDecidableRequest(id: number, deciderId: string): Promise<RoleRequest> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const result = await database.executeSql(
+      `SELECT role_requests.*, customers.name AS customer_name
+       FROM role_requests JOIN customers ON customers.id = role_requests.customer_id
+       WHERE role_requests.id = ? AND role_requests.status = 'pending';`,
+      [id],
+    );
+    const request = this.readRoleRequests(result[0])[0];
+    if (!request) {
+      throw new NotFoundError('This request has already been decided');
+    }
+    if (request.customerId === deciderId) {
+      throw new PolicyError('Another Admin has to decide a request about you');
+    }
+    const admins = await this.readActiveAdmins();
+    if (!admins.some(admin => admin.id === deciderId)) {
+      throw new PolicyError('Only an Admin can decide role requests');
+    }
+    if (request.requestedBy === deciderId) {
+      throw new PolicyError('Another Admin has to decide a request you made');
+    }
+    return request;
+  }
+
+  // Moves the customer into the requested role as a local change, for as
+  // long as was asked, and returns them as they now are. With `queueRemote`,
+  // the update is queued in the outbox in the same transaction.
+  public async approveRoleRequest(
+    id: number,
+    approverId: string,
+    queueRemote: boolean = false,
+  ): Promise<ZellerCustomer> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    return this.runInTransaction(async () => {
+      const request = await this.readDecidableRequest(id, approverId);
+      const stored = (await this.readStoredCustomers([request.customerId])).get(
+        request.customerId,
+      );
+      if (!stored || stored.deletedAt !== null) {
+        throw new NotFoundError(`Customer ${request.customerId} is not on the list`);
+      }
+
+      const approved = {...stored.customer, role: request.toRole};
+      const now = Date.now();
+      await database.executeSql(
+        'UPDATE customers SET role = ?, local_updated_at = ? WHERE id = ?;',
+        [approved.role, now, approved.id],
+      );
+      await this.recordEvents([describeUpsert(stored, approved, 'local')]);
+      await this.endRoleGrant(approved.id, 'superseded');
+      if (request.grantFor !== null) {
+        await this.writeRoleGrant(stored.customer, approved.role, now + request.grantFor);
+      }
+      await database.executeSql(
+        "UPDATE role_requests SET status = 'approved', decided_by = ?, decided_at = ? WHERE id = ?;",
+        [approverId, Date.now(), id],
+      );
+      if (queueRemote) {
+        await this.writeOutboxEntry('update', approved);
+      }
+      return approved;
+    });
+  }
+
+  // Ends the customer's active grant, if any. Must be called inside a
+  // transaction.
+  private async endRoleGrant(customerId: string, status: 'reverted' | 'superseded') {
+    await this.database?.executeSql(
+      "UPDATE role_grants SET status = ?, ended_at = ? WHERE customer_id = ? AND status = 'active';",
+      [status, Date.now(), customerId],
+    );
+  }
+
+  // Ends what was still running for customers just removed from the table:
+  // their temporary roles, as a change of role would, and their open
+  // requests, as deleting them would. Must be called inside a transaction,
+  // after the delete.
+  private async closeRecordsOfRemovedCustomers(): Promise<void> {
+    const now = Date.now();
+    await this.database?.executeSql(
+      `UPDATE role_grants SET status = 'superseded', ended_at = ?
+       WHERE status = 'active' AND customer_id NOT IN (SELECT id FROM customers);`,
+      [now],
+    );
+    await this.database?.executeSql(
+      `UPDATE role_requests SET status = 'cancelled', decided_at = ?
+       WHERE status = 'pending' AND customer_id NOT IN (SELECT id FROM customers);`,
+      [now],
+    );
+  }
+
+  // Records that `customer` now holds `role` until `expiresAt`, after which
+  // it goes back to the role it held before. Must be called inside a
+  // transaction.
+  private async writeRoleGrant(
+    before: ZellerCustomer,
+    role: CustomerRole,
+    expiresAt: number,
+  ): Promise<void> {
+    if (getRoleChange(this.roles, before.role, role) !== 'promotion') {
+      throw new InputValidationError('Only a move to a more senior role can be temporary');
+    }
+    if (!Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+      throw new InputValidationError('A temporary role must end in the future');
+    }
+    await this.database?.executeSql(
+      `INSERT INTO role_grants (customer_id, previous_role, granted_role, granted_at, expires_at)
+       VALUES (?, ?, ?, ?, ?);`,
+      [before.id, before.role, role, Date.now(), expiresAt],
+    );
+  }
+
+  private readRoleGrants(resultSet: SqlResultSet): RoleGrant[] {
+    const grants: RoleGrant[] = [];
+    const rows = resultSet.rows;
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows.item(i);
+      grants.push({
+        id: row.id,
+        customerId: row.customer_id,
+        previousRole: row.previous_role,
+        grantedRole: row.granted_role,
+        grantedAt: row.granted_at,
+        expiresAt: row.expires_at,
+        status: row.status,
+        endedAt: row.ended_at ?? null,
+      });
+    }
+
+    return grants;
+  }
+
+  // Temporary roles still running for customers on the list, soonest to
+  // end first
+  public async getRoleGrants(): Promise<RoleGrant[]> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const result = await this.database.executeSql(
+      `SELECT role_grants.* FROM role_grants
+       JOIN customers ON customers.id = role_grants.customer_id
+       WHERE role_grants.status = 'active' AND customers.deleted_at IS NULL
+       ORDER BY role_grants.expires_at ASC, role_grants.id ASC;`,
+    );
+    return this.readRoleGrants(result[0]);
+  }
+
+  // Moves every customer whose temporary role ended by `now` back to the
+  // role they held before, recording each as an 'expiry' change, and
+  // returns them as they now are. A customer whose role changed some other
+  // way since keeps it. Grants of customers in the trash wait until they
+  // are restored or purged. With `queueRemote`, each reversion is queued in
+  // the outbox in the same transaction.
+  public async revertExpiredGrants(
+    now: number = Date.now(),
+    queueRemote: boolean = false,
+  ): Promise<ZellerCustomer[]> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    return this.runInTransaction(async () => {
+      const result = await database.executeSql(
+        "SELECT * FROM role_grants WHERE status = 'active' AND expires_at <= ? ORDER BY expires_at ASC;",
+        [now],
+      );
+      const grants = this.readRoleGrants(result[0]);
+      const stored = await this.readStoredCustomers(grants.map(grant => grant.customerId));
+
+      const reverted: ZellerCustomer[] = [];
+      const events: Array<NewCustomerEvent | null> = [];
+      for (const grant of grants) {
+        const before = stored.get(grant.customerId);
+        if (before && before.deletedAt !== null) {
+          continue;
+        }
+        if (!before || before.customer.role !== grant.grantedRole) {
+          await this.endRoleGrant(grant.customerId, 'superseded');
+          continue;
+        }
+
+        const after = {...before.customer, role: grant.previousRole};
+        await database.executeSql(
+          'UPDATE customers SET role = ?, local_updated_at = ? WHERE id = ?;',
+          [after.role, now, after.id],
+        );
+        await this.endRoleGrant(grant.customerId, 'reverted');
+        if (queueRemote) {
+          await this.writeOutboxEntry('update', after);
+        }
+        events.push(describeUpsert(before, after, 'expiry'));
+        reverted.push(after);
+      }
+      await this.recordEvents(events);
+      return reverted;
+    });
+  }
+
+  public async rejectRoleRequest(id: number, rejecterId: string): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    await this.runInTransaction(async () => {
+      await this.readDecidableRequest(id, rejecterId);
+      await database.executeSql(
+        "UPDATE role_requests SET status = 'rejected', decided_by = ?, decided_at = ? WHERE id = ?;",
+        [rejecterId, Date.now(), id],
+      );
+    });
+  }
+
+  // The health of the open database as initDatabase left it
+  public getHealthReport(): DatabaseHealthReport | null {
+    return this.healthReport;
+  }
+
+  public async checkHealth(): Promise<DatabaseHealthReport> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
+    return checkDatabaseHealth(this.database);
+  }
+
+  // Small problems are fixed where they are. Damage or a missing table
+  // means a new file: whatever can still be read is carried over into a
+  // freshly migrated one, and customers that could not be are fetched from
+  // the server by the next sync.
+  private async repairDatabase(
+    name: string,
+    report: DatabaseHealthReport,
+  ): Promise<DatabaseHealthReport> {
+    const damaged = this.database;
+    if (!damaged) {
+      throw new StorageError('Database not initialized');
+    }
+
+    if (!needsRebuild(report)) {
+      const repairs = await this.runInTransaction(() => repairInPlace(damaged, report));
+      return {...(await this.checkHealth()), repairs};
+    }
+    return this.rebuildDatabase(name);
+  }
+
+  // Carries whatever can still be read into a new, freshly migrated file.
+  // Rows whose customers were lost with it are then repaired in place.
+  private async rebuildDatabase(name: string): Promise<DatabaseHealthReport> {
+    const damaged = this.database;
+    if (!damaged) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const salvaged = await salvageRows(damaged);
+    await this.closeDatabase();
+    await this.storage.remove(name);
+    const rebuilt = await this.openDatabase(name);
+    await this.runMigrations();
+    const lostTables = await this.runInTransaction(() =>
+      restoreSalvagedRows(rebuilt, salvaged),
+    );
+
+    const report = await this.checkHealth();
+    if (report.healthy || needsRebuild(report)) {
+      return {...report, repairs: ['rebuilt-database'], lostTables};
+    }
+    const repairs = await this.runInTransaction(() => repairInPlace(rebuilt, report));
+    return {
+      ...(await this.checkHealth()),
+      repairs: ['rebuilt-database', ...repairs],
+      lostTables,
+    };
+  }
+
+  // Runs `work` inside BEGIN/COMMIT, rolling back if it throws. Calls are
+  // queued so two transactions never interleave on the shared connection.
+  private async runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const run = async (): Promise<T> => {
+      this.uncommittedChanges = [];
+      await database.executeSql('BEGIN TRANSACTION;');
+      try {
+        const result = await work();
+        await database.executeSql('COMMIT;');
+        this.announceChanges(this.uncommittedChanges.splice(0));
+        return result;
+      } catch (error) {
+        this.uncommittedChanges = [];
+        try {
+          await database.executeSql('ROLLBACK;');
+        } catch (rollbackError) {
+          console.error('Transaction rollback failed:', rollbackError);
+        }
+        throw error;
+      }
+    };
+
+    const pending = this.transactionQueue.then(run);
+    this.transactionQueue = pending.then(
+      () => undefined,
+      () => undefined,
+    );
+    return pending;
+  }
+
+  // Re-encrypts the database under a new key when the current one was issued
+  // before `issuedBefore`. A key's age is counted from when this was first
+  // asked about it. Returns whether the key was replaced.
+  public async rotateDatabaseKey(issuedBefore: number = Infinity): Promise<boolean> {
+    const database = this.database;
+    const name = this.databaseName;
+    if (!database || !name) {
+      throw new StorageError('Database not initialized');
+    }
+
+    let issuedAt = Number(await this.getMetadata(KEY_ISSUED_AT_METADATA_KEY));
+    if (!issuedAt) {
+      issuedAt = Date.now();
+      await this.setMetadata(KEY_ISSUED_AT_METADATA_KEY, String(issuedAt));
+    }
+    if (issuedAt >= issuedBefore) {
+      return false;
+    }
+
+    // Queued with transactions, since SQLCipher can't rekey inside one
+    const rotation = this.transactionQueue.then(() =>
+      rotateDatabaseKey(database, this.keyStore, name),
+    );
+    this.transactionQueue = rotation.then(
+      () => undefined,
+      () => undefined,
+    );
+    try {
+      await rotation;
+    } catch (error) {
+      console.error('Database key rotation failed:', error);
+      throw toStorageError(error);
+    }
+
+    await this.setMetadata(KEY_ISSUED_AT_METADATA_KEY, String(Date.now()));
+    return true;
+  }
+
+  private async runMigrations(): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const execute: SqlExecutor = (statement, params) =>
+      database.executeSql(statement, params);
+    const currentVersion = await this.getSchemaVersion();
+
+    for (const migration of getPendingMigrations(currentVersion)) {
+      try {
+        await this.runInTransaction(async () => {
+          await migration.up(execute);
+          await execute(`PRAGMA user_version = ${migration.version};`);
+        });
+      } catch (error) {
+        console.error(
+          `Migration ${migration.version} (${migration.name}) failed:`,
+          error,
+        );
+        throw error;
+      }
+    }
+  }
+
+  public async getSchemaVersion(): Promise<number> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const result = await this.database.executeSql('PRAGMA user_version;');
+    const rows = result[0].rows;
+    return rows.length > 0 ? Number(rows.item(0).user_version) || 0 : 0;
+  }
+
+  // With `queueRemote`, a create is queued in the outbox in the same
+  // transaction, so the row and its outbox entry are saved or lost together.
+  public async insertCustomer(
+    customer: ZellerCustomer,
+    source: CustomerEventSource = 'local',
+    queueRemote: boolean = false,
+  ): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const insertQuery = `
+      INSERT OR REPLACE INTO customers (id, name, email, role, local_updated_at)
+      VALUES (?, ?, ?, ?, ?);
+    `;
+
+    // Normalize the role before inserting
+    const normalizedRole = normalizeRole(customer.role, this.roles);
+    
+    try {
+      await this.runInTransaction(async () => {
+        const before = await this.readStoredCustomers([customer.id]);
+        await database.executeSql(insertQuery, [
+          customer.id,
+          customer.name,
+          customer.email,
+          normalizedRole,
+          Date.now(),
+        ]);
+        await this.recordEvents([
+          describeUpsert(
+            before.get(customer.id),
+            this.normalizeCustomer(customer),
+            source,
+          ),
+        ]);
+        if (queueRemote) {
+          await this.writeOutboxEntry('create', customer);
+        }
+      });
+    } catch (error) {
+      console.error(`Error inserting customer ${customer.name} with role ${normalizedRole}:`, error);
+      throw error;
+    }
+  }
+
+  private getBulkRejectionReason(customer: ZellerCustomer): string | null {
+    if (!customer || typeof customer.id !== 'string' || !customer.id.trim()) {
+      return 'Missing id';
+    }
+    if (typeof customer.name !== 'string' || !customer.name.trim()) {
+      return 'Missing name';
+    }
+    if (typeof customer.email !== 'string' || !customer.email.trim()) {
+      return 'Missing email';
+    }
+    if (typeof customer.role !== 'string' || !customer.role.trim()) {
+      return 'Missing role';
+    }
+    return null;
+  }
+
+  // Upserts rows with batched multi-row statements and returns how many of
+  // them replaced an existing row. Only the customer's fields are written,
+  // so a row in the trash stays there. With `markSynced`, local changes to
+  // the rows are cleared. Must be called inside a transaction.
+  private async writeCustomerRows(
+    rows: ZellerCustomer[],
+    markSynced: boolean = false,
+  ): Promise<number> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    let existingCount = 0;
+    for (let start = 0; start < rows.length; start += BULK_INSERT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + BULK_INSERT_BATCH_SIZE);
+      const idPlaceholders = batch.map(() => '?').join(', ');
+      const existing = await database.executeSql(
+        `SELECT COUNT(*) as count FROM customers WHERE id IN (${idPlaceholders});`,
+        batch.map(row => row.id),
+      );
+      existingCount += Number(existing[0].rows.item(0).count) || 0;
+
+      const valuePlaceholders = batch.map(() => '(?, ?, ?, ?)').join(', ');
+      await database.executeSql(
+        `INSERT INTO customers (id, name, email, role) VALUES ${valuePlaceholders}
+         ON CONFLICT(id) DO UPDATE SET
+           name = excluded.name,
+           email = excluded.email,
+           role = excluded.role${markSynced ? ', local_updated_at = NULL' : ''};`,
+        batch.flatMap(row => [row.id, row.name, row.email, row.role]),
+      );
+    }
+
+    return existingCount;
+  }
+
+  // Writes every valid row in a single transaction using multi-row statements.
+  // Any SQL failure rolls the whole batch back; rows that fail validation are
+  // skipped and listed in the report instead.
+  public async insertCustomers(
+    customers: ZellerCustomer[],
+    source: CustomerEventSource = 'import',
+  ): Promise<BulkInsertReport> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const report: BulkInsertReport = {
+      inserted: 0,
+      replaced: 0,
+      rejected: 0,
+      rejections: [],
+    };
+
+    if (customers.length === 0) {
+      return report;
+    }
+
+    const rowsById = new Map<string, ZellerCustomer>();
+    let duplicatesInBatch = 0;
+    for (const customer of customers) {
+      const reason = this.getBulkRejectionReason(customer);
+      if (reason) {
+        report.rejected++;
+        report.rejections.push({customer: {...customer}, reason});
+        continue;
+      }
+
+      if (rowsById.has(customer.id)) {
+        duplicatesInBatch++;
+      }
+      rowsById.set(customer.id, {
+        ...customer,
+        role: normalizeRole(customer.role, this.roles),
+      });
+    }
+
+    const rows = Array.from(rowsById.values());
+
+    try {
+      await this.runInTransaction(async () => {
+        const before = await this.readStoredCustomers(rows.map(row => row.id));
+        const existingCount = await this.writeCustomerRows(rows);
+        report.inserted = rows.length - existingCount;
+        report.replaced = existingCount + duplicatesInBatch;
+        await this.recordEvents(
+          rows.map(row => describeUpsert(before.get(row.id), row, source)),
+        );
+      });
+    } catch (error) {
+      console.error('Error in insertCustomers:', error);
+      throw error;
+    }
+
+    return report;
+  }
+
+  private readCustomers(resultSet: SqlResultSet): ZellerCustomer[] {
+    const customers: ZellerCustomer[] = [];
+    const rows = resultSet.rows;
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows.item(i);
+      // Normalize role when reading to ensure consistency
+      customers.push({
+        id: row.id,
+        name: row.name,
+        email: row.email,
+        role: normalizeRole(row.role, this.roles),
+      });
+    }
+
+    return customers;
+  }
+
+  // Current rows for `ids`, including any in the trash, so a change can
+  // record what it replaced. Must be called inside a transaction.
+  private async readStoredCustomers(
+    ids: string[],
+  ): Promise<Map<string, StoredCustomer>> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const stored = new Map<string, StoredCustomer>();
+    for (let start = 0; start < ids.length; start += BULK_INSERT_BATCH_SIZE) {
+      const batch = ids.slice(start, start + BULK_INSERT_BATCH_SIZE);
+      const placeholders = batch.map(() => '?').join(', ');
+      const result = await database.executeSql(
+        `SELECT * FROM customers WHERE id IN (${placeholders});`,
+        batch,
+      );
+      this.readStoredRows(result[0]).forEach(row => stored.set(row.customer.id, row));
+    }
+    return stored;
+  }
+
+  private readStoredRows(resultSet: SqlResultSet): StoredCustomer[] {
+    return this.readCustomers(resultSet).map((customer, index) => ({
+      customer,
+      deletedAt: resultSet.rows.item(index).deleted_at ?? null,
+    }));
+  }
+
+  // Appends to the audit log. Must be called inside the transaction that
+  // made the changes, so the log never disagrees with the table.
+  private async recordEvents(
+    events: Array<NewCustomerEvent | null>,
+    occurredAt: number = Date.now(),
+  ): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const rows = events.filter((event): event is NewCustomerEvent => event !== null);
+    this.uncommittedChanges.push(...rows.map(({before, after}) => ({before, after})));
+    for (let start = 0; start < rows.length; start += EVENT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + EVENT_BATCH_SIZE);
+      await database.executeSql(
+        `INSERT INTO customer_events
+           (customer_id, type, source, before_snapshot, after_snapshot, role_change, occurred_at)
+         VALUES ${batch.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', ')};`,
+        batch.flatMap(event => [
+          (event.after ?? event.before)!.id,
+          event.type,
+          event.source,
+          event.before ? JSON.stringify(event.before) : null,
+          event.after ? JSON.stringify(event.after) : null,
+          event.before && event.after
+            ? getRoleChange(this.roles, event.before.role, event.after.role)
+            : null,
+          occurredAt,
+        ]),
+      );
+    }
+  }
+
+  // A customer's history, newest first. `roleChangesOnly` keeps just the
+  // promotions to and demotions from Admin; leave out `customerId` to search
+  // every customer.
+  public async getCustomerEvents(
+    filter: {customerId?: string; roleChangesOnly?: boolean} = {},
+  ): Promise<CustomerEvent[]> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.customerId !== undefined) {
+      conditions.push('customer_id = ?');
+      params.push(filter.customerId);
+    }
+    if (filter.roleChangesOnly) {
+      conditions.push('role_change IS NOT NULL');
+    }
+
+    const result = await this.database.executeSql(
+      `SELECT * FROM customer_events
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY occurred_at DESC, id DESC;`,
+      params,
+    );
+    const events: CustomerEvent[] = [];
+    const rows = result[0].rows;
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows.item(i);
+      events.push({
+        id: row.id,
+        customerId: row.customer_id,
+        type: row.type,
+        source: row.source,
+        before: row.before_snapshot ? JSON.parse(row.before_snapshot) : null,
+        after: row.after_snapshot ? JSON.parse(row.after_snapshot) : null,
+        roleChange: row.role_change ?? null,
+        occurredAt: row.occurred_at,
+      });
+    }
+    return events;
+  }
+
+  public async getAllCustomers(): Promise<ZellerCustomer[]> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const selectQuery =
+      'SELECT * FROM customers WHERE deleted_at IS NULL ORDER BY name ASC;';
+    const result = await this.database.executeSql(selectQuery);
+    return this.readCustomers(result[0]);
+  }
+
+  public async getCustomersByRole(role: CustomerRole): Promise<ZellerCustomer[]> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    // Normalize the role before querying
+    const normalizedRole = normalizeRole(role, this.roles);
+    const selectQuery =
+      'SELECT * FROM customers WHERE role = ? AND deleted_at IS NULL ORDER BY name ASC;';
+    const result = await this.database.executeSql(selectQuery, [normalizedRole]);
+    return this.readCustomers(result[0]);
+  }
+
+  // Full-text search over name and email. Every token in the term has to
+  // prefix-match a word, so "jane zeller.com" finds jane@zeller.com.
+  public async searchCustomers(searchTerm: string): Promise<ZellerCustomer[]> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const matchQuery = buildFtsMatchQuery(searchTerm);
+    if (!matchQuery) {
+      return this.getAllCustomers();
+    }
+
+    const selectQuery = `
+      SELECT * FROM customers
+      WHERE rowid IN (SELECT rowid FROM customers_fts WHERE customers_fts MATCH ?)
+        AND deleted_at IS NULL
+      ORDER BY name ASC;
+    `;
+    const result = await this.database.executeSql(selectQuery, [matchQuery]);
+    return this.readCustomers(result[0]);
+  }
+
+  public async searchCustomersByRole(
+    searchTerm: string,
+    role: CustomerRole
+  ): Promise<ZellerCustomer[]> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const matchQuery = buildFtsMatchQuery(searchTerm);
+    if (!matchQuery) {
+      return this.getCustomersByRole(role);
+    }
+
+    const selectQuery = `
+      SELECT * FROM customers
+      WHERE rowid IN (SELECT rowid FROM customers_fts WHERE customers_fts MATCH ?)
+        AND role = ?
+        AND deleted_at IS NULL
+      ORDER BY name ASC;
+    `;
+    const result = await this.database.executeSql(selectQuery, [
+      matchQuery,
+      normalizeRole(role, this.roles),
+    ]);
+    return this.readCustomers(result[0]);
+  }
+
+  // One page of the list for a role tab, search term and sort order. Pages
+  // continue from the cursor rather than an offset, so reading page 200 costs
+  // the same as page 1 and rows added earlier in the list do not shift it.
+  public async getCustomerPage({
+    role,
+    searchTerm = '',
+    sortOrder = 'name-asc',
+    after = null,
+    limit,
+  }: CustomerPageQuery): Promise<CustomerPage> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const conditions = ['deleted_at IS NULL'];
+    const params: (string | number)[] = [];
+
+    const matchQuery = buildFtsMatchQuery(searchTerm);
+    if (matchQuery) {
+      conditions.push('rowid IN (SELECT rowid FROM customers_fts WHERE customers_fts MATCH ?)');
+      params.push(matchQuery);
+    }
+    if (role) {
+      conditions.push('role = ?');
+      params.push(normalizeRole(role, this.roles));
+    }
+
+    const descending = sortOrder === 'name-desc';
+    const direction = descending ? 'DESC' : 'ASC';
+    if (after) {
+      const past = descending ? '<' : '>';
+      // The first comparison lets SQLite seek in the index; the second skips
+      // the rows sharing the cursor's sort key that were already read
+      conditions.push(
+        `${CUSTOMER_SORT_KEY} ${past}= ? AND (${CUSTOMER_SORT_KEY} ${past} ? OR id ${past} ?)`,
+      );
+      params.push(after.sortKey, after.sortKey, after.id);
+    }
+
+    // One row more than asked for tells whether another page follows
+    params.push(limit + 1);
+    const selectQuery = `
+      SELECT *, ${CUSTOMER_SORT_KEY} AS sort_key FROM customers
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${CUSTOMER_SORT_KEY} ${direction}, id ${direction}
+      LIMIT ?;
+    `;
+    const result = await this.database.executeSql(selectQuery, params);
+    const rows = result[0].rows;
+    const customers = this.readCustomers(result[0]).slice(0, limit);
+
+    if (rows.length <= limit) {
+      return {customers, nextCursor: null};
+    }
+    const last = rows.item(limit - 1);
+    return {customers, nextCursor: {sortKey: last.sort_key, id: last.id}};
+  }
+
+  // Keeps the results for `scope` current. `onResults` is called with the
+  // first page, after each loadMore, and whenever a committed write touches a
+  // customer the query could match, so callers never re-read by hand.
+  public watchCustomers(
+    scope: CustomerQueryScope,
+    options: LiveCustomerQueryOptions,
+  ): LiveCustomerQuery {
+    const query = new LiveCustomerQuery(
+      scope,
+      pageQuery => this.readLivePage(pageQuery),
+      options,
+      () => this.liveQueries.delete(query),
+    );
+    this.liveQueries.add(query);
+    return query;
+  }
+
+  // Live queries keep working without the search index by matching in
+  // memory with the same token rules, reading on until a page's worth of
+  // rows match or the table runs out.
+  private async readLivePage(query: CustomerPageQuery): Promise<CustomerPage> {
+    const searchTerm = query.searchTerm?.trim() ?? '';
+    try {
+      return await this.getCustomerPage(query);
+    } catch (error) {
+      if (!searchTerm) {
+        throw error;
+      }
+      console.error('Full-text search failed:', error);
+    }
+
+    const customers: ZellerCustomer[] = [];
+    let after = query.after ?? null;
+    do {
+      const page = await this.getCustomerPage({...query, searchTerm: '', after});
+      customers.push(
+        ...page.customers.filter(customer => matchesSearchTerm(customer, searchTerm)),
+      );
+      after = page.nextCursor;
+    } while (customers.length < query.limit && after);
+    return {customers, nextCursor: after};
+  }
+
+  private announceChanges(changes: CustomerChange[]): void {
+    if (changes.length === 0) {
+      return;
+    }
+    this.liveQueries.forEach(query => {
+      if (changes.some(change => query.isTouchedBy(change))) {
+        query.refresh();
+      }
+    });
+  }
+
+  // With `grantExpiresAt`, the new role is temporary: see
+  // revertExpiredGrants. Any other role change ends a temporary role. With
+  // `queueRemote`, the update is queued in the outbox in the same transaction.
+  public async updateCustomer(
+    customer: ZellerCustomer,
+    grantExpiresAt: number | null = null,
+    queueRemote: boolean = false,
+  ): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const updateQuery = `
+      UPDATE customers 
+      SET name = ?, email = ?, role = ?, local_updated_at = ?
+      WHERE id = ?;
+    `;
+
+    // Normalize the role before updating
+    const normalizedRole = normalizeRole(customer.role, this.roles);
+    
+    await this.runInTransaction(async () => {
+      await this.assertAdminsRemain(customer.id, normalizedRole);
+      const before = (await this.readStoredCustomers([customer.id])).get(customer.id);
+      // Promotions go through requestRoleChange
+      if (before && (await this.needsApproval(before.customer.role, normalizedRole))) {
+        throw new PolicyError(
+          `Making ${before.customer.name} ${getRoleLabel(this.roles, normalizedRole)} needs another Admin's approval`,
+        );
+      }
+      if (grantExpiresAt !== null) {
+        if (!before) {
+          throw new NotFoundError(`Customer ${customer.id} is not on the list`);
+        }
+        await this.endRoleGrant(customer.id, 'superseded');
+        await this.writeRoleGrant(before.customer, normalizedRole, grantExpiresAt);
+      } else if (before && before.customer.role !== normalizedRole) {
+        await this.endRoleGrant(customer.id, 'superseded');
+      }
+      await database.executeSql(updateQuery, [
+        customer.name,
+        customer.email,
+        normalizedRole,
+        Date.now(),
+        customer.id,
+      ]);
+      if (before) {
+        await this.recordEvents([
+          describeUpsert(before, this.normalizeCustomer(customer), 'local'),
+        ]);
+      }
+      if (queueRemote) {
+        await this.writeOutboxEntry('update', customer);
+      }
+    });
+  }
+
+  // Moves the customer to the trash. The row is kept, hidden from every
+  // customer query, until it is restored or purged. With `queueRemote`, the
+  // remote delete is queued in the outbox in the same transaction.
+  public async deleteCustomer(id: string, queueRemote: boolean = false): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    await this.runInTransaction(async () => {
+      await this.assertAdminsRemain(id, null);
+      const before = (await this.readStoredCustomers([id])).get(id);
+      await database.executeSql(
+        'UPDATE customers SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL;',
+        [Date.now(), id],
+      );
+      if (before && before.deletedAt === null) {
+        await this.recordEvents([
+          {type: 'delete', source: 'local', before: before.customer, after: null},
+        ]);
+        if (queueRemote) {
+          await this.writeOutboxEntry('delete', before.customer);
+        }
+      }
+      await database.executeSql(
+        'DELETE FROM pending_deletions WHERE customer_id = ?;',
+        [id],
+      );
+      await database.executeSql(
+        "UPDATE role_requests SET status = 'cancelled', decided_at = ? WHERE customer_id = ? AND status = 'pending';",
+        [Date.now(), id],
+      );
+      // Leave a tombstone so sync knows the deletion happened on this device
+      await database.executeSql(
+        'UPDATE sync_state SET local_deleted_at = ? WHERE customer_id = ?;',
+        [Date.now(), id],
+      );
+    });
+  }
+
+  // Brings a customer back from the trash as a local change. Returns false
+  // when a remote delete for it has already left the outbox, so the server
+  // no longer has the customer; with `queueRemote`, it is then queued to be
+  // created again.
+  public async restoreCustomer(id: string, queueRemote: boolean = false): Promise<boolean> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    return this.runInTransaction(async () => {
+      const before = (await this.readStoredCustomers([id])).get(id);
+      await database.executeSql(
+        'UPDATE customers SET deleted_at = NULL, local_updated_at = ? WHERE id = ?;',
+        [Date.now(), id],
+      );
+      if (before && before.deletedAt !== null) {
+        await this.recordEvents([
+          {type: 'restore', source: 'local', before: before.customer, after: before.customer},
+        ]);
+      }
+      await database.executeSql(
+        'UPDATE sync_state SET local_deleted_at = NULL WHERE customer_id = ?;',
+        [id],
+      );
 
-  // Normalize role values to match database constraints
-  private normalizeRole(role: string): 'Admin' | 'Manager' {
-    const normalizedRole = role.trim();
-    
-    // Handle common variations
-    if (normalizedRole.toLowerCase() === 'admin' || normalizedRole === 'ADMIN') {
-      return 'Admin';
+      const queued = await database.executeSql(
+        "SELECT COUNT(*) as count FROM outbox WHERE customer_id = ? AND operation = 'delete' AND status = 'pending';",
+        [id],
+      );
+      if (Number(queued[0].rows.item(0).count) === 0) {
+        if (queueRemote && before) {
+          await this.writeOutboxEntry('create', before.customer);
+        }
+        return false;
+      }
+      await database.executeSql(
+        "DELETE FROM outbox WHERE customer_id = ? AND operation = 'delete' AND status = 'pending';",
+        [id],
+      );
+      return true;
+    });
+  }
+
+  // Removes a customer for good, whether or not it is in the trash.
+  public async purgeCustomer(id: string): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
     }
-    if (normalizedRole.toLowerCase() === 'manager' || normalizedRole === 'MANAGER') {
-      return 'Manager';
+
+    await this.runInTransaction(async () => {
+      const before = (await this.readStoredCustomers([id])).get(id);
+      await database.executeSql('DELETE FROM customers WHERE id = ?;', [id]);
+      await this.closeRecordsOfRemovedCustomers();
+      if (before) {
+        await this.recordEvents([
+          {type: 'purge', source: 'local', before: before.customer, after: null},
+        ]);
+      }
+    });
+  }
+
+  // Purges everything moved to the trash before `deletedBefore` and returns
+  // how many customers were removed.
+  public async purgeDeletedCustomers(deletedBefore: number): Promise<number> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
     }
-    
-    // Handle other possible role names from GraphQL
-    if (normalizedRole.toLowerCase().includes('admin')) {
-      return 'Admin';
+
+    return this.runInTransaction(async () => {
+      const expired = await database.executeSql(
+        'SELECT * FROM customers WHERE deleted_at IS NOT NULL AND deleted_at < ?;',
+        [deletedBefore],
+      );
+      const customers = this.readCustomers(expired[0]);
+      await database.executeSql(
+        'DELETE FROM customers WHERE deleted_at IS NOT NULL AND deleted_at < ?;',
+        [deletedBefore],
+      );
+      await this.closeRecordsOfRemovedCustomers();
+      await this.recordEvents(
+        customers.map(customer => ({
+          type: 'purge' as const,
+          source: 'local' as const,
+          before: customer,
+          after: null,
+        })),
+      );
+      return customers.length;
+    });
+  }
+
+  // Most recently deleted first.
+  public async getDeletedCustomers(): Promise<DeletedCustomer[]> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
     }
-    if (normalizedRole.toLowerCase().includes('manager')) {
-      return 'Manager';
+
+    const result = await this.database.executeSql(
+      'SELECT * FROM customers WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC;',
+    );
+    const customers = this.readCustomers(result[0]);
+    return customers.map((customer, index) => ({
+      ...customer,
+      deletedAt: result[0].rows.item(index).deleted_at,
+    }));
+  }
+
+  // Records that `customer` is to be deleted at `deleteAt`, once its undo
+  // window has passed. Checked against the minimum admins now, since the
+  // customer stops counting as an admin from here on.
+  public async addPendingDeletion(
+    customer: ZellerCustomer,
+    deleteAt: number,
+  ): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
     }
-    
-    // Handle specific role values that might come from the API
-    switch (normalizedRole.toLowerCase()) {
-      case 'administrator':
-      case 'admin_user':
-      case 'system_admin':
-        return 'Admin';
-      case 'team_manager':
-      case 'project_manager':
-      case 'manager_user':
-        return 'Manager';
-      default:
-        // Default fallback when role is unrecognised
-        return 'Manager';
+
+    await this.runInTransaction(async () => {
+      await this.assertAdminsRemain(customer.id, null);
+      await database.executeSql(
+        'INSERT OR REPLACE INTO pending_deletions (customer_id, snapshot, delete_at) VALUES (?, ?, ?);',
+        [customer.id, JSON.stringify(customer), deleteAt],
+      );
+    });
+  }
+
+  // Undoes a deletion that has not happened yet.
+  public async removePendingDeletion(id: string): Promise<void> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
     }
+
+    await this.database.executeSql(
+      'DELETE FROM pending_deletions WHERE customer_id = ?;',
+      [id],
+    );
   }
 
-  private constructor() {}
+  public async getPendingDeletions(): Promise<PendingDeletion[]> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
 
-  public static getInstance(): DatabaseService {
-    if (!DatabaseService.instance) {
-      DatabaseService.instance = new DatabaseService();
+    const result = await this.database.executeSql(
+      'SELECT * FROM pending_deletions ORDER BY delete_at ASC;',
+    );
+    const deletions: PendingDeletion[] = [];
+    const rows = result[0].rows;
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows.item(i);
+      deletions.push({customer: JSON.parse(row.snapshot), deleteAt: row.delete_at});
     }
-    return DatabaseService.instance;
+    return deletions;
   }
 
-  public async initDatabase(): Promise<void> {
-    try {
-      this.database = await SQLite.openDatabase({
-        name: 'ZellerCustomers.db',
-        location: 'default',
-      });
-
-      await this.createTables();
-    } catch (error) {
-      console.error('Database initialization failed:', error);
-      throw error;
+  public async clearAllCustomers(): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
     }
+
+    await this.runInTransaction(async () => {
+      const existing = await database.executeSql('SELECT * FROM customers;');
+      const customers = this.readCustomers(existing[0]);
+      await database.executeSql('DELETE FROM customers;');
+      await this.closeRecordsOfRemovedCustomers();
+      await this.recordEvents(
+        customers.map(customer => ({
+          type: 'purge' as const,
+          source: 'local' as const,
+          before: customer,
+          after: null,
+        })),
+      );
+    });
   }
 
-  private async createTables(): Promise<void> {
+  public async getCustomerCount(): Promise<number> {
     if (!this.database) {
-      throw new Error('Database not initialized');
+      throw new StorageError('Database not initialized');
     }
 
-    const createTableQuery = `
-      CREATE TABLE IF NOT EXISTS customers (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        email TEXT NOT NULL,
-        role TEXT NOT NULL CHECK (role IN ('Admin', 'Manager'))
-      );
+    const countQuery = 'SELECT COUNT(*) as count FROM customers;';
+    const result = await this.database.executeSql(countQuery);
+    const count = result[0].rows.item(0).count;
+    return count;
+  }
+
+  private readOutboxEntries(resultSet: SqlResultSet): OutboxEntry[] {
+    const entries: OutboxEntry[] = [];
+    const rows = resultSet.rows;
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows.item(i);
+      entries.push({
+        id: row.id,
+        operation: row.operation,
+        customerId: row.customer_id,
+        payload: JSON.parse(row.payload),
+        status: row.status,
+        attempts: row.attempts,
+        nextAttemptAt: row.next_attempt_at,
+        lastError: row.last_error ?? null,
+        createdAt: row.created_at,
+      });
+    }
+
+    return entries;
+  }
+
+  // Must be called inside a transaction, usually the one that made the
+  // change being queued.
+  private async writeOutboxEntry(
+    operation: OutboxOperation,
+    customer: ZellerCustomer,
+  ): Promise<void> {
+    const insertQuery = `
+      INSERT INTO outbox (operation, customer_id, payload, created_at)
+      VALUES (?, ?, ?, ?);
     `;
+    await this.database?.executeSql(insertQuery, [
+      operation,
+      customer.id,
+      JSON.stringify(customer),
+      Date.now(),
+    ]);
+  }
 
-    await this.database.executeSql(createTableQuery);
+  // Queues a change on its own, after any open transaction. Changes made
+  // through this service pass `queueRemote` instead, so the change and its
+  // outbox entry commit together.
+  public async enqueueOutboxEntry(
+    operation: OutboxOperation,
+    customer: ZellerCustomer,
+  ): Promise<void> {
+    await this.runInTransaction(() => this.writeOutboxEntry(operation, customer));
   }
 
-  public async insertCustomer(customer: ZellerCustomer): Promise<void> {
+  // Entries come back in the order they were recorded, which is the order
+  // they must be replayed in.
+  public async getOutboxEntries(
+    status: OutboxStatus = 'pending',
+  ): Promise<OutboxEntry[]> {
     if (!this.database) {
-      throw new Error('Database not initialized');
+      throw new StorageError('Database not initialized');
     }
 
-    const insertQuery = `
-      INSERT OR REPLACE INTO customers (id, name, email, role)
-      VALUES (?, ?, ?, ?);
+    const selectQuery = 'SELECT * FROM outbox WHERE status = ? ORDER BY id ASC;';
+    const result = await this.database.executeSql(selectQuery, [status]);
+    return this.readOutboxEntries(result[0]);
+  }
+
+  public async markOutboxEntryFailed(
+    id: number,
+    errorMessage: string,
+    nextAttemptAt: number,
+  ): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
+    }
+
+    const updateQuery = `
+      UPDATE outbox
+      SET attempts = attempts + 1, last_error = ?, next_attempt_at = ?
+      WHERE id = ?;
     `;
+    await this.runInTransaction(() =>
+      database.executeSql(updateQuery, [errorMessage, nextAttemptAt, id]),
+    );
+  }
 
-    // Normalize the role before inserting
-    const normalizedRole = this.normalizeRole(customer.role);
-    
-    try {
-      await this.database.executeSql(insertQuery, [
-        customer.id,
-        customer.name,
-        customer.email,
-        normalizedRole,
-      ]);
-    } catch (error) {
-      console.error(`Error inserting customer ${customer.name} with role ${normalizedRole}:`, error);
-      throw error;
+  public async moveOutboxEntryToDeadLetter(
+    id: number,
+    errorMessage: string,
+  ): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
     }
+
+    const updateQuery = `
+      UPDATE outbox
+      SET status = 'dead', attempts = attempts + 1, last_error = ?
+      WHERE id = ?;
+    `;
+    await this.runInTransaction(() => database.executeSql(updateQuery, [errorMessage, id]));
   }
 
-  public async insertCustomers(customers: ZellerCustomer[]): Promise<void> {
-    if (!this.database) {
-      throw new Error('Database not initialized');
+  public async requeueOutboxEntry(id: number): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
     }
 
-    if (customers.length === 0) {
-      return;
+    const updateQuery = `
+      UPDATE outbox
+      SET status = 'pending', attempts = 0, next_attempt_at = 0, last_error = NULL
+      WHERE id = ?;
+    `;
+    await this.runInTransaction(() => database.executeSql(updateQuery, [id]));
+  }
+
+  public async deleteOutboxEntry(id: number): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
     }
 
-    // Alternative approach: Insert one by one to avoid transaction issues
-    try {
-      for (let i = 0; i < customers.length; i++) {
-        const customer = customers[i];
-        await this.insertCustomer(customer);
-      }
-    } catch (error) {
-      console.error('Error in insertCustomers:', error);
-      throw error;
+    await this.runInTransaction(() =>
+      database.executeSql('DELETE FROM outbox WHERE id = ?;', [id]),
+    );
+  }
+
+  // Swaps a locally generated id for the one the server assigned, including
+  // in any queued mutations that still reference the old id.
+  public async replaceCustomerId(oldId: string, newId: string): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
     }
+
+    await this.runInTransaction(async () => {
+      await database.executeSql('UPDATE customers SET id = ? WHERE id = ?;', [
+        newId,
+        oldId,
+      ]);
+      // Not a change to the customer, so not audited, but shown lists move it
+      const stored = (await this.readStoredCustomers([newId])).get(newId);
+      if (stored) {
+        this.uncommittedChanges.push({
+          before: {...stored.customer, id: oldId},
+          after: stored.customer,
+        });
+      }
+
+      const result = await database.executeSql(
+        'SELECT * FROM outbox WHERE customer_id = ?;',
+        [oldId],
+      );
+      for (const entry of this.readOutboxEntries(result[0])) {
+        await database.executeSql(
+          'UPDATE outbox SET customer_id = ?, payload = ? WHERE id = ?;',
+          [newId, JSON.stringify({...entry.payload, id: newId}), entry.id],
+        );
+      }
+
+      await database.executeSql(
+        'UPDATE customer_events SET customer_id = ? WHERE customer_id = ?;',
+        [newId, oldId],
+      );
+      await database.executeSql('UPDATE role_requests SET customer_id = ? WHERE customer_id = ?;', [
+        newId,
+        oldId,
+      ]);
+      await database.executeSql('UPDATE role_grants SET customer_id = ? WHERE customer_id = ?;', [
+        newId,
+        oldId,
+      ]);
+      await database.executeSql(
+        'UPDATE role_requests SET requested_by = ? WHERE requested_by = ?;',
+        [newId, oldId],
+      );
+      await database.executeSql('UPDATE role_requests SET decided_by = ? WHERE decided_by = ?;', [
+        newId,
+        oldId,
+      ]);
+
+      const pending = await database.executeSql(
+        'SELECT snapshot FROM pending_deletions WHERE customer_id = ?;',
+        [oldId],
+      );
+      if (pending[0].rows.length > 0) {
+        const snapshot = JSON.parse(pending[0].rows.item(0).snapshot);
+        await database.executeSql(
+          'UPDATE pending_deletions SET customer_id = ?, snapshot = ? WHERE customer_id = ?;',
+          [newId, JSON.stringify({...snapshot, id: newId}), oldId],
+        );
+      }
+    });
   }
 
-  public async getAllCustomers(): Promise<ZellerCustomer[]> {
+  // Times of unsynced local edits and deletions, keyed by customer id.
+  public async getLocalChangeTimes(): Promise<Record<string, number>> {
     if (!this.database) {
-      throw new Error('Database not initialized');
+      throw new StorageError('Database not initialized');
     }
 
-    const selectQuery = 'SELECT * FROM customers ORDER BY name ASC;';
+    const selectQuery = `
+      SELECT id, local_updated_at AS changed_at FROM customers
+      WHERE local_updated_at IS NOT NULL AND deleted_at IS NULL
+      UNION ALL
+      SELECT customer_id AS id, local_deleted_at AS changed_at FROM sync_state
+      WHERE local_deleted_at IS NOT NULL;
+    `;
     const result = await this.database.executeSql(selectQuery);
-    const customers: ZellerCustomer[] = [];
+    const changes: Record<string, number> = {};
     const rows = result[0].rows;
 
     for (let i = 0; i < rows.length; i++) {
       const row = rows.item(i);
-      // Normalize role when reading to ensure consistency
-      const normalizedCustomer: ZellerCustomer = {
-        ...row,
-        role: this.normalizeRole(row.role),
-      };
-      customers.push(normalizedCustomer);
+      changes[row.id] = row.changed_at;
     }
-    
-    return customers;
+
+    return changes;
   }
 
-  public async getCustomersByRole(role: 'Admin' | 'Manager'): Promise<ZellerCustomer[]> {
+  public async getSyncState(): Promise<Record<string, SyncStateRecord>> {
     if (!this.database) {
-      throw new Error('Database not initialized');
+      throw new StorageError('Database not initialized');
     }
 
-    // Normalize the role before querying
-    const normalizedRole = this.normalizeRole(role);
-    const selectQuery = 'SELECT * FROM customers WHERE role = ? ORDER BY name ASC;';
-    const result = await this.database.executeSql(selectQuery, [normalizedRole]);
-    
-    const customers: ZellerCustomer[] = [];
+    const result = await this.database.executeSql('SELECT * FROM sync_state;');
+    const records: Record<string, SyncStateRecord> = {};
     const rows = result[0].rows;
-    
+
     for (let i = 0; i < rows.length; i++) {
       const row = rows.item(i);
-      // Normalize role when reading to ensure consistency
-      const normalizedCustomer: ZellerCustomer = {
-        ...row,
-        role: this.normalizeRole(row.role),
+      records[row.customer_id] = {
+        customerId: row.customer_id,
+        serverSnapshot: JSON.parse(row.server_snapshot),
+        syncedAt: row.synced_at,
+        localDeletedAt: row.local_deleted_at ?? null,
       };
-      customers.push(normalizedCustomer);
     }
-    
-    return customers;
+
+    return records;
   }
 
-  public async searchCustomers(searchTerm: string): Promise<ZellerCustomer[]> {
+  public async getSyncConflicts(): Promise<SyncConflict[]> {
     if (!this.database) {
-      throw new Error('Database not initialized');
+      throw new StorageError('Database not initialized');
     }
 
-    const selectQuery = `
-      SELECT * FROM customers 
-      WHERE name LIKE ? 
-      ORDER BY name ASC;
-    `;
-    const result = await this.database.executeSql(selectQuery, [`%${searchTerm}%`]);
-    
-    const customers: ZellerCustomer[] = [];
+    const selectQuery = 'SELECT * FROM sync_conflicts ORDER BY detected_at ASC;';
+    const result = await this.database.executeSql(selectQuery);
+    const conflicts: SyncConflict[] = [];
     const rows = result[0].rows;
-    
+
     for (let i = 0; i < rows.length; i++) {
-      customers.push(rows.item(i));
+      const row = rows.item(i);
+      conflicts.push({
+        customerId: row.customer_id,
+        local: row.local_snapshot ? JSON.parse(row.local_snapshot) : null,
+        server: row.server_snapshot ? JSON.parse(row.server_snapshot) : null,
+        detectedAt: row.detected_at,
+      });
     }
-    
-    return customers;
+
+    return conflicts;
   }
 
-  public async searchCustomersByRole(
-    searchTerm: string,
-    role: 'Admin' | 'Manager'
-  ): Promise<ZellerCustomer[]> {
-    if (!this.database) {
-      throw new Error('Database not initialized');
+  // Applies the outcome of a sync in one transaction so an interrupted sync
+  // never leaves customers and their sync state out of step.
+  public async applySyncChanges(
+    changes: SyncChangeSet,
+    syncedAt: number,
+  ): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
     }
 
-    const selectQuery = `
-      SELECT * FROM customers 
-      WHERE name LIKE ? AND role = ?
-      ORDER BY name ASC;
-    `;
-    const result = await this.database.executeSql(selectQuery, [`%${searchTerm}%`, role]);
-    
-    const customers: ZellerCustomer[] = [];
-    const rows = result[0].rows;
-    
-    for (let i = 0; i < rows.length; i++) {
-      customers.push(rows.item(i));
-    }
-    
-    return customers;
+    await this.runInTransaction(async () => {
+      const upserts = changes.upserts.map(customer => this.normalizeCustomer(customer));
+      const before = await this.readStoredCustomers([
+        ...upserts.map(customer => customer.id),
+        ...changes.deletes,
+      ]);
+
+      if (upserts.length > 0) {
+        await this.writeCustomerRows(upserts, true);
+      }
+
+      for (const id of changes.deletes) {
+        await database.executeSql('DELETE FROM customers WHERE id = ?;', [id]);
+      }
+      if (changes.deletes.length > 0) {
+        await this.closeRecordsOfRemovedCustomers();
+      }
+
+      await this.recordEvents(
+        [
+          ...upserts.map(customer => describeUpsert(before.get(customer.id), customer, 'sync')),
+          ...changes.deletes.map(id => {
+            const deleted = before.get(id);
+            return deleted
+              ? {
+                  type: deleted.deletedAt === null ? ('delete' as const) : ('purge' as const),
+                  source: 'sync' as const,
+                  before: deleted.customer,
+                  after: null,
+                }
+              : null;
+          }),
+        ],
+        syncedAt,
+      );
+
+      for (const snapshot of changes.snapshots) {
+        const serialized = JSON.stringify(this.normalizeCustomer(snapshot));
+        await database.executeSql(
+          `INSERT OR IGNORE INTO sync_state (customer_id, server_snapshot, synced_at)
+           VALUES (?, ?, ?);`,
+          [snapshot.id, serialized, syncedAt],
+        );
+        await database.executeSql(
+          'UPDATE sync_state SET server_snapshot = ?, synced_at = ? WHERE customer_id = ?;',
+          [serialized, syncedAt, snapshot.id],
+        );
+      }
+
+      // The server version is now the local one, so any tombstone is void
+      for (const customer of changes.upserts) {
+        await database.executeSql(
+          'UPDATE sync_state SET local_deleted_at = NULL WHERE customer_id = ?;',
+          [customer.id],
+        );
+      }
+
+      for (const id of changes.forgotten) {
+        await database.executeSql('DELETE FROM sync_state WHERE customer_id = ?;', [id]);
+      }
+
+      for (const id of changes.discardOutbox) {
+        await database.executeSql(
+          "DELETE FROM outbox WHERE customer_id = ? AND status = 'pending';",
+          [id],
+        );
+      }
+
+      for (const id of changes.resolvedConflicts) {
+        await database.executeSql('DELETE FROM sync_conflicts WHERE customer_id = ?;', [id]);
+      }
+
+      for (const conflict of changes.conflicts) {
+        await database.executeSql(
+          `INSERT OR REPLACE INTO sync_conflicts
+             (customer_id, local_snapshot, server_snapshot, detected_at)
+           VALUES (?, ?, ?, ?);`,
+          [
+            conflict.customerId,
+            conflict.local ? JSON.stringify(conflict.local) : null,
+            conflict.server ? JSON.stringify(conflict.server) : null,
+            conflict.detectedAt,
+          ],
+        );
+      }
+
+      for (const id of changes.released) {
+        await database.executeSql('DELETE FROM quarantined_customers WHERE customer_id = ?;', [
+          id,
+        ]);
+      }
+
+      for (const entry of changes.quarantined) {
+        await database.executeSql(
+          `INSERT OR REPLACE INTO quarantined_customers
+             (customer_id, raw, reasons, received_at)
+           VALUES (?, ?, ?, ?);`,
+          [entry.customerId, JSON.stringify(entry.raw), JSON.stringify(entry.reasons), entry.receivedAt],
+        );
+      }
+    });
   }
 
-  public async updateCustomer(customer: ZellerCustomer): Promise<void> {
+  public async getQuarantinedCustomers(): Promise<QuarantinedCustomer[]> {
     if (!this.database) {
-      throw new Error('Database not initialized');
+      throw new StorageError('Database not initialized');
     }
 
-    const updateQuery = `
-      UPDATE customers 
-      SET name = ?, email = ?, role = ?
-      WHERE id = ?;
-    `;
+    const selectQuery = 'SELECT * FROM quarantined_customers ORDER BY received_at ASC, customer_id ASC;';
+    const result = await this.database.executeSql(selectQuery);
+    const entries: QuarantinedCustomer[] = [];
+    const rows = result[0].rows;
 
-    // Normalize the role before updating
-    const normalizedRole = this.normalizeRole(customer.role);
-    
-    await this.database.executeSql(updateQuery, [
-      customer.name,
-      customer.email,
-      normalizedRole,
-      customer.id,
-    ]);
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows.item(i);
+      entries.push({
+        customerId: row.customer_id,
+        raw: JSON.parse(row.raw),
+        reasons: JSON.parse(row.reasons),
+        receivedAt: row.received_at,
+      });
+    }
+
+    return entries;
   }
 
-  public async deleteCustomer(id: string): Promise<void> {
-    if (!this.database) {
-      throw new Error('Database not initialized');
+  // Writes the fixed version of a quarantined customer as a local change, so
+  // the outbox pushes it and sync keeps it over the server's bad record, and
+  // takes it out of quarantine. With `queueRemote`, the update is queued in
+  // the outbox in the same transaction.
+  public async resolveQuarantinedCustomer(
+    customer: ZellerCustomer,
+    queueRemote: boolean = false,
+  ): Promise<void> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
     }
 
-    const deleteQuery = 'DELETE FROM customers WHERE id = ?;';
-    await this.database.executeSql(deleteQuery, [id]);
+    const fixed = this.normalizeCustomer(customer);
+    await this.runInTransaction(async () => {
+      const before = await this.readStoredCustomers([fixed.id]);
+      await database.executeSql(
+        `INSERT OR REPLACE INTO customers (id, name, email, role, local_updated_at)
+         VALUES (?, ?, ?, ?, ?);`,
+        [fixed.id, fixed.name, fixed.email, fixed.role, Date.now()],
+      );
+      await database.executeSql('DELETE FROM quarantined_customers WHERE customer_id = ?;', [
+        fixed.id,
+      ]);
+      await this.recordEvents([describeUpsert(before.get(fixed.id), fixed, 'local')]);
+      if (queueRemote) {
+        await this.writeOutboxEntry('update', fixed);
+      }
+    });
   }
 
-  public async clearAllCustomers(): Promise<void> {
-    if (!this.database) {
-      throw new Error('Database not initialized');
+  // Every customer, trashed ones included, and the changes not yet sent,
+  // read in one transaction so they agree with each other.
+  public async readBackup(): Promise<DatabaseBackup> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
     }
 
-    const deleteQuery = 'DELETE FROM customers;';
-    await this.database.executeSql(deleteQuery);
+    return this.runInTransaction(async () => {
+      const [customerRows] = await database.executeSql(
+        'SELECT * FROM customers ORDER BY id ASC;',
+      );
+      const customers: BackupCustomer[] = this.readCustomers(customerRows).map(
+        (customer, index) => {
+          const row = customerRows.rows.item(index);
+          return {
+            ...customer,
+            deletedAt: row.deleted_at ?? null,
+            localUpdatedAt: row.local_updated_at ?? null,
+          };
+        },
+      );
+      const [outboxRows] = await database.executeSql('SELECT * FROM outbox ORDER BY id ASC;');
+
+      return {
+        customers,
+        outbox: this.readOutboxEntries(outboxRows),
+        pendingDeletions: await this.getPendingDeletions(),
+        syncState: Object.values(await this.getSyncState()),
+        roles: await this.readRoles(),
+      };
+    });
   }
 
-  public async getCustomerCount(): Promise<number> {
-    if (!this.database) {
-      throw new Error('Database not initialized');
+  // Writes a backup back in one transaction. "replace" makes the device
+  // hold exactly the backup; "merge" writes the backed-up customers over
+  // those with the same id and keeps the rest. Customers go through the same
+  // checks and normalization as insertCustomers, and invalid ones are
+  // skipped and reported. Roles the backup has and this catalog lacks are
+  // added to it first, so its customers keep them.
+  public async restoreBackup(
+    backup: DatabaseBackup,
+    mode: BackupImportMode,
+  ): Promise<BackupImportReport> {
+    const database = this.database;
+    if (!database) {
+      throw new StorageError('Database not initialized');
     }
 
-    const countQuery = 'SELECT COUNT(*) as count FROM customers;';
-    const result = await this.database.executeSql(countQuery);
-    const count = result[0].rows.item(0).count;
-    return count;
-  }
+    const report: BackupImportReport = {
+      mode,
+      inserted: 0,
+      replaced: 0,
+      rejected: 0,
+      rejections: [],
+      removed: 0,
+      outboxEntries: 0,
+      pendingDeletions: 0,
+    };
 
-  public async testDatabaseConnection(): Promise<boolean> {
-    try {
-      if (!this.database) {
-        return false;
-      }
+    const addedRoles = (backup.roles ?? []).filter(
+      role => !this.roles.some(existing => existing.name === role.name),
+    );
+    const roles = [...this.roles, ...addedRoles];
 
-      // Test basic query
-      const testQuery = 'SELECT name FROM sqlite_master WHERE type="table" AND name="customers";';
-      const result = await this.database.executeSql(testQuery);
-      
-      if (result[0].rows.length === 0) {
-        return false;
+    const rowsById = new Map<string, BackupCustomer>();
+    for (const customer of backup.customers) {
+      const reason = this.getBulkRejectionReason(customer);
+      if (reason) {
+        report.rejected++;
+        report.rejections.push({customer: {...customer}, reason});
+        continue;
       }
+      if (rowsById.has(customer.id)) {
+        report.replaced++;
+      }
+      rowsById.set(customer.id, {
+        ...customer,
+        role: normalizeRole(customer.role, roles),
+      });
+    }
+    const rows = Array.from(rowsById.values());
 
-      return true;
+    try {
+      await this.runInTransaction(async () => {
+        let before: Map<string, StoredCustomer>;
+        let existingOutbox = new Set<string>();
+
+        await this.writeRoles(addedRoles, false);
+        // For the role changes logged below; read back once this commits
+        this.roles = sortRoles(roles);
+        if (mode === 'replace') {
+          const [existing] = await database.executeSql('SELECT * FROM customers;');
+          before = new Map(this.readStoredRows(existing).map(row => [row.customer.id, row]));
+          const removed = Array.from(before.values()).filter(row => !rowsById.has(row.customer.id));
+          report.removed = removed.length;
+          await database.executeSql('DELETE FROM customers;');
+          await database.executeSql('DELETE FROM outbox;');
+          await database.executeSql('DELETE FROM pending_deletions;');
+          await database.executeSql('DELETE FROM sync_state;');
+          await database.executeSql('DELETE FROM sync_conflicts;');
+          await database.executeSql('DELETE FROM role_requests;');
+          await database.executeSql('DELETE FROM role_grants;');
+          await this.recordEvents(
+            removed.map(row => ({
+              type: 'purge' as const,
+              source: 'import' as const,
+              before: row.customer,
+              after: null,
+            })),
+          );
+        } else {
+          before = await this.readStoredCustomers(rows.map(row => row.id));
+          const [outboxRows] = await database.executeSql('SELECT * FROM outbox;');
+          existingOutbox = new Set(
+            Array.from({length: outboxRows.rows.length}, (_, index) => {
+              const row = outboxRows.rows.item(index);
+              return getOutboxEntryKey({
+                operation: row.operation,
+                customerId: row.customer_id,
+                payload: row.payload,
+                createdAt: row.created_at,
+              });
+            }),
+          );
+        }
+
+        for (let start = 0; start < rows.length; start += BACKUP_BATCH_SIZE) {
+          const batch = rows.slice(start, start + BACKUP_BATCH_SIZE);
+          await database.executeSql(
+            `INSERT OR REPLACE INTO customers (id, name, email, role, deleted_at, local_updated_at)
+             VALUES ${batch.map(() => '(?, ?, ?, ?, ?, ?)').join(', ')};`,
+            batch.flatMap(row => [
+              row.id,
+              row.name,
+              row.email,
+              row.role,
+              row.deletedAt ?? null,
+              row.localUpdatedAt ?? null,
+            ]),
+          );
+        }
+        rows.forEach(row => {
+          if (before.has(row.id)) {
+            report.replaced++;
+          } else {
+            report.inserted++;
+          }
+        });
+        await this.recordEvents(rows.map(row => describeBackupRow(before.get(row.id), row)));
+
+        // Kept in their original order, which is the order they replay in
+        for (const entry of backup.outbox) {
+          const payload = JSON.stringify(entry.payload);
+          if (existingOutbox.has(getOutboxEntryKey({...entry, payload}))) {
+            continue;
+          }
+          await database.executeSql(
+            `INSERT INTO outbox
+               (operation, customer_id, payload, status, attempts, next_attempt_at, last_error, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?);`,
+            [
+              entry.operation,
+              entry.customerId,
+              payload,
+              entry.status,
+              entry.attempts,
+              entry.nextAttemptAt,
+              entry.lastError,
+              entry.createdAt,
+            ],
+          );
+          report.outboxEntries++;
+        }
+
+        for (const deletion of backup.pendingDeletions) {
+          await database.executeSql(
+            'INSERT OR REPLACE INTO pending_deletions (customer_id, snapshot, delete_at) VALUES (?, ?, ?);',
+            [deletion.customer.id, JSON.stringify(deletion.customer), deletion.deleteAt],
+          );
+          report.pendingDeletions++;
+        }
+
+        for (const record of backup.syncState) {
+          await database.executeSql(
+            `INSERT OR REPLACE INTO sync_state
+               (customer_id, server_snapshot, synced_at, local_deleted_at)
+             VALUES (?, ?, ?, ?);`,
+            [
+              record.customerId,
+              JSON.stringify(record.serverSnapshot),
+              record.syncedAt,
+              record.localDeletedAt,
+            ],
+          );
+        }
+      });
     } catch (error) {
-      console.error('Database connection test failed:', error);
-      return false;
+      console.error('Error in restoreBackup:', error);
+      throw error;
+    } finally {
+      this.roles = await this.readRoles();
     }
-  }
 
-  public async testInsertSingleCustomer(): Promise<void> {
-    const testCustomer: ZellerCustomer = {
-      id: 'test-' + Date.now(),
-      name: 'Test Customer',
-      email: 'test@example.com',
-      role: 'Admin',
-    };
-
-    await this.insertCustomer(testCustomer);
-    await this.deleteCustomer(testCustomer.id);
+    return report;
   }
 
-  public async recreateTableWithoutConstraint(): Promise<void> {
+  public async getMetadata(key: string): Promise<string | null> {
     if (!this.database) {
-      throw new Error('Database not initialized');
+      throw new StorageError('Database not initialized');
     }
 
-    // Drop existing table
-    await this.database.executeSql('DROP TABLE IF EXISTS customers;');
+    const result = await this.database.executeSql(
+      'SELECT value FROM app_metadata WHERE key = ?;',
+      [key],
+    );
+    const rows = result[0].rows;
+    return rows.length > 0 ? rows.item(0).value : null;
+  }
 
-    // Create table without CHECK constraint
-    const createTableQuery = `
-      CREATE TABLE customers (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        email TEXT NOT NULL,
-        role TEXT NOT NULL
-      );
-    `;
+  public async setMetadata(key: string, value: string): Promise<void> {
+    if (!this.database) {
+      throw new StorageError('Database not initialized');
+    }
 
-    await this.database.executeSql(createTableQuery);
+    await this.database.executeSql(
+      'INSERT OR REPLACE INTO app_metadata (key, value) VALUES (?, ?);',
+      [key, value],
+    );
   }
 
   public async closeDatabase(): Promise<void> {
+    // Their results belong to the database being closed
+    this.liveQueries.forEach(query => query.close());
     if (this.database) {
       await this.database.close();
       this.database = null;
+      this.databaseName = null;
+      this.healthReport = null;
+      this.roles = DEFAULT_ROLES;
     }
   }
 }
@@ -0,0 +1,139 @@
+import {
+  CustomerCursor,
+  CustomerPage,
+  CustomerPageQuery,
+  CustomerQueryScope,
+  LiveCustomerResults,
+  ZellerCustomer,
+} from '../types';
+import {matchesSearchTerm} from '../utils/search';
+
+// A committed write to one customer row. `before` is null for a new row and
+// `after` for one that was deleted.
+export interface CustomerChange {
+  before: ZellerCustomer | null;
+  after: ZellerCustomer | null;
+}
+
+export interface LiveCustomerQueryOptions {
+  pageSize: number;
+  // Called with the rows loaded so far after every read
+  onResults: (results: LiveCustomerResults) => void;
+  onError: (error: unknown) => void;
+}
+
+type PageReader = (query: CustomerPageQuery) => Promise<CustomerPage>;
+
+// The rows of one query loaded so far, read again whenever a committed write
+// touches a customer the query could match. Opened with
+// DatabaseService.watchCustomers and closed by whoever opened it.
+export class LiveCustomerQuery {
+  private readonly scope: CustomerQueryScope;
+  private readonly readPage: PageReader;
+  private readonly options: LiveCustomerQueryOptions;
+  private readonly onClose: () => void;
+  private customers: ZellerCustomer[] = [];
+  private nextCursor: CustomerCursor | null = null;
+  // Reads run one at a time, so a refresh never overtakes a loadMore
+  private reads: Promise<void> = Promise.resolve();
+  private refreshQueued = false;
+  private closed = false;
+
+  constructor(
+    scope: CustomerQueryScope,
+    readPage: PageReader,
+    options: LiveCustomerQueryOptions,
+    onClose: () => void,
+  ) {
+    this.scope = scope;
+    this.readPage = readPage;
+    this.options = options;
+    this.onClose = onClose;
+    this.refresh();
+  }
+
+  // Reads everything loaded so far again, or the first page to begin with.
+  // Refreshes asked for while one is waiting to run are folded into it.
+  public refresh(): Promise<void> {
+    if (this.refreshQueued) {
+      return this.reads;
+    }
+    this.refreshQueued = true;
+    return this.enqueue(async () => {
+      this.refreshQueued = false;
+      const page = await this.readPage({
+        ...this.scope,
+        after: null,
+        limit: Math.max(this.customers.length, this.options.pageSize),
+      });
+      this.customers = page.customers;
+      this.nextCursor = page.nextCursor;
+    });
+  }
+
+  public loadMore(): Promise<void> {
+    return this.enqueue(async () => {
+      if (!this.nextCursor) {
+        return;
+      }
+      const page = await this.readPage({
+        ...this.scope,
+        after: this.nextCursor,
+        limit: this.options.pageSize,
+      });
+      // A row updated since the last page may sort into this one too
+      const loaded = new Set(this.customers.map(customer => customer.id));
+      this.customers = [
+        ...this.customers,
+        ...page.customers.filter(customer => !loaded.has(customer.id)),
+      ];
+      this.nextCursor = page.nextCursor;
+    });
+  }
+
+  // Whether the change could add, alter or remove one of the results
+  public isTouchedBy(change: CustomerChange): boolean {
+    return [change.before, change.after].some(
+      customer => customer !== null && this.couldMatch(customer),
+    );
+  }
+
+  // Resolves once every read asked for so far has finished
+  public settled(): Promise<void> {
+    return this.reads;
+  }
+
+  public close(): void {
+    if (!this.closed) {
+      this.closed = true;
+      this.onClose();
+    }
+  }
+
+  private couldMatch(customer: ZellerCustomer): boolean {
+    const {role, searchTerm = ''} = this.scope;
+    return (!role || customer.role === role) && matchesSearchTerm(customer, searchTerm);
+  }
+
+  private enqueue(read: () => Promise<void>): Promise<void> {
+    this.reads = this.reads.then(async () => {
+      if (this.closed) {
+        return;
+      }
+      try {
+        await read();
+        if (!this.closed) {
+          this.options.onResults({
+            customers: this.customers,
+            hasMore: this.nextCursor !== null,
+          });
+        }
+      } catch (error) {
+        if (!this.closed) {
+          this.options.onError(error);
+        }
+      }
+    });
+    return this.reads;
+  }
+}
@@ -0,0 +1,28 @@
+// The parts of a SQL result set the app reads, shaped the way
+// react-native-sqlite-storage returned them
+export interface SqlResultSet {
+  rows: {
+    length: number;
+    item: (index: number) => any;
+  };
+  rowsAffected: number;
+  insertId?: number;
+}
+
+// An open database. Statements run one at a time, in the order issued.
+export interface StorageConnection {
+  executeSql: (statement: string, params?: any[]) => Promise<[SqlResultSet]>;
+  // Re-encrypts the database under a new key. Not inside a transaction.
+  rekey: (key: string) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+// Opens databases by name. The app uses ReactNativeSqliteAdapter; tests can
+// use NodeSqliteAdapter to run the same SQL in Node.
+export interface StorageAdapter {
+  // Without a key the database is plaintext. With one, it is encrypted under
+  // that key, and opening fails if it is plaintext or under another key.
+  open: (name: string, key?: string) => Promise<StorageConnection>;
+  // Deletes the named database, if there is one. It must not be open.
+  remove: (name: string) => Promise<void>;
+}
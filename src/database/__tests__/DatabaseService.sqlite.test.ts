@@ -0,0 +1,944 @@
+import {DatabaseService} from '../DatabaseService';
+import {LATEST_SCHEMA_VERSION} from '../migrations';
+import {NodeSqliteAdapter} from '../adapters/NodeSqliteAdapter';
+import {DatabaseKeySlot, DatabaseKeyStore} from '../DatabaseKeyStore';
+import {copyDatabase} from '../encryption';
+import {DEFAULT_ROLES} from '../../utils/roles';
+import {PolicyError} from '../../errors/AppError';
+import {
+  CustomerCursor,
+  CustomerPage,
+  CustomerPageQuery,
+  ZellerCustomer,
+} from '../../types';
+
+const createKeyStore = () => {
+  const keys = new Map<string, string>();
+  const keyStore: DatabaseKeyStore = {
+    getKey: async (name: string, slot: DatabaseKeySlot) => keys.get(`${slot}:${name}`) ?? null,
+    setKey: async (name: string, slot: DatabaseKeySlot, key: string) => {
+      keys.set(`${slot}:${name}`, key);
+    },
+    deleteKey: async (name: string, slot: DatabaseKeySlot) => {
+      keys.delete(`${slot}:${name}`);
+    },
+  };
+  return {keys, keyStore};
+};
+
+// Real SQL, run by SQLite compiled to WebAssembly
+describe('DatabaseService on SQLite', () => {
+  const dbService = DatabaseService.getInstance();
+  let storage: NodeSqliteAdapter;
+  let keyStore: DatabaseKeyStore;
+  let keys: Map<string, string>;
+
+  const ada: ZellerCustomer = {
+    id: '1',
+    name: 'Ada Lovelace',
+    email: 'ada@example.com',
+    role: 'Admin',
+  };
+  const grace: ZellerCustomer = {
+    id: '2',
+    name: 'Grace Hopper',
+    email: 'grace@navy.example.com',
+    role: 'Manager',
+  };
+
+  beforeEach(async () => {
+    storage = new NodeSqliteAdapter();
+    ({keys, keyStore} = createKeyStore());
+    dbService.setStorageAdapter(storage);
+    dbService.setKeyStore(keyStore);
+    // Most tests delete the only Admin; 'minimum admins' turns the rule on
+    dbService.setMinimumAdmins(0);
+    await dbService.initDatabase('test.db');
+  });
+
+  afterEach(async () => {
+    await dbService.closeDatabase();
+    storage.dispose();
+  });
+
+  it('should migrate a new database to the latest schema', async () => {
+    expect(await dbService.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+    expect(dbService.getHealthReport()).toMatchObject({healthy: true, issues: [], repairs: []});
+  });
+
+  it('should keep data and skip migrations when reopened', async () => {
+    await dbService.insertCustomer(ada);
+    await dbService.closeDatabase();
+
+    await dbService.initDatabase('test.db');
+
+    expect(await dbService.getAllCustomers()).toEqual([ada]);
+  });
+
+  it('should find customers by name and email prefixes', async () => {
+    await dbService.insertCustomers([ada, grace]);
+
+    expect(await dbService.searchCustomers('lov')).toEqual([ada]);
+    expect(await dbService.searchCustomers('grace navy')).toEqual([grace]);
+    expect(await dbService.searchCustomersByRole('a', 'Manager')).toEqual([]);
+  });
+
+  it('should keep the search index in step with updates', async () => {
+    await dbService.insertCustomer(ada);
+    await dbService.updateCustomer({...ada, name: 'Augusta King'});
+
+    expect(await dbService.searchCustomers('ada lovelace')).toEqual([]);
+    expect(await dbService.searchCustomers('augusta')).toHaveLength(1);
+  });
+
+  it('should hide trashed customers until they are restored', async () => {
+    await dbService.insertCustomers([ada, grace]);
+    await dbService.deleteCustomer(ada.id);
+
+    expect(await dbService.getAllCustomers()).toEqual([grace]);
+    expect(await dbService.searchCustomers('ada')).toEqual([]);
+    expect((await dbService.getDeletedCustomers()).map(c => c.id)).toEqual([ada.id]);
+
+    await dbService.restoreCustomer(ada.id);
+
+    expect(await dbService.getAllCustomers()).toEqual([ada, grace]);
+  });
+
+  it('should queue remote changes with the writes that make them', async () => {
+    await dbService.insertCustomers([ada, {...ada, id: 'alan', name: 'Alan Turing'}]);
+    await dbService.insertCustomer(grace, 'local', true);
+    await dbService.updateCustomer({...grace, name: 'Grace B. Hopper'}, null, true);
+    // Refused while it waits for approval, so neither the change nor its
+    // outbox entry is kept
+    await expect(
+      dbService.updateCustomer({...grace, role: 'Admin'}, null, true),
+    ).rejects.toBeInstanceOf(PolicyError);
+    await dbService.deleteCustomer(grace.id, true);
+
+    expect(
+      (await dbService.getOutboxEntries()).map(entry => [entry.operation, entry.customerId]),
+    ).toEqual([
+      ['create', grace.id],
+      ['update', grace.id],
+      ['delete', grace.id],
+    ]);
+  });
+
+  it('should purge only customers trashed before the cutoff', async () => {
+    await dbService.insertCustomers([ada, grace]);
+    await dbService.deleteCustomer(ada.id);
+
+    expect(await dbService.purgeDeletedCustomers(0)).toBe(0);
+    expect(await dbService.purgeDeletedCustomers(Date.now() + 1)).toBe(1);
+    expect(await dbService.getDeletedCustomers()).toEqual([]);
+  });
+
+  it('should log each change and refuse to rewrite the log', async () => {
+    await dbService.insertCustomer({...ada, role: 'Manager'});
+    await dbService.updateCustomer(ada);
+    await dbService.deleteCustomer(ada.id);
+
+    const events = await dbService.getCustomerEvents({customerId: ada.id});
+    expect(events.map(event => event.type)).toEqual(['delete', 'update', 'create']);
+    expect(
+      (await dbService.getCustomerEvents({roleChangesOnly: true})).map(e => e.roleChange),
+    ).toEqual(['promotion']);
+
+    const connection = await storage.open('test.db', keys.get('current:test.db'));
+    await expect(connection.executeSql('DELETE FROM customer_events;')).rejects.toThrow(
+      'append-only',
+    );
+    await expect(
+      connection.executeSql("UPDATE customer_events SET source = 'sync';"),
+    ).rejects.toThrow('append-only');
+
+    // Events follow the customer to the id the server assigns
+    await dbService.replaceCustomerId(ada.id, 'server-1');
+    expect(await dbService.getCustomerEvents({customerId: 'server-1'})).toHaveLength(3);
+  });
+
+  describe('encryption', () => {
+    // A database as an app version before encryption left it
+    const createPlaintextDatabase = async (name: string) => {
+      await dbService.insertCustomers([ada, grace]);
+      await dbService.updateCustomer({...grace, name: 'Grace Brewster Hopper'});
+      await dbService.closeDatabase();
+
+      const source = await storage.open('test.db', keys.get('current:test.db'));
+      const plaintext = await storage.open(name);
+      await copyDatabase(source, plaintext);
+      await Promise.all([source.close(), plaintext.close()]);
+    };
+
+    const expectIntact = async () => {
+      expect(await dbService.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+      expect(await dbService.getAllCustomers()).toEqual([
+        ada,
+        {...grace, name: 'Grace Brewster Hopper'},
+      ]);
+      expect(await dbService.searchCustomers('navy')).toHaveLength(1);
+      expect(await dbService.getCustomerEvents({customerId: grace.id})).toHaveLength(2);
+    };
+
+    it('should create new databases encrypted under a kept key', async () => {
+      expect(keys.get('current:test.db')).toMatch(/^[0-9a-f]{64}$/);
+      expect(storage.keyOf('test.db')).toBe(keys.get('current:test.db'));
+      await expect(storage.open('test.db')).rejects.toThrow('file is not a database');
+    });
+
+    it('should encrypt a plaintext database in place', async () => {
+      await createPlaintextDatabase('legacy.db');
+
+      await dbService.initDatabase('legacy.db');
+
+      expect(storage.keyOf('legacy.db')).toBe(keys.get('current:legacy.db'));
+      expect(keys.has('pending:legacy.db')).toBe(false);
+      expect(storage.keyOf('legacy.db.encrypting')).toBeUndefined();
+      await expectIntact();
+      // Triggers came across too
+      await dbService.insertCustomer({...ada, id: '3', name: 'Ada King'});
+      expect(await dbService.searchCustomers('king')).toHaveLength(1);
+    });
+
+    it('should finish an encryption that was cut short', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      await createPlaintextDatabase('legacy.db');
+      const setKey = keyStore.setKey;
+      keyStore.setKey = async (name, slot, key) => {
+        if (slot === 'current') {
+          throw new Error('Keychain unavailable');
+        }
+        return setKey(name, slot, key);
+      };
+
+      await expect(dbService.initDatabase('legacy.db')).rejects.toThrow('Keychain unavailable');
+      keyStore.setKey = setKey;
+      await dbService.initDatabase('legacy.db');
+
+      await expectIntact();
+    });
+
+    it('should rotate the key, and only once it is due', async () => {
+      await dbService.insertCustomer(ada);
+      const firstKey = keys.get('current:test.db');
+
+      expect(await dbService.rotateDatabaseKey(Date.now() - 1000)).toBe(false);
+      expect(await dbService.rotateDatabaseKey()).toBe(true);
+
+      expect(keys.get('current:test.db')).not.toBe(firstKey);
+      expect(storage.keyOf('test.db')).toBe(keys.get('current:test.db'));
+      await dbService.closeDatabase();
+      await dbService.initDatabase('test.db');
+      expect(await dbService.getAllCustomers()).toEqual([ada]);
+    });
+
+    it('should finish a rotation that stopped before the new key was saved', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const setKey = keyStore.setKey;
+      keyStore.setKey = async (name, slot, key) => {
+        if (slot === 'current') {
+          throw new Error('Keychain unavailable');
+        }
+        return setKey(name, slot, key);
+      };
+
+      await expect(dbService.rotateDatabaseKey()).rejects.toMatchObject({name: 'StorageError'});
+      keyStore.setKey = setKey;
+      await dbService.closeDatabase();
+      await dbService.initDatabase('test.db');
+
+      expect(keys.get('current:test.db')).toBe(storage.keyOf('test.db'));
+      expect(keys.has('pending:test.db')).toBe(false);
+    });
+
+    it('should refuse to open a database whose key is lost', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      await dbService.closeDatabase();
+      keys.clear();
+
+      await expect(dbService.initDatabase('test.db')).rejects.toMatchObject({
+        name: 'StorageError',
+      });
+    });
+  });
+
+  describe('health check', () => {
+    // Runs SQL against the file behind the service's back, as a crash or a
+    // bug in an older version might have
+    const tamper = async (...statements: string[]) => {
+      await dbService.closeDatabase();
+      const database = await storage.open('test.db', keys.get('current:test.db'));
+      for (const statement of statements) {
+        await database.executeSql(statement);
+      }
+      await database.close();
+    };
+
+    // Reads the file as it is, past the joins that hide orphaned rows
+    const inspect = async (statement: string): Promise<any[]> => {
+      await dbService.closeDatabase();
+      const database = await storage.open('test.db', keys.get('current:test.db'));
+      const [result] = await database.executeSql(statement);
+      await database.close();
+      return Array.from({length: result.rows.length}, (_, index) => result.rows.item(index));
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should remove orphaned and duplicate rows in place', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1000);
+      await dbService.insertCustomer(ada);
+      await dbService.enqueueOutboxEntry('create', ada);
+      await dbService.enqueueOutboxEntry('create', ada);
+      await dbService.addPendingDeletion(grace, 5000);
+
+      await dbService.closeDatabase();
+      await dbService.initDatabase('test.db');
+
+      expect(dbService.getHealthReport()).toMatchObject({
+        healthy: true,
+        repairs: ['removed-duplicate-rows', 'removed-orphaned-rows', 'rebuilt-search-index'],
+      });
+      expect(await dbService.getOutboxEntries()).toHaveLength(1);
+      expect(await dbService.getPendingDeletions()).toEqual([]);
+      expect(await dbService.getAllCustomers()).toEqual([ada]);
+    });
+
+    it('should close or remove every row left by a customer the file lost', async () => {
+      await dbService.insertCustomers([ada, grace]);
+      // With Ada the only Admin, the promotion needs no approval
+      await dbService.updateCustomer({...grace, role: 'Admin'}, Date.now() + 60000);
+      await dbService.enqueueOutboxEntry('update', grace);
+      await dbService.enqueueOutboxEntry('delete', grace);
+      await tamper(
+        `INSERT INTO role_requests (customer_id, from_role, to_role, requested_by, requested_at)
+         VALUES ('${grace.id}', 'Manager', 'Admin', '${ada.id}', 1000);`,
+        `DELETE FROM customers WHERE id = '${grace.id}';`,
+      );
+
+      await dbService.initDatabase('test.db');
+
+      expect(dbService.getHealthReport()).toMatchObject({
+        healthy: true,
+        repairs: ['removed-orphaned-rows', 'closed-orphaned-records'],
+      });
+      const [purge] = await dbService.getCustomerEvents({customerId: grace.id});
+      expect(purge).toMatchObject({
+        type: 'purge',
+        source: 'repair',
+        before: {...grace, role: 'Admin'},
+        after: null,
+      });
+      expect(
+        (await dbService.getOutboxEntries()).map(entry => [entry.operation, entry.customerId]),
+      ).toEqual([['delete', grace.id]]);
+      expect(await inspect('SELECT status FROM role_requests;')).toEqual([
+        {status: 'cancelled'},
+      ]);
+      expect(await inspect('SELECT status FROM role_grants;')).toEqual([
+        {status: 'superseded'},
+      ]);
+    });
+
+    it('should check the file before migrations or the role catalog read it', async () => {
+      const statements: string[] = [];
+      const open = storage.open.bind(storage);
+      jest.spyOn(storage, 'open').mockImplementation(async (name, key) => {
+        const connection = await open(name, key);
+        const executeSql = connection.executeSql;
+        connection.executeSql = (statement, params) => {
+          statements.push(statement.trim());
+          return executeSql(statement, params);
+        };
+        return connection;
+      });
+
+      await dbService.initDatabase('test.db');
+
+      const integrityCheck = statements.indexOf('PRAGMA integrity_check;');
+      expect(integrityCheck).toBeGreaterThan(-1);
+      expect(integrityCheck).toBeLessThan(statements.indexOf('PRAGMA user_version;'));
+      expect(integrityCheck).toBeLessThan(
+        statements.findIndex(statement => /FROM roles/.test(statement)),
+      );
+    });
+
+    it('should rebuild a search index that drifted from the customers', async () => {
+      await dbService.insertCustomer(ada);
+      await tamper("INSERT INTO customers_fts (customers_fts) VALUES ('delete-all');");
+
+      await dbService.initDatabase('test.db');
+
+      expect(dbService.getHealthReport()).toMatchObject({
+        healthy: true,
+        repairs: ['rebuilt-search-index'],
+      });
+      expect(await dbService.searchCustomers('lovelace')).toEqual([ada]);
+    });
+
+    it('should rebuild a database missing a table, keeping what it can read', async () => {
+      await dbService.insertCustomers([ada, grace]);
+      await tamper('DROP TABLE pending_deletions;');
+
+      await dbService.initDatabase('test.db');
+
+      expect(dbService.getHealthReport()).toMatchObject({
+        healthy: true,
+        repairs: ['rebuilt-database'],
+        lostTables: ['pending_deletions'],
+      });
+      expect(await dbService.getAllCustomers()).toEqual([ada, grace]);
+      expect(await dbService.searchCustomers('navy')).toEqual([grace]);
+      expect(await dbService.getCustomerEvents({})).toHaveLength(2);
+      expect(await dbService.getPendingDeletions()).toEqual([]);
+    });
+
+    it('should drop sync state along with customers that could not be saved', async () => {
+      await dbService.insertCustomer(ada);
+      await tamper('DROP TABLE customers;');
+
+      await dbService.initDatabase('test.db');
+
+      expect(dbService.getHealthReport()?.lostTables).toEqual(
+        expect.arrayContaining(['customers', 'sync_state', 'pending_deletions']),
+      );
+      expect(await dbService.getAllCustomers()).toEqual([]);
+      expect(await dbService.getSyncState()).toEqual({});
+      // The history stays, closed until the next sync brings Ada back
+      expect(
+        (await dbService.getCustomerEvents({customerId: ada.id})).map(event => [
+          event.type,
+          event.source,
+        ]),
+      ).toEqual([
+        ['purge', 'repair'],
+        ['create', 'local'],
+      ]);
+    });
+  });
+
+  describe('role catalog', () => {
+    const owner = {name: 'Owner', label: 'Owner', rank: 3, aliases: ['proprietor']};
+    const staff = {name: 'Staff', label: 'Staff', rank: 0, aliases: []};
+
+    it('should store roles the catalog lacks as its least senior role', async () => {
+      await dbService.insertCustomer({...ada, role: 'proprietor'});
+      expect((await dbService.getAllCustomers())[0].role).toBe('Manager');
+
+      await dbService.replaceRoles([owner, ...DEFAULT_ROLES, staff]);
+      await dbService.insertCustomer({...grace, role: 'proprietor'});
+      await dbService.updateCustomer({...ada, role: 'STAFF'});
+
+      expect(await dbService.getAllCustomers()).toEqual([
+        {...ada, role: 'Staff'},
+        {...grace, role: 'Owner'},
+      ]);
+      expect(
+        (await dbService.getCustomerEvents({roleChangesOnly: true})).map(e => e.roleChange),
+      ).toEqual(['demotion']);
+    });
+
+    it('should refuse customers with a role outside the catalog', async () => {
+      await dbService.closeDatabase();
+      const database = await storage.open('test.db', keys.get('current:test.db'));
+
+      await expect(
+        database.executeSql(
+          "INSERT INTO customers (id, name, email, role) VALUES ('9', 'Ed', 'ed@example.com', 'Viewer');",
+        ),
+      ).rejects.toThrow('Unknown role');
+      await database.executeSql(
+        "INSERT INTO customers (id, name, email, role) VALUES ('9', 'Ed', 'ed@example.com', 'Admin');",
+      );
+      await expect(
+        database.executeSql("DELETE FROM roles WHERE name = 'Admin';"),
+      ).rejects.toThrow('Role is held by customers');
+      await database.close();
+    });
+
+    it('should keep its roles through a rebuild', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      await dbService.replaceRoles([...DEFAULT_ROLES, staff]);
+      await dbService.insertCustomer({...ada, role: 'Staff'});
+      await dbService.closeDatabase();
+      const database = await storage.open('test.db', keys.get('current:test.db'));
+      await database.executeSql('DROP TABLE pending_deletions;');
+      await database.close();
+
+      await dbService.initDatabase('test.db');
+
+      expect(dbService.getHealthReport()?.repairs).toEqual(['rebuilt-database']);
+      expect(dbService.getRoles()).toEqual([...DEFAULT_ROLES, staff]);
+      expect(await dbService.getAllCustomers()).toEqual([{...ada, role: 'Staff'}]);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('minimum admins', () => {
+    beforeEach(async () => {
+      dbService.setMinimumAdmins(1);
+      await dbService.insertCustomer(ada);
+      await dbService.insertCustomer(grace);
+    });
+
+    it('should refuse to delete or demote the last Admin', async () => {
+      expect(await dbService.getProtectedAdminIds()).toEqual(['1']);
+      await expect(dbService.updateCustomer({...ada, role: 'Manager'})).rejects.toThrow(
+        PolicyError,
+      );
+      await expect(dbService.deleteCustomer('1')).rejects.toThrow(
+        'Ada Lovelace is needed to keep at least one Admin on the team',
+      );
+      await expect(dbService.addPendingDeletion(ada, 100)).rejects.toThrow(PolicyError);
+
+      await dbService.updateCustomer({...ada, name: 'Ada King'});
+      await dbService.deleteCustomer('2');
+      expect(await dbService.getAllCustomers()).toEqual([{...ada, name: 'Ada King'}]);
+    });
+
+    // With Ada the only Admin, nobody else could approve, so she promotes
+    // directly
+    const promoteGrace = async () => {
+      expect(await dbService.needsApproval('Manager', 'Admin')).toBe(false);
+      await dbService.updateCustomer({...grace, role: 'Admin'});
+    };
+
+    it('should let an Admin go once another takes over', async () => {
+      await promoteGrace();
+      expect(await dbService.getProtectedAdminIds()).toEqual([]);
+
+      await dbService.addPendingDeletion(grace, 100);
+      // Awaiting deletion, Grace no longer counts
+      expect(await dbService.getProtectedAdminIds()).toEqual(['1']);
+      await expect(dbService.updateCustomer({...ada, role: 'Manager'})).rejects.toThrow(
+        PolicyError,
+      );
+    });
+
+    it('should keep the configured number of Admins', async () => {
+      dbService.setMinimumAdmins(2);
+      await promoteGrace();
+
+      expect(await dbService.getProtectedAdminIds()).toEqual(['1', '2']);
+      await expect(dbService.deleteCustomer('2')).rejects.toThrow(
+        'Grace Hopper is needed to keep at least 2 Admins on the team',
+      );
+    });
+  });
+
+  describe('role requests', () => {
+    const alan: ZellerCustomer = {
+      id: '3',
+      name: 'Alan Turing',
+      email: 'alan@example.com',
+      role: 'Admin',
+    };
+
+    beforeEach(async () => {
+      await dbService.insertCustomers([ada, grace, alan]);
+    });
+
+    // Ways Grace leaves the customers table for good
+    const removals: Array<[string, () => Promise<unknown>]> = [
+      ['purged', () => dbService.purgeCustomer(grace.id)],
+      [
+        'purged from the trash',
+        async () => {
+          await dbService.deleteCustomer(grace.id);
+          await dbService.purgeDeletedCustomers(Date.now() + 1);
+        },
+      ],
+      ['cleared with everyone else', () => dbService.clearAllCustomers()],
+      [
+        'deleted on the server',
+        () =>
+          dbService.applySyncChanges(
+            {
+              upserts: [],
+              deletes: [grace.id],
+              snapshots: [],
+              forgotten: [],
+              conflicts: [],
+              resolvedConflicts: [],
+              discardOutbox: [],
+              quarantined: [],
+              released: [],
+            },
+            100,
+          ),
+      ],
+    ];
+
+    it('should hold a promotion until another Admin approves it', async () => {
+      await expect(dbService.updateCustomer({...grace, role: 'Admin'})).rejects.toThrow(
+        "Making Grace Hopper Admin needs another Admin's approval",
+      );
+
+      const request = await dbService.requestRoleChange(grace.id, 'Admin', ada.id);
+      // Asking again replaces the open request
+      expect(await dbService.requestRoleChange(grace.id, 'Admin', ada.id)).toMatchObject({
+        id: request.id,
+        customerName: 'Grace Hopper',
+        fromRole: 'Manager',
+      });
+      expect(await dbService.getRoleRequests()).toHaveLength(1);
+      expect(await dbService.getAllCustomers()).toContainEqual(grace);
+
+      await expect(dbService.approveRoleRequest(request.id, ada.id)).rejects.toThrow(
+        'Another Admin has to decide a request you made',
+      );
+      await expect(dbService.approveRoleRequest(request.id, 'nobody')).rejects.toThrow(
+        'Only an Admin can decide role requests',
+      );
+
+      expect(await dbService.approveRoleRequest(request.id, alan.id)).toEqual({
+        ...grace,
+        role: 'Admin',
+      });
+      expect(await dbService.getAllCustomers()).toContainEqual({...grace, role: 'Admin'});
+      expect(await dbService.getRoleRequests()).toEqual([]);
+      expect(await dbService.getRoleRequests('approved')).toMatchObject([
+        {id: request.id, decidedBy: alan.id},
+      ]);
+      expect((await dbService.getCustomerEvents({customerId: grace.id}))[0]).toMatchObject({
+        type: 'update',
+        source: 'local',
+      });
+    });
+
+    it('should only take requests from an Admin, decided by someone else', async () => {
+      await expect(dbService.requestRoleChange(grace.id, 'Admin', grace.id)).rejects.toThrow(
+        'Only an Admin can ask for a promotion',
+      );
+      await expect(dbService.requestRoleChange(grace.id, 'Admin', 'nobody')).rejects.toThrow(
+        PolicyError,
+      );
+
+      const request = await dbService.requestRoleChange(grace.id, 'Admin', ada.id);
+      await expect(dbService.approveRoleRequest(request.id, grace.id)).rejects.toThrow(
+        'Another Admin has to decide a request about you',
+      );
+      await expect(dbService.rejectRoleRequest(request.id, ada.id)).rejects.toThrow(
+        'Another Admin has to decide a request you made',
+      );
+      expect(await dbService.getRoleRequests()).toMatchObject([{id: request.id}]);
+    });
+
+    it('should close requests that are rejected or whose customer is deleted', async () => {
+      const first = await dbService.requestRoleChange(grace.id, 'Admin', ada.id);
+      await dbService.rejectRoleRequest(first.id, alan.id);
+      await expect(dbService.approveRoleRequest(first.id, alan.id)).rejects.toThrow(
+        'This request has already been decided',
+      );
+      expect(await dbService.getAllCustomers()).toContainEqual(grace);
+
+      const second = await dbService.requestRoleChange(grace.id, 'Admin', alan.id);
+      expect(second.id).not.toBe(first.id);
+      await dbService.deleteCustomer(grace.id);
+      expect(await dbService.getRoleRequests()).toEqual([]);
+      expect(await dbService.getRoleRequests('cancelled')).toMatchObject([{id: second.id}]);
+    });
+
+    it.each(removals)('should cancel the request of a customer %s', async (_how, remove) => {
+      await dbService.requestRoleChange(grace.id, 'Admin', alan.id);
+
+      await remove();
+
+      expect(await dbService.getRoleRequests()).toEqual([]);
+      expect(await dbService.checkHealth()).toMatchObject({healthy: true, issues: []});
+    });
+
+    it('should give a temporary role once approved and take it back when it ends', async () => {
+      const hour = 60 * 60 * 1000;
+      const request = await dbService.requestRoleChange(grace.id, 'Admin', alan.id, hour);
+      expect(request.grantFor).toBe(hour);
+      await dbService.approveRoleRequest(request.id, ada.id);
+
+      const [grant] = await dbService.getRoleGrants();
+      expect(grant).toMatchObject({
+        customerId: grace.id,
+        previousRole: 'Manager',
+        grantedRole: 'Admin',
+      });
+      expect(await dbService.revertExpiredGrants()).toEqual([]);
+
+      expect(await dbService.revertExpiredGrants(grant.expiresAt)).toEqual([grace]);
+      expect(await dbService.getAllCustomers()).toContainEqual(grace);
+      expect(await dbService.getRoleGrants()).toEqual([]);
+      expect((await dbService.getCustomerEvents({customerId: grace.id}))[0]).toMatchObject({
+        source: 'expiry',
+        roleChange: 'demotion',
+      });
+    });
+
+    it('should not count temporary Admins towards the minimum', async () => {
+      dbService.setMinimumAdmins(1);
+      const request = await dbService.requestRoleChange(grace.id, 'Admin', alan.id, 60000);
+      await dbService.approveRoleRequest(request.id, ada.id);
+      await dbService.deleteCustomer(alan.id);
+
+      expect(await dbService.getProtectedAdminIds()).toEqual([ada.id]);
+      await dbService.deleteCustomer(grace.id);
+    });
+
+    it.each(removals)('should end the temporary role of a customer %s', async (_how, remove) => {
+      const request = await dbService.requestRoleChange(grace.id, 'Admin', alan.id, 60000);
+      await dbService.approveRoleRequest(request.id, ada.id);
+
+      await remove();
+
+      expect(await dbService.checkHealth()).toMatchObject({healthy: true, issues: []});
+    });
+
+    it('should end a temporary role that changes some other way first', async () => {
+      const request = await dbService.requestRoleChange(grace.id, 'Admin', alan.id, 60000);
+      await dbService.approveRoleRequest(request.id, ada.id);
+      await expect(
+        dbService.updateCustomer({...grace, role: 'Admin'}, Date.now() + 60000),
+      ).rejects.toThrow('Only a move to a more senior role can be temporary');
+
+      await dbService.updateCustomer(grace);
+      expect(await dbService.getRoleGrants()).toEqual([]);
+      expect(await dbService.revertExpiredGrants(Date.now() + 120000)).toEqual([]);
+      expect(await dbService.getAllCustomers()).toContainEqual(grace);
+    });
+
+    it('should let the first Admin in without approval', async () => {
+      await dbService.deleteCustomer(ada.id);
+      await dbService.deleteCustomer(alan.id);
+
+      expect(await dbService.needsApproval('Manager', 'Admin')).toBe(false);
+      await dbService.updateCustomer({...grace, role: 'Admin'});
+      expect(await dbService.getAdmins()).toEqual([{...grace, role: 'Admin'}]);
+    });
+  });
+
+  it('should keep trashed customers in the trash when sync updates them', async () => {
+    await dbService.insertCustomers([ada, grace]);
+    await dbService.updateCustomer({...grace, name: 'Grace B. Hopper'});
+    await dbService.deleteCustomer(ada.id);
+    const renamedAda = {...ada, name: 'Augusta King'};
+
+    await dbService.applySyncChanges(
+      {
+        upserts: [renamedAda, grace],
+        deletes: [],
+        snapshots: [renamedAda, grace],
+        forgotten: [],
+        conflicts: [],
+        resolvedConflicts: [],
+        discardOutbox: [],
+        quarantined: [],
+        released: [],
+      },
+      100,
+    );
+
+    expect(await dbService.getAllCustomers()).toEqual([grace]);
+    expect(await dbService.getDeletedCustomers()).toEqual([
+      expect.objectContaining(renamedAda),
+    ]);
+    expect(await dbService.getLocalChangeTimes()).toEqual({});
+  });
+
+  it('should keep quarantined records as sent until they are fixed', async () => {
+    const raw = {id: '3', name: null, email: 'ed@example.com', role: 'Viewer'};
+    await dbService.applySyncChanges(
+      {
+        upserts: [ada],
+        deletes: [],
+        snapshots: [ada],
+        forgotten: [],
+        conflicts: [],
+        resolvedConflicts: [],
+        discardOutbox: [],
+        quarantined: [{customerId: '3', raw, reasons: ['missing-name', 'unknown-role'], receivedAt: 100}],
+        released: [],
+      },
+      100,
+    );
+
+    expect(await dbService.getQuarantinedCustomers()).toEqual([
+      {customerId: '3', raw, reasons: ['missing-name', 'unknown-role'], receivedAt: 100},
+    ]);
+    expect(await dbService.getAllCustomers()).toEqual([ada]);
+
+    await dbService.resolveQuarantinedCustomer({...grace, id: '3'});
+
+    expect(await dbService.getQuarantinedCustomers()).toEqual([]);
+    expect(await dbService.getAllCustomers()).toEqual([ada, {...grace, id: '3'}]);
+    expect(Object.keys(await dbService.getLocalChangeTimes())).toEqual(['3']);
+    expect((await dbService.getCustomerEvents({customerId: '3'}))[0]).toMatchObject({
+      type: 'create',
+      source: 'local',
+    });
+  });
+
+  describe('getCustomerPage', () => {
+    const names = ['bob', 'Alice', '42 Ltd', 'alan', 'Zed', 'Émile', 'Carol'];
+    const customers: ZellerCustomer[] = names.map((name, index) => ({
+      id: String(index + 1),
+      name,
+      email: `${name.replace(/\W/g, '').toLowerCase() || 'x'}@example.com`,
+      role: index % 2 === 0 ? 'Admin' : 'Manager',
+    }));
+
+    const readAll = async (query: Omit<CustomerPageQuery, 'limit' | 'after'> = {}) => {
+      const read: string[] = [];
+      let after: CustomerCursor | null = null;
+      do {
+        const page: CustomerPage = await dbService.getCustomerPage({...query, after, limit: 2});
+        read.push(...page.customers.map(customer => customer.name));
+        after = page.nextCursor;
+      } while (after);
+      return read;
+    };
+
+    beforeEach(async () => {
+      await dbService.insertCustomers(customers);
+    });
+
+    it('should page through letters case-insensitively, then everything else', async () => {
+      expect(await readAll()).toEqual(['alan', 'Alice', 'bob', 'Carol', 'Zed', '42 Ltd', 'Émile']);
+      expect(await readAll({sortOrder: 'name-desc'})).toEqual([
+        'Émile',
+        '42 Ltd',
+        'Zed',
+        'Carol',
+        'bob',
+        'Alice',
+        'alan',
+      ]);
+    });
+
+    it('should filter pages by role and search term', async () => {
+      expect(await readAll({role: 'Admin'})).toEqual(['bob', 'Carol', 'Zed', '42 Ltd']);
+      expect(await readAll({role: 'Manager', searchTerm: 'al'})).toEqual(['alan', 'Alice']);
+    });
+
+    it('should continue from the cursor when rows are added before it', async () => {
+      const first = await dbService.getCustomerPage({limit: 3});
+      await dbService.insertCustomer({...customers[0], id: '8', name: 'Aaron'});
+      await dbService.deleteCustomer('4');
+
+      const second = await dbService.getCustomerPage({after: first.nextCursor, limit: 3});
+
+      expect(first.customers.map(c => c.name)).toEqual(['alan', 'Alice', 'bob']);
+      expect(second.customers.map(c => c.name)).toEqual(['Carol', 'Zed', '42 Ltd']);
+    });
+
+    it('should leave trashed customers out', async () => {
+      await dbService.deleteCustomer('2');
+
+      expect(await readAll()).not.toContain('Alice');
+    });
+  });
+
+  describe('watchCustomers', () => {
+    const watch = (scope = {}, pageSize = 2) => {
+      const onResults = jest.fn();
+      const query = dbService.watchCustomers(scope, {pageSize, onResults, onError: jest.fn()});
+      const names = () =>
+        onResults.mock.lastCall[0].customers.map((c: ZellerCustomer) => c.name);
+      return {query, onResults, names};
+    };
+
+    const alan: ZellerCustomer = {
+      id: '3',
+      name: 'Alan Turing',
+      email: 'alan@example.com',
+      role: 'Manager',
+    };
+
+    beforeEach(async () => {
+      await dbService.insertCustomers([ada, grace, alan]);
+    });
+
+    it('should deliver the first page and further pages on request', async () => {
+      const {query, onResults, names} = watch();
+      await query.settled();
+      expect(names()).toEqual(['Ada Lovelace', 'Alan Turing']);
+      expect(onResults.mock.lastCall[0].hasMore).toBe(true);
+
+      await query.loadMore();
+
+      expect(names()).toEqual(['Ada Lovelace', 'Alan Turing', 'Grace Hopper']);
+      expect(onResults.mock.lastCall[0].hasMore).toBe(false);
+    });
+
+    it('should read again when a committed write touches its results', async () => {
+      const {query, names} = watch({role: 'Admin'});
+      await query.settled();
+
+      await dbService.updateCustomer({...grace, role: 'Admin'});
+      await query.settled();
+      expect(names()).toEqual(['Ada Lovelace', 'Grace Hopper']);
+
+      await dbService.deleteCustomer(ada.id);
+      await query.settled();
+      expect(names()).toEqual(['Grace Hopper']);
+    });
+
+    it('should skip writes it could not match and writes rolled back', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const {query, onResults} = watch({role: 'Admin', searchTerm: 'ada'});
+      await query.settled();
+      onResults.mockClear();
+
+      await dbService.updateCustomer({...alan, name: 'Alan M. Turing'});
+      await dbService.insertCustomer({...grace, id: '4', role: 'Admin'});
+      await expect(
+        dbService.insertCustomer({...ada, id: '5', name: null as unknown as string}),
+      ).rejects.toThrow();
+      await query.settled();
+
+      expect(onResults).not.toHaveBeenCalled();
+    });
+
+    it('should stop once closed, including when the database closes', async () => {
+      const first = watch();
+      const second = watch();
+      await Promise.all([first.query.settled(), second.query.settled()]);
+      first.onResults.mockClear();
+      second.onResults.mockClear();
+
+      first.query.close();
+      await dbService.insertCustomer({...grace, id: '4'});
+      await second.query.settled();
+      await dbService.closeDatabase();
+      await dbService.initDatabase('test.db');
+      await dbService.insertCustomer({...grace, id: '5'});
+      await second.query.settled();
+
+      expect(first.onResults).not.toHaveBeenCalled();
+      expect(second.onResults).toHaveBeenCalledTimes(1);
+    });
+
+    it('should match in memory when the search index is unavailable', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const connection = await storage.open('test.db', keys.get('current:test.db'));
+      await connection.executeSql('DROP TABLE customers_fts;');
+
+      const {query, names} = watch({searchTerm: 'grace navy'});
+      await query.settled();
+
+      expect(names()).toEqual(['Grace Hopper']);
+    });
+  });
+
+  it('should report a broken constraint as a storage error', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      dbService.insertCustomer({...ada, name: null as unknown as string}),
+    ).rejects.toMatchObject({name: 'StorageError', constraint: 'not-null'});
+  });
+});
@@ -0,0 +1,429 @@
+import {open} from '@op-engineering/op-sqlite';
+import {DatabaseService} from '../DatabaseService';
+import {EXPECTED_TABLES, LATEST_SCHEMA_VERSION} from '../migrations';
+import {DatabaseKeyStore} from '../DatabaseKeyStore';
+import {DEFAULT_ROLES} from '../../utils/roles';
+
+const DATABASE_KEY = 'ab'.repeat(32);
+
+// Every database these tests open was encrypted on an earlier run
+const keyStore: DatabaseKeyStore = {
+  getKey: async (_name, slot) => (slot === 'current' ? DATABASE_KEY : null),
+  setKey: jest.fn(),
+  deleteKey: jest.fn(),
+};
+
+beforeAll(() => {
+  DatabaseService.getInstance().setKeyStore(keyStore);
+});
+
+const createResult = (rows: any[] = []) => ({rows, rowsAffected: 0});
+
+const createMockDatabase = (userVersion: number, failOn?: string) => {
+  const statements: string[] = [];
+  let version = userVersion;
+  const execute = jest.fn(async (statement: string, _params?: any[]) => {
+    const normalized = statement.replace(/\s+/g, ' ').trim();
+    statements.push(normalized);
+
+    if (failOn && normalized.includes(failOn)) {
+      throw new Error(`Simulated failure: ${failOn}`);
+    }
+
+    if (normalized === 'PRAGMA user_version;') {
+      return createResult([{user_version: version}]);
+    }
+    if (normalized.startsWith('PRAGMA user_version =')) {
+      version = Number(normalized.match(/\d+/)![0]);
+      return createResult();
+    }
+    if (normalized === 'PRAGMA cipher_version;') {
+      return createResult([{cipher_version: '4.6.1 community'}]);
+    }
+
+    // A healthy database, as far as the health check can tell
+    if (normalized === 'PRAGMA integrity_check;') {
+      return createResult([{integrity_check: 'ok'}]);
+    }
+    if (normalized === "SELECT name FROM sqlite_master WHERE type = 'table';") {
+      return createResult(EXPECTED_TABLES.map(name => ({name})));
+    }
+    if (normalized.startsWith('SELECT COUNT(*)')) {
+      return createResult([{count: 0}]);
+    }
+    if (normalized === 'SELECT name, label, rank, aliases FROM roles;') {
+      return createResult(
+        DEFAULT_ROLES.map(role => ({...role, aliases: JSON.stringify(role.aliases)})),
+      );
+    }
+
+    return createResult();
+  });
+
+  return {
+    statements,
+    database: {execute, close: jest.fn(), delete: jest.fn()},
+  };
+};
+
+describe('DatabaseService migrations', () => {
+  const dbService = DatabaseService.getInstance();
+  const mockedOpen = open as unknown as jest.Mock;
+
+  afterEach(async () => {
+    await dbService.closeDatabase();
+  });
+
+  it('should apply every migration in order on a fresh database', async () => {
+    const {statements, database} = createMockDatabase(0);
+    mockedOpen.mockReturnValueOnce(database);
+
+    await dbService.initDatabase();
+
+    const versionUpdates = statements.filter(statement =>
+      statement.startsWith('PRAGMA user_version ='),
+    );
+    expect(versionUpdates).toEqual(
+      Array.from(
+        {length: LATEST_SCHEMA_VERSION},
+        (_, index) => `PRAGMA user_version = ${index + 1};`,
+      ),
+    );
+    expect(statements.filter(s => s === 'BEGIN TRANSACTION;')).toHaveLength(
+      LATEST_SCHEMA_VERSION,
+    );
+    expect(statements.filter(s => s === 'COMMIT;')).toHaveLength(
+      LATEST_SCHEMA_VERSION,
+    );
+  });
+
+  it('should rebuild the customers table without dropping rows', async () => {
+    const {statements, database} = createMockDatabase(1);
+    mockedOpen.mockReturnValueOnce(database);
+
+    await dbService.initDatabase();
+
+    const copyIndex = statements.findIndex(statement =>
+      statement.startsWith('INSERT INTO customers_migrated'),
+    );
+    const dropIndex = statements.indexOf('DROP TABLE customers;');
+    expect(copyIndex).toBeGreaterThan(-1);
+    expect(dropIndex).toBeGreaterThan(copyIndex);
+    expect(
+      statements.some(statement =>
+        statement.startsWith('CREATE TABLE IF NOT EXISTS customers '),
+      ),
+    ).toBe(false);
+  });
+
+  it('should skip migrations that are already applied', async () => {
+    const {statements, database} = createMockDatabase(LATEST_SCHEMA_VERSION);
+    mockedOpen.mockReturnValueOnce(database);
+
+    await dbService.initDatabase();
+
+    expect(statements).not.toContain('BEGIN TRANSACTION;');
+  });
+
+  it('should roll back and rethrow when a migration fails', async () => {
+    const {statements, database} = createMockDatabase(1, 'DROP TABLE customers');
+    mockedOpen.mockReturnValueOnce(database);
+    jest.spyOn(console, 'error').mockImplementation(jest.fn());
+
+    await expect(dbService.initDatabase()).rejects.toThrow(
+      'Simulated failure',
+    );
+
+    expect(statements).toContain('ROLLBACK;');
+    expect(statements).not.toContain('PRAGMA user_version = 2;');
+  });
+});
+
+describe('DatabaseService encryption', () => {
+  const dbService = DatabaseService.getInstance();
+  const mockedOpen = open as unknown as jest.Mock;
+
+  afterEach(async () => {
+    await dbService.closeDatabase();
+  });
+
+  it('should key the database before anything reads it', async () => {
+    const {statements, database} = createMockDatabase(LATEST_SCHEMA_VERSION);
+    mockedOpen.mockReturnValueOnce(database);
+
+    await dbService.initDatabase();
+
+    expect(mockedOpen).toHaveBeenLastCalledWith(
+      expect.objectContaining({encryptionKey: `x'${DATABASE_KEY}'`}),
+    );
+    expect(statements.slice(0, 2)).toEqual([
+      'PRAGMA cipher_version;',
+      'SELECT count(*) FROM sqlite_master;',
+    ]);
+  });
+
+  it('should build op-sqlite against SQLCipher with full-text search', () => {
+    // Read by op-sqlite's podspec and Gradle script at native build time
+    const packageJson = require('../../../package.json');
+
+    expect(packageJson['op-sqlite']).toMatchObject({sqlcipher: true, fts5: true});
+  });
+
+  it('should refuse to open the database without SQLCipher', async () => {
+    const {statements, database} = createMockDatabase(0);
+    const baseExecute = database.execute.getMockImplementation()!;
+    database.execute.mockImplementation(async (statement: string) =>
+      statement === 'PRAGMA cipher_version;' ? createResult() : baseExecute(statement),
+    );
+    mockedOpen.mockReturnValueOnce(database);
+    jest.spyOn(console, 'error').mockImplementation(jest.fn());
+
+    await expect(dbService.initDatabase()).rejects.toMatchObject({
+      name: 'StorageError',
+      message: expect.stringContaining('SQLCipher'),
+    });
+    expect(statements).not.toContain('BEGIN TRANSACTION;');
+    expect(database.close).toHaveBeenCalled();
+  });
+});
+
+describe('DatabaseService.insertCustomers', () => {
+  const dbService = DatabaseService.getInstance();
+  const mockedOpen = open as unknown as jest.Mock;
+
+  const openWithExistingIds = async (existingIds: string[], failOn?: string) => {
+    const {statements, database} = createMockDatabase(LATEST_SCHEMA_VERSION);
+    const baseExecute = database.execute.getMockImplementation()!;
+    database.execute.mockImplementation(
+      async (statement: string, params?: any[]) => {
+        if (failOn && statement.includes(failOn)) {
+          statements.push(statement);
+          throw new Error(`Simulated failure: ${failOn}`);
+        }
+        if (statement.startsWith('SELECT COUNT(*) as count FROM customers WHERE id IN')) {
+          statements.push(statement);
+          const count = (params || []).filter(id => existingIds.includes(id)).length;
+          return createResult([{count}]);
+        }
+        return baseExecute(statement);
+      },
+    );
+    mockedOpen.mockReturnValueOnce(database);
+    await dbService.initDatabase();
+    return {statements, database};
+  };
+
+  afterEach(async () => {
+    await dbService.closeDatabase();
+  });
+
+  it('should write all rows in one transaction and report the outcome', async () => {
+    const {statements, database} = await openWithExistingIds(['2']);
+
+    const report = await dbService.insertCustomers([
+      {id: '1', name: 'John Doe', email: 'john@example.com', role: 'Admin'},
+      {id: '2', name: 'Jane Smith', email: 'jane@example.com', role: 'Manager'},
+      {id: '3', name: '', email: 'nobody@example.com', role: 'Manager'},
+    ]);
+
+    expect(report).toMatchObject({inserted: 1, replaced: 1, rejected: 1});
+    expect(report.rejections[0].reason).toBe('Missing name');
+
+    const insertCalls = database.execute.mock.calls.filter(([statement]) =>
+      statement.startsWith('INSERT INTO customers '),
+    );
+    expect(insertCalls).toHaveLength(1);
+    expect(insertCalls[0][1]).toHaveLength(8);
+    expect(statements[statements.length - 1]).toBe('COMMIT;');
+  });
+
+  it('should split large inputs into batched statements', async () => {
+    const {database} = await openWithExistingIds([]);
+    const customers = Array.from({length: 450}, (_, index) => ({
+      id: `id-${index}`,
+      name: 'Bulk Customer',
+      email: `bulk${index}@example.com`,
+      role: 'Manager' as const,
+    }));
+
+    const report = await dbService.insertCustomers(customers);
+
+    const insertCalls = database.execute.mock.calls.filter(([statement]) =>
+      statement.startsWith('INSERT INTO customers '),
+    );
+    expect(insertCalls).toHaveLength(3);
+    expect(report.inserted).toBe(450);
+  });
+
+  it('should roll back every row when a batch fails', async () => {
+    const {statements} = await openWithExistingIds([], 'INSERT INTO customers ');
+    jest.spyOn(console, 'error').mockImplementation(jest.fn());
+
+    await expect(
+      dbService.insertCustomers([
+        {id: '1', name: 'John Doe', email: 'john@example.com', role: 'Admin'},
+      ]),
+    ).rejects.toThrow('Simulated failure');
+
+    expect(statements).toContain('ROLLBACK;');
+    expect(statements).not.toContain('COMMIT;');
+  });
+
+  it('should report SQLite failures as storage errors', async () => {
+    const {database} = await openWithExistingIds([]);
+    database.execute.mockRejectedValueOnce(
+      new Error('NOT NULL constraint failed: customers.name'),
+    );
+    jest.spyOn(console, 'error').mockImplementation(jest.fn());
+
+    await expect(
+      dbService.insertCustomer({id: '1', name: 'John', email: 'j@example.com', role: 'Admin'}),
+    ).rejects.toMatchObject({name: 'StorageError', constraint: 'not-null'});
+  });
+});
+
+describe('DatabaseService trash', () => {
+  const dbService = DatabaseService.getInstance();
+  const mockedOpen = open as unknown as jest.Mock;
+
+  const openWithQueuedDeletes = async (queuedDeletes: number) => {
+    const {statements, database} = createMockDatabase(LATEST_SCHEMA_VERSION);
+    const baseExecute = database.execute.getMockImplementation()!;
+    database.execute.mockImplementation(async (statement: string) => {
+      if (statement.startsWith('SELECT COUNT(*) as count FROM outbox')) {
+        statements.push(statement);
+        return createResult([{count: queuedDeletes}]);
+      }
+      return baseExecute(statement);
+    });
+    mockedOpen.mockReturnValueOnce(database);
+    await dbService.initDatabase();
+    statements.length = 0;
+    return {statements, database};
+  };
+
+  afterEach(async () => {
+    await dbService.closeDatabase();
+  });
+
+  it('should keep deleted rows and leave them out of customer queries', async () => {
+    const {statements} = await openWithQueuedDeletes(0);
+
+    await dbService.deleteCustomer('1');
+    await dbService.getAllCustomers();
+    await dbService.getCustomersByRole('Admin');
+
+    expect(statements.some(s => s.startsWith('DELETE FROM customers'))).toBe(false);
+    expect(statements).toContain(
+      'UPDATE customers SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL;',
+    );
+    const selects = statements.filter(
+      s => s.startsWith('SELECT * FROM customers') && !s.includes('WHERE id IN'),
+    );
+    expect(selects).toHaveLength(2);
+    selects.forEach(select => expect(select).toContain('deleted_at IS NULL'));
+  });
+
+  it('should cancel a remote delete that has not been sent yet on restore', async () => {
+    const {statements} = await openWithQueuedDeletes(1);
+
+    expect(await dbService.restoreCustomer('1')).toBe(true);
+    expect(statements).toContain(
+      "DELETE FROM outbox WHERE customer_id = ? AND operation = 'delete' AND status = 'pending';",
+    );
+  });
+
+  it('should report when the remote delete has already been sent', async () => {
+    const {statements} = await openWithQueuedDeletes(0);
+
+    expect(await dbService.restoreCustomer('1')).toBe(false);
+    expect(statements.some(s => s.startsWith('DELETE FROM outbox'))).toBe(false);
+  });
+});
+
+describe('DatabaseService audit log', () => {
+  const dbService = DatabaseService.getInstance();
+  const mockedOpen = open as unknown as jest.Mock;
+
+  const openWithCustomers = async (existing: Array<Record<string, any>>) => {
+    const {statements, database} = createMockDatabase(LATEST_SCHEMA_VERSION);
+    const baseExecute = database.execute.getMockImplementation()!;
+    database.execute.mockImplementation(async (statement: string, params?: any[]) => {
+      if (statement.startsWith('SELECT * FROM customers WHERE id IN')) {
+        return createResult(existing.filter(row => (params || []).includes(row.id)));
+      }
+      if (statement.startsWith('SELECT COUNT(*) as count FROM customers WHERE id IN')) {
+        const count = existing.filter(row => (params || []).includes(row.id)).length;
+        return createResult([{count}]);
+      }
+      return baseExecute(statement);
+    });
+    mockedOpen.mockReturnValueOnce(database);
+    await dbService.initDatabase();
+    return {statements, database};
+  };
+
+  const eventInserts = (database: {execute: jest.Mock}) =>
+    database.execute.mock.calls
+      .filter(([statement]) => statement.includes('INSERT INTO customer_events'))
+      .map(([, params]) => params);
+
+  afterEach(async () => {
+    await dbService.closeDatabase();
+  });
+
+  it('should record a promotion with before and after snapshots', async () => {
+    const {database} = await openWithCustomers([
+      {id: '1', name: 'John Doe', email: 'john@example.com', role: 'Manager', deleted_at: null},
+    ]);
+
+    await dbService.updateCustomer({
+      id: '1',
+      name: 'John Doe',
+      email: 'john@example.com',
+      role: 'Admin',
+    });
+
+    const [params] = eventInserts(database);
+    expect(params.slice(0, 3)).toEqual(['1', 'update', 'local']);
+    expect(JSON.parse(params[3]).role).toBe('Manager');
+    expect(JSON.parse(params[4]).role).toBe('Admin');
+    expect(params[5]).toBe('promotion');
+  });
+
+  it('should attribute synced changes to sync and skip unchanged rows', async () => {
+    const john = {
+      id: '1',
+      name: 'John Doe',
+      email: 'john@example.com',
+      role: 'Admin' as const,
+    };
+    const {database} = await openWithCustomers([{...john, deleted_at: null}]);
+
+    await dbService.applySyncChanges(
+      {
+        upserts: [john, {id: '2', name: 'Jane Smith', email: 'jane@example.com', role: 'Manager'}],
+        deletes: [],
+        snapshots: [],
+        forgotten: [],
+        conflicts: [],
+        resolvedConflicts: [],
+        discardOutbox: [],
+        quarantined: [],
+        released: [],
+      },
+      5000,
+    );
+
+    const [params] = eventInserts(database);
+    expect(params).toEqual([
+      '2',
+      'create',
+      'sync',
+      null,
+      expect.any(String),
+      null,
+      5000,
+    ]);
+  });
+});
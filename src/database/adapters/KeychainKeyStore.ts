@@ -0,0 +1,30 @@
+import * as Keychain from 'react-native-keychain';
+import {DatabaseKeySlot, DatabaseKeyStore} from '../DatabaseKeyStore';
+
+const serviceFor = (name: string, slot: DatabaseKeySlot) =>
+  `com.zellerapp.database.${slot}.${name}`;
+
+// Keys in the iOS Keychain or the Android Keystore. They stay on this device,
+// out of backups, and can be read once it has been unlocked after a restart.
+export class KeychainKeyStore implements DatabaseKeyStore {
+  public async getKey(name: string, slot: DatabaseKeySlot): Promise<string | null> {
+    const credentials = await Keychain.getGenericPassword({
+      service: serviceFor(name, slot),
+    });
+    return credentials ? credentials.password : null;
+  }
+
+  public async setKey(name: string, slot: DatabaseKeySlot, key: string): Promise<void> {
+    const saved = await Keychain.setGenericPassword(name, key, {
+      service: serviceFor(name, slot),
+      accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+    });
+    if (!saved) {
+      throw new Error(`Could not save the ${slot} key for ${name}`);
+    }
+  }
+
+  public async deleteKey(name: string, slot: DatabaseKeySlot): Promise<void> {
+    await Keychain.resetGenericPassword({service: serviceFor(name, slot)});
+  }
+}
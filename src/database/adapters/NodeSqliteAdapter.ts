@@ -0,0 +1,106 @@
+import {Database} from 'node-sqlite3-wasm';
+import {SqlResultSet, StorageAdapter, StorageConnection} from '../StorageAdapter';
+
+// Only these report rowsAffected and insertId, as on the device
+const WRITE_STATEMENT = /^\s*(INSERT|UPDATE|DELETE|REPLACE)\b/i;
+
+const toResultSet = (
+  rows: any[],
+  rowsAffected: number = 0,
+  insertId?: number,
+): SqlResultSet => ({
+  rows: {
+    length: rows.length,
+    item: (index: number) => rows[index],
+  },
+  rowsAffected,
+  insertId,
+});
+
+// Binds parameters the way ReactNativeSqliteAdapter does
+const toSqlValue = (value: any) => {
+  if (value === undefined) {
+    return null;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  return value;
+};
+
+const runStatement = (
+  database: Database,
+  statement: string,
+  params: any[],
+): SqlResultSet => {
+  const rows = database.all(statement, params.map(toSqlValue));
+  if (!WRITE_STATEMENT.test(statement)) {
+    return toResultSet(rows);
+  }
+
+  const info = database.get(
+    'SELECT changes() AS rowsAffected, last_insert_rowid() AS insertId;',
+  ) as {rowsAffected: number; insertId: number};
+  return toResultSet(rows, info.rowsAffected, info.insertId);
+};
+
+// Runs the app's SQL on real SQLite, compiled to WebAssembly, so tests in
+// Node exercise migrations, triggers and full-text search. Node only; never
+// import it from app code.
+//
+// Databases are kept in memory. Like files on a device, they survive being
+// closed and reopened by name until `dispose` is called. There is no SQLCipher
+// here: keys are only checked on open, the way SQLCipher would check them.
+export class NodeSqliteAdapter implements StorageAdapter {
+  private databases = new Map<string, Database>();
+  private keys = new Map<string, string | undefined>();
+
+  public async open(name: string, key?: string): Promise<StorageConnection> {
+    let database = this.databases.get(name);
+    if (!database) {
+      database = new Database(':memory:');
+      this.databases.set(name, database);
+      this.keys.set(name, key);
+    } else if (this.keys.get(name) !== key) {
+      throw new Error('file is not a database');
+    }
+
+    const opened = database;
+    let isOpen = true;
+    const assertOpen = () => {
+      if (!isOpen) {
+        throw new Error(`Database ${name} is closed`);
+      }
+    };
+    return {
+      executeSql: async (statement: string, params: any[] = []) => {
+        assertOpen();
+        return [runStatement(opened, statement, params)];
+      },
+      rekey: async (newKey: string) => {
+        assertOpen();
+        this.keys.set(name, newKey);
+      },
+      close: async () => {
+        isOpen = false;
+      },
+    };
+  }
+
+  public async remove(name: string): Promise<void> {
+    this.databases.get(name)?.close();
+    this.databases.delete(name);
+    this.keys.delete(name);
+  }
+
+  // The key a database was last opened or rekeyed with
+  public keyOf(name: string): string | undefined {
+    return this.keys.get(name);
+  }
+
+  public dispose(): void {
+    this.databases.forEach(database => database.close());
+    this.databases.clear();
+    this.keys.clear();
+  }
+}
@@ -0,0 +1,89 @@
+import {Platform} from 'react-native';
+import {open, DB, QueryResult, Scalar} from '@op-engineering/op-sqlite';
+import {SqlResultSet, StorageAdapter, StorageConnection} from '../StorageAdapter';
+
+// Where react-native-sqlite-storage kept its 'default' location, relative to
+// op-sqlite's base directory (Library on iOS, databases on Android). Keeping
+// it means databases from earlier versions are found and encrypted in place.
+const LOCATION = Platform.OS === 'ios' ? 'LocalDatabase' : undefined;
+
+// A raw 256-bit key as SQLCipher takes it, skipping its key derivation
+const toKeyLiteral = (key: string): string => {
+  if (!/^[0-9a-f]{64}$/i.test(key)) {
+    throw new Error('Database keys must be 64 hex digits');
+  }
+  return `x'${key}'`;
+};
+
+// Binds parameters the way react-native-sqlite-storage did
+const toScalar = (value: any): Scalar => {
+  if (value === undefined) {
+    return null;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  return value;
+};
+
+const toResultSet = (result: QueryResult): SqlResultSet => ({
+  rows: {
+    length: result.rows.length,
+    item: (index: number) => result.rows[index],
+  },
+  rowsAffected: result.rowsAffected,
+  insertId: result.insertId,
+});
+
+// Databases stored in the app's default location on the device. The
+// "op-sqlite" section of package.json builds op-sqlite against SQLCipher, with
+// FTS5, on both platforms.
+export class ReactNativeSqliteAdapter implements StorageAdapter {
+  public async open(name: string, key?: string): Promise<StorageConnection> {
+    // The key is applied before any statement reads the file
+    const database: DB = open({
+      name,
+      location: LOCATION,
+      encryptionKey: key ? toKeyLiteral(key) : undefined,
+    });
+    const executeSql = async (
+      statement: string,
+      params: any[] = [],
+    ): Promise<[SqlResultSet]> => [
+      toResultSet(await database.execute(statement, params.map(toScalar))),
+    ];
+
+    if (key) {
+      try {
+        // A build without SQLCipher ignores the key; never let that pass
+        const [cipher] = await executeSql('PRAGMA cipher_version;');
+        if (cipher.rows.length === 0) {
+          throw new Error('SQLCipher is not available in this build');
+        }
+
+        // Fails with "file is not a database" when the key is wrong
+        await executeSql('SELECT count(*) FROM sqlite_master;');
+      } catch (error) {
+        database.close();
+        throw error;
+      }
+    }
+
+    return {
+      executeSql,
+      rekey: async newKey => {
+        await executeSql(`PRAGMA rekey = "${toKeyLiteral(newKey)}";`);
+      },
+      close: async () => database.close(),
+    };
+  }
+
+  public async remove(name: string): Promise<void> {
+    try {
+      // Opening does not read the file, so no key is needed to delete it
+      open({name, location: LOCATION}).delete();
+    } catch {
+      // Anything left behind surfaces when the name is next opened
+    }
+  }
+}
@@ -0,0 +1,266 @@
+import {DatabaseKeyStore} from './DatabaseKeyStore';
+import {SqlResultSet, StorageAdapter, StorageConnection} from './StorageAdapter';
+
+// Rows copied per SELECT when moving a database
+const COPY_PAGE_SIZE = 500;
+
+interface SchemaObject {
+  type: 'table' | 'index' | 'trigger' | 'view';
+  name: string;
+  sql: string;
+}
+
+const toRows = (result: SqlResultSet): any[] =>
+  Array.from({length: result.rows.length}, (_, index) => result.rows.item(index));
+
+const quoteName = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Where a plaintext database is copied to while it is being encrypted
+const stagingNameFor = (name: string) => `${name}.encrypting`;
+
+// 256 bits from SQLite's generator, which the OS seeds
+const generateKey = async (database: StorageConnection): Promise<string> => {
+  const [result] = await database.executeSql('SELECT hex(randomblob(32)) AS key;');
+  return String(result.rows.item(0).key).toLowerCase();
+};
+
+const getUserVersion = async (database: StorageConnection): Promise<number> => {
+  const [result] = await database.executeSql('PRAGMA user_version;');
+  return result.rows.length > 0 ? Number(result.rows.item(0).user_version) || 0 : 0;
+};
+
+const isEmpty = async (database: StorageConnection): Promise<boolean> => {
+  const [result] = await database.executeSql('SELECT count(*) AS count FROM sqlite_master;');
+  return Number(result.rows.item(0).count) === 0;
+};
+
+// Whether an earlier attempt finished copying into the staging database
+const isStaged = async (storage: StorageAdapter, name: string, key: string) => {
+  let staging: StorageConnection;
+  try {
+    staging = await storage.open(stagingNameFor(name), key);
+  } catch {
+    return false;
+  }
+  try {
+    return !(await isEmpty(staging));
+  } finally {
+    await staging.close();
+  }
+};
+
+// Copies tables, rows, indexes, triggers and the schema version into an
+// empty database. It all happens in one transaction, so a copy cut short
+// leaves nothing behind.
+export const copyDatabase = async (
+  source: StorageConnection,
+  target: StorageConnection,
+): Promise<void> => {
+  const [schema] = await source.executeSql(
+    "SELECT type, name, sql FROM sqlite_master WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%' ORDER BY rowid;",
+  );
+  const objects: SchemaObject[] = toRows(schema);
+  const virtualTables = objects
+    .filter(object => /^CREATE VIRTUAL TABLE/i.test(object.sql))
+    .map(object => object.name);
+  // Full-text tables make their own shadow tables and rebuild their index
+  // from the table they cover
+  const tables = objects.filter(
+    object =>
+      object.type === 'table' &&
+      !virtualTables.some(virtualTable => object.name.startsWith(`${virtualTable}_`)),
+  );
+  const [sequences] = await source.executeSql(
+    "SELECT name FROM sqlite_master WHERE name = 'sqlite_sequence';",
+  );
+  const version = await getUserVersion(source);
+
+  await target.executeSql('BEGIN TRANSACTION;');
+  try {
+    for (const table of tables) {
+      await target.executeSql(`${table.sql};`);
+    }
+
+    // Rows go in before triggers exist, so nothing fires twice
+    for (const table of tables) {
+      if (virtualTables.includes(table.name)) {
+        continue;
+      }
+      for (let offset = 0; ; offset += COPY_PAGE_SIZE) {
+        const [page] = await source.executeSql(
+          `SELECT * FROM ${quoteName(table.name)} ORDER BY rowid LIMIT ? OFFSET ?;`,
+          [COPY_PAGE_SIZE, offset],
+        );
+        for (const row of toRows(page)) {
+          const columns = Object.keys(row);
+          await target.executeSql(
+            `INSERT INTO ${quoteName(table.name)} (${columns.map(quoteName).join(', ')}) VALUES (${columns.map(() => '?').join(', ')});`,
+            columns.map(column => row[column]),
+          );
+        }
+        if (page.rows.length < COPY_PAGE_SIZE) {
+          break;
+        }
+      }
+    }
+
+    if (sequences.rows.length > 0) {
+      const [counters] = await source.executeSql('SELECT name, seq FROM sqlite_sequence;');
+      await target.executeSql('DELETE FROM sqlite_sequence;');
+      for (const counter of toRows(counters)) {
+        await target.executeSql('INSERT INTO sqlite_sequence (name, seq) VALUES (?, ?);', [
+          counter.name,
+          counter.seq,
+        ]);
+      }
+    }
+
+    for (const virtualTable of virtualTables) {
+      await target.executeSql(
+        `INSERT INTO ${quoteName(virtualTable)} (${quoteName(virtualTable)}) VALUES ('rebuild');`,
+      );
+    }
+
+    for (const object of objects) {
+      if (object.type !== 'table') {
+        await target.executeSql(`${object.sql};`);
+      }
+    }
+
+    await target.executeSql(`PRAGMA user_version = ${version};`);
+    await target.executeSql('COMMIT;');
+  } catch (error) {
+    try {
+      await target.executeSql('ROLLBACK;');
+    } catch (rollbackError) {
+      console.error('Copy rollback failed:', rollbackError);
+    }
+    throw error;
+  }
+};
+
+// SQLCipher can't encrypt a plaintext file where it stands, so the data is
+// copied out to an encrypted staging database and back in under the
+// original name. Every step can be repeated, and the key is saved as pending
+// before anything is encrypted with it, so a run cut short resumes on the
+// next open instead of losing data.
+const encryptDatabase = async (
+  storage: StorageAdapter,
+  keyStore: DatabaseKeyStore,
+  name: string,
+  pendingKey: string | null,
+): Promise<StorageConnection> => {
+  const stagingName = stagingNameFor(name);
+  let key = pendingKey;
+
+  if (!key || !(await isStaged(storage, name, key))) {
+    // Fails if the database is encrypted under a key that has been lost
+    const plaintext = await storage.open(name);
+    let empty = false;
+    try {
+      key = key ?? (await generateKey(plaintext));
+      empty = await isEmpty(plaintext);
+      if (!empty) {
+        await keyStore.setKey(name, 'pending', key);
+        await storage.remove(stagingName);
+        const staging = await storage.open(stagingName, key);
+        try {
+          await copyDatabase(plaintext, staging);
+        } finally {
+          await staging.close();
+        }
+      }
+    } finally {
+      await plaintext.close();
+    }
+
+    if (empty) {
+      // Nothing to keep: a new install, or an old database never migrated
+      await storage.remove(name);
+      await storage.remove(stagingName);
+      await keyStore.setKey(name, 'current', key);
+      await keyStore.deleteKey(name, 'pending');
+      return storage.open(name, key);
+    }
+  }
+
+  await storage.remove(name);
+  const staging = await storage.open(stagingName, key);
+  let database: StorageConnection;
+  try {
+    database = await storage.open(name, key);
+    try {
+      await copyDatabase(staging, database);
+    } catch (error) {
+      await database.close();
+      throw error;
+    }
+  } finally {
+    await staging.close();
+  }
+
+  try {
+    await keyStore.setKey(name, 'current', key);
+  } catch (error) {
+    await database.close();
+    throw error;
+  }
+  await keyStore.deleteKey(name, 'pending');
+  await storage.remove(stagingName);
+  return database;
+};
+
+// Opens a database encrypted under the key kept for it, first encrypting it
+// if it is still plaintext. Also finishes a key rotation or an encryption
+// that was interrupted.
+export const openEncryptedDatabase = async (
+  storage: StorageAdapter,
+  keyStore: DatabaseKeyStore,
+  name: string,
+): Promise<StorageConnection> => {
+  const key = await keyStore.getKey(name, 'current');
+  const pendingKey = await keyStore.getKey(name, 'pending');
+
+  if (!key) {
+    return encryptDatabase(storage, keyStore, name, pendingKey);
+  }
+
+  try {
+    const database = await storage.open(name, key);
+    if (pendingKey) {
+      // A rotation that never reached the file
+      await keyStore.deleteKey(name, 'pending');
+    }
+    return database;
+  } catch (error) {
+    if (!pendingKey) {
+      throw error;
+    }
+  }
+
+  // A rotation that re-encrypted the file but stopped before saving the key
+  const database = await storage.open(name, pendingKey);
+  await keyStore.setKey(name, 'current', pendingKey);
+  await keyStore.deleteKey(name, 'pending');
+  return database;
+};
+
+// Re-encrypts an open database under a new key
+export const rotateDatabaseKey = async (
+  database: StorageConnection,
+  keyStore: DatabaseKeyStore,
+  name: string,
+): Promise<void> => {
+  const key = await generateKey(database);
+  await keyStore.setKey(name, 'pending', key);
+
+  try {
+    await database.rekey(key);
+  } catch (error) {
+    await keyStore.deleteKey(name, 'pending');
+    throw error;
+  }
+
+  await keyStore.setKey(name, 'current', key);
+  await keyStore.deleteKey(name, 'pending');
+};
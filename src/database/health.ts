@@ -0,0 +1,323 @@
+import {
+  DatabaseHealthIssue,
+  DatabaseHealthIssueKind,
+  DatabaseHealthReport,
+  DatabaseRepair,
+} from '../types';
+import {EXPECTED_TABLES, LATEST_SCHEMA_VERSION} from './migrations';
+import {SqlResultSet, StorageConnection} from './StorageAdapter';
+
+// integrity_check can list thousands of problems; the first few say enough
+const MAX_INTEGRITY_MESSAGES = 10;
+
+// Only a new file fixes these
+const REBUILD_ISSUES: DatabaseHealthIssueKind[] = ['corruption', 'missing-table'];
+
+// Rows in these mean nothing without the customers they refer to
+const CUSTOMER_DEPENDENT_TABLES = [
+  'sync_state',
+  'sync_conflicts',
+  'pending_deletions',
+  'role_requests',
+  'role_grants',
+];
+
+const toRows = (result: SqlResultSet): any[] =>
+  Array.from({length: result.rows.length}, (_, index) => result.rows.item(index));
+
+const describeError = (error: any): string =>
+  error?.message ? String(error.message) : String(error);
+
+// Rows that refer to a customer the customers table no longer has. Trashed
+// customers are still in the table, so only a lost or half-written row
+// leaves these behind. Tombstones in sync_state, conflicts and quarantined
+// records are kept for customers that are gone on purpose, so they are not
+// counted.
+const ORPHAN_CHECKS = [
+  {
+    label: 'pending deletions',
+    where: 'customer_id NOT IN (SELECT id FROM customers)',
+    table: 'pending_deletions',
+  },
+  {
+    label: 'pending promotion requests',
+    where: "status = 'pending' AND customer_id NOT IN (SELECT id FROM customers)",
+    table: 'role_requests',
+  },
+  {
+    label: 'active temporary roles',
+    where: "status = 'active' AND customer_id NOT IN (SELECT id FROM customers)",
+    table: 'role_grants',
+  },
+  // A queued delete outlives its customer once the trash is emptied
+  {
+    label: 'outbox entries',
+    where: "operation != 'delete' AND customer_id NOT IN (SELECT id FROM customers)",
+    table: 'outbox',
+  },
+  // Histories end with the delete or purge that removed their customer
+  {
+    label: 'customer histories',
+    where: `id IN (SELECT MAX(id) FROM customer_events GROUP BY customer_id)
+      AND after_snapshot IS NOT NULL
+      AND customer_id NOT IN (SELECT id FROM customers)`,
+    table: 'customer_events',
+  },
+];
+
+// Damage PRAGMA integrity_check can see, or null. Reads no table, so it
+// can run before migrations.
+export const checkIntegrity = async (
+  database: StorageConnection,
+): Promise<DatabaseHealthIssue | null> => {
+  try {
+    const [result] = await database.executeSql('PRAGMA integrity_check;');
+    const messages = toRows(result).map(row => String(row.integrity_check));
+    return messages.length === 1 && messages[0] === 'ok'
+      ? null
+      : {kind: 'corruption', detail: messages.slice(0, MAX_INTEGRITY_MESSAGES).join('; ')};
+  } catch (error) {
+    return {kind: 'corruption', detail: describeError(error)};
+  }
+};
+
+// Runs each check in turn. A check that fails to run is itself reported as
+// corruption, since a healthy file answers all of them.
+export const checkDatabaseHealth = async (
+  database: StorageConnection,
+): Promise<DatabaseHealthReport> => {
+  const issues: DatabaseHealthIssue[] = [];
+  const check = async (kind: DatabaseHealthIssueKind, run: () => Promise<string | null>) => {
+    try {
+      const detail = await run();
+      if (detail) {
+        issues.push({kind, detail});
+      }
+    } catch (error) {
+      issues.push({kind: 'corruption', detail: describeError(error)});
+    }
+  };
+
+  let schemaVersion = 0;
+  await check('schema-version', async () => {
+    const [result] = await database.executeSql('PRAGMA user_version;');
+    schemaVersion = result.rows.length > 0 ? Number(result.rows.item(0).user_version) || 0 : 0;
+    return schemaVersion === LATEST_SCHEMA_VERSION
+      ? null
+      : `Schema version ${schemaVersion}, expected ${LATEST_SCHEMA_VERSION}`;
+  });
+
+  const damage = await checkIntegrity(database);
+  if (damage) {
+    issues.push(damage);
+  }
+
+  let missingTables: string[] = [];
+  await check('missing-table', async () => {
+    const [result] = await database.executeSql(
+      "SELECT name FROM sqlite_master WHERE type = 'table';",
+    );
+    const tables = toRows(result).map(row => row.name);
+    missingTables = EXPECTED_TABLES.filter(table => !tables.includes(table));
+    return missingTables.length > 0 ? `Missing ${missingTables.join(', ')}` : null;
+  });
+  if (missingTables.length > 0) {
+    // The remaining checks read those tables
+    return {
+      healthy: false,
+      checkedAt: Date.now(),
+      schemaVersion,
+      issues,
+      repairs: [],
+      lostTables: [],
+    };
+  }
+
+  await check('duplicate-rows', async () => {
+    // Skips the primary key index, which would hide duplicates from a
+    // damaged index
+    const [customers] = await database.executeSql(
+      'SELECT id FROM customers NOT INDEXED GROUP BY id HAVING COUNT(*) > 1;',
+    );
+    const [outbox] = await database.executeSql(
+      `SELECT COUNT(*) - COUNT(DISTINCT operation || ':' || customer_id || ':' || created_at || ':' || payload)
+         AS count FROM outbox;`,
+    );
+    const details: string[] = [];
+    if (customers.rows.length > 0) {
+      details.push(`${customers.rows.length} customer ids appear more than once`);
+    }
+    const outboxDuplicates = Number(outbox.rows.item(0).count) || 0;
+    if (outboxDuplicates > 0) {
+      details.push(`${outboxDuplicates} outbox entries are queued twice`);
+    }
+    return details.length > 0 ? details.join('; ') : null;
+  });
+
+  await check('orphaned-rows', async () => {
+    const details: string[] = [];
+    for (const {label, where, table} of ORPHAN_CHECKS) {
+      const [result] = await database.executeSql(
+        `SELECT COUNT(*) AS count FROM ${table} WHERE ${where};`,
+      );
+      const count = Number(result.rows.item(0).count) || 0;
+      if (count > 0) {
+        details.push(`${count} ${label} refer to missing customers`);
+      }
+    }
+    return details.length > 0 ? details.join('; ') : null;
+  });
+
+  await check('search-index', async () => {
+    try {
+      await database.executeSql(
+        "INSERT INTO customers_fts (customers_fts, rank) VALUES ('integrity-check', 1);",
+      );
+      return null;
+    } catch (error) {
+      return `Search index out of step with customers: ${describeError(error)}`;
+    }
+  });
+
+  return {
+    healthy: issues.length === 0,
+    checkedAt: Date.now(),
+    schemaVersion,
+    issues,
+    repairs: [],
+    lostTables: [],
+  };
+};
+
+export const needsRebuild = (report: DatabaseHealthReport): boolean =>
+  report.issues.some(issue => REBUILD_ISSUES.includes(issue.kind));
+
+// Fixes what can be fixed where it stands. Must be called inside a
+// transaction.
+export const repairInPlace = async (
+  database: StorageConnection,
+  report: DatabaseHealthReport,
+): Promise<DatabaseRepair[]> => {
+  const kinds = report.issues.map(issue => issue.kind);
+  const repairs: DatabaseRepair[] = [];
+
+  if (kinds.includes('duplicate-rows')) {
+    // The last write of a customer is the one its index pointed at
+    await database.executeSql(
+      'DELETE FROM customers WHERE rowid NOT IN (SELECT MAX(rowid) FROM customers NOT INDEXED GROUP BY id);',
+    );
+    await database.executeSql('REINDEX customers;');
+    await database.executeSql(
+      'DELETE FROM outbox WHERE id NOT IN (SELECT MIN(id) FROM outbox GROUP BY operation, customer_id, created_at, payload);',
+    );
+    repairs.push('removed-duplicate-rows');
+  }
+
+  if (kinds.includes('orphaned-rows')) {
+    const [pendingDeletions, requests, grants, outbox, histories] = ORPHAN_CHECKS.map(
+      ({where}) => where,
+    );
+    const now = Date.now();
+    const changed = async (statement: string, params: any[] = []): Promise<number> => {
+      const [result] = await database.executeSql(statement, params);
+      return result.rowsAffected;
+    };
+
+    const removed =
+      (await changed(`DELETE FROM pending_deletions WHERE ${pendingDeletions};`)) +
+      (await changed(`DELETE FROM outbox WHERE ${outbox};`));
+    // Requests, grants and histories are kept as a record, so they are
+    // closed the way deleting the customer would have closed them
+    const closed =
+      (await changed(
+        `UPDATE role_requests SET status = 'cancelled', decided_at = ? WHERE ${requests};`,
+        [now],
+      )) +
+      (await changed(
+        `UPDATE role_grants SET status = 'superseded', ended_at = ? WHERE ${grants};`,
+        [now],
+      )) +
+      (await changed(
+        `INSERT INTO customer_events
+           (customer_id, type, source, before_snapshot, after_snapshot, role_change, occurred_at)
+         SELECT customer_id, 'purge', 'repair', after_snapshot, NULL, NULL, ?
+         FROM customer_events WHERE ${histories};`,
+        [now],
+      ));
+    if (removed > 0) {
+      repairs.push('removed-orphaned-rows');
+    }
+    if (closed > 0) {
+      repairs.push('closed-orphaned-records');
+    }
+  }
+
+  if (kinds.includes('search-index') || kinds.includes('duplicate-rows')) {
+    await database.executeSql("INSERT INTO customers_fts (customers_fts) VALUES ('rebuild');");
+    repairs.push('rebuilt-search-index');
+  }
+
+  return repairs;
+};
+
+// Rows from every table that can still be read, by table. Tables that can't
+// be read are left out.
+export const salvageRows = async (
+  database: StorageConnection,
+): Promise<Map<string, any[]>> => {
+  const salvaged = new Map<string, any[]>();
+  for (const table of EXPECTED_TABLES) {
+    if (table === 'customers_fts') {
+      continue;
+    }
+    try {
+      const [result] = await database.executeSql(`SELECT * FROM ${table};`);
+      salvaged.set(table, toRows(result));
+    } catch (error) {
+      console.error(`Could not salvage ${table}:`, error);
+    }
+  }
+  return salvaged;
+};
+
+// Writes salvaged rows into a freshly migrated database, keeping the columns
+// it still has and skipping rows it refuses. Returns the tables that had
+// nothing salvaged. Must be called inside a transaction.
+export const restoreSalvagedRows = async (
+  database: StorageConnection,
+  salvaged: Map<string, any[]>,
+): Promise<string[]> => {
+  const lostTables: string[] = [];
+  const customersLost = !salvaged.has('customers');
+
+  for (const table of EXPECTED_TABLES) {
+    if (table === 'customers_fts') {
+      continue;
+    }
+    const rows = salvaged.get(table);
+    // Kept without their customers, these would make the next sync treat
+    // every customer as deleted on this device
+    if (!rows || (customersLost && CUSTOMER_DEPENDENT_TABLES.includes(table))) {
+      lostTables.push(table);
+      continue;
+    }
+
+    const [info] = await database.executeSql(`PRAGMA table_info(${table});`);
+    const columns: string[] = toRows(info).map(column => column.name);
+    for (const row of rows) {
+      const present = columns.filter(column => column in row);
+      try {
+        await database.executeSql(
+          `INSERT OR IGNORE INTO ${table} (${present.join(', ')}) VALUES (${present.map(() => '?').join(', ')});`,
+          present.map(column => row[column]),
+        );
+      } catch (error) {
+        // Refused by a trigger, e.g. a customer whose role was lost with
+        // the roles table. The next sync brings it back.
+        console.error(`Could not restore a row of ${table}:`, error);
+      }
+    }
+  }
+
+  return lostTables;
+};
@@ -0,0 +1,387 @@
+import {SqlResultSet} from './StorageAdapter';
+
+export type SqlExecutor = (
+  statement: string,
+  params?: any[],
+) => Promise<[SqlResultSet]>;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (execute: SqlExecutor) => Promise<void>;
+}
+
+// Ordered list of schema migrations. The applied version is tracked through
+// PRAGMA user_version, so entries must never be edited or reordered once
+// shipped - append a new migration instead.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_customers',
+    up: async execute => {
+      // Matches the table created by releases that pre-date migrations, so
+      // existing databases pass through untouched.
+      await execute(`
+        CREATE TABLE IF NOT EXISTS customers (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          email TEXT NOT NULL,
+          role TEXT NOT NULL CHECK (role IN ('Admin', 'Manager'))
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'drop_customers_role_check',
+    up: async execute => {
+      // SQLite cannot drop a CHECK constraint in place, so copy the rows into
+      // a table without it and swap the tables over.
+      await execute(`
+        CREATE TABLE customers_migrated (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          email TEXT NOT NULL,
+          role TEXT NOT NULL
+        );
+      `);
+      await execute(`
+        INSERT INTO customers_migrated (id, name, email, role)
+        SELECT id, name, email, role FROM customers;
+      `);
+      await execute('DROP TABLE customers;');
+      await execute('ALTER TABLE customers_migrated RENAME TO customers;');
+    },
+  },
+  {
+    version: 3,
+    name: 'create_customers_fts',
+    up: async execute => {
+      // External-content index keyed on the customers rowid. Any later
+      // migration that rebuilds the customers table must also rebuild this
+      // index, since rowids are not preserved by a table copy.
+      await execute(`
+        CREATE VIRTUAL TABLE customers_fts USING fts5(
+          name,
+          email,
+          content='customers',
+          content_rowid='rowid',
+          tokenize='unicode61 remove_diacritics 2'
+        );
+      `);
+      await execute(`
+        CREATE TRIGGER customers_fts_after_insert AFTER INSERT ON customers BEGIN
+          INSERT INTO customers_fts (rowid, name, email)
+          VALUES (new.rowid, new.name, new.email);
+        END;
+      `);
+      await execute(`
+        CREATE TRIGGER customers_fts_after_delete AFTER DELETE ON customers BEGIN
+          INSERT INTO customers_fts (customers_fts, rowid, name, email)
+          VALUES ('delete', old.rowid, old.name, old.email);
+        END;
+      `);
+      await execute(`
+        CREATE TRIGGER customers_fts_after_update AFTER UPDATE ON customers BEGIN
+          INSERT INTO customers_fts (customers_fts, rowid, name, email)
+          VALUES ('delete', old.rowid, old.name, old.email);
+          INSERT INTO customers_fts (rowid, name, email)
+          VALUES (new.rowid, new.name, new.email);
+        END;
+      `);
+      await execute("INSERT INTO customers_fts (customers_fts) VALUES ('rebuild');");
+    },
+  },
+  {
+    version: 4,
+    name: 'create_outbox',
+    up: async execute => {
+      await execute(`
+        CREATE TABLE outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          operation TEXT NOT NULL,
+          customer_id TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          created_at INTEGER NOT NULL
+        );
+      `);
+      await execute('CREATE INDEX outbox_status_id ON outbox (status, id);');
+    },
+  },
+  {
+    version: 5,
+    name: 'create_sync_state',
+    up: async execute => {
+      // Set whenever a row is changed on this device and cleared once the
+      // server is known to hold the same data.
+      await execute('ALTER TABLE customers ADD COLUMN local_updated_at INTEGER;');
+      // Last server version seen for each customer, plus a tombstone for
+      // customers deleted on this device that the server still has.
+      await execute(`
+        CREATE TABLE sync_state (
+          customer_id TEXT PRIMARY KEY,
+          server_snapshot TEXT NOT NULL,
+          synced_at INTEGER NOT NULL,
+          local_deleted_at INTEGER
+        );
+      `);
+      await execute(`
+        CREATE TABLE sync_conflicts (
+          customer_id TEXT PRIMARY KEY,
+          local_snapshot TEXT,
+          server_snapshot TEXT,
+          detected_at INTEGER NOT NULL
+        );
+      `);
+      await execute(`
+        CREATE TABLE app_metadata (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'create_pending_deletions',
+    up: async execute => {
+      // Deletions inside their undo window. Kept on disk so a deletion the
+      // app was killed during still happens on the next launch.
+      await execute(`
+        CREATE TABLE pending_deletions (
+          customer_id TEXT PRIMARY KEY,
+          snapshot TEXT NOT NULL,
+          delete_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'add_customers_deleted_at',
+    up: async execute => {
+      // Deleted customers stay in the table, hidden, until restored or
+      // purged from the trash.
+      await execute('ALTER TABLE customers ADD COLUMN deleted_at INTEGER;');
+      await execute('CREATE INDEX customers_deleted_at ON customers (deleted_at);');
+    },
+  },
+  {
+    version: 8,
+    name: 'create_customer_events',
+    up: async execute => {
+      await execute(`
+        CREATE TABLE customer_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          customer_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          source TEXT NOT NULL,
+          before_snapshot TEXT,
+          after_snapshot TEXT,
+          role_change TEXT,
+          occurred_at INTEGER NOT NULL
+        );
+      `);
+      await execute(
+        'CREATE INDEX customer_events_customer ON customer_events (customer_id, occurred_at);',
+      );
+      await execute(`
+        CREATE INDEX customer_events_role_change ON customer_events (role_change)
+        WHERE role_change IS NOT NULL;
+      `);
+      // The log is append-only. customer_id alone may change, so events
+      // follow a customer when the server assigns it a new id.
+      await execute(`
+        CREATE TRIGGER customer_events_no_update
+        BEFORE UPDATE OF id, type, source, before_snapshot, after_snapshot, role_change, occurred_at
+        ON customer_events BEGIN
+          SELECT RAISE(ABORT, 'customer_events is append-only');
+        END;
+      `);
+      await execute(`
+        CREATE TRIGGER customer_events_no_delete BEFORE DELETE ON customer_events BEGIN
+          SELECT RAISE(ABORT, 'customer_events is append-only');
+        END;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'create_customers_sort_indexes',
+    up: async execute => {
+      // Lets the list read customers a page at a time in the order it shows
+      // them: names starting with a letter first, case-insensitively. The
+      // expression must match CUSTOMER_SORT_KEY in DatabaseService.
+      await execute(`
+        CREATE INDEX customers_sort_key ON customers (
+          deleted_at,
+          (CASE WHEN upper(substr(ltrim(name), 1, 1)) BETWEEN 'A' AND 'Z' THEN '0' ELSE '1' END || lower(ltrim(name))),
+          id
+        );
+      `);
+      await execute(`
+        CREATE INDEX customers_role_sort_key ON customers (
+          deleted_at,
+          role,
+          (CASE WHEN upper(substr(ltrim(name), 1, 1)) BETWEEN 'A' AND 'Z' THEN '0' ELSE '1' END || lower(ltrim(name))),
+          id
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'create_roles',
+    up: async execute => {
+      // The role catalog. Seeded with DEFAULT_ROLES in utils/roles; the
+      // server's catalog replaces it on sync.
+      await execute(`
+        CREATE TABLE roles (
+          name TEXT PRIMARY KEY,
+          label TEXT NOT NULL,
+          rank INTEGER NOT NULL,
+          aliases TEXT NOT NULL DEFAULT '[]'
+        );
+      `);
+      await execute(`
+        INSERT INTO roles (name, label, rank, aliases) VALUES
+          ('Admin', 'Admin', 2, '["administrator","admin_user","system_admin"]'),
+          ('Manager', 'Manager', 1, '["team_manager","project_manager","manager_user"]');
+      `);
+      // Nothing should hold another role, but a row that does keeps it
+      await execute(`
+        INSERT OR IGNORE INTO roles (name, label, rank)
+        SELECT DISTINCT role, role, 0 FROM customers;
+      `);
+      // Takes over from the CHECK constraint migration 2 dropped: customers
+      // only hold roles in the catalog, and a role stays while any do.
+      await execute(`
+        CREATE TRIGGER customers_role_insert BEFORE INSERT ON customers
+        WHEN NOT EXISTS (SELECT 1 FROM roles WHERE name = new.role) BEGIN
+          SELECT RAISE(ABORT, 'Unknown role');
+        END;
+      `);
+      await execute(`
+        CREATE TRIGGER customers_role_update BEFORE UPDATE OF role ON customers
+        WHEN NOT EXISTS (SELECT 1 FROM roles WHERE name = new.role) BEGIN
+          SELECT RAISE(ABORT, 'Unknown role');
+        END;
+      `);
+      await execute(`
+        CREATE TRIGGER roles_in_use_delete BEFORE DELETE ON roles
+        WHEN EXISTS (SELECT 1 FROM customers WHERE role = old.name) BEGIN
+          SELECT RAISE(ABORT, 'Role is held by customers');
+        END;
+      `);
+      await execute(`
+        CREATE TRIGGER roles_in_use_rename BEFORE UPDATE OF name ON roles
+        WHEN EXISTS (SELECT 1 FROM customers WHERE role = old.name) BEGIN
+          SELECT RAISE(ABORT, 'Role is held by customers');
+        END;
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'create_quarantined_customers',
+    up: async execute => {
+      // Server records that failed validation, kept as the server sent them
+      // until someone fixes them or the server sends a valid version
+      await execute(`
+        CREATE TABLE quarantined_customers (
+          customer_id TEXT PRIMARY KEY,
+          raw TEXT NOT NULL,
+          reasons TEXT NOT NULL,
+          received_at INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'create_role_requests',
+    up: async execute => {
+      // Moves into an admin role wait here for another Admin's decision.
+      // Decided requests are kept as a record of who decided.
+      await execute(`
+        CREATE TABLE role_requests (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          customer_id TEXT NOT NULL,
+          from_role TEXT NOT NULL,
+          to_role TEXT NOT NULL,
+          requested_by TEXT,
+          requested_at INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending'
+            CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+          decided_by TEXT,
+          decided_at INTEGER
+        );
+      `);
+      // One open request per customer
+      await execute(`
+        CREATE UNIQUE INDEX role_requests_pending ON role_requests (customer_id)
+        WHERE status = 'pending';
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'create_role_grants',
+    up: async execute => {
+      // A promotion that runs out. Ended grants are kept as a record of
+      // what was reverted.
+      await execute(`
+        CREATE TABLE role_grants (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          customer_id TEXT NOT NULL,
+          previous_role TEXT NOT NULL,
+          granted_role TEXT NOT NULL,
+          granted_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'active'
+            CHECK (status IN ('active', 'reverted', 'superseded')),
+          ended_at INTEGER
+        );
+      `);
+      await execute(`
+        CREATE UNIQUE INDEX role_grants_active ON role_grants (customer_id)
+        WHERE status = 'active';
+      `);
+      // How long an approved promotion lasts, if it is temporary
+      await execute('ALTER TABLE role_requests ADD COLUMN grant_for INTEGER;');
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+// Every table the latest schema has. The health check looks for each one,
+// so a migration that adds or drops a table must update this list too. A
+// rebuild restores them in this order, so roles come before the customers
+// that hold them.
+export const EXPECTED_TABLES = [
+  'roles',
+  'customers',
+  'customers_fts',
+  'outbox',
+  'sync_state',
+  'sync_conflicts',
+  'app_metadata',
+  'pending_deletions',
+  'customer_events',
+  'quarantined_customers',
+  'role_requests',
+  'role_grants',
+];
+
+export const getPendingMigrations = (
+  currentVersion: number,
+  allMigrations: Migration[] = migrations,
+): Migration[] =>
+  [...allMigrations]
+    .sort((a, b) => a.version - b.version)
+    .filter(migration => migration.version > currentVersion);
@@ -0,0 +1,292 @@
+export type AppErrorKind =
+  | 'network'
+  | 'auth'
+  | 'validation'
+  | 'not-found'
+  | 'conflict'
+  | 'rate-limited'
+  | 'storage'
+  | 'policy'
+  | 'unknown';
+
+export interface AppErrorOptions {
+  cause?: unknown;
+  retryable?: boolean;
+}
+
+// Base of every error the services and store hand to the UI. `retryable`
+// says whether the same operation can succeed if it is simply tried again.
+export class AppError extends Error {
+  public readonly kind: AppErrorKind = 'unknown';
+  public readonly retryable: boolean;
+  public readonly cause?: unknown;
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message);
+    this.name = 'AppError';
+    this.cause = options.cause;
+    this.retryable = options.retryable ?? true;
+  }
+}
+
+// The device is offline, the request timed out or the server is unavailable
+export class NetworkError extends AppError {
+  public readonly kind = 'network';
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, {retryable: true, ...options});
+    this.name = 'NetworkError';
+  }
+}
+
+// Credentials were missing, expired beyond refresh, or not allowed
+export class AuthError extends AppError {
+  public readonly kind = 'auth';
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, {retryable: false, ...options});
+    this.name = 'AuthError';
+  }
+}
+
+// The server rejected the request's shape or values
+export class InputValidationError extends AppError {
+  public readonly kind = 'validation';
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, {retryable: false, ...options});
+    this.name = 'InputValidationError';
+  }
+}
+
+export class NotFoundError extends AppError {
+  public readonly kind = 'not-found';
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, {retryable: false, ...options});
+    this.name = 'NotFoundError';
+  }
+}
+
+// The record changed underneath the request, e.g. a failed DynamoDB
+// condition
+export class ConflictError extends AppError {
+  public readonly kind = 'conflict';
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, {retryable: false, ...options});
+    this.name = 'ConflictError';
+  }
+}
+
+export class RateLimitedError extends AppError {
+  public readonly kind = 'rate-limited';
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, {retryable: true, ...options});
+    this.name = 'RateLimitedError';
+  }
+}
+
+// The change would break a rule the team relies on, such as keeping a
+// minimum number of Admins. The message says what to do instead.
+export class PolicyError extends AppError {
+  public readonly kind = 'policy';
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, {retryable: false, ...options});
+    this.name = 'PolicyError';
+  }
+}
+
+export type SqliteConstraint =
+  | 'unique'
+  | 'primary-key'
+  | 'not-null'
+  | 'check'
+  | 'foreign-key';
+
+// Local database failures. `constraint` is set when a write broke one of the
+// schema's constraints; those never succeed on retry, while a locked or busy
+// database usually does.
+export class StorageError extends AppError {
+  public readonly kind = 'storage';
+  public readonly constraint: SqliteConstraint | null;
+
+  constructor(
+    message: string,
+    options: AppErrorOptions & {constraint?: SqliteConstraint | null} = {},
+  ) {
+    super(message, {retryable: false, ...options});
+    this.name = 'StorageError';
+    this.constraint = options.constraint ?? null;
+  }
+}
+
+const CONSTRAINT_PATTERNS: Array<[RegExp, SqliteConstraint]> = [
+  // Checked before unique: SQLite words a primary key clash as a UNIQUE
+  // failure and only the extended code tells them apart
+  [/SQLITE_CONSTRAINT_PRIMARYKEY|PRIMARY KEY must be unique/i, 'primary-key'],
+  [/UNIQUE constraint failed|SQLITE_CONSTRAINT_UNIQUE/i, 'unique'],
+  [/NOT NULL constraint failed|SQLITE_CONSTRAINT_NOTNULL/i, 'not-null'],
+  [/CHECK constraint failed|SQLITE_CONSTRAINT_CHECK/i, 'check'],
+  [/FOREIGN KEY constraint failed|SQLITE_CONSTRAINT_FOREIGNKEY/i, 'foreign-key'],
+];
+
+// op-sqlite only reports SQLite's message text, so the
+// constraint is read from that.
+export const toStorageError = (error: any): StorageError => {
+  if (error instanceof StorageError) {
+    return error;
+  }
+
+  const message = String(error?.message ?? error);
+  const constraint =
+    CONSTRAINT_PATTERNS.find(([pattern]) => pattern.test(message))?.[1] ?? null;
+
+  return new StorageError(message, {
+    cause: error,
+    constraint,
+    retryable: !constraint && /database is locked|SQLITE_BUSY|SQLITE_LOCKED/i.test(message),
+  });
+};
+
+// AppSync reports errorType on each error; the mock server puts it in
+// extensions, as graphql-js does.
+const getErrorType = (graphQLError: any): string =>
+  String(graphQLError?.errorType ?? graphQLError?.extensions?.errorType ?? '');
+
+const fromGraphQLErrors = (error: any): AppError => {
+  const graphQLErrors: any[] = error.errors ?? [];
+  const first = graphQLErrors[0];
+  const errorType = getErrorType(first);
+  const message = first?.message ? String(first.message) : String(error.message);
+  const options = {cause: error};
+
+  if (/Unauthorized|AccessDenied/i.test(errorType)) {
+    return new AuthError(message, options);
+  }
+  if (/ConditionalCheckFailed|Conflict/i.test(errorType)) {
+    return new ConflictError(message, options);
+  }
+  if (/Throttl|TooManyRequests|ProvisionedThroughputExceeded|LimitExceeded/i.test(errorType)) {
+    return new RateLimitedError(message, options);
+  }
+  if (/NotFound/i.test(errorType)) {
+    return new NotFoundError(message, options);
+  }
+  // Documents the schema rejects come back without an errorType
+  if (/Validation|MappingTemplate|BadRequest/i.test(errorType) || /^Validation error/i.test(message)) {
+    return new InputValidationError(message, options);
+  }
+  // The server looked at the request and refused it; sending it again will
+  // not change that
+  return new AppError(message, {...options, retryable: false});
+};
+
+const fromStatusCode = (statusCode: number, message: string, cause: any): AppError => {
+  const options = {cause};
+
+  if (statusCode === 401 || statusCode === 403) {
+    return new AuthError(message, options);
+  }
+  if (statusCode === 404) {
+    return new NotFoundError(message, options);
+  }
+  if (statusCode === 409 || statusCode === 412) {
+    return new ConflictError(message, options);
+  }
+  if (statusCode === 429) {
+    return new RateLimitedError(message, options);
+  }
+  if (statusCode === 408 || statusCode >= 500) {
+    return new NetworkError(message, options);
+  }
+  return new InputValidationError(message, options);
+};
+
+// Classifies whatever Apollo, fetch or SQLite threw. Errors that are already
+// typed pass through; anything unrecognised becomes a retryable AppError.
+export const toAppError = (error: any): AppError => {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  const message = String(error?.message ?? error ?? 'Unknown error');
+
+  if (error?.name === 'CombinedGraphQLErrors') {
+    return fromGraphQLErrors(error);
+  }
+  if (
+    (error?.name === 'ServerError' || error?.name === 'ServerParseError') &&
+    typeof error.statusCode === 'number'
+  ) {
+    return fromStatusCode(error.statusCode, message, error);
+  }
+  if (error?.name === 'TypeError' && /network|fetch/i.test(message)) {
+    return new NetworkError(message, {cause: error});
+  }
+  if (/SQLITE_|constraint failed|database is locked|no such table/i.test(message)) {
+    return toStorageError(error);
+  }
+
+  return new AppError(message, {cause: error});
+};
+
+export interface ErrorDescription {
+  title: string;
+  message: string;
+}
+
+// What to tell the user about `error`, phrased so they know what to do next.
+export const describeAppError = (error: AppError): ErrorDescription => {
+  switch (error.kind) {
+    case 'network':
+      return {
+        title: 'No connection',
+        message: 'The server could not be reached. Check your connection and try again.',
+      };
+    case 'auth':
+      return {
+        title: 'Not authorised',
+        message:
+          'The server did not accept the app\'s credentials. Check the environment in settings, or sign in again.',
+      };
+    case 'validation':
+      return {
+        title: 'Invalid details',
+        message: `The server rejected the request: ${error.message}`,
+      };
+    case 'not-found':
+      return {
+        title: 'Customer not found',
+        message: 'It may have been deleted on another device. Pull down to refresh the list.',
+      };
+    case 'conflict':
+      return {
+        title: 'Changed elsewhere',
+        message:
+          'This customer was changed on another device. Pull down to refresh, then make your change again.',
+      };
+    case 'rate-limited':
+      return {
+        title: 'Too many requests',
+        message: 'The server is busy. Wait a moment and try again.',
+      };
+    case 'storage':
+      return (error as StorageError).constraint
+        ? {
+            title: 'Could not save',
+            message: 'These details clash with a customer already on this device.',
+          }
+        : {
+            title: 'Storage problem',
+            message:
+              'Customer data on this device could not be read or saved. Make sure there is free space, then restart the app.',
+          };
+    case 'policy':
+      return {title: 'Not allowed', message: error.message};
+    default:
+      return {title: 'Something went wrong', message: error.message};
+  }
+};
@@ -0,0 +1,125 @@
+import {
+  AppError,
+  AuthError,
+  ConflictError,
+  InputValidationError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  StorageError,
+  describeAppError,
+  toAppError,
+  toStorageError,
+} from '../AppError';
+
+const graphQLErrors = (...errors: any[]) => ({
+  name: 'CombinedGraphQLErrors',
+  message: errors.map(error => error.message).join('\n'),
+  errors,
+});
+
+describe('toAppError', () => {
+  it.each([
+    ['UnauthorizedException', AuthError],
+    ['DynamoDB:ConditionalCheckFailedException', ConflictError],
+    ['Throttled', RateLimitedError],
+    ['DynamoDB:ProvisionedThroughputExceededException', RateLimitedError],
+    ['DynamoDB:ValidationException', InputValidationError],
+    ['ResourceNotFoundException', NotFoundError],
+  ])('should classify AppSync errorType %s', (errorType, ErrorClass) => {
+    const error = toAppError(graphQLErrors({message: 'Rejected', errorType}));
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error.message).toBe('Rejected');
+  });
+
+  it('should read errorType from extensions too', () => {
+    const error = toAppError(
+      graphQLErrors({message: 'No', extensions: {errorType: 'UnauthorizedException'}}),
+    );
+
+    expect(error.kind).toBe('auth');
+  });
+
+  it('should treat unknown GraphQL errors as permanent', () => {
+    const error = toAppError(graphQLErrors({message: 'Resolver exploded'}));
+
+    expect(error.kind).toBe('unknown');
+    expect(error.retryable).toBe(false);
+  });
+
+  it.each([
+    [401, 'auth', false],
+    [404, 'not-found', false],
+    [409, 'conflict', false],
+    [429, 'rate-limited', true],
+    [408, 'network', true],
+    [503, 'network', true],
+    [400, 'validation', false],
+  ])('should classify HTTP %s as %s', (statusCode, kind, retryable) => {
+    const error = toAppError({name: 'ServerError', message: 'Failed', statusCode});
+
+    expect(error.kind).toBe(kind);
+    expect(error.retryable).toBe(retryable);
+  });
+
+  it('should treat a failed fetch as a network error', () => {
+    expect(toAppError(new TypeError('Network request failed'))).toBeInstanceOf(
+      NetworkError,
+    );
+  });
+
+  it('should keep errors that are already typed', () => {
+    const error = new ConflictError('Changed');
+
+    expect(toAppError(error)).toBe(error);
+  });
+
+  it('should wrap anything else as a retryable AppError', () => {
+    const cause = new Error('Something odd');
+    const error = toAppError(cause);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.kind).toBe('unknown');
+    expect(error.retryable).toBe(true);
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe('toStorageError', () => {
+  it.each([
+    ['UNIQUE constraint failed: customers.email (code 2067 SQLITE_CONSTRAINT_UNIQUE)', 'unique'],
+    ['UNIQUE constraint failed: customers.id (code 1555 SQLITE_CONSTRAINT_PRIMARYKEY)', 'primary-key'],
+    ['NOT NULL constraint failed: customers.name', 'not-null'],
+    ['CHECK constraint failed: role', 'check'],
+    ['FOREIGN KEY constraint failed', 'foreign-key'],
+  ])('should recognise "%s"', (message, constraint) => {
+    const error = toStorageError({message});
+
+    expect(error).toBeInstanceOf(StorageError);
+    expect(error.constraint).toBe(constraint);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should retry a locked database', () => {
+    const error = toStorageError(new Error('database is locked (code 5 SQLITE_BUSY)'));
+
+    expect(error.constraint).toBeNull();
+    expect(error.retryable).toBe(true);
+  });
+});
+
+describe('describeAppError', () => {
+  it('should explain constraint failures differently from other storage errors', () => {
+    expect(describeAppError(new StorageError('full')).title).toBe('Storage problem');
+    expect(
+      describeAppError(new StorageError('dup', {constraint: 'unique'})).title,
+    ).toBe('Could not save');
+  });
+
+  it('should point auth failures at the environment settings', () => {
+    expect(describeAppError(new AuthError('Unauthorized')).message).toContain(
+      'settings',
+    );
+  });
+});
@@ -0,0 +1,34 @@
+import {Alert} from 'react-native';
+import {AppError, describeAppError} from './AppError';
+
+interface ErrorAlertOptions {
+  // Offered as a Retry button when the error is retryable
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+// Explains a failed `operation` (e.g. 'load customers') to the user.
+export const showErrorAlert = (
+  cause: AppError,
+  operation: string,
+  {onRetry, onDismiss}: ErrorAlertOptions = {},
+): void => {
+  const {title, message} = describeAppError(cause);
+
+  Alert.alert(
+    title,
+    `Couldn't ${operation}. ${message}`,
+    onRetry && cause.retryable
+      ? [
+          {text: 'Cancel', style: 'cancel', onPress: onDismiss},
+          {
+            text: 'Retry',
+            onPress: () => {
+              onDismiss?.();
+              onRetry();
+            },
+          },
+        ]
+      : [{text: 'OK', onPress: onDismiss}],
+  );
+};
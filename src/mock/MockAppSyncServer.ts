@@ -0,0 +1,258 @@
+import {ExecutionResult, GraphQLError, GraphQLSchema, buildSchema, graphql} from 'graphql';
+import {
+  CreateZellerCustomerInput,
+  RemoteZellerRole,
+  TableStringFilterInput,
+  TableZellerCustomerFilterInput,
+  UpdateZellerCustomerInput,
+  ZellerCustomer,
+} from '../types';
+import {DEFAULT_ROLES} from '../utils/roles';
+import {MockRealtimeServer} from './MockRealtimeServer';
+import {APPSYNC_DIRECTIVES, ROLE_CATALOG_SDL, SCHEMA_SDL} from './schema';
+
+// What the next request(s) should do instead of succeeding:
+//   - network: fetch rejects, as it does when the device is offline
+//   - http: the server answers with `status` and no GraphQL body
+//   - graphql: the operation resolves with an AppSync-style error
+export type MockFailure =
+  | {type: 'network'}
+  | {type: 'http'; status: number}
+  | {type: 'graphql'; message: string; errorType?: string};
+
+export interface MockAppSyncServerOptions {
+  customers?: ZellerCustomer[];
+  // What listZellerRoles returns; the app's default catalog unless set
+  roles?: RemoteZellerRole[];
+  latencyMs?: number;
+  // Page size when a list query passes no limit, as in AppSync's generated
+  // resolvers
+  defaultLimit?: number;
+  // Receives subscription events for every mutation
+  realtime?: MockRealtimeServer;
+}
+
+export interface MockGraphQLRequest {
+  query: string;
+  variables?: Record<string, any>;
+  operationName?: string;
+}
+
+let sharedSchema: GraphQLSchema | null = null;
+
+export const getMockSchema = (): GraphQLSchema => {
+  if (!sharedSchema) {
+    sharedSchema = buildSchema(APPSYNC_DIRECTIVES + SCHEMA_SDL + ROLE_CATALOG_SDL);
+  }
+  return sharedSchema;
+};
+
+const appSyncError = (message: string, errorType: string) =>
+  new GraphQLError(message, {extensions: {errorType}});
+
+const matchesStringFilter = (
+  value: string | null | undefined,
+  filter: TableStringFilterInput,
+): boolean => {
+  const v = value ?? '';
+  return (
+    (filter.eq === undefined || v === filter.eq) &&
+    (filter.ne === undefined || v !== filter.ne) &&
+    (filter.lt === undefined || v < filter.lt) &&
+    (filter.le === undefined || v <= filter.le) &&
+    (filter.gt === undefined || v > filter.gt) &&
+    (filter.ge === undefined || v >= filter.ge) &&
+    (filter.contains === undefined || v.includes(filter.contains)) &&
+    (filter.notContains === undefined || !v.includes(filter.notContains)) &&
+    (filter.beginsWith === undefined || v.startsWith(filter.beginsWith)) &&
+    (filter.between === undefined ||
+      (filter.between.length === 2 &&
+        v >= filter.between[0] &&
+        v <= filter.between[1]))
+  );
+};
+
+export const matchesCustomerFilter = (
+  customer: ZellerCustomer,
+  filter?: TableZellerCustomerFilterInput | null,
+): boolean =>
+  !filter ||
+  (Object.keys(filter) as Array<keyof TableZellerCustomerFilterInput>).every(
+    field => {
+      const fieldFilter = filter[field];
+      return !fieldFilter || matchesStringFilter(customer[field], fieldFilter);
+    },
+  );
+
+const encodeToken = (offset: number) => `mock-token-${offset}`;
+
+const decodeToken = (token: string): number => {
+  const offset = Number(token.replace(/^mock-token-/, ''));
+  if (!token.startsWith('mock-token-') || !Number.isInteger(offset) || offset < 0) {
+    throw appSyncError('Invalid nextToken', 'DynamoDB:ValidationException');
+  }
+  return offset;
+};
+
+// In-process AppSync stand-in that executes operations against schema.gql,
+// so documents are validated exactly as the real endpoint would validate
+// them. Customers live in memory in insertion order. Lists behave like the
+// DynamoDB scan behind AppSync: `limit` counts scanned items before the
+// filter is applied, so a page can come back short, or empty, with a
+// nextToken.
+export class MockAppSyncServer {
+  public latencyMs: number;
+  public readonly requests: MockGraphQLRequest[] = [];
+  private readonly customers = new Map<string, ZellerCustomer>();
+  private roles: RemoteZellerRole[];
+  private readonly failures: MockFailure[] = [];
+  private readonly defaultLimit: number;
+  private readonly realtime?: MockRealtimeServer;
+  private nextId = 1;
+
+  constructor(options: MockAppSyncServerOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 0;
+    this.defaultLimit = options.defaultLimit ?? 20;
+    this.realtime = options.realtime;
+    this.roles = options.roles ?? DEFAULT_ROLES;
+    this.reset(options.customers ?? []);
+  }
+
+  public reset(customers: ZellerCustomer[] = []): void {
+    this.customers.clear();
+    customers.forEach(customer => this.customers.set(customer.id, {...customer}));
+    this.failures.length = 0;
+    this.requests.length = 0;
+  }
+
+  public getCustomers(): ZellerCustomer[] {
+    return Array.from(this.customers.values()).map(customer => ({...customer}));
+  }
+
+  public setRoles(roles: RemoteZellerRole[]): void {
+    this.roles = roles.map(role => ({...role}));
+  }
+
+  // Queues failures for the next requests, one per request, in order.
+  public failNext(...failures: MockFailure[]): void {
+    this.failures.push(...failures);
+  }
+
+  public async execute(request: MockGraphQLRequest): Promise<ExecutionResult> {
+    this.requests.push(request);
+    await this.delay();
+
+    const failure = this.failures.shift();
+    if (failure?.type === 'graphql') {
+      return {
+        data: null,
+        errors: [appSyncError(failure.message, failure.errorType ?? 'MockError')],
+      };
+    }
+    if (failure) {
+      throw failure;
+    }
+
+    return graphql({
+      schema: getMockSchema(),
+      source: request.query,
+      variableValues: request.variables,
+      operationName: request.operationName,
+      rootValue: this.resolvers,
+    });
+  }
+
+  // Drop-in `fetch` for Apollo's HttpLink, e.g.
+  // createHttpLink({uri, fetch: server.fetch}).
+  public fetch = async (_input: any, init?: {body?: any}): Promise<Response> => {
+    let result: ExecutionResult;
+    try {
+      result = await this.execute(JSON.parse(String(init?.body ?? '{}')));
+    } catch (failure: any) {
+      if (failure?.type === 'network') {
+        throw new TypeError('Network request failed');
+      }
+      if (failure?.type === 'http') {
+        return new Response(JSON.stringify({message: 'Mock HTTP failure'}), {
+          status: failure.status,
+          headers: {'Content-Type': 'application/json'},
+        });
+      }
+      throw failure;
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: {'Content-Type': 'application/json'},
+    });
+  };
+
+  private delay(): Promise<void> {
+    if (this.latencyMs <= 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => setTimeout(resolve, this.latencyMs));
+  }
+
+  private publish(field: string, customer: ZellerCustomer): void {
+    this.realtime?.publish(field, customer);
+  }
+
+  private get resolvers() {
+    return {
+      getZellerCustomer: ({id}: {id: string}) => this.customers.get(id) ?? null,
+
+      listZellerCustomers: ({
+        filter,
+        limit,
+        nextToken,
+      }: {
+        filter?: TableZellerCustomerFilterInput;
+        limit?: number;
+        nextToken?: string;
+      }) => {
+        const all = Array.from(this.customers.values());
+        const offset = nextToken ? decodeToken(nextToken) : 0;
+        const end = offset + (limit ?? this.defaultLimit);
+        const scanned = all.slice(offset, end);
+
+        return {
+          items: scanned.filter(customer => matchesCustomerFilter(customer, filter)),
+          nextToken: end < all.length ? encodeToken(end) : null,
+        };
+      },
+
+      listZellerRoles: () => this.roles,
+
+      createZellerCustomer: ({input}: {input: CreateZellerCustomerInput}) => {
+        const customer = {...input, id: `mock-${this.nextId++}`};
+        this.customers.set(customer.id, customer);
+        this.publish('onCreateZellerCustomer', customer);
+        return customer;
+      },
+
+      updateZellerCustomer: ({input}: {input: UpdateZellerCustomerInput}) => {
+        if (!this.customers.has(input.id)) {
+          throw appSyncError(
+            'The conditional request failed',
+            'DynamoDB:ConditionalCheckFailedException',
+          );
+        }
+        const customer = {...input};
+        this.customers.set(customer.id, customer);
+        this.publish('onUpdateZellerCustomer', customer);
+        return customer;
+      },
+
+      deleteZellerCustomer: ({input}: {input: {id: string}}) => {
+        const existing = this.customers.get(input.id);
+        if (!existing) {
+          return null;
+        }
+        this.customers.delete(input.id);
+        this.publish('onDeleteZellerCustomer', existing);
+        return existing;
+      },
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import {RealtimeSocket, RealtimeSocketFactory} from '../services/AppSyncRealtimeClient';
+
+const SOCKET_CONNECTING = 0;
+const SOCKET_OPEN = 1;
+const SOCKET_CLOSED = 3;
+
+interface StartedSubscription {
+  id: string;
+  query: string;
+}
+
+export interface MockRealtimeServerOptions {
+  connectionTimeoutMs?: number;
+  // Delay before each message reaches the client
+  latencyMs?: number;
+  // When false, connections are rejected with a connection_error
+  acceptConnections?: boolean;
+  // When false, start messages are answered with an error
+  acceptSubscriptions?: boolean;
+}
+
+// In-process stand-in for the AppSync realtime endpoint. `WebSocket` is a
+// socket class to hand to AppSyncRealtimeClient; the server answers the
+// handshake, tracks started subscriptions and lets tests publish events or
+// drop connections without a network.
+export class MockRealtimeServer {
+  public readonly sockets: MockRealtimeSocket[] = [];
+  public readonly WebSocket: RealtimeSocketFactory;
+  public connectionTimeoutMs: number;
+  public latencyMs: number;
+  public acceptConnections: boolean;
+  public acceptSubscriptions: boolean;
+
+  constructor(options: MockRealtimeServerOptions = {}) {
+    this.connectionTimeoutMs = options.connectionTimeoutMs ?? 300000;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.acceptConnections = options.acceptConnections ?? true;
+    this.acceptSubscriptions = options.acceptSubscriptions ?? true;
+    this.WebSocket = createSocketClass(this);
+  }
+
+  public get openSockets(): MockRealtimeSocket[] {
+    return this.sockets.filter(socket => socket.readyState === SOCKET_OPEN);
+  }
+
+  public get subscriptionCount(): number {
+    return this.openSockets.reduce(
+      (count, socket) => count + socket.subscriptions.size,
+      0,
+    );
+  }
+
+  // Sends `data` to every started subscription whose query selects `field`,
+  // the way AppSync fans a mutation out to its subscribers.
+  public publish(field: string, data: any): void {
+    this.openSockets.forEach(socket => {
+      socket.subscriptions.forEach(subscription => {
+        if (subscription.query.includes(field)) {
+          socket.deliver({
+            id: subscription.id,
+            type: 'data',
+            payload: {data: {[field]: data}},
+          });
+        }
+      });
+    });
+  }
+
+  public sendKeepAlive(): void {
+    this.openSockets.forEach(socket => socket.deliver({type: 'ka'}));
+  }
+
+  // Closes every connection from the server side, as a network drop would.
+  public dropConnections(): void {
+    this.openSockets.forEach(socket => socket.serverClose());
+  }
+}
+
+export class MockRealtimeSocket implements RealtimeSocket {
+  public readyState = SOCKET_CONNECTING;
+  public onopen: (() => void) | null = null;
+  public onmessage: ((event: {data: string}) => void) | null = null;
+  public onclose: (() => void) | null = null;
+  public onerror: ((error: any) => void) | null = null;
+  public readonly subscriptions = new Map<string, StartedSubscription>();
+  public readonly sent: any[] = [];
+
+  constructor(
+    private readonly server: MockRealtimeServer,
+    public readonly url: string,
+    public readonly protocol: string,
+  ) {
+    setTimeout(() => {
+      if (this.readyState === SOCKET_CONNECTING) {
+        this.readyState = SOCKET_OPEN;
+        this.onopen?.();
+      }
+    }, server.latencyMs);
+  }
+
+  public send(data: string): void {
+    if (this.readyState !== SOCKET_OPEN) {
+      throw new Error('Socket is not open');
+    }
+
+    const message = JSON.parse(data);
+    this.sent.push(message);
+
+    switch (message.type) {
+      case 'connection_init':
+        this.deliver(
+          this.server.acceptConnections
+            ? {
+                type: 'connection_ack',
+                payload: {connectionTimeoutMs: this.server.connectionTimeoutMs},
+              }
+            : {
+                type: 'connection_error',
+                payload: {errors: [{errorType: 'UnauthorizedException'}]},
+              },
+        );
+        return;
+      case 'start': {
+        if (!this.server.acceptSubscriptions) {
+          this.deliver({
+            id: message.id,
+            type: 'error',
+            payload: {errors: [{errorType: 'UnknownOperationError', message: 'Unknown field'}]},
+          });
+          return;
+        }
+        const {query} = JSON.parse(message.payload.data);
+        this.subscriptions.set(message.id, {id: message.id, query});
+        this.deliver({id: message.id, type: 'start_ack'});
+        return;
+      }
+      case 'stop':
+        this.subscriptions.delete(message.id);
+        this.deliver({id: message.id, type: 'complete'});
+        return;
+    }
+  }
+
+  public close(): void {
+    this.readyState = SOCKET_CLOSED;
+    this.subscriptions.clear();
+  }
+
+  public serverClose(): void {
+    this.close();
+    this.onclose?.();
+  }
+
+  public deliver(message: Record<string, any>): void {
+    setTimeout(() => {
+      if (this.readyState === SOCKET_OPEN) {
+        this.onmessage?.({data: JSON.stringify(message)});
+      }
+    }, this.server.latencyMs);
+  }
+}
+
+const createSocketClass = (server: MockRealtimeServer): RealtimeSocketFactory =>
+  class extends MockRealtimeSocket {
+    constructor(url: string, protocol: string) {
+      super(server, url, protocol);
+      server.sockets.push(this);
+    }
+  };
@@ -0,0 +1,255 @@
+import {buildSchema, parse, validate} from 'graphql';
+import {
+  MockAppSyncServer,
+  getMockSchema,
+  matchesCustomerFilter,
+} from '../MockAppSyncServer';
+import {MockRealtimeServer} from '../MockRealtimeServer';
+import {APPSYNC_DIRECTIVES, SCHEMA_SDL} from '../schema';
+import {
+  CREATE_ZELLER_CUSTOMER,
+  DELETE_ZELLER_CUSTOMER,
+  GraphQLService,
+  LIST_ZELLER_CUSTOMERS,
+  LIST_ZELLER_ROLES,
+  ON_CREATE_ZELLER_CUSTOMER,
+  ON_DELETE_ZELLER_CUSTOMER,
+  ON_UPDATE_ZELLER_CUSTOMER,
+  UPDATE_ZELLER_CUSTOMER,
+} from '../../services/GraphQLService';
+import {isPermanentFailure} from '../../services/OutboxService';
+import {graphQLCustomerSource} from '../../services/SyncService';
+import {ZellerCustomer} from '../../types';
+import {ApiKeyAuthProvider, TokenAuthProvider} from '../../auth/providers';
+
+// The real client, so documents are parsed and sent the way the app sends them
+jest.unmock('@apollo/client');
+
+const customers: ZellerCustomer[] = [
+  {id: '1', name: 'Ada Lovelace', email: 'ada@example.com', role: 'Admin'},
+  {id: '2', name: 'Grace Hopper', email: 'grace@example.com', role: 'Manager'},
+  {id: '3', name: 'Alan Turing', email: 'alan@example.com', role: 'Manager'},
+  {id: '4', name: 'Adele Goldberg', email: 'adele@example.com', role: 'Admin'},
+  {id: '5', name: 'Edsger Dijkstra', email: 'edsger@example.com', role: 'Manager'},
+];
+
+describe('schema', () => {
+  it('should match schema.gql', () => {
+    // Jest runs from the project root
+    const file = require('fs').readFileSync('schema.gql', 'utf8');
+
+    expect(SCHEMA_SDL.trim()).toBe(file.trim());
+  });
+
+  it.each([
+    ['LIST_ZELLER_CUSTOMERS', LIST_ZELLER_CUSTOMERS],
+    ['CREATE_ZELLER_CUSTOMER', CREATE_ZELLER_CUSTOMER],
+    ['UPDATE_ZELLER_CUSTOMER', UPDATE_ZELLER_CUSTOMER],
+    ['DELETE_ZELLER_CUSTOMER', DELETE_ZELLER_CUSTOMER],
+    ['ON_CREATE_ZELLER_CUSTOMER', parse(ON_CREATE_ZELLER_CUSTOMER)],
+    ['ON_UPDATE_ZELLER_CUSTOMER', parse(ON_UPDATE_ZELLER_CUSTOMER)],
+    ['ON_DELETE_ZELLER_CUSTOMER', parse(ON_DELETE_ZELLER_CUSTOMER)],
+    ['LIST_ZELLER_ROLES', LIST_ZELLER_ROLES],
+  ])('should accept %s', (_name, document) => {
+    expect(validate(getMockSchema(), document)).toEqual([]);
+  });
+
+  it('should serve the role catalog only as an extension of the AppSync schema', () => {
+    const appSyncSchema = buildSchema(APPSYNC_DIRECTIVES + SCHEMA_SDL);
+
+    expect(validate(appSyncSchema, LIST_ZELLER_ROLES)).not.toEqual([]);
+  });
+});
+
+describe('MockAppSyncServer', () => {
+  let server: MockAppSyncServer;
+
+  const list = (variables: Record<string, any>) =>
+    server.execute({query: LIST_ZELLER_CUSTOMERS.loc!.source.body, variables});
+
+  beforeEach(() => {
+    server = new MockAppSyncServer({customers});
+  });
+
+  it('should reject documents the schema does not allow', async () => {
+    const result = await server.execute({
+      query: '{ listZellerCustomers { items { phone } } }',
+    });
+
+    expect(result.errors?.[0].message).toContain('phone');
+  });
+
+  it.each([
+    [{role: {eq: 'Admin'}}, ['1', '4']],
+    [{role: {ne: 'Admin'}}, ['2', '3', '5']],
+    [{name: {beginsWith: 'Ad'}}, ['1', '4']],
+    [{email: {contains: 'ce@'}}, ['2']],
+    [{name: {notContains: 'a'}}, ['4']],
+    [{name: {between: ['B', 'H']}}, ['2', '5']],
+    [{name: {gt: 'E'}, role: {eq: 'Manager'}}, ['2', '5']],
+    [{id: {le: '2'}}, ['1', '2']],
+  ])('should apply filter %j', (filter, expectedIds) => {
+    const ids = customers
+      .filter(customer => matchesCustomerFilter(customer, filter))
+      .map(customer => customer.id);
+
+    expect(ids).toEqual(expectedIds);
+  });
+
+  it('should count limit against scanned items, before the filter', async () => {
+    const first = await list({filter: {role: {eq: 'Admin'}}, limit: 2});
+    const page = (first.data as any).listZellerCustomers;
+
+    expect(page.items.map((c: any) => c.id)).toEqual(['1']);
+    expect(page.nextToken).toBeTruthy();
+
+    const second = await list({
+      filter: {role: {eq: 'Admin'}},
+      limit: 2,
+      nextToken: page.nextToken,
+    });
+    expect((second.data as any).listZellerCustomers.items[0].id).toBe('4');
+  });
+
+  it('should reject a token it did not issue', async () => {
+    const result = await list({nextToken: 'not-a-token'});
+
+    expect(result.errors?.[0].extensions?.errorType).toBe(
+      'DynamoDB:ValidationException',
+    );
+  });
+
+  it('should publish mutations to subscribers', async () => {
+    const realtime = new MockRealtimeServer();
+    const publish = jest.spyOn(realtime, 'publish');
+    server = new MockAppSyncServer({realtime});
+
+    await server.execute({
+      query: CREATE_ZELLER_CUSTOMER.loc!.source.body,
+      variables: {input: {name: 'Ada', email: 'ada@example.com', role: 'Admin'}},
+    });
+
+    expect(publish).toHaveBeenCalledWith(
+      'onCreateZellerCustomer',
+      expect.objectContaining({name: 'Ada'}),
+    );
+  });
+});
+
+describe('GraphQLService against the mock server', () => {
+  let server: MockAppSyncServer;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    server = new MockAppSyncServer({customers, defaultLimit: 2});
+    GraphQLService.connectToMockServer(server);
+  });
+
+  afterEach(() => {
+    GraphQLService.setAuthProvider(new ApiKeyAuthProvider('mock-api-key'));
+    jest.restoreAllMocks();
+  });
+
+  it('should page through every customer', async () => {
+    const result = await GraphQLService.fetchAllCustomers({pageSize: 2});
+
+    expect(result.items.map(c => c.id)).toEqual(['1', '2', '3', '4', '5']);
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('should follow short filtered pages to the end', async () => {
+    const result = await GraphQLService.fetchCustomersByRole('Admin');
+
+    expect(result.items.map(c => c.id)).toEqual(['1', '4']);
+  });
+
+  it('should round-trip mutations', async () => {
+    const created = await GraphQLService.createCustomer({
+      name: 'Barbara Liskov',
+      email: 'barbara@example.com',
+      role: 'Manager',
+    });
+    await GraphQLService.updateCustomer({...created, role: 'Admin'});
+    await GraphQLService.deleteCustomer('1');
+
+    expect(server.getCustomers().find(c => c.id === created.id)?.role).toBe('Admin');
+    expect(server.getCustomers().some(c => c.id === '1')).toBe(false);
+  });
+
+  it('should list the role catalog', async () => {
+    server.setRoles([{name: 'Owner', label: 'Owner', rank: 3, aliases: ['boss']}]);
+
+    await expect(GraphQLService.fetchRoles()).resolves.toEqual([
+      expect.objectContaining({name: 'Owner', label: 'Owner', rank: 3, aliases: ['boss']}),
+    ]);
+  });
+
+  it('should fail the sync source rather than return a partial list', async () => {
+    server.failNext({type: 'graphql', message: 'Throttled', errorType: 'Throttled'});
+
+    await expect(graphQLCustomerSource.fetchCustomers()).rejects.toBeDefined();
+  });
+
+  it('should surface typed errors the outbox can classify', async () => {
+    const attempt = () =>
+      GraphQLService.updateCustomer({
+        id: 'missing',
+        name: 'Nobody',
+        email: 'nobody@example.com',
+        role: 'Admin',
+      }).catch(error => error);
+
+    const rejected = await attempt();
+    server.failNext({type: 'http', status: 401});
+    const unauthorised = await attempt();
+    server.failNext({type: 'http', status: 503});
+    const unavailable = await attempt();
+    server.failNext({type: 'network'});
+    const offline = await attempt();
+
+    expect(rejected.kind).toBe('conflict');
+    expect(unauthorised.kind).toBe('auth');
+    expect(unavailable.kind).toBe('network');
+    expect(offline.kind).toBe('network');
+    expect(isPermanentFailure(rejected)).toBe(true);
+    expect(isPermanentFailure(unauthorised)).toBe(true);
+    expect(isPermanentFailure(unavailable)).toBe(false);
+    expect(isPermanentFailure(offline)).toBe(false);
+  });
+
+  it('should refresh a rejected token and retry transparently', async () => {
+    const refresh = jest.fn(async () => ({
+      accessToken: 'fresh-token',
+      expiresAt: Date.now() + 3600000,
+    }));
+    GraphQLService.setAuthProvider(
+      new TokenAuthProvider({
+        tokens: {accessToken: 'revoked-token', expiresAt: Date.now() + 3600000},
+        refresh,
+      }),
+    );
+    server.failNext({type: 'http', status: 401});
+
+    const result = await GraphQLService.fetchAllCustomers({pageSize: 2});
+
+    expect(result.items).toHaveLength(5);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    // The rejected first page, its retry, then the remaining two pages
+    expect(server.requests).toHaveLength(4);
+  });
+
+  it('should wait out injected latency', async () => {
+    jest.useFakeTimers();
+    server.latencyMs = 500;
+    let settled = false;
+    GraphQLService.fetchCustomerPage().then(() => {
+      settled = true;
+    });
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(settled).toBe(false);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(settled).toBe(true);
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,23 @@
+import {MockAppSyncServer} from './MockAppSyncServer';
+import {MockRealtimeServer} from './MockRealtimeServer';
+import {ZellerCustomer} from '../types';
+
+const SEED_CUSTOMERS: ZellerCustomer[] = [
+  {id: 'dev-1', name: 'Ada Lovelace', email: 'ada@example.com', role: 'Admin'},
+  {id: 'dev-2', name: 'Grace Hopper', email: 'grace@example.com', role: 'Manager'},
+  {id: 'dev-3', name: 'Alan Turing', email: 'alan@example.com', role: 'Manager'},
+  {id: 'dev-4', name: 'Katherine Johnson', email: 'katherine@example.com', role: 'Admin'},
+  {id: 'dev-5', name: 'Edsger Dijkstra', email: 'edsger@example.com', role: 'Manager'},
+];
+
+// Servers used when the app runs against the mock backend. A little latency
+// keeps loading states visible, as they would be against AppSync.
+export const createDevMockServers = () => {
+  const realtime = new MockRealtimeServer({latencyMs: 50});
+  const appSync = new MockAppSyncServer({
+    customers: SEED_CUSTOMERS,
+    latencyMs: 300,
+    realtime,
+  });
+  return {appSync, realtime};
+};
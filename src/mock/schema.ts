@@ -0,0 +1,109 @@
+// Copy of schema.gql for the mock server, since the bundler cannot import
+// .gql files. A test keeps the two identical.
+export const SCHEMA_SDL = `
+type Query {
+  getZellerCustomer(id: String!): ZellerCustomer
+  listZellerCustomers(
+    filter: TableZellerCustomerFilterInput
+    limit: Int
+    nextToken: String
+  ): ZellerCustomerConnection
+}
+
+type Mutation {
+  createZellerCustomer(input: CreateZellerCustomerInput!): ZellerCustomer
+  updateZellerCustomer(input: UpdateZellerCustomerInput!): ZellerCustomer
+  deleteZellerCustomer(input: DeleteZellerCustomerInput!): ZellerCustomer
+}
+
+type Subscription {
+  onCreateZellerCustomer(
+    id: String
+    name: String
+    email: String
+    role: String
+  ): ZellerCustomer @aws_subscribe(mutations: ["createZellerCustomer"])
+  onUpdateZellerCustomer(
+    id: String
+    name: String
+    email: String
+    role: String
+  ): ZellerCustomer @aws_subscribe(mutations: ["updateZellerCustomer"])
+  onDeleteZellerCustomer(
+    id: String
+    name: String
+    email: String
+    role: String
+  ): ZellerCustomer @aws_subscribe(mutations: ["deleteZellerCustomer"])
+}
+
+type ZellerCustomer {
+  id: String!
+  name: String
+  email: String
+  role: String
+}
+
+input TableZellerCustomerFilterInput {
+  id: TableStringFilterInput
+  name: TableStringFilterInput
+  email: TableStringFilterInput
+  role: TableStringFilterInput
+}
+
+input TableStringFilterInput {
+  ne: String
+  eq: String
+  le: String
+  lt: String
+  ge: String
+  gt: String
+  contains: String
+  notContains: String
+  between: [String]
+  beginsWith: String
+}
+
+type ZellerCustomerConnection {
+  items: [ZellerCustomer]
+  nextToken: String
+}
+
+input CreateZellerCustomerInput {
+  name: String!
+  email: String!
+  role: String!
+}
+
+input UpdateZellerCustomerInput {
+  id: String!
+  name: String!
+  email: String!
+  role: String!
+}
+
+input DeleteZellerCustomerInput {
+  id: String!
+}
+`;
+
+// AppSync provides these directives; a plain GraphQL schema has to declare them.
+export const APPSYNC_DIRECTIVES = `
+  directive @aws_subscribe(mutations: [String]) on FIELD_DEFINITION
+`;
+
+// The role catalog query the app refreshes its roles from. AppSync's schema
+// above has no such field, so it is served only where ROLE_CATALOG_QUERY says
+// the endpoint offers it, and by the mock.
+export const ROLE_CATALOG_SDL = `
+extend type Query {
+  listZellerRoles: [ZellerRole]
+}
+
+type ZellerRole {
+  name: String!
+  label: String
+  rank: Int
+  aliases: [String]
+}
+`;
@@ -11,8 +11,20 @@ import {
 } from 'react-native';
 import Feather from 'react-native-vector-icons/Feather';
 import {useCustomerStore} from '../store/customerStore';
+import {CustomerTimeline} from '../components/CustomerTimeline';
 import {ZellerCustomer, FormData, ValidationError} from '../types';
 import {ValidationUtils} from '../utils/validation';
+import {
+  ROLE_GRANT_DURATIONS,
+  describeAdminMinimum,
+  describeTimeLeft,
+  getDefaultRole,
+  getRoleChange,
+  getRoleLabel,
+  isAdminRole,
+} from '../utils/roles';
+import {toAppError} from '../errors/AppError';
+import {showErrorAlert} from '../errors/showErrorAlert';
 
 interface AddEditCustomerScreenProps {
   customer?: ZellerCustomer;
@@ -39,21 +51,67 @@ export const AddEditCustomerScreen: React.FC<AddEditCustomerScreenProps> = ({
   customer,
   onClose,
 }) => {
-  const {addCustomer, updateCustomer, deleteCustomer} = useCustomerStore();
+  const {
+    roles,
+    addCustomer,
+    updateCustomer,
+    deleteCustomer,
+    customerHistory,
+    loadCustomerHistory,
+    minimumAdmins,
+    protectedAdminIds,
+    roleRequests,
+    admins,
+    roleGrants,
+    actingAdminId,
+    setActingAdmin,
+  } = useCustomerStore();
   const initialNameParts = splitName(customer?.name || '');
   
   const [formData, setFormData] = useState<FormData>({
     name: customer?.name || '',
     email: customer?.email || '',
-    role: customer?.role || 'Manager',
+    role: customer?.role || getDefaultRole(roles) || '',
   });
   const [firstName, setFirstName] = useState(initialNameParts.first);
   const [lastName, setLastName] = useState(initialNameParts.last);
   
+  // How long a promotion lasts, in ms; null for good
+  const [grantFor, setGrantFor] = useState<number | null>(null);
+  
   const [errors, setErrors] = useState<ValidationError[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const isEditMode = !!customer;
+  // Set when the team can't lose this customer as an admin
+  const protectedReason =
+    customer && protectedAdminIds.includes(customer.id)
+      ? describeAdminMinimum(customer.name, minimumAdmins)
+      : null;
+  const pendingRequest = customer
+    ? roleRequests.find(request => request.customerId === customer.id)
+    : undefined;
+  const activeGrant = customer
+    ? roleGrants.find(grant => grant.customerId === customer.id)
+    : undefined;
+  // Only a promotion of an existing customer can be temporary
+  const canBeTemporary =
+    !!customer && getRoleChange(roles, customer.role, formData.role) === 'promotion';
+  // The store saves everything else and asks for the promotion, as the Admin
+  // chosen below; the customer being moved can't ask for themselves
+  const currentRole = customer?.role ?? getDefaultRole(roles);
+  const needsApproval =
+    admins.length > 1 &&
+    isAdminRole(roles, formData.role) &&
+    !!currentRole &&
+    !isAdminRole(roles, currentRole);
+  const requesters = admins.filter(admin => admin.id !== customer?.id);
+
+  useEffect(() => {
+    if (customer) {
+      loadCustomerHistory(customer.id);
+    }
+  }, [customer, loadCustomerHistory]);
 
   useEffect(() => {
     // Clear errors when form data changes
@@ -86,7 +144,7 @@ export const AddEditCustomerScreen: React.FC<AddEditCustomerScreenProps> = ({
     updateFullName(firstName, value);
   };
 
-  const handleRoleSelect = (role: 'Admin' | 'Manager') => {
+  const handleRoleSelect = (role: string) => {
     setFormData(prev => ({
       ...prev,
       role,
@@ -94,7 +152,7 @@ export const AddEditCustomerScreen: React.FC<AddEditCustomerScreenProps> = ({
   };
 
   const validateAndSubmit = async () => {
-    const validationErrors = ValidationUtils.validateForm(formData);
+    const validationErrors = ValidationUtils.validateForm(formData, roles);
     
     if (validationErrors.length > 0) {
       setErrors(validationErrors);
@@ -105,17 +163,24 @@ export const AddEditCustomerScreen: React.FC<AddEditCustomerScreenProps> = ({
     
     try {
       if (isEditMode && customer) {
-        await updateCustomer({
-          ...customer,
-          ...formData,
-        });
+        await updateCustomer(
+          {
+            ...customer,
+            ...formData,
+          },
+          canBeTemporary ? grantFor : null,
+        );
       } else {
         await addCustomer(formData);
       }
       
       Alert.alert(
         'Success',
-        `Customer ${isEditMode ? 'updated' : 'added'} successfully!`,
+        needsApproval
+          ? `Customer ${isEditMode ? 'updated' : 'added'}. Making them ${getRoleLabel(roles, formData.role)} awaits another Admin's approval.`
+          : canBeTemporary && grantFor !== null
+            ? `Customer updated. They go back to ${getRoleLabel(roles, customer!.role)} in ${describeTimeLeft(Date.now() + grantFor)}.`
+            : `Customer ${isEditMode ? 'updated' : 'added'} successfully!`,
         [
           {
             text: 'OK',
@@ -124,15 +189,24 @@ export const AddEditCustomerScreen: React.FC<AddEditCustomerScreenProps> = ({
         ]
       );
     } catch (error) {
-      Alert.alert(
-        'Error',
-        `Failed to ${isEditMode ? 'update' : 'add'} customer. Please try again.`
+      showErrorAlert(
+        toAppError(error),
+        `${isEditMode ? 'update' : 'add'} the customer`,
+        {onRetry: validateAndSubmit}
       );
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleChooseRequester = async (id: string) => {
+    try {
+      await setActingAdmin(id === actingAdminId ? null : id);
+    } catch (error) {
+      showErrorAlert(toAppError(error), 'choose who you are');
+    }
+  };
+
   const getErrorForField = (field: string): string | undefined => {
     const error = errors.find(e => e.field === field);
     return error?.message;
@@ -142,6 +216,10 @@ export const AddEditCustomerScreen: React.FC<AddEditCustomerScreenProps> = ({
     if (!customer) {
       return;
     }
+    if (protectedReason) {
+      Alert.alert("Can't Delete", protectedReason);
+      return;
+    }
 
     Alert.alert(
       'Delete Customer',
@@ -156,10 +234,7 @@ export const AddEditCustomerScreen: React.FC<AddEditCustomerScreenProps> = ({
               await deleteCustomer(customer.id);
               onClose();
             } catch (error) {
-              Alert.alert(
-                'Error',
-                'Failed to delete customer. Please try again.',
-              );
+              showErrorAlert(toAppError(error), 'delete the customer');
             }
           },
         },
@@ -239,17 +314,23 @@ export const AddEditCustomerScreen: React.FC<AddEditCustomerScreenProps> = ({
           <View style={styles.fieldGroup}>
             <Text style={styles.fieldLabel}>User Role</Text>
             <View style={styles.roleSegment}>
-              {(['Admin', 'Manager'] as const).map(roleOption => {
-                const isActive = formData.role === roleOption;
+              {roles.map(roleOption => {
+                const isActive = formData.role === roleOption.name;
+                const isLocked = !!protectedReason && !isAdminRole(roles, roleOption.name);
                 return (
                   <TouchableOpacity
-                    key={roleOption}
-                    style={[styles.segmentButton, isActive && styles.segmentButtonActive]}
-                    onPress={() => handleRoleSelect(roleOption)}
+                    key={roleOption.name}
+                    style={[
+                      styles.segmentButton,
+                      isActive && styles.segmentButtonActive,
+                      isLocked && styles.segmentButtonLocked,
+                    ]}
+                    onPress={() => handleRoleSelect(roleOption.name)}
+                    disabled={isLocked}
                     activeOpacity={0.9}
                   >
                     <Text style={[styles.segmentText, isActive && styles.segmentTextActive]}>
-                      {roleOption}
+                      {roleOption.label}
                     </Text>
                   </TouchableOpacity>
                 );
@@ -258,7 +339,69 @@ export const AddEditCustomerScreen: React.FC<AddEditCustomerScreenProps> = ({
             {getErrorForField('role') && (
               <Text style={styles.errorText}>{getErrorForField('role')}</Text>
             )}
+            {protectedReason && <Text style={styles.noteText}>{protectedReason}</Text>}
+            {pendingRequest && (
+              <Text style={styles.noteText}>
+                Waiting for an Admin to approve a move to{' '}
+                {getRoleLabel(roles, pendingRequest.toRole)}
+              </Text>
+            )}
+            {activeGrant && (
+              <Text style={styles.noteText}>
+                Temporary: back to {getRoleLabel(roles, activeGrant.previousRole)} in{' '}
+                {describeTimeLeft(activeGrant.expiresAt)}
+              </Text>
+            )}
           </View>
+
+          {needsApproval && (
+            <View style={styles.fieldGroup}>
+              <Text style={styles.fieldLabel}>Asked for by</Text>
+              <View style={styles.roleSegment}>
+                {requesters.map(admin => {
+                  const isActive = admin.id === actingAdminId;
+                  return (
+                    <TouchableOpacity
+                      key={admin.id}
+                      style={[styles.segmentButton, isActive && styles.segmentButtonActive]}
+                      onPress={() => handleChooseRequester(admin.id)}
+                      activeOpacity={0.9}
+                    >
+                      <Text style={[styles.segmentText, isActive && styles.segmentTextActive]}>
+                        {admin.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={styles.noteText}>
+                Another Admin has to approve the move to {getRoleLabel(roles, formData.role)}
+              </Text>
+            </View>
+          )}
+
+          {canBeTemporary && (
+            <View style={styles.fieldGroup}>
+              <Text style={styles.fieldLabel}>For how long</Text>
+              <View style={styles.roleSegment}>
+                {[{label: 'Permanent', ms: null}, ...ROLE_GRANT_DURATIONS].map(option => {
+                  const isActive = grantFor === option.ms;
+                  return (
+                    <TouchableOpacity
+                      key={option.label}
+                      style={[styles.segmentButton, isActive && styles.segmentButtonActive]}
+                      onPress={() => setGrantFor(option.ms)}
+                      activeOpacity={0.9}
+                    >
+                      <Text style={[styles.segmentText, isActive && styles.segmentTextActive]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
         </View>
 
         <TouchableOpacity
@@ -278,6 +421,8 @@ export const AddEditCustomerScreen: React.FC<AddEditCustomerScreenProps> = ({
             <Text style={styles.deleteButtonText}>Delete User</Text>
           </TouchableOpacity>
         )}
+
+        {isEditMode && <CustomerTimeline events={customerHistory} />}
       </ScrollView>
     </SafeAreaView>
   );
@@ -346,6 +491,10 @@ const styles = StyleSheet.create({
     marginTop: -12,
     marginBottom: 8,
   },
+  noteText: {
+    fontSize: 13,
+    color: '#6B778C',
+  },
   roleSegment: {
     flexDirection: 'row',
     backgroundColor: '#F5F7FB',
@@ -369,6 +518,9 @@ const styles = StyleSheet.create({
     shadowRadius: 6,
     shadowOffset: {width: 0, height: 3},
   },
+  segmentButtonLocked: {
+    opacity: 0.4,
+  },
   segmentText: {
     fontSize: 15,
     fontWeight: '600',
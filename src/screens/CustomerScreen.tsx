@@ -1,28 +1,51 @@
-import React, {useEffect, useRef, useState} from 'react';
-import {View, StyleSheet, SafeAreaView, TouchableOpacity, Text, Alert} from 'react-native';
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  Text,
+  Alert,
+  AppState,
+} from 'react-native';
 import PagerView from 'react-native-pager-view';
 import Feather from 'react-native-vector-icons/Feather';
 import {useCustomerStore} from '../store/customerStore';
 import {CustomerList} from '../components/CustomerList';
 import {SearchBar} from '../components/SearchBar';
 import {TabSelector} from '../components/TabSelector';
+import {SyncIssueBanner} from '../components/SyncIssueBanner';
+import {UndoSnackbar} from '../components/UndoSnackbar';
 import {ZellerCustomer, UserRole} from '../types';
+import {toAppError} from '../errors/AppError';
+import {showErrorAlert} from '../errors/showErrorAlert';
+import {getRoleLabel, getRoleTabs} from '../utils/roles';
 
 interface CustomerScreenProps {
   onAddCustomer: () => void;
   onEditCustomer: (customer: ZellerCustomer) => void;
+  onOpenSettings?: () => void;
+  onOpenTrash?: () => void;
+  onOpenReview?: () => void;
+  onOpenRoleRequests?: () => void;
 }
 
 export const CustomerScreen: React.FC<CustomerScreenProps> = ({
   onAddCustomer,
   onEditCustomer,
+  onOpenSettings,
+  onOpenTrash,
+  onOpenReview,
+  onOpenRoleRequests,
 }) => {
   const [isSearchVisible, setIsSearchVisible] = useState(false);
   const {
-    customers,
+    roles,
+    customerWindows,
     loading,
     error,
     searchTerm,
+    sortOrder,
     selectedRole,
     refreshing,
     loadCustomers,
@@ -30,38 +53,103 @@ export const CustomerScreen: React.FC<CustomerScreenProps> = ({
     deleteCustomer,
     setSearchTerm,
     setSelectedRole,
-    filterCustomers,
+    setSortOrder,
+    loadMoreCustomers,
     clearError,
+    deadLetters,
+    replayOutbox,
+    retryDeadLetter,
+    discardDeadLetter,
+    syncConflicts,
+    resolveConflict,
+    quarantinedCustomers,
+    minimumAdmins,
+    protectedAdminIds,
+    roleRequests,
+    roleGrants,
+    revertExpiredGrants,
+    stopGrantTimer,
+    startRealtimeUpdates,
+    stopRealtimeUpdates,
+    pendingDeletions,
+    undoDelete,
   } = useCustomerStore();
 
   const pagerRef = useRef<PagerView>(null);
 
-  // Role mapping for pages
-  const roles: UserRole[] = ['All', 'Admin', 'Manager'];
+  // One page per tab, in tab order
+  const roleTabs = getRoleTabs(roles);
+  const tabs = roleTabs.map(role => ({role, label: getRoleLabel(roles, role)}));
+
+  const pendingRoles = useMemo(
+    () =>
+      Object.fromEntries(
+        roleRequests.map(request => [request.customerId, getRoleLabel(roles, request.toRole)]),
+      ),
+    [roleRequests, roles],
+  );
+
+  const grantExpiries = useMemo(
+    () => Object.fromEntries(roleGrants.map(grant => [grant.customerId, grant.expiresAt])),
+    [roleGrants],
+  );
 
   useEffect(() => {
     loadCustomers();
   }, [loadCustomers]);
 
+  // Coming back to the foreground is the best signal we have that the
+  // network may be back, so flush anything still queued. Live updates only
+  // run in the foreground; the sync on return picks up anything missed.
+  useEffect(() => {
+    let backgrounded = false;
+    startRealtimeUpdates();
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        replayOutbox();
+        if (backgrounded) {
+          backgrounded = false;
+          startRealtimeUpdates();
+          revertExpiredGrants();
+          refreshCustomers();
+        }
+      } else if (state === 'background') {
+        backgrounded = true;
+        stopRealtimeUpdates();
+        stopGrantTimer();
+      }
+    });
+    return () => {
+      subscription.remove();
+      stopRealtimeUpdates();
+      stopGrantTimer();
+    };
+  }, [
+    replayOutbox,
+    startRealtimeUpdates,
+    stopRealtimeUpdates,
+    refreshCustomers,
+    revertExpiredGrants,
+    stopGrantTimer,
+  ]);
+
   useEffect(() => {
     if (error) {
       if (Alert && typeof Alert.alert === 'function') {
-        Alert.alert('Error', error, [
-          {text: 'OK', onPress: clearError},
-        ]);
+        const {retry} = error;
+        showErrorAlert(error.cause, error.operation, {
+          onRetry: retry ? () => retry() : undefined,
+          onDismiss: clearError,
+        });
       } else {
         clearError();
       }
     }
   }, [error, clearError]);
 
-  useEffect(() => {
-    filterCustomers();
-  }, [customers, searchTerm, selectedRole, filterCustomers]);
-
   const handleRoleChange = (role: UserRole) => {
     setSelectedRole(role);
-    const pageIndex = roles.indexOf(role);
+    const pageIndex = roleTabs.indexOf(role);
     if (pageIndex !== -1) {
       pagerRef.current?.setPage(pageIndex);
     }
@@ -69,47 +157,105 @@ export const CustomerScreen: React.FC<CustomerScreenProps> = ({
 
   const handlePageSelected = (event: any) => {
     const position = event.nativeEvent.position;
-    setSelectedRole(roles[position]);
+    setSelectedRole(roleTabs[position]);
   };
 
   const handleDeleteCustomer = async (id: string) => {
     try {
       await deleteCustomer(id);
-    } catch (error) {
-      // Error is handled by the store
+    } catch (deleteError) {
+      showErrorAlert(toAppError(deleteError), 'delete the customer', {
+        onRetry: () => handleDeleteCustomer(id),
+      });
     }
   };
 
-  const getFilteredCustomersForRole = (role: UserRole) => {
-    let roleCustomers = customers;
-    
-    if (role !== 'All') {
-      roleCustomers = customers.filter(customer => customer.role === role);
-    }
+  const handleReviewDeadLetters = () => {
+    const summary = deadLetters
+      .map(
+        entry =>
+          `${entry.operation} ${entry.payload.name || entry.customerId}: ${
+            entry.lastError || 'Unknown error'
+          }`,
+      )
+      .join('\n');
+
+    Alert.alert('Changes not synced', summary, [
+      {text: 'Cancel', style: 'cancel'},
+      {
+        text: 'Discard all',
+        style: 'destructive',
+        onPress: async () => {
+          for (const entry of deadLetters) {
+            await discardDeadLetter(entry.id);
+          }
+        },
+      },
+      {
+        text: 'Retry all',
+        onPress: async () => {
+          for (const entry of deadLetters) {
+            await retryDeadLetter(entry.id);
+          }
+        },
+      },
+    ]);
+  };
+
+  const describeVersion = (customer: ZellerCustomer | null) =>
+    customer ? `${customer.name} (${customer.role}, ${customer.email})` : 'Deleted';
 
-    if (searchTerm.trim()) {
-      const searchLower = searchTerm.toLowerCase().trim();
-      roleCustomers = roleCustomers.filter(customer =>
-        customer.name.toLowerCase().includes(searchLower)
-      );
+  const handleReviewConflict = () => {
+    const conflict = syncConflicts[0];
+    if (!conflict) {
+      return;
     }
 
-    return roleCustomers;
+    Alert.alert(
+      'Resolve sync conflict',
+      `This customer was changed on this device and on the server.\n\nThis device: ${describeVersion(
+        conflict.local,
+      )}\nServer: ${describeVersion(conflict.server)}`,
+      [
+        {text: 'Later', style: 'cancel'},
+        {
+          text: 'Keep mine',
+          onPress: () => resolveConflict(conflict.customerId, 'keep-local'),
+        },
+        {
+          text: 'Use server',
+          onPress: () => resolveConflict(conflict.customerId, 'use-server'),
+        },
+      ],
+    );
   };
 
+  // The most recent deletion is the one offered for undo
+  const latestDeletion = pendingDeletions[pendingDeletions.length - 1];
+
+  // Nothing stored locally at all, rather than nothing matching the search
+  const hasNoCustomers =
+    !loading && !searchTerm.trim() && customerWindows.All.customers.length === 0;
+
   const renderCustomerPage = (role: UserRole) => {
-    const roleCustomers = getFilteredCustomersForRole(role);
-    
+    const window = customerWindows[role];
+
     return (
       <View style={styles.pageContainer} key={role}>
         <CustomerList
-          customers={roleCustomers}
+          customers={window.customers}
           onEditCustomer={onEditCustomer}
           onDeleteCustomer={handleDeleteCustomer}
           refreshing={refreshing}
           onRefresh={refreshCustomers}
-          showFetchButton={!loading && customers.length === 0}
+          showFetchButton={hasNoCustomers}
           onFetchCustomers={loadCustomers}
+          onEndReached={() => loadMoreCustomers(role)}
+          loadingMore={window.loadingMore}
+          protectedIds={protectedAdminIds}
+          minimumAdmins={minimumAdmins}
+          pendingRoles={pendingRoles}
+          grantExpiries={grantExpiries}
         />
       </View>
     );
@@ -129,21 +275,94 @@ export const CustomerScreen: React.FC<CustomerScreenProps> = ({
       <View style={styles.content}>
         <View style={styles.header}>
           <View>
-            <Text style={styles.title}>Manage roles and team access</Text>
+            {/* Long press opens the hidden developer settings */}
+            <Text style={styles.title} onLongPress={onOpenSettings}>
+              Manage roles and team access
+            </Text>
+          </View>
+          <View style={styles.headerActions}>
+            {onOpenTrash && (
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={onOpenTrash}
+                accessibilityLabel="Open trash"
+              >
+                <Feather name="trash-2" size={20} color="#1B6FF9" />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => setSortOrder(sortOrder === 'name-asc' ? 'name-desc' : 'name-asc')}
+              accessibilityLabel={sortOrder === 'name-asc' ? 'Sort Z to A' : 'Sort A to Z'}
+            >
+              <Feather
+                name={sortOrder === 'name-asc' ? 'arrow-down' : 'arrow-up'}
+                size={20}
+                color="#1B6FF9"
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={toggleSearch}
+              accessibilityLabel={isSearchVisible ? 'Close search' : 'Open search'}
+            >
+              <Feather
+                name={isSearchVisible ? 'x' : 'search'}
+                size={20}
+                color="#1B6FF9"
+              />
+            </TouchableOpacity>
           </View>
-          <TouchableOpacity
-            style={styles.iconButton}
-            onPress={toggleSearch}
-            accessibilityLabel={isSearchVisible ? 'Close search' : 'Open search'}
-          >
-            <Feather
-              name={isSearchVisible ? 'x' : 'search'}
-              size={20}
-              color="#1B6FF9"
-            />
-          </TouchableOpacity>
         </View>
 
+        {deadLetters.length > 0 && (
+          <SyncIssueBanner
+            message={
+              deadLetters.length === 1
+                ? '1 change could not be synced'
+                : `${deadLetters.length} changes could not be synced`
+            }
+            onPress={handleReviewDeadLetters}
+            accessibilityLabel="Review changes that failed to sync"
+          />
+        )}
+
+        {syncConflicts.length > 0 && (
+          <SyncIssueBanner
+            message={
+              syncConflicts.length === 1
+                ? '1 customer has a sync conflict'
+                : `${syncConflicts.length} customers have sync conflicts`
+            }
+            onPress={handleReviewConflict}
+            accessibilityLabel="Review sync conflicts"
+          />
+        )}
+
+        {quarantinedCustomers.length > 0 && onOpenReview && (
+          <SyncIssueBanner
+            message={
+              quarantinedCustomers.length === 1
+                ? '1 record needs review'
+                : `${quarantinedCustomers.length} records need review`
+            }
+            onPress={onOpenReview}
+            accessibilityLabel="Review records the server sent incomplete"
+          />
+        )}
+
+        {roleRequests.length > 0 && onOpenRoleRequests && (
+          <SyncIssueBanner
+            message={
+              roleRequests.length === 1
+                ? '1 promotion awaits approval'
+                : `${roleRequests.length} promotions await approval`
+            }
+            onPress={onOpenRoleRequests}
+            accessibilityLabel="Review promotions awaiting approval"
+          />
+        )}
+
         {isSearchVisible && (
           <SearchBar
             searchTerm={searchTerm}
@@ -153,15 +372,21 @@ export const CustomerScreen: React.FC<CustomerScreenProps> = ({
           />
         )}
 
-        <TabSelector selectedRole={selectedRole} onRoleChange={handleRoleChange} />
+        <TabSelector
+          tabs={tabs}
+          selectedRole={selectedRole}
+          onRoleChange={handleRoleChange}
+        />
 
+        {/* Remounted when the catalog changes, so the pages match the tabs */}
         <PagerView
+          key={roleTabs.join('|')}
           ref={pagerRef}
           style={styles.pagerView}
-          initialPage={0}
+          initialPage={Math.max(roleTabs.indexOf(selectedRole), 0)}
           onPageSelected={handlePageSelected}
         >
-          {roles.map(role => renderCustomerPage(role))}
+          {roleTabs.map(role => renderCustomerPage(role))}
         </PagerView>
       </View>
 
@@ -172,6 +397,13 @@ export const CustomerScreen: React.FC<CustomerScreenProps> = ({
       >
         <Feather name="plus" size={28} color="#FFFFFF" />
       </TouchableOpacity>
+
+      {latestDeletion && (
+        <UndoSnackbar
+          message={`Deleted ${latestDeletion.customer.name}`}
+          onUndo={() => undoDelete(latestDeletion.customer.id)}
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -194,6 +426,10 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#EEF1F7',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   title: {
     fontSize: 20,
     fontWeight: '500',
@@ -0,0 +1,329 @@
+import React, {useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+} from 'react-native';
+import Feather from 'react-native-vector-icons/Feather';
+import {useCustomerStore} from '../store/customerStore';
+import {FormData, QuarantinedCustomer, QuarantineReason, ValidationError} from '../types';
+import {ValidationUtils} from '../utils/validation';
+import {getDefaultRole, resolveRole} from '../utils/roles';
+import {AppError} from '../errors/AppError';
+import {showErrorAlert} from '../errors/showErrorAlert';
+
+interface QuarantineScreenProps {
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<QuarantineReason, string> = {
+  'missing-name': 'No name',
+  'missing-email': 'No email',
+  'missing-role': 'No role',
+  'unknown-role': 'Unknown role',
+};
+
+// A raw server value as it arrived, so nothing is hidden by the display
+const describeRawValue = (value: unknown) =>
+  typeof value === 'string' && value.trim().length > 0 ? value : JSON.stringify(value ?? null);
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+interface QuarantineItemProps {
+  entry: QuarantinedCustomer;
+}
+
+// One held-back record, with a form to correct it in place
+const QuarantineItem: React.FC<QuarantineItemProps> = ({entry}) => {
+  const {roles, fixQuarantinedCustomer} = useCustomerStore();
+  const {raw} = entry;
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState<FormData>({
+    name: asText(raw.name),
+    email: asText(raw.email),
+    // The server's role is only taken when it names a catalog role exactly
+    role: resolveRole(raw.role, roles) ?? getDefaultRole(roles) ?? '',
+  });
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleInputChange = (field: keyof FormData, value: string) => {
+    setFormData(prev => ({...prev, [field]: value}));
+    setErrors([]);
+  };
+
+  const handleSave = async () => {
+    const validationErrors = ValidationUtils.validateForm(formData, roles);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await fixQuarantinedCustomer({id: entry.customerId, ...formData});
+    } catch (error) {
+      showErrorAlert(error as AppError, `save ${formData.name}`, {onRetry: handleSave});
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const getErrorForField = (field: string): string | undefined =>
+    errors.find(e => e.field === field)?.message;
+
+  return (
+    <View style={styles.item}>
+      <View style={styles.itemRow}>
+        <View style={styles.itemText}>
+          <Text style={styles.itemName} numberOfLines={1}>
+            {describeRawValue(raw.name)}
+          </Text>
+          <Text style={styles.itemDetail} numberOfLines={1}>
+            {describeRawValue(raw.email)} · {describeRawValue(raw.role)}
+          </Text>
+          <Text style={styles.itemReasons}>
+            {entry.reasons.map(reason => REASON_LABELS[reason]).join(' · ')}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => setIsEditing(!isEditing)}
+          accessibilityLabel={`Fix the record ${entry.customerId}`}
+        >
+          <Feather name={isEditing ? 'chevron-up' : 'edit-2'} size={18} color="#1B6FF9" />
+        </TouchableOpacity>
+      </View>
+
+      {isEditing && (
+        <View style={styles.form}>
+          <TextInput
+            style={[styles.textField, getErrorForField('name') && styles.textFieldError]}
+            value={formData.name}
+            onChangeText={value => handleInputChange('name', value)}
+            placeholder="Name"
+            placeholderTextColor="#B4BCCB"
+          />
+          {getErrorForField('name') && (
+            <Text style={styles.errorText}>{getErrorForField('name')}</Text>
+          )}
+
+          <TextInput
+            style={[styles.textField, getErrorForField('email') && styles.textFieldError]}
+            value={formData.email}
+            onChangeText={value => handleInputChange('email', value)}
+            placeholder="Email"
+            placeholderTextColor="#B4BCCB"
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {getErrorForField('email') && (
+            <Text style={styles.errorText}>{getErrorForField('email')}</Text>
+          )}
+
+          <View style={styles.roleSegment}>
+            {roles.map(roleOption => {
+              const isActive = formData.role === roleOption.name;
+              return (
+                <TouchableOpacity
+                  key={roleOption.name}
+                  style={[styles.segmentButton, isActive && styles.segmentButtonActive]}
+                  onPress={() => handleInputChange('role', roleOption.name)}
+                >
+                  <Text style={[styles.segmentText, isActive && styles.segmentTextActive]}>
+                    {roleOption.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {getErrorForField('role') && (
+            <Text style={styles.errorText}>{getErrorForField('role')}</Text>
+          )}
+
+          <TouchableOpacity
+            style={[styles.saveButton, isSubmitting && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={isSubmitting}
+          >
+            <Text style={styles.saveButtonText}>{isSubmitting ? 'Saving...' : 'Save'}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+// Server records that failed validation. They stay off the list, and any
+// local copy stays as it was, until they are fixed here or the server sends
+// a valid version.
+export const QuarantineScreen: React.FC<QuarantineScreenProps> = ({onClose}) => {
+  const {quarantinedCustomers, loadQuarantinedCustomers} = useCustomerStore();
+
+  useEffect(() => {
+    loadQuarantinedCustomers();
+  }, [loadQuarantinedCustomers]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.iconButton} onPress={onClose} accessibilityLabel="Close review">
+          <Feather name="x" size={20} color="#1B1F3B" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Needs Review</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <Text style={styles.note}>
+        These records arrived from the server incomplete or with a role this app does not
+        know. Fix them to add them to the list.
+      </Text>
+
+      <FlatList
+        data={quarantinedCustomers}
+        keyExtractor={item => item.customerId}
+        renderItem={({item}) => <QuarantineItem entry={item} />}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={<Text style={styles.emptyText}>Nothing needs review</Text>}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 12,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerSpacer: {
+    width: 36,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  note: {
+    paddingHorizontal: 24,
+    paddingBottom: 8,
+    fontSize: 13,
+    color: '#6B778C',
+  },
+  list: {
+    paddingHorizontal: 24,
+    paddingBottom: 32,
+  },
+  item: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#EEF1F7',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  itemText: {
+    flex: 1,
+    gap: 2,
+  },
+  itemName: {
+    fontSize: 16,
+    color: '#0F172A',
+    fontWeight: '500',
+  },
+  itemDetail: {
+    fontSize: 13,
+    color: '#6B778C',
+  },
+  itemReasons: {
+    fontSize: 13,
+    color: '#B45309',
+  },
+  form: {
+    paddingTop: 12,
+    gap: 12,
+  },
+  textField: {
+    fontSize: 16,
+    color: '#0F172A',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  textFieldError: {
+    borderBottomColor: '#F97066',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#F97066',
+  },
+  roleSegment: {
+    flexDirection: 'row',
+    backgroundColor: '#F5F7FB',
+    borderRadius: 999,
+    padding: 4,
+    gap: 8,
+  },
+  segmentButton: {
+    flex: 1,
+    borderRadius: 999,
+    paddingVertical: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  segmentButtonActive: {
+    backgroundColor: '#E6F1FF',
+    borderWidth: 1,
+    borderColor: '#1B6FF9',
+  },
+  segmentText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  segmentTextActive: {
+    color: '#1B6FF9',
+  },
+  saveButton: {
+    backgroundColor: '#0071E3',
+    paddingVertical: 14,
+    borderRadius: 999,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  emptyText: {
+    paddingTop: 48,
+    textAlign: 'center',
+    fontSize: 15,
+    color: '#6B778C',
+  },
+});
@@ -0,0 +1,267 @@
+import React, {useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  ScrollView,
+} from 'react-native';
+import Feather from 'react-native-vector-icons/Feather';
+import {useCustomerStore} from '../store/customerStore';
+import {RoleRequest} from '../types';
+import {getRoleLabel} from '../utils/roles';
+import {AppError} from '../errors/AppError';
+import {showErrorAlert} from '../errors/showErrorAlert';
+
+interface RoleRequestsScreenProps {
+  onClose: () => void;
+}
+
+interface RoleRequestItemProps {
+  request: RoleRequest;
+}
+
+// One pending promotion, with what the acting Admin can do about it
+const RoleRequestItem: React.FC<RoleRequestItemProps> = ({request}) => {
+  const {roles, admins, actingAdminId, approveRoleRequest, rejectRoleRequest} =
+    useCustomerStore();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const requester = admins.find(admin => admin.id === request.requestedBy);
+  // Neither the Admin who asked nor the customer being moved can decide
+  const isOwnRequest =
+    actingAdminId !== null &&
+    (actingAdminId === request.requestedBy || actingAdminId === request.customerId);
+  const canDecide = actingAdminId !== null && !isOwnRequest && !isSubmitting;
+
+  const decide = async (approve: boolean) => {
+    setIsSubmitting(true);
+    try {
+      await (approve ? approveRoleRequest(request.id) : rejectRoleRequest(request.id));
+    } catch (error) {
+      showErrorAlert(
+        error as AppError,
+        `${approve ? 'approve' : 'reject'} the request for ${request.customerName}`,
+        {onRetry: () => decide(approve)},
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <View style={styles.item}>
+      <View style={styles.itemText}>
+        <Text style={styles.itemName} numberOfLines={1}>
+          {request.customerName}
+        </Text>
+        <Text style={styles.itemDetail}>
+          {getRoleLabel(roles, request.fromRole)} → {getRoleLabel(roles, request.toRole)}
+          {requester ? ` · asked by ${requester.name}` : ''}
+        </Text>
+        {isOwnRequest && (
+          <Text style={styles.itemNote}>Another Admin has to decide this one</Text>
+        )}
+      </View>
+      <TouchableOpacity
+        style={[styles.decisionButton, !canDecide && styles.decisionButtonDisabled]}
+        onPress={() => decide(false)}
+        disabled={!canDecide}
+        accessibilityLabel={`Reject the request for ${request.customerName}`}
+      >
+        <Feather name="x" size={18} color={canDecide ? '#F97066' : '#B4BCCB'} />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.decisionButton, !canDecide && styles.decisionButtonDisabled]}
+        onPress={() => decide(true)}
+        disabled={!canDecide}
+        accessibilityLabel={`Approve the request for ${request.customerName}`}
+      >
+        <Feather name="check" size={18} color={canDecide ? '#12B76A' : '#B4BCCB'} />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+// Promotions to an admin role waiting for an Admin's approval. The app has
+// no sign-in, so whoever decides says which Admin they are first.
+export const RoleRequestsScreen: React.FC<RoleRequestsScreenProps> = ({onClose}) => {
+  const {roleRequests, admins, actingAdminId, loadRoleRequests, setActingAdmin} =
+    useCustomerStore();
+
+  useEffect(() => {
+    loadRoleRequests();
+  }, [loadRoleRequests]);
+
+  const handleChooseAdmin = async (id: string) => {
+    try {
+      await setActingAdmin(id === actingAdminId ? null : id);
+    } catch (error) {
+      showErrorAlert(error as AppError, 'choose who you are');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={onClose}
+          accessibilityLabel="Close promotions"
+        >
+          <Feather name="x" size={20} color="#1B1F3B" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Promotions</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <Text style={styles.sectionLabel}>Reviewing as</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.adminChips}
+      >
+        {admins.map(admin => {
+          const isActive = admin.id === actingAdminId;
+          return (
+            <TouchableOpacity
+              key={admin.id}
+              style={[styles.adminChip, isActive && styles.adminChipActive]}
+              onPress={() => handleChooseAdmin(admin.id)}
+            >
+              <Text style={[styles.adminChipText, isActive && styles.adminChipTextActive]}>
+                {admin.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+      {actingAdminId === null && (
+        <Text style={styles.note}>Choose which Admin you are to approve or reject.</Text>
+      )}
+
+      <FlatList
+        data={roleRequests}
+        keyExtractor={item => String(item.id)}
+        renderItem={({item}) => <RoleRequestItem request={item} />}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={<Text style={styles.emptyText}>No promotions awaiting approval</Text>}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 12,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerSpacer: {
+    width: 36,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  sectionLabel: {
+    paddingHorizontal: 24,
+    paddingBottom: 8,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B778C',
+  },
+  adminChips: {
+    paddingHorizontal: 24,
+    gap: 8,
+  },
+  adminChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    backgroundColor: '#F5F7FB',
+  },
+  adminChipActive: {
+    backgroundColor: '#E6F1FF',
+    borderWidth: 1,
+    borderColor: '#1B6FF9',
+  },
+  adminChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  adminChipTextActive: {
+    color: '#1B6FF9',
+  },
+  note: {
+    paddingHorizontal: 24,
+    paddingTop: 8,
+    fontSize: 13,
+    color: '#6B778C',
+  },
+  list: {
+    paddingHorizontal: 24,
+    paddingTop: 8,
+    paddingBottom: 32,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#EEF1F7',
+  },
+  itemText: {
+    flex: 1,
+    gap: 2,
+  },
+  itemName: {
+    fontSize: 16,
+    color: '#0F172A',
+    fontWeight: '500',
+  },
+  itemDetail: {
+    fontSize: 13,
+    color: '#6B778C',
+  },
+  itemNote: {
+    fontSize: 13,
+    color: '#B45309',
+  },
+  decisionButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F5F7FB',
+  },
+  decisionButtonDisabled: {
+    opacity: 0.6,
+  },
+  emptyText: {
+    paddingTop: 48,
+    textAlign: 'center',
+    fontSize: 15,
+    color: '#6B778C',
+  },
+});
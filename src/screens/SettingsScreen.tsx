@@ -0,0 +1,193 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  Share,
+} from 'react-native';
+import Feather from 'react-native-vector-icons/Feather';
+import {EnvironmentName} from '../config/environment';
+import {EnvironmentService} from '../services/EnvironmentService';
+import {BackupService} from '../services/BackupService';
+import {toAppError} from '../errors/AppError';
+import {showErrorAlert} from '../errors/showErrorAlert';
+
+interface SettingsScreenProps {
+  activeEnvironment: EnvironmentName;
+  onSelectEnvironment: (name: EnvironmentName) => void;
+  onClose: () => void;
+}
+
+// Hidden developer settings, opened by long-pressing the main screen title.
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({
+  activeEnvironment,
+  onSelectEnvironment,
+  onClose,
+}) => {
+  const options = EnvironmentService.getOptions();
+
+  const handleSelect = (name: EnvironmentName, label: string) => {
+    if (name === activeEnvironment) {
+      return;
+    }
+
+    Alert.alert(
+      `Switch to ${label}?`,
+      'Each environment keeps its own local data. Unsynced changes stay with the environment they were made in.',
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {text: 'Switch', onPress: () => onSelectEnvironment(name)},
+      ],
+    );
+  };
+
+  // Lets support recover offline work before asking for a reinstall
+  const handleExportBackup = async () => {
+    try {
+      const backup = await BackupService.exportToJson();
+      await Share.share({title: 'Customer backup', message: backup});
+    } catch (error) {
+      showErrorAlert(toAppError(error), 'export a backup', {onRetry: handleExportBackup});
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.iconButton} onPress={onClose} accessibilityLabel="Close settings">
+            <Feather name="x" size={20} color="#1B1F3B" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Settings</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Environment</Text>
+          {options.map(({config, problems}) => {
+            const isActive = config.name === activeEnvironment;
+            const isUsable = problems.length === 0;
+
+            return (
+              <TouchableOpacity
+                key={config.name}
+                style={[styles.option, isActive && styles.optionActive]}
+                onPress={() => handleSelect(config.name, config.label)}
+                disabled={!isUsable}
+                accessibilityRole="radio"
+                accessibilityState={{checked: isActive, disabled: !isUsable}}
+              >
+                <View style={styles.optionText}>
+                  <Text style={[styles.optionLabel, !isUsable && styles.optionLabelDisabled]}>
+                    {config.label}
+                  </Text>
+                  <Text style={styles.optionDetail} numberOfLines={1}>
+                    {isUsable ? config.graphqlEndpoint : problems.join('; ')}
+                  </Text>
+                </View>
+                {isActive && <Feather name="check" size={20} color="#1B6FF9" />}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Data</Text>
+          <TouchableOpacity
+            style={styles.option}
+            onPress={handleExportBackup}
+            accessibilityRole="button"
+          >
+            <View style={styles.optionText}>
+              <Text style={styles.optionLabel}>Export backup</Text>
+              <Text style={styles.optionDetail}>
+                Every customer on this device, with changes not yet synced
+              </Text>
+            </View>
+            <Feather name="share" size={20} color="#1B6FF9" />
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 12,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerSpacer: {
+    width: 36,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  section: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    gap: 12,
+  },
+  sectionLabel: {
+    fontSize: 15,
+    color: '#2F3A4C',
+    fontWeight: '500',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  optionActive: {
+    borderColor: '#1B6FF9',
+    backgroundColor: '#EEF3FF',
+  },
+  optionText: {
+    flex: 1,
+    gap: 2,
+  },
+  optionLabel: {
+    fontSize: 16,
+    color: '#0F172A',
+    fontWeight: '500',
+  },
+  optionLabelDisabled: {
+    color: '#94A3B8',
+  },
+  optionDetail: {
+    fontSize: 13,
+    color: '#6B778C',
+  },
+});
@@ -0,0 +1,194 @@
+import React, {useEffect} from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  FlatList,
+  Alert,
+} from 'react-native';
+import Feather from 'react-native-vector-icons/Feather';
+import {useCustomerStore} from '../store/customerStore';
+import {DeletedCustomer} from '../types';
+import {AppError} from '../errors/AppError';
+import {showErrorAlert} from '../errors/showErrorAlert';
+
+interface TrashScreenProps {
+  // Days before deleted customers are purged automatically
+  retentionDays: number;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const describeDeletedAt = (deletedAt: number) => {
+  const days = Math.floor((Date.now() - deletedAt) / DAY_MS);
+  if (days <= 0) {
+    return 'Deleted today';
+  }
+  return days === 1 ? 'Deleted yesterday' : `Deleted ${days} days ago`;
+};
+
+// Customers deleted from the list, kept until restored, purged here, or
+// purged automatically once older than the retention period.
+export const TrashScreen: React.FC<TrashScreenProps> = ({retentionDays, onClose}) => {
+  const {deletedCustomers, loadDeletedCustomers, restoreCustomer, purgeCustomer} =
+    useCustomerStore();
+
+  useEffect(() => {
+    loadDeletedCustomers().catch((error: AppError) =>
+      showErrorAlert(error, 'load the trash', {onRetry: loadDeletedCustomers}),
+    );
+  }, [loadDeletedCustomers]);
+
+  const handleRestore = async (customer: DeletedCustomer) => {
+    try {
+      await restoreCustomer(customer.id);
+    } catch (error) {
+      showErrorAlert(error as AppError, `restore ${customer.name}`, {
+        onRetry: () => handleRestore(customer),
+      });
+    }
+  };
+
+  const handlePurge = (customer: DeletedCustomer) => {
+    Alert.alert(
+      'Delete Forever',
+      `${customer.name} will be removed from this device and cannot be restored.`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await purgeCustomer(customer.id);
+            } catch (error) {
+              showErrorAlert(error as AppError, `delete ${customer.name}`);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const renderItem = ({item}: {item: DeletedCustomer}) => (
+    <View style={styles.item}>
+      <View style={styles.itemText}>
+        <Text style={styles.itemName} numberOfLines={1}>
+          {item.name}
+        </Text>
+        <Text style={styles.itemDetail} numberOfLines={1}>
+          {item.email} · {describeDeletedAt(item.deletedAt)}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={() => handleRestore(item)}
+        accessibilityLabel={`Restore ${item.name}`}
+      >
+        <Feather name="rotate-ccw" size={18} color="#1B6FF9" />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={() => handlePurge(item)}
+        accessibilityLabel={`Delete ${item.name} forever`}
+      >
+        <Feather name="trash-2" size={18} color="#D14343" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.iconButton} onPress={onClose} accessibilityLabel="Close trash">
+          <Feather name="x" size={20} color="#1B1F3B" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Trash</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <Text style={styles.note}>
+        Deleted customers are removed for good after {retentionDays}{' '}
+        {retentionDays === 1 ? 'day' : 'days'}.
+      </Text>
+
+      <FlatList
+        data={deletedCustomers}
+        keyExtractor={item => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={<Text style={styles.emptyText}>The trash is empty</Text>}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 12,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerSpacer: {
+    width: 36,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  note: {
+    paddingHorizontal: 24,
+    paddingBottom: 8,
+    fontSize: 13,
+    color: '#6B778C',
+  },
+  list: {
+    paddingHorizontal: 24,
+    paddingBottom: 32,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#EEF1F7',
+  },
+  itemText: {
+    flex: 1,
+    gap: 2,
+  },
+  itemName: {
+    fontSize: 16,
+    color: '#0F172A',
+    fontWeight: '500',
+  },
+  itemDetail: {
+    fontSize: 13,
+    color: '#6B778C',
+  },
+  emptyText: {
+    paddingTop: 48,
+    textAlign: 'center',
+    fontSize: 15,
+    color: '#6B778C',
+  },
+});
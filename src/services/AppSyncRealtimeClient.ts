@@ -0,0 +1,407 @@
+import {AuthHeaders, AuthProvider} from '../auth/AuthProvider';
+import {getRetryDelay} from '../utils/backoff';
+
+// The subset of the WebSocket API the client relies on, so tests and the
+// offline stand-in can provide their own implementation.
+export interface RealtimeSocket {
+  readyState: number;
+  onopen: (() => void) | null;
+  onmessage: ((event: {data: string}) => void) | null;
+  onclose: (() => void) | null;
+  onerror: ((error: any) => void) | null;
+  send: (data: string) => void;
+  close: () => void;
+}
+
+export type RealtimeSocketFactory = new (
+  url: string,
+  protocol: string,
+) => RealtimeSocket;
+
+// React Native and browsers provide WebSocket as a global
+type WebSocketGlobal = typeof globalThis & {WebSocket?: RealtimeSocketFactory};
+
+export interface RealtimeClientOptions {
+  graphqlEndpoint: string;
+  auth: AuthProvider;
+  WebSocketImpl?: RealtimeSocketFactory;
+  // Called after the connection comes back, since events sent while it was
+  // down are not replayed by AppSync
+  onReconnect?: () => void;
+}
+
+export interface SubscriptionHandlers {
+  next: (data: any) => void;
+  error?: (error: any) => void;
+}
+
+interface ActiveSubscription {
+  query: string;
+  variables: Record<string, any>;
+  handlers: SubscriptionHandlers;
+  // Starts refused in a row; reset once the server acknowledges one
+  failedStarts: number;
+  restartTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const SOCKET_OPEN = 1;
+const DEFAULT_CONNECTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Header values are ASCII (host names and keys), so each character is one
+// byte. Written out by hand because btoa is not available everywhere RN runs.
+const encodeBase64 = (input: string): string => {
+  let output = '';
+  for (let i = 0; i < input.length; i += 3) {
+    const a = input.charCodeAt(i);
+    const b = input.charCodeAt(i + 1);
+    const c = input.charCodeAt(i + 2);
+    output += BASE64_ALPHABET[Math.floor(a / 4)];
+    output += BASE64_ALPHABET[(a % 4) * 16 + (isNaN(b) ? 0 : Math.floor(b / 16))];
+    output += isNaN(b)
+      ? '='
+      : BASE64_ALPHABET[(b % 16) * 4 + (isNaN(c) ? 0 : Math.floor(c / 64))];
+    output += isNaN(c) ? '=' : BASE64_ALPHABET[c % 64];
+  }
+  return output;
+};
+
+const isUnauthorized = (payload: any): boolean =>
+  (payload?.errors ?? []).some(
+    (error: any) =>
+      error?.errorType === 'UnauthorizedException' || error?.errorCode === 401,
+  );
+
+// https://xxx.appsync-api.<region>.amazonaws.com/graphql becomes
+// wss://xxx.appsync-realtime-api.<region>.amazonaws.com/graphql
+export const getRealtimeUrl = (graphqlEndpoint: string): string =>
+  graphqlEndpoint
+    .replace(/^https:\/\//, 'wss://')
+    .replace('appsync-api', 'appsync-realtime-api');
+
+// Client for AppSync's realtime protocol: a graphql-ws socket that is opened
+// with a connection_init/connection_ack handshake, kept alive by "ka"
+// messages, and carries subscriptions as start/stop messages. The socket is
+// opened on the first subscription, closed after the last one, and reopened
+// with backoff if it drops while subscriptions are active. A subscription
+// whose start is refused is started again with the same backoff.
+export class AppSyncRealtimeClient {
+  private socket: RealtimeSocket | null = null;
+  private connected = false;
+  private subscriptions = new Map<string, ActiveSubscription>();
+  private nextSubscriptionId = 1;
+  private reconnectAttempts = 0;
+  private hasConnected = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private keepAliveTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectionTimeoutMs = DEFAULT_CONNECTION_TIMEOUT_MS;
+  // Bumped on every connect and disconnect, so a handshake whose
+  // authorization resolves late can tell it has been superseded
+  private connectGeneration = 0;
+  private connecting = false;
+  private handshakeAuthorization: AuthHeaders = {};
+
+  constructor(private readonly options: RealtimeClientOptions) {}
+
+  public subscribe(
+    query: string,
+    variables: Record<string, any>,
+    handlers: SubscriptionHandlers,
+  ): () => void {
+    const id = String(this.nextSubscriptionId++);
+    this.subscriptions.set(id, {
+      query,
+      variables,
+      handlers,
+      failedStarts: 0,
+      restartTimer: null,
+    });
+
+    if (this.connected) {
+      this.startSubscription(id);
+    } else if (!this.socket && !this.reconnectTimer && !this.connecting) {
+      this.connect();
+    }
+
+    return () => this.unsubscribe(id);
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  public close(): void {
+    this.subscriptions.forEach(subscription => this.clearRestart(subscription));
+    this.subscriptions.clear();
+    this.disconnect();
+    this.reconnectAttempts = 0;
+    this.hasConnected = false;
+  }
+
+  private unsubscribe(id: string): void {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) {
+      return;
+    }
+    this.clearRestart(subscription);
+    this.subscriptions.delete(id);
+
+    if (this.connected) {
+      this.send({type: 'stop', id});
+    }
+    if (this.subscriptions.size === 0) {
+      this.close();
+    }
+  }
+
+  private get host(): string {
+    return this.options.graphqlEndpoint
+      .replace(/^https?:\/\//, '')
+      .replace(/\/.*$/, '');
+  }
+
+  // AppSync authorises the handshake as a POST of "{}" to <endpoint>/connect
+  // and each start message as a POST of its data to the endpoint itself.
+  private async authorize(path: string, body: string): Promise<AuthHeaders> {
+    const headers = await this.options.auth.getAuthHeaders({
+      method: 'POST',
+      url: this.options.graphqlEndpoint + path,
+      headers: {},
+      body,
+    });
+    return {host: this.host, ...headers};
+  }
+
+  private connect(): void {
+    const generation = ++this.connectGeneration;
+    this.connecting = true;
+
+    this.authorize('/connect', '{}').then(
+      authorization => {
+        if (generation === this.connectGeneration) {
+          this.connecting = false;
+          this.openSocket(authorization);
+        }
+      },
+      error => {
+        if (generation === this.connectGeneration) {
+          this.connecting = false;
+          console.error('Realtime authorization failed:', error);
+          this.handleDisconnect();
+        }
+      },
+    );
+  }
+
+  private openSocket(authorization: AuthHeaders): void {
+    const WebSocketImpl =
+      this.options.WebSocketImpl ?? (globalThis as WebSocketGlobal).WebSocket;
+    if (!WebSocketImpl) {
+      console.error('Realtime updates need a WebSocket implementation');
+      return;
+    }
+    const header = encodeBase64(JSON.stringify(authorization));
+    this.handshakeAuthorization = authorization;
+    const url = `${getRealtimeUrl(this.options.graphqlEndpoint)}?header=${header}&payload=e30=`;
+
+    const socket = new WebSocketImpl(url, 'graphql-ws');
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.send({type: 'connection_init'});
+    };
+    socket.onmessage = event => {
+      if (this.socket === socket) {
+        this.handleMessage(event.data);
+      }
+    };
+    socket.onerror = error => {
+      console.error('Realtime connection error:', error);
+    };
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.handleDisconnect();
+      }
+    };
+  }
+
+  private handleMessage(raw: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      console.warn('Ignoring malformed realtime message:', raw);
+      return;
+    }
+
+    switch (message.type) {
+      case 'connection_ack': {
+        const isReconnect = this.hasConnected;
+        this.connected = true;
+        this.hasConnected = true;
+        this.reconnectAttempts = 0;
+        this.connectionTimeoutMs =
+          message.payload?.connectionTimeoutMs ?? DEFAULT_CONNECTION_TIMEOUT_MS;
+        this.resetKeepAlive();
+        this.subscriptions.forEach((_subscription, id) =>
+          this.startSubscription(id),
+        );
+        if (isReconnect) {
+          this.options.onReconnect?.();
+        }
+        return;
+      }
+      case 'ka':
+        this.resetKeepAlive();
+        return;
+      case 'data':
+        this.subscriptions.get(message.id)?.handlers.next(message.payload?.data);
+        return;
+      case 'start_ack': {
+        const subscription = this.subscriptions.get(message.id);
+        if (subscription) {
+          subscription.failedStarts = 0;
+        }
+        return;
+      }
+      case 'error': {
+        console.error('Realtime error:', message.payload);
+        const errors = message.payload?.errors ?? [];
+        this.handleFailedStart(
+          message.id,
+          new Error(errors[0]?.message ?? 'The server refused the subscription'),
+        );
+        return;
+      }
+      case 'connection_error':
+        console.error('Realtime connection rejected:', message.payload);
+        if (isUnauthorized(message.payload)) {
+          // The reconnect below waits for the renewed credentials
+          this.options.auth
+            .handleUnauthorized?.(this.handshakeAuthorization)
+            .catch(error => console.error('Realtime credential refresh failed:', error));
+        }
+        this.handleDisconnect();
+        return;
+      default:
+        // complete needs no handling
+        return;
+    }
+  }
+
+  private startSubscription(id: string): void {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) {
+      return;
+    }
+
+    const data = JSON.stringify({
+      query: subscription.query,
+      variables: subscription.variables,
+    });
+    const socket = this.socket;
+
+    this.authorize('', data).then(
+      authorization => {
+        if (this.socket === socket && this.subscriptions.has(id)) {
+          this.send({id, type: 'start', payload: {data, extensions: {authorization}}});
+        }
+      },
+      error => {
+        console.error('Realtime authorization failed:', error);
+        if (this.socket === socket) {
+          this.handleFailedStart(id, error);
+        }
+      },
+    );
+  }
+
+  // AppSync does not retry a refused start, so it is sent again with
+  // backoff. Only the first failure in a row is reported, so subscribers are
+  // not told the same thing on every attempt.
+  private handleFailedStart(id: string, error: any): void {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) {
+      return;
+    }
+
+    subscription.failedStarts++;
+    if (subscription.failedStarts === 1) {
+      subscription.handlers.error?.(error);
+    }
+    this.clearRestart(subscription);
+    subscription.restartTimer = setTimeout(() => {
+      subscription.restartTimer = null;
+      if (this.connected) {
+        this.startSubscription(id);
+      }
+    }, getRetryDelay(subscription.failedStarts));
+  }
+
+  private clearRestart(subscription: ActiveSubscription): void {
+    if (subscription.restartTimer) {
+      clearTimeout(subscription.restartTimer);
+      subscription.restartTimer = null;
+    }
+  }
+
+  // AppSync sends "ka" well within connectionTimeoutMs; silence for longer
+  // than that means the connection is dead even if the socket is still open.
+  private resetKeepAlive(): void {
+    if (this.keepAliveTimer) {
+      clearTimeout(this.keepAliveTimer);
+    }
+    this.keepAliveTimer = setTimeout(() => {
+      console.warn('Realtime keep-alive timed out, reconnecting');
+      this.handleDisconnect();
+    }, this.connectionTimeoutMs);
+  }
+
+  private handleDisconnect(): void {
+    this.disconnect();
+
+    if (this.subscriptions.size === 0) {
+      return;
+    }
+
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, getRetryDelay(this.reconnectAttempts));
+  }
+
+  private disconnect(): void {
+    this.connectGeneration++;
+    this.connecting = false;
+    if (this.keepAliveTimer) {
+      clearTimeout(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    // Every subscription is started again once the connection is back
+    this.subscriptions.forEach(subscription => this.clearRestart(subscription));
+
+    const socket = this.socket;
+    this.socket = null;
+    this.connected = false;
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onclose = null;
+      socket.onerror = null;
+      socket.close();
+    }
+  }
+
+  private send(message: Record<string, any>): void {
+    if (this.socket?.readyState === SOCKET_OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
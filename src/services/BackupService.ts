@@ -0,0 +1,189 @@
+import {DatabaseService} from '../database/DatabaseService';
+import {LATEST_SCHEMA_VERSION} from '../database/migrations';
+import {InputValidationError} from '../errors/AppError';
+import {
+  BackupImportMode,
+  BackupImportReport,
+  BackupSnapshot,
+  DatabaseBackup,
+} from '../types';
+
+// Bump when the snapshot layout changes, and keep reading the old ones
+export const BACKUP_FORMAT_VERSION = 1;
+
+const NEWER_APP_MESSAGE =
+  'This backup was made by a newer version of the app. Update the app to restore it.';
+
+const OUTBOX_OPERATIONS = ['create', 'update', 'delete'];
+const OUTBOX_STATUSES = ['pending', 'dead'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTimestamp = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+const isOptionalTimestamp = (value: unknown) =>
+  value === null || value === undefined || isTimestamp(value);
+
+// Reports each entry of a list that fails `check`, e.g. "outbox[2] has an
+// unknown status"
+const checkEach = (
+  problems: string[],
+  snapshot: Record<string, any>,
+  field: keyof DatabaseBackup,
+  check: (entry: Record<string, any>) => string | null,
+) => {
+  const entries = snapshot[field];
+  if (!Array.isArray(entries)) {
+    problems.push(`${field} must be a list`);
+    return;
+  }
+  entries.forEach((entry, index) => {
+    const problem = isObject(entry) ? check(entry) : 'must be an object';
+    if (problem) {
+      problems.push(`${field}[${index}] ${problem}`);
+    }
+  });
+};
+
+// Customers missing a name, email or role are not problems here: the import
+// skips and reports them, as insertCustomers does.
+const findProblems = (snapshot: Record<string, any>): string[] => {
+  const problems: string[] = [];
+
+  checkEach(problems, snapshot, 'customers', customer => {
+    if (!isOptionalTimestamp(customer.deletedAt)) {
+      return 'deletedAt must be a timestamp';
+    }
+    if (!isOptionalTimestamp(customer.localUpdatedAt)) {
+      return 'localUpdatedAt must be a timestamp';
+    }
+    return null;
+  });
+
+  checkEach(problems, snapshot, 'outbox', entry => {
+    if (!OUTBOX_OPERATIONS.includes(entry.operation)) {
+      return 'has an unknown operation';
+    }
+    if (!OUTBOX_STATUSES.includes(entry.status)) {
+      return 'has an unknown status';
+    }
+    if (typeof entry.customerId !== 'string' || !isObject(entry.payload)) {
+      return 'must name a customer and carry its payload';
+    }
+    if (
+      typeof entry.attempts !== 'number' ||
+      !isTimestamp(entry.nextAttemptAt) ||
+      !isTimestamp(entry.createdAt)
+    ) {
+      return 'must have attempts, nextAttemptAt and createdAt';
+    }
+    return null;
+  });
+
+  checkEach(problems, snapshot, 'pendingDeletions', deletion =>
+    isObject(deletion.customer) &&
+    typeof deletion.customer.id === 'string' &&
+    isTimestamp(deletion.deleteAt)
+      ? null
+      : 'must have a customer and deleteAt',
+  );
+
+  checkEach(problems, snapshot, 'syncState', record =>
+    typeof record.customerId === 'string' &&
+    isObject(record.serverSnapshot) &&
+    isTimestamp(record.syncedAt) &&
+    isOptionalTimestamp(record.localDeletedAt)
+      ? null
+      : 'must have a customerId, serverSnapshot and syncedAt',
+  );
+
+  if (snapshot.roles !== undefined) {
+    checkEach(problems, snapshot, 'roles', role =>
+      typeof role.name === 'string' &&
+      role.name.trim().length > 0 &&
+      typeof role.label === 'string' &&
+      typeof role.rank === 'number' &&
+      Array.isArray(role.aliases)
+        ? null
+        : 'must have a name, label, rank and aliases',
+    );
+  }
+
+  return problems;
+};
+
+export class BackupService {
+  // The whole local database: every customer, the trash, the changes that
+  // have not reached the server yet and the role catalog.
+  public static async exportSnapshot(): Promise<BackupSnapshot> {
+    const dbService = DatabaseService.getInstance();
+    const schemaVersion = await dbService.getSchemaVersion();
+    const backup = await dbService.readBackup();
+
+    return {
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion,
+      exportedAt: new Date().toISOString(),
+      ...backup,
+    };
+  }
+
+  public static async exportToJson(): Promise<string> {
+    return JSON.stringify(await this.exportSnapshot(), null, 2);
+  }
+
+  // Throws an InputValidationError naming what is wrong, so nothing is
+  // written from a snapshot that is damaged or from a newer app version.
+  public static parseSnapshot(input: string | unknown): BackupSnapshot {
+    let snapshot: unknown = input;
+    if (typeof input === 'string') {
+      try {
+        snapshot = JSON.parse(input);
+      } catch {
+        throw new InputValidationError('This backup is not valid JSON');
+      }
+    }
+
+    if (!isObject(snapshot) || typeof snapshot.formatVersion !== 'number') {
+      throw new InputValidationError('This is not a customer backup');
+    }
+    if (snapshot.formatVersion > BACKUP_FORMAT_VERSION) {
+      throw new InputValidationError(NEWER_APP_MESSAGE);
+    }
+    if (snapshot.formatVersion !== BACKUP_FORMAT_VERSION) {
+      throw new InputValidationError(`Backup format ${snapshot.formatVersion} is not supported`);
+    }
+    if (snapshot.schemaVersion > LATEST_SCHEMA_VERSION) {
+      throw new InputValidationError(NEWER_APP_MESSAGE);
+    }
+
+    const problems = findProblems(snapshot);
+    if (typeof snapshot.schemaVersion !== 'number') {
+      problems.unshift('schemaVersion must be a number');
+    }
+    if (problems.length > 0) {
+      throw new InputValidationError(`This backup is damaged: ${problems.join('; ')}`);
+    }
+    return snapshot as BackupSnapshot;
+  }
+
+  // Checks the whole snapshot before writing any of it. See
+  // DatabaseService.restoreBackup for what each mode does.
+  public static async importSnapshot(
+    input: string | unknown,
+    mode: BackupImportMode,
+  ): Promise<BackupImportReport> {
+    const snapshot = this.parseSnapshot(input);
+    return DatabaseService.getInstance().restoreBackup(
+      {
+        customers: snapshot.customers,
+        outbox: snapshot.outbox,
+        pendingDeletions: snapshot.pendingDeletions,
+        syncState: snapshot.syncState,
+        roles: snapshot.roles,
+      },
+      mode,
+    );
+  }
+}
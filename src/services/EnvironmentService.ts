@@ -0,0 +1,99 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ENVIRONMENT_NAMES,
+  assertEnvironmentUsable,
+  EnvironmentConfig,
+  EnvironmentName,
+  getDefaultEnvironmentName,
+  getEnvironmentConfig,
+  isEnvironmentName,
+  validateEnvironment,
+} from '../config/environment';
+import {DatabaseService} from '../database/DatabaseService';
+import {GraphQLService} from './GraphQLService';
+
+export const ENVIRONMENT_STORAGE_KEY = 'settings.environment';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a database key is used before it is replaced
+const DATABASE_KEY_ROTATION_DAYS = 90;
+
+export interface EnvironmentOption {
+  config: EnvironmentConfig;
+  problems: string[];
+}
+
+export class EnvironmentService {
+  private static active: EnvironmentConfig | null = null;
+
+  public static getActive(): EnvironmentConfig | null {
+    return this.active;
+  }
+
+  // Every environment with what, if anything, stops it from being used.
+  public static getOptions(): EnvironmentOption[] {
+    return ENVIRONMENT_NAMES.map(name => {
+      const config = getEnvironmentConfig(name);
+      return {config, problems: validateEnvironment(config)};
+    });
+  }
+
+  // Picks the environment saved in settings, or the build's default, and
+  // points GraphQL and SQLite at it. A saved choice the current build can no
+  // longer serve falls back to the default; an unusable default throws.
+  public static async initialize(): Promise<EnvironmentConfig> {
+    const defaultName = getDefaultEnvironmentName();
+    let config = getEnvironmentConfig(defaultName);
+
+    const saved = await AsyncStorage.getItem(ENVIRONMENT_STORAGE_KEY);
+    if (isEnvironmentName(saved) && saved !== defaultName) {
+      const savedConfig = getEnvironmentConfig(saved);
+      const problems = validateEnvironment(savedConfig);
+      if (problems.length === 0) {
+        config = savedConfig;
+      } else {
+        console.warn(
+          `Saved environment ${saved} is not usable (${problems.join('; ')}), using ${defaultName}`,
+        );
+      }
+    }
+
+    assertEnvironmentUsable(config);
+    await this.apply(config);
+    return config;
+  }
+
+  public static async switchTo(name: EnvironmentName): Promise<EnvironmentConfig> {
+    const config = getEnvironmentConfig(name);
+    assertEnvironmentUsable(config);
+
+    await this.apply(config);
+    await AsyncStorage.setItem(ENVIRONMENT_STORAGE_KEY, name);
+    return config;
+  }
+
+  private static async apply(config: EnvironmentConfig): Promise<void> {
+    await GraphQLService.configure(config);
+    const dbService = DatabaseService.getInstance();
+    dbService.setMinimumAdmins(config.minimumAdmins);
+    await dbService.initDatabase(config.databaseName);
+    this.active = config;
+
+    // An overfull trash is no reason to keep the app from starting
+    try {
+      await dbService.purgeDeletedCustomers(
+        Date.now() - config.trashRetentionDays * DAY_MS,
+      );
+    } catch (error) {
+      console.warn('Failed to purge the trash:', error);
+    }
+
+    // Nor is a key that could not be replaced; it is tried again next start
+    try {
+      await dbService.rotateDatabaseKey(Date.now() - DATABASE_KEY_ROTATION_DAYS * DAY_MS);
+    } catch (error) {
+      console.warn('Failed to rotate the database key:', error);
+    }
+  }
+}
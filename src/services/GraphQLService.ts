@@ -2,27 +2,62 @@ import {ApolloClient, InMemoryCache, gql, createHttpLink} from '@apollo/client';
 import {
   ZellerCustomerConnection, 
   ListZellerCustomersQuery, 
+  RemoteZellerRole,
+  CustomerRole,
+  CustomerPageOptions,
+  RemoteCustomerChange,
   ZellerCustomer,
   CreateZellerCustomerInput,
   UpdateZellerCustomerInput,
   DeleteZellerCustomerInput
 } from '../types';
-import awsconfig from '../../aws-exports';
+import {EnvironmentConfig, getEnvironmentConfig} from '../config/environment';
+import {AuthProvider, FetchFunction, createAuthFetch} from '../auth/AuthProvider';
+import {ApiKeyAuthProvider} from '../auth/providers';
+import {AppError, toAppError} from '../errors/AppError';
+import {
+  AppSyncRealtimeClient,
+  RealtimeClientOptions,
+  RealtimeSocketFactory,
+} from './AppSyncRealtimeClient';
+import type {MockAppSyncServer} from '../mock/MockAppSyncServer';
+import type {MockRealtimeServer} from '../mock/MockRealtimeServer';
 
 // GraphQL response interface
 interface ListZellerCustomersResponse {
   listZellerCustomers: ZellerCustomerConnection;
 }
 
-const httpLink = createHttpLink({
-  uri: awsconfig.aws_appsync_graphqlEndpoint,
-  headers: {
-    'x-api-key': awsconfig.aws_appsync_apiKey,
-  },
-});
+interface ListZellerRolesResponse {
+  listZellerRoles: Array<RemoteZellerRole | null> | null;
+}
+
+// Auth headers are added per request by the provider rather than fixed on
+// the link, so tokens can be refreshed and requests signed.
+const createAppSyncLink = (
+  config: EnvironmentConfig,
+  auth: AuthProvider,
+  fetchImpl?: FetchFunction
+) =>
+  createHttpLink({
+    uri: config.graphqlEndpoint,
+    fetch: createAuthFetch(auth, fetchImpl),
+  });
+
+// Replaced by GraphQLService.configure() during startup, before any request
+let activeConfig: EnvironmentConfig = getEnvironmentConfig('dev');
+let authProvider: AuthProvider = new ApiKeyAuthProvider(activeConfig.apiKey);
+
+// Set while requests are routed to an in-process mock server
+let mockFetch: FetchFunction | undefined;
+
+// Socket used for subscriptions when pointed at the mock server
+let realtimeSocketImpl: RealtimeSocketFactory | undefined;
+let devMockServers: {appSync: MockAppSyncServer; realtime: MockRealtimeServer} | null =
+  null;
 
 export const apolloClient = new ApolloClient({
-  link: httpLink,
+  link: createAppSyncLink(activeConfig, authProvider),
   cache: new InMemoryCache(),
   defaultOptions: {
     watchQuery: {
@@ -34,6 +69,25 @@ export const apolloClient = new ApolloClient({
   },
 });
 
+export const DEFAULT_PAGE_SIZE = 100;
+export const DEFAULT_MAX_PAGES = 50;
+
+const createAbortError = () => {
+  const error = new Error('Customer fetch was cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+// Cancellation is not a failure, so an AbortError is rethrown as it is
+const toServiceError = (error: any) =>
+  error?.name === 'AbortError' ? error : toAppError(error);
+
 export const LIST_ZELLER_CUSTOMERS = gql`
   query ListZellerCustomers(
     $filter: TableZellerCustomerFilterInput
@@ -52,6 +106,17 @@ export const LIST_ZELLER_CUSTOMERS = gql`
   }
 `;
 
+export const LIST_ZELLER_ROLES = gql`
+  query ListZellerRoles {
+    listZellerRoles {
+      name
+      label
+      rank
+      aliases
+    }
+  }
+`;
+
 export const CREATE_ZELLER_CUSTOMER = gql`
   mutation CreateZellerCustomer($input: CreateZellerCustomerInput!) {
     createZellerCustomer(input: $input) {
@@ -82,25 +147,190 @@ export const DELETE_ZELLER_CUSTOMER = gql`
   }
 `;
 
+// Subscriptions go over the realtime socket rather than Apollo, so they are
+// plain strings. AppSync only returns fields the triggering mutation selected.
+export const ON_CREATE_ZELLER_CUSTOMER = `
+  subscription OnCreateZellerCustomer {
+    onCreateZellerCustomer {
+      id
+      name
+      email
+      role
+    }
+  }
+`;
+
+export const ON_UPDATE_ZELLER_CUSTOMER = `
+  subscription OnUpdateZellerCustomer {
+    onUpdateZellerCustomer {
+      id
+      name
+      email
+      role
+    }
+  }
+`;
+
+export const ON_DELETE_ZELLER_CUSTOMER = `
+  subscription OnDeleteZellerCustomer {
+    onDeleteZellerCustomer {
+      id
+    }
+  }
+`;
+
+const CUSTOMER_SUBSCRIPTIONS: Array<{
+  type: RemoteCustomerChange['type'];
+  field: string;
+  query: string;
+}> = [
+  {type: 'create', field: 'onCreateZellerCustomer', query: ON_CREATE_ZELLER_CUSTOMER},
+  {type: 'update', field: 'onUpdateZellerCustomer', query: ON_UPDATE_ZELLER_CUSTOMER},
+  {type: 'delete', field: 'onDeleteZellerCustomer', query: ON_DELETE_ZELLER_CUSTOMER},
+];
+
+export interface CustomerChangeHandlers {
+  onChange: (change: RemoteCustomerChange) => void;
+  // Events are missed while the socket is down, so callers should catch up
+  onReconnect?: () => void;
+  onError?: (error: any) => void;
+}
+
 export class GraphQLService {
-  public static async fetchAllCustomers(
-    variables?: ListZellerCustomersQuery
+  // Points queries, mutations and subscriptions at `config` and drops
+  // everything Apollo cached for the previous environment. Requests use the
+  // environment's API key unless another provider is given.
+  public static async configure(
+    config: EnvironmentConfig,
+    auth: AuthProvider = new ApiKeyAuthProvider(config.apiKey)
+  ): Promise<void> {
+    activeConfig = config;
+    authProvider = auth;
+    if (config.name === 'mock') {
+      if (!devMockServers) {
+        const {createDevMockServers} = require('../mock/devServer');
+        devMockServers = createDevMockServers();
+      }
+      this.connectToMockServer(devMockServers!.appSync, devMockServers!.realtime);
+    } else {
+      mockFetch = undefined;
+      realtimeSocketImpl = undefined;
+      apolloClient.setLink(createAppSyncLink(config, authProvider));
+    }
+    await apolloClient.clearStore();
+  }
+
+  // Routes queries, mutations and (optionally) subscriptions to in-process
+  // mock servers. Used by the mock environment and by integration tests.
+  public static connectToMockServer(
+    server: MockAppSyncServer,
+    realtime?: MockRealtimeServer
+  ): void {
+    mockFetch = server.fetch;
+    realtimeSocketImpl = realtime?.WebSocket;
+    apolloClient.setLink(createAppSyncLink(activeConfig, authProvider, mockFetch));
+  }
+
+  // Swaps how requests are authorised, e.g. after sign-in, without touching
+  // the environment or the cache. Open subscriptions keep the provider they
+  // were started with.
+  public static setAuthProvider(auth: AuthProvider): void {
+    authProvider = auth;
+    apolloClient.setLink(createAppSyncLink(activeConfig, authProvider, mockFetch));
+  }
+
+  // Whether the current endpoint answers listZellerRoles; AppSync's schema
+  // does not unless the environment says otherwise
+  public static offersRoleCatalog(): boolean {
+    return activeConfig.roleCatalogQuery;
+  }
+
+  // Fetches a single page of customers. Pass the previous page's nextToken
+  // to continue from where it ended.
+  public static async fetchCustomerPage(
+    variables?: ListZellerCustomersQuery,
+    signal?: AbortSignal
   ): Promise<ZellerCustomerConnection> {
     try {
       const result = await apolloClient.query<ListZellerCustomersResponse>({
         query: LIST_ZELLER_CUSTOMERS,
         variables,
         fetchPolicy: 'network-only', // Always fetch from network for fresh data
+        context: signal ? {fetchOptions: {signal}} : undefined,
       });
-      return result?.data?.listZellerCustomers || { items: [], nextToken: null };
+      // errorPolicy 'all' resolves instead of throwing. An error here must
+      // not read as an empty list, or sync would delete every local customer.
+      if (result?.error) {
+        throw result.error;
+      }
+      const connection = result?.data?.listZellerCustomers;
+      return {
+        items: (connection?.items || []).filter(Boolean),
+        nextToken: connection?.nextToken || null,
+      };
     } catch (error) {
       console.error('Error fetching customers from GraphQL:', error);
-      throw error;
+      throw toServiceError(error);
+    }
+  }
+
+  // Yields one page at a time so callers can write each page to the database
+  // before the next one is requested. Stops after the last page or after
+  // `maxPages`, whichever comes first.
+  public static async *iterateCustomerPages(
+    options: CustomerPageOptions = {}
+  ): AsyncGenerator<ZellerCustomerConnection> {
+    const {
+      filter,
+      pageSize = DEFAULT_PAGE_SIZE,
+      maxPages = DEFAULT_MAX_PAGES,
+      signal,
+    } = options;
+    const seenTokens = new Set<string>();
+    let nextToken: string | undefined;
+
+    for (let page = 0; page < maxPages; page++) {
+      throwIfAborted(signal);
+      const connection = await this.fetchCustomerPage(
+        {filter, limit: pageSize, nextToken},
+        signal
+      );
+      throwIfAborted(signal);
+      yield connection;
+
+      if (!connection.nextToken) {
+        return;
+      }
+      // A token we have already followed would page forever
+      if (seenTokens.has(connection.nextToken)) {
+        throw new AppError('Customer pagination returned a repeated nextToken', {
+          retryable: false,
+        });
+      }
+      seenTokens.add(connection.nextToken);
+      nextToken = connection.nextToken;
+    }
+  }
+
+  // Walks every page and returns the combined items. `nextToken` is only set
+  // when `maxPages` was reached before the last page, so callers can tell a
+  // truncated result from a complete one.
+  public static async fetchAllCustomers(
+    options: CustomerPageOptions = {}
+  ): Promise<ZellerCustomerConnection> {
+    const items: ZellerCustomerConnection['items'] = [];
+    let nextToken: string | null = null;
+
+    for await (const page of this.iterateCustomerPages(options)) {
+      items.push(...page.items);
+      nextToken = page.nextToken || null;
     }
+
+    return {items, nextToken};
   }
 
   public static async fetchCustomersByRole(
-    role: 'Admin' | 'Manager'
+    role: CustomerRole
   ): Promise<ZellerCustomerConnection> {
     return this.fetchAllCustomers({
       filter: {
@@ -111,6 +341,60 @@ export class GraphQLService {
     });
   }
 
+  // The server's role catalog
+  public static async fetchRoles(): Promise<RemoteZellerRole[]> {
+    try {
+      const result = await apolloClient.query<ListZellerRolesResponse>({
+        query: LIST_ZELLER_ROLES,
+        fetchPolicy: 'network-only',
+      });
+      // An error must not read as an empty catalog
+      if (result?.error) {
+        throw result.error;
+      }
+      const roles = result?.data?.listZellerRoles;
+      if (!roles) {
+        throw new AppError('The server returned no role catalog');
+      }
+      return roles.filter((role): role is RemoteZellerRole => Boolean(role));
+    } catch (error) {
+      console.error('Error fetching roles from GraphQL:', error);
+      throw toAppError(error);
+    }
+  }
+
+  // Subscribes to creates, updates and deletes made by anyone. Returns a
+  // function that ends all three subscriptions and closes the socket.
+  public static subscribeToCustomerChanges(
+    handlers: CustomerChangeHandlers,
+    options: Partial<RealtimeClientOptions> = {}
+  ): () => void {
+    const client = new AppSyncRealtimeClient({
+      graphqlEndpoint: activeConfig.graphqlEndpoint,
+      auth: authProvider,
+      onReconnect: handlers.onReconnect,
+      WebSocketImpl: realtimeSocketImpl,
+      ...options,
+    });
+
+    CUSTOMER_SUBSCRIPTIONS.forEach(({type, field, query}) => {
+      client.subscribe(query, {}, {
+        next: data => {
+          const customer = data?.[field];
+          if (customer?.id) {
+            handlers.onChange({type, customer});
+          }
+        },
+        error: error => {
+          console.error(`Subscription ${field} failed:`, error);
+          handlers.onError?.(error);
+        },
+      });
+    });
+
+    return () => client.close();
+  }
+
   public static async createCustomer(
     customer: Omit<ZellerCustomer, 'id'>
   ): Promise<ZellerCustomer> {
@@ -118,18 +402,21 @@ export class GraphQLService {
       const result = await apolloClient.mutate<{createZellerCustomer: ZellerCustomer}>({
         mutation: CREATE_ZELLER_CUSTOMER,
         variables: {
-          input: customer,
+          // Only the fields the input type declares; extra keys are rejected
+          input: {name: customer.name, email: customer.email, role: customer.role},
         },
       });
       
       if (!result.data?.createZellerCustomer) {
-        throw new Error('Failed to create customer - no data returned');
+        throw new AppError('Failed to create customer - no data returned', {
+          retryable: false,
+        });
       }
       
       return result.data.createZellerCustomer;
     } catch (error) {
       console.error('Error creating customer in GraphQL:', error);
-      throw error;
+      throw toServiceError(error);
     }
   }
 
@@ -140,18 +427,25 @@ export class GraphQLService {
       const result = await apolloClient.mutate<{updateZellerCustomer: ZellerCustomer}>({
         mutation: UPDATE_ZELLER_CUSTOMER,
         variables: {
-          input: customer,
+          input: {
+            id: customer.id,
+            name: customer.name,
+            email: customer.email,
+            role: customer.role,
+          },
         },
       });
       
       if (!result.data?.updateZellerCustomer) {
-        throw new Error('Failed to update customer - no data returned');
+        throw new AppError('Failed to update customer - no data returned', {
+          retryable: false,
+        });
       }
       
       return result.data.updateZellerCustomer;
     } catch (error) {
       console.error('Error updating customer in GraphQL:', error);
-      throw error;
+      throw toServiceError(error);
     }
   }
 
@@ -165,13 +459,15 @@ export class GraphQLService {
       });
       
       if (!result.data?.deleteZellerCustomer?.id) {
-        throw new Error('Failed to delete customer - no confirmation returned');
+        throw new AppError('Failed to delete customer - no confirmation returned', {
+          retryable: false,
+        });
       }
       
       return result.data.deleteZellerCustomer.id;
     } catch (error) {
       console.error('Error deleting customer in GraphQL:', error);
-      throw error;
+      throw toServiceError(error);
     }
   }
 }
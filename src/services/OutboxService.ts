@@ -0,0 +1,151 @@
+import {DatabaseService} from '../database/DatabaseService';
+import {GraphQLService} from './GraphQLService';
+import {toAppError} from '../errors/AppError';
+import {getRetryDelay} from '../utils/backoff';
+import {OutboxEntry, OutboxReplayResult} from '../types';
+
+export const OUTBOX_MAX_ATTEMPTS = 8;
+
+// A failure is permanent when retrying the same request cannot succeed: the
+// server rejected it (GraphQL errors, 4xx other than timeouts and throttling)
+// or answered without the data we asked for. Anything else is treated as a
+// connectivity problem and retried.
+export const isPermanentFailure = (error: any): boolean => {
+  const message = String(error?.message ?? '');
+  if (
+    message.includes('no data returned') ||
+    message.includes('no confirmation returned')
+  ) {
+    return true;
+  }
+
+  return !toAppError(error).retryable;
+};
+
+const describeError = (error: any): string =>
+  error?.message ? String(error.message) : String(error);
+
+export class OutboxService {
+  private static activeReplay: Promise<OutboxReplayResult> | null = null;
+
+  // Replays pending mutations in the order they were recorded. Replay stops at
+  // the first retryable failure so later changes never overtake earlier ones;
+  // permanent failures move to the dead-letter list and replay carries on.
+  public static replay(now: number = Date.now()): Promise<OutboxReplayResult> {
+    if (!this.activeReplay) {
+      this.activeReplay = this.processQueue(now).finally(() => {
+        this.activeReplay = null;
+      });
+    }
+    return this.activeReplay;
+  }
+
+  private static async processQueue(now: number): Promise<OutboxReplayResult> {
+    const dbService = DatabaseService.getInstance();
+    const result: OutboxReplayResult = {
+      sent: 0,
+      deadLettered: 0,
+      remaining: 0,
+      nextAttemptAt: null,
+      idChanges: {},
+    };
+
+    const entries = await dbService.getOutboxEntries('pending');
+    // Changes to customers with an unresolved sync conflict wait until the
+    // user has picked a side.
+    const conflicts = await dbService.getSyncConflicts();
+    const onHold = new Set(conflicts.map(conflict => conflict.customerId));
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = this.withIdChanges(entries[i], result.idChanges);
+
+      if (onHold.has(entry.customerId)) {
+        continue;
+      }
+
+      if (entry.nextAttemptAt > now) {
+        result.remaining = entries.length - i;
+        result.nextAttemptAt = entry.nextAttemptAt;
+        break;
+      }
+
+      try {
+        await this.send(entry, result.idChanges);
+        await dbService.deleteOutboxEntry(entry.id);
+        result.sent++;
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const message = describeError(error);
+
+        if (isPermanentFailure(error) || attempts >= OUTBOX_MAX_ATTEMPTS) {
+          console.error(`Outbox entry ${entry.id} failed permanently:`, error);
+          await dbService.moveOutboxEntryToDeadLetter(entry.id, message);
+          result.deadLettered++;
+          continue;
+        }
+
+        const nextAttemptAt = now + getRetryDelay(attempts);
+        await dbService.markOutboxEntryFailed(entry.id, message, nextAttemptAt);
+        result.remaining = entries.length - i;
+        result.nextAttemptAt = nextAttemptAt;
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  // Entries were loaded before earlier creates were replayed, so apply any
+  // server-assigned ids picked up during this run.
+  private static withIdChanges(
+    entry: OutboxEntry,
+    idChanges: Record<string, string>,
+  ): OutboxEntry {
+    const newId = idChanges[entry.customerId];
+    if (!newId) {
+      return entry;
+    }
+
+    return {
+      ...entry,
+      customerId: newId,
+      payload: {...entry.payload, id: newId},
+    };
+  }
+
+  private static async send(
+    entry: OutboxEntry,
+    idChanges: Record<string, string>,
+  ): Promise<void> {
+    const {id, ...customerData} = entry.payload;
+
+    switch (entry.operation) {
+      case 'create': {
+        const created = await GraphQLService.createCustomer(customerData);
+        if (created.id && created.id !== id) {
+          await DatabaseService.getInstance().replaceCustomerId(id, created.id);
+          idChanges[id] = created.id;
+        }
+        return;
+      }
+      case 'update':
+        await GraphQLService.updateCustomer(entry.payload);
+        return;
+      case 'delete':
+        await GraphQLService.deleteCustomer(id);
+        return;
+    }
+  }
+
+  public static async getDeadLetters(): Promise<OutboxEntry[]> {
+    return DatabaseService.getInstance().getOutboxEntries('dead');
+  }
+
+  public static async retryDeadLetter(id: number): Promise<void> {
+    await DatabaseService.getInstance().requeueOutboxEntry(id);
+  }
+
+  public static async discardDeadLetter(id: number): Promise<void> {
+    await DatabaseService.getInstance().deleteOutboxEntry(id);
+  }
+}
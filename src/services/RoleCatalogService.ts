@@ -0,0 +1,44 @@
+import {DatabaseService} from '../database/DatabaseService';
+import {AppError} from '../errors/AppError';
+import {RemoteZellerRole, RoleDefinition} from '../types';
+import {GraphQLService} from './GraphQLService';
+
+// Fills in what the server left out. Without ranks, the server's order is
+// taken as most senior first.
+const toRoleDefinitions = (remoteRoles: RemoteZellerRole[]): RoleDefinition[] => {
+  const roles = new Map<string, RoleDefinition>();
+  remoteRoles.forEach((remote, index) => {
+    const name = typeof remote?.name === 'string' ? remote.name.trim() : '';
+    if (!name || roles.has(name)) {
+      return;
+    }
+    roles.set(name, {
+      name,
+      label: remote.label?.trim() || name,
+      rank:
+        typeof remote.rank === 'number' && Number.isFinite(remote.rank)
+          ? remote.rank
+          : remoteRoles.length - index,
+      aliases: (remote.aliases ?? []).filter(
+        (alias): alias is string => typeof alias === 'string' && alias.trim().length > 0,
+      ),
+    });
+  });
+  return Array.from(roles.values());
+};
+
+export class RoleCatalogService {
+  // Replaces the local catalog with the server's and returns it. Roles the
+  // server dropped stay while customers still hold them.
+  public static async refreshFromServer(
+    fetchRoles: () => Promise<RemoteZellerRole[]> = () => GraphQLService.fetchRoles(),
+  ): Promise<RoleDefinition[]> {
+    const roles = toRoleDefinitions(await fetchRoles());
+    // An empty list is far more likely a server fault than a business
+    // without roles
+    if (roles.length === 0) {
+      throw new AppError('The server listed no roles');
+    }
+    return DatabaseService.getInstance().replaceRoles(roles);
+  }
+}
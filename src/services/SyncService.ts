@@ -0,0 +1,443 @@
+import {DatabaseService} from '../database/DatabaseService';
+import {GraphQLService} from './GraphQLService';
+import {resolveRole} from '../utils/roles';
+import {
+  ConflictPolicy,
+  ConflictResolution,
+  QuarantinedCustomer,
+  QuarantineReason,
+  RemoteCustomerChange,
+  RoleDefinition,
+  SyncChangeSet,
+  SyncConflict,
+  SyncResult,
+  ZellerCustomer,
+} from '../types';
+
+export interface RemoteCustomerSource {
+  fetchCustomers: (signal?: AbortSignal) => Promise<ZellerCustomer[]>;
+  // Page-by-page read used to seed an empty database without holding the
+  // whole list in memory first
+  fetchCustomerPages?: (
+    signal?: AbortSignal,
+  ) => AsyncIterable<ZellerCustomer[]>;
+}
+
+export interface SyncOptions {
+  policy?: ConflictPolicy;
+  source?: RemoteCustomerSource;
+  now?: () => number;
+  signal?: AbortSignal;
+}
+
+export const LAST_SYNCED_AT_KEY = 'customers.lastSyncedAt';
+
+const SYNC_PAGE_SIZE = 100;
+const SYNC_MAX_PAGES = 1000;
+
+export const graphQLCustomerSource: RemoteCustomerSource = {
+  fetchCustomers: async signal => {
+    const connection = await GraphQLService.fetchAllCustomers({
+      pageSize: SYNC_PAGE_SIZE,
+      maxPages: SYNC_MAX_PAGES,
+      signal,
+    });
+    // A partial list would make every customer on the missing pages look
+    // deleted on the server
+    if (connection.nextToken) {
+      throw new Error(
+        `Customer list is longer than ${SYNC_MAX_PAGES} pages; sync skipped`,
+      );
+    }
+    return connection.items;
+  },
+  fetchCustomerPages: async function* (signal) {
+    const pages = GraphQLService.iterateCustomerPages({
+      pageSize: SYNC_PAGE_SIZE,
+      maxPages: SYNC_MAX_PAGES,
+      signal,
+    });
+    for await (const page of pages) {
+      yield page.items;
+    }
+  },
+};
+
+const isSameCustomer = (a: ZellerCustomer, b: ZellerCustomer) =>
+  a.name === b.name && a.email === b.email && a.role === b.role;
+
+// Both sides of a conflict may be a deletion
+const isSameVersion = (a: ZellerCustomer | null, b: ZellerCustomer | null) =>
+  a && b ? isSameCustomer(a, b) : a === b;
+
+const isFilled = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+
+// Without an id a record can't be matched to anything, even a quarantine
+// entry
+const hasId = (customer: ZellerCustomer) => isFilled(customer?.id);
+
+// What is wrong with a server record, if anything. The server schema lets
+// name, email and role be null, and a role outside the catalog would
+// otherwise be rewritten to the default one.
+const checkServerCustomer = (
+  customer: ZellerCustomer,
+  roles: RoleDefinition[],
+): QuarantineReason[] => {
+  const reasons: QuarantineReason[] = [];
+  if (!isFilled(customer.name)) {
+    reasons.push('missing-name');
+  }
+  if (!isFilled(customer.email)) {
+    reasons.push('missing-email');
+  }
+  if (!isFilled(customer.role)) {
+    reasons.push('missing-role');
+  } else if (!resolveRole(customer.role, roles)) {
+    reasons.push('unknown-role');
+  }
+  return reasons;
+};
+
+const quarantine = (
+  customer: ZellerCustomer,
+  reasons: QuarantineReason[],
+  receivedAt: number,
+): QuarantinedCustomer => ({
+  customerId: customer.id,
+  raw: {...customer},
+  reasons,
+  receivedAt,
+});
+
+const createChangeSet = (): SyncChangeSet => ({
+  upserts: [],
+  deletes: [],
+  snapshots: [],
+  forgotten: [],
+  conflicts: [],
+  resolvedConflicts: [],
+  discardOutbox: [],
+  quarantined: [],
+  released: [],
+});
+
+// Adds the changes that make the chosen side of a conflict the surviving one.
+const applyResolution = (
+  changes: SyncChangeSet,
+  conflict: SyncConflict,
+  resolution: ConflictResolution,
+) => {
+  const {customerId, server} = conflict;
+
+  if (resolution === 'use-server') {
+    if (server) {
+      changes.upserts.push(server);
+      changes.snapshots.push(server);
+    } else {
+      changes.deletes.push(customerId);
+      changes.forgotten.push(customerId);
+    }
+    changes.discardOutbox.push(customerId);
+    return;
+  }
+
+  // Keeping the local version: remember what the server holds so the same
+  // conflict is not raised again, and let the outbox push our change.
+  if (server) {
+    changes.snapshots.push(server);
+  } else {
+    changes.forgotten.push(customerId);
+  }
+};
+
+export class SyncService {
+  // Pulls every server customer, diffs it against the local table and the
+  // last server version seen, and applies adds, updates and deletes. A
+  // customer changed on both sides is resolved by `policy`:
+  //   - server-wins: the server version replaces the local change
+  //   - last-writer-wins: the later change wins. AppSync keeps no
+  //     modification time, so a server change is dated when this device
+  //     first saw it; a local edit made after that, e.g. while the conflict
+  //     waited under manual, is kept and pushed
+  //   - manual: the conflict is recorded for the user to resolve
+  // Records that fail validation are quarantined rather than written, and
+  // their local copy is kept as it is.
+  public static async syncCustomers(
+    options: SyncOptions = {},
+  ): Promise<SyncResult> {
+    const policy = options.policy ?? 'last-writer-wins';
+    const source = options.source ?? graphQLCustomerSource;
+    const now = options.now ?? Date.now;
+    const dbService = DatabaseService.getInstance();
+
+    if (source.fetchCustomerPages && (await this.isFirstSync())) {
+      return this.seedCustomers(source.fetchCustomerPages, now, options.signal);
+    }
+
+    const remoteCustomers = await source.fetchCustomers(options.signal);
+    const syncedAt = now();
+
+    const [localCustomers, syncState, localChanges, existingConflicts, quarantined] =
+      await Promise.all([
+        dbService.getAllCustomers(),
+        dbService.getSyncState(),
+        dbService.getLocalChangeTimes(),
+        dbService.getSyncConflicts(),
+        dbService.getQuarantinedCustomers(),
+      ]);
+    const roles = dbService.getRoles();
+
+    const changes = createChangeSet();
+    const result: SyncResult = {
+      added: 0,
+      updated: 0,
+      deleted: 0,
+      conflicts: [],
+      quarantined: 0,
+    };
+    const localById = new Map(localCustomers.map(c => [c.id, c]));
+    const serverIds = new Set<string>();
+
+    // Re-detected below if still relevant; anything else has gone away
+    changes.resolvedConflicts = existingConflicts.map(c => c.customerId);
+    // Likewise, records still invalid are quarantined again below
+    changes.released = quarantined.map(entry => entry.customerId);
+
+    // When this device first saw the server side of `conflict`: when an
+    // open conflict recorded the same version, or now
+    const serverSeenAt = (conflict: SyncConflict) => {
+      const open = existingConflicts.find(c => c.customerId === conflict.customerId);
+      return open && isSameVersion(open.server, conflict.server) ? open.detectedAt : syncedAt;
+    };
+
+    const resolve = (conflict: SyncConflict) => {
+      const seenAt = serverSeenAt(conflict);
+      if (policy === 'manual') {
+        const recorded = {...conflict, detectedAt: seenAt};
+        changes.conflicts.push(recorded);
+        result.conflicts.push(recorded);
+        return;
+      }
+
+      if (policy === 'last-writer-wins' && localChanges[conflict.customerId] > seenAt) {
+        applyResolution(changes, conflict, 'keep-local');
+        return;
+      }
+
+      applyResolution(changes, conflict, 'use-server');
+      if (conflict.server) {
+        result.updated++;
+      } else {
+        result.deleted++;
+      }
+    };
+
+    for (const remote of remoteCustomers) {
+      if (!hasId(remote)) {
+        console.warn('Skipping customer without an id from server:', remote);
+        continue;
+      }
+
+      const reasons = checkServerCustomer(remote, roles);
+      if (reasons.length > 0) {
+        // Still on the server, so the local copy must not look deleted
+        serverIds.add(remote.id);
+        // A local edit replaces the bad record once the outbox pushes it
+        if (localChanges[remote.id] === undefined) {
+          changes.quarantined.push(quarantine(remote, reasons, syncedAt));
+          result.quarantined++;
+        }
+        continue;
+      }
+
+      const server = dbService.normalizeCustomer(remote);
+      const local = localById.get(server.id);
+      const state = syncState[server.id];
+      const localChangedAt = localChanges[server.id];
+      const serverChanged =
+        !state || !isSameCustomer(state.serverSnapshot, server);
+      serverIds.add(server.id);
+
+      if (local && isSameCustomer(local, server)) {
+        // Already identical; clear any pending local flag
+        if (localChangedAt !== undefined) {
+          changes.upserts.push(server);
+        }
+        if (serverChanged) {
+          changes.snapshots.push(server);
+        }
+        continue;
+      }
+
+      if (localChangedAt === undefined) {
+        changes.upserts.push(server);
+        changes.snapshots.push(server);
+        if (local) {
+          result.updated++;
+        } else {
+          result.added++;
+        }
+        continue;
+      }
+
+      if (!serverChanged) {
+        // Only this device changed it; the outbox will push the change
+        continue;
+      }
+
+      resolve({customerId: server.id, local: local ?? null, server, detectedAt: syncedAt});
+    }
+
+    for (const local of localCustomers) {
+      if (serverIds.has(local.id) || !syncState[local.id]) {
+        // Present on both sides, or created here and not yet pushed
+        continue;
+      }
+
+      if (localChanges[local.id] === undefined) {
+        changes.deletes.push(local.id);
+        changes.forgotten.push(local.id);
+        result.deleted++;
+        continue;
+      }
+
+      // Deleted on the server but edited here
+      resolve({customerId: local.id, local, server: null, detectedAt: syncedAt});
+    }
+
+    // Deleted on both sides
+    for (const id of Object.keys(syncState)) {
+      if (!serverIds.has(id) && !localById.has(id)) {
+        changes.forgotten.push(id);
+      }
+    }
+
+    await dbService.applySyncChanges(changes, syncedAt);
+    await dbService.setMetadata(LAST_SYNCED_AT_KEY, String(syncedAt));
+
+    return result;
+  }
+
+  private static async isFirstSync(): Promise<boolean> {
+    const dbService = DatabaseService.getInstance();
+    const [count, syncState] = await Promise.all([
+      dbService.getCustomerCount(),
+      dbService.getSyncState(),
+    ]);
+    return count === 0 && Object.keys(syncState).length === 0;
+  }
+
+  // With nothing local there is nothing to diff against, so each page is
+  // written as soon as it arrives. A seed interrupted part way leaves the
+  // pages written so far, and the next sync diffs as usual.
+  private static async seedCustomers(
+    fetchCustomerPages: NonNullable<RemoteCustomerSource['fetchCustomerPages']>,
+    now: () => number,
+    signal?: AbortSignal,
+  ): Promise<SyncResult> {
+    const dbService = DatabaseService.getInstance();
+    const result: SyncResult = {
+      added: 0,
+      updated: 0,
+      deleted: 0,
+      conflicts: [],
+      quarantined: 0,
+    };
+    const roles = dbService.getRoles();
+    let syncedAt = now();
+
+    for await (const page of fetchCustomerPages(signal)) {
+      const changes = createChangeSet();
+      syncedAt = now();
+      for (const remote of page.filter(hasId)) {
+        const reasons = checkServerCustomer(remote, roles);
+        if (reasons.length > 0) {
+          changes.quarantined.push(quarantine(remote, reasons, syncedAt));
+        } else {
+          changes.upserts.push(dbService.normalizeCustomer(remote));
+        }
+      }
+      changes.snapshots = changes.upserts;
+      await dbService.applySyncChanges(changes, syncedAt);
+      result.added += changes.upserts.length;
+      result.quarantined += changes.quarantined.length;
+    }
+
+    await dbService.setMetadata(LAST_SYNCED_AT_KEY, String(syncedAt));
+    return result;
+  }
+
+  // Applies a single change pushed by a subscription. Returns false without
+  // writing anything when the customer has unsynced local changes or an open
+  // conflict; the caller should then run a full sync so the conflict policy
+  // decides. An invalid record is quarantined instead of written.
+  public static async applyRemoteChange(
+    change: RemoteCustomerChange,
+    now: () => number = Date.now,
+  ): Promise<boolean> {
+    const dbService = DatabaseService.getInstance();
+    const {customer} = change;
+
+    const [localChanges, conflicts] = await Promise.all([
+      dbService.getLocalChangeTimes(),
+      dbService.getSyncConflicts(),
+    ]);
+    if (
+      localChanges[customer.id] !== undefined ||
+      conflicts.some(conflict => conflict.customerId === customer.id)
+    ) {
+      return false;
+    }
+
+    const changes = createChangeSet();
+    const receivedAt = now();
+    if (change.type === 'delete') {
+      changes.deletes.push(customer.id);
+      changes.forgotten.push(customer.id);
+      changes.released.push(customer.id);
+    } else {
+      if (!hasId(customer)) {
+        console.warn('Skipping customer without an id from subscription:', customer);
+        return true;
+      }
+      const reasons = checkServerCustomer(customer, dbService.getRoles());
+      if (reasons.length > 0) {
+        changes.quarantined.push(quarantine(customer, reasons, receivedAt));
+      } else {
+        const server = dbService.normalizeCustomer(customer);
+        changes.upserts.push(server);
+        changes.snapshots.push(server);
+        changes.released.push(customer.id);
+      }
+    }
+
+    await dbService.applySyncChanges(changes, receivedAt);
+    return true;
+  }
+
+  public static async getConflicts(): Promise<SyncConflict[]> {
+    return DatabaseService.getInstance().getSyncConflicts();
+  }
+
+  public static async getQuarantinedCustomers(): Promise<QuarantinedCustomer[]> {
+    return DatabaseService.getInstance().getQuarantinedCustomers();
+  }
+
+  public static async resolveConflict(
+    customerId: string,
+    resolution: ConflictResolution,
+    now: () => number = Date.now,
+  ): Promise<void> {
+    const dbService = DatabaseService.getInstance();
+    const conflicts = await dbService.getSyncConflicts();
+    const conflict = conflicts.find(c => c.customerId === customerId);
+    if (!conflict) {
+      return;
+    }
+
+    const changes = createChangeSet();
+    applyResolution(changes, conflict, resolution);
+    changes.resolvedConflicts.push(customerId);
+    await dbService.applySyncChanges(changes, now());
+  }
+}
@@ -0,0 +1,214 @@
+import {AppSyncRealtimeClient, getRealtimeUrl} from '../AppSyncRealtimeClient';
+import {MockRealtimeServer} from '../../mock/MockRealtimeServer';
+import {ApiKeyAuthProvider, TokenAuthProvider} from '../../auth/providers';
+
+const ENDPOINT =
+  'https://example123.appsync-api.ap-southeast-2.amazonaws.com/graphql';
+const ON_UPDATE = 'subscription { onUpdateZellerCustomer { id name } }';
+
+describe('AppSyncRealtimeClient', () => {
+  let server: MockRealtimeServer;
+  let onReconnect: jest.Mock;
+  let client: AppSyncRealtimeClient;
+
+  // Each hop through the mock socket is a zero-delay timer, and authorising
+  // a message is a promise
+  const flush = () => jest.advanceTimersByTimeAsync(1);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    server = new MockRealtimeServer({connectionTimeoutMs: 10000});
+    onReconnect = jest.fn();
+    client = new AppSyncRealtimeClient({
+      graphqlEndpoint: ENDPOINT,
+      auth: new ApiKeyAuthProvider('da2-test'),
+      WebSocketImpl: server.WebSocket,
+      onReconnect,
+    });
+  });
+
+  afterEach(() => {
+    client.close();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should derive the realtime endpoint from the GraphQL endpoint', () => {
+    expect(getRealtimeUrl(ENDPOINT)).toBe(
+      'wss://example123.appsync-realtime-api.ap-southeast-2.amazonaws.com/graphql',
+    );
+  });
+
+  it('should authenticate the handshake and start the subscription', async () => {
+    client.subscribe(ON_UPDATE, {}, {next: jest.fn()});
+    await flush();
+    await flush();
+
+    const [socket] = server.sockets;
+    expect(socket.protocol).toBe('graphql-ws');
+    // base64 of {"host":"example123.appsync-api...","x-api-key":"da2-test"}
+    expect(socket.url).toBe(
+      'wss://example123.appsync-realtime-api.ap-southeast-2.amazonaws.com/graphql' +
+        '?header=eyJob3N0IjoiZXhhbXBsZTEyMy5hcHBzeW5jLWFwaS5hcC1zb3V0aGVhc3QtMi5hbWF6b25hd3MuY29tIiwieC1hcGkta2V5IjoiZGEyLXRlc3QifQ==' +
+        '&payload=e30=',
+    );
+    expect(socket.sent.map(message => message.type)).toEqual([
+      'connection_init',
+      'start',
+    ]);
+    expect(socket.sent[1].payload.extensions.authorization['x-api-key']).toBe(
+      'da2-test',
+    );
+    expect(client.isConnected()).toBe(true);
+  });
+
+  it('should deliver published events to the subscriber', async () => {
+    const next = jest.fn();
+    client.subscribe(ON_UPDATE, {}, {next});
+    await flush();
+    await flush();
+
+    server.publish('onUpdateZellerCustomer', {id: '1', name: 'John'});
+    server.publish('onDeleteZellerCustomer', {id: '2'});
+    await flush();
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledWith({
+      onUpdateZellerCustomer: {id: '1', name: 'John'},
+    });
+  });
+
+  it('should reconnect with backoff and resubscribe after a drop', async () => {
+    const next = jest.fn();
+    client.subscribe(ON_UPDATE, {}, {next});
+    await flush();
+    await flush();
+
+    server.dropConnections();
+    expect(client.isConnected()).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(server.sockets).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await flush();
+    await flush();
+
+    expect(server.sockets).toHaveLength(2);
+    expect(server.subscriptionCount).toBe(1);
+    expect(onReconnect).toHaveBeenCalledTimes(1);
+
+    server.publish('onUpdateZellerCustomer', {id: '1'});
+    await flush();
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reconnect when keep-alives stop arriving', async () => {
+    client.subscribe(ON_UPDATE, {}, {next: jest.fn()});
+    await flush();
+    await flush();
+
+    await jest.advanceTimersByTimeAsync(9000);
+    server.sendKeepAlive();
+    await flush();
+    await jest.advanceTimersByTimeAsync(9000);
+    expect(server.sockets).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(server.sockets[0].readyState).not.toBe(1);
+    expect(client.isConnected()).toBe(false);
+  });
+
+  it('should keep retrying while the server rejects the connection', async () => {
+    server.acceptConnections = false;
+    client.subscribe(ON_UPDATE, {}, {next: jest.fn()});
+    await flush();
+    await flush();
+
+    await jest.advanceTimersByTimeAsync(2000);
+    await flush();
+    await flush();
+    await jest.advanceTimersByTimeAsync(4000);
+
+    expect(server.sockets).toHaveLength(3);
+    expect(client.isConnected()).toBe(false);
+  });
+
+  it('should start a refused subscription again with backoff', async () => {
+    server.acceptSubscriptions = false;
+    const next = jest.fn();
+    const error = jest.fn();
+    client.subscribe(ON_UPDATE, {}, {next, error});
+    await flush();
+    await flush();
+    await flush();
+
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error.mock.calls[0][0].message).toBe('Unknown field');
+    expect(server.subscriptionCount).toBe(0);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    await flush();
+    await flush();
+    // Told once, however many attempts fail
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(server.sockets[0].sent.filter(message => message.type === 'start')).toHaveLength(2);
+
+    server.acceptSubscriptions = true;
+    await jest.advanceTimersByTimeAsync(4000);
+    await flush();
+    await flush();
+    expect(server.subscriptionCount).toBe(1);
+
+    server.publish('onUpdateZellerCustomer', {id: '1'});
+    await flush();
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(server.sockets).toHaveLength(1);
+  });
+
+  it('should refresh a rejected token before reconnecting', async () => {
+    client.close();
+    let issued = 0;
+    const refresh = jest.fn(async () => ({
+      accessToken: `token-${++issued}`,
+      expiresAt: Date.now() + 3600000,
+    }));
+    client = new AppSyncRealtimeClient({
+      graphqlEndpoint: ENDPOINT,
+      auth: new TokenAuthProvider({refresh}),
+      WebSocketImpl: server.WebSocket,
+    });
+
+    server.acceptConnections = false;
+    client.subscribe(ON_UPDATE, {}, {next: jest.fn()});
+    await flush();
+    await flush();
+    server.acceptConnections = true;
+    await jest.advanceTimersByTimeAsync(2000);
+    await flush();
+    await flush();
+
+    expect(refresh).toHaveBeenCalledTimes(2);
+    const start = server.sockets[1].sent.find(message => message.type === 'start');
+    expect(start.payload.extensions.authorization).toEqual({
+      host: 'example123.appsync-api.ap-southeast-2.amazonaws.com',
+      Authorization: 'token-2',
+    });
+    expect(client.isConnected()).toBe(true);
+  });
+
+  it('should stop the subscription and close the socket after the last one', async () => {
+    const unsubscribe = client.subscribe(ON_UPDATE, {}, {next: jest.fn()});
+    await flush();
+    await flush();
+    const [socket] = server.sockets;
+
+    unsubscribe();
+
+    expect(socket.sent[socket.sent.length - 1]).toEqual({type: 'stop', id: '1'});
+    expect(server.openSockets).toHaveLength(0);
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(server.sockets).toHaveLength(1);
+  });
+});
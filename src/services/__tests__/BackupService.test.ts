@@ -0,0 +1,143 @@
+import {BACKUP_FORMAT_VERSION, BackupService} from '../BackupService';
+import {DatabaseService} from '../../database/DatabaseService';
+import {NodeSqliteAdapter} from '../../database/adapters/NodeSqliteAdapter';
+import {LATEST_SCHEMA_VERSION} from '../../database/migrations';
+import {ZellerCustomer} from '../../types';
+
+describe('BackupService', () => {
+  const dbService = DatabaseService.getInstance();
+  let storage: NodeSqliteAdapter;
+
+  const ada: ZellerCustomer = {id: '1', name: 'Ada Lovelace', email: 'ada@example.com', role: 'Admin'};
+  const grace: ZellerCustomer = {id: '2', name: 'Grace Hopper', email: 'grace@example.com', role: 'Manager'};
+  const alan: ZellerCustomer = {id: '3', name: 'Alan Turing', email: 'alan@example.com', role: 'Manager'};
+
+  // Offline work that only this device has
+  const createLocalState = async () => {
+    await dbService.insertCustomers([ada, grace, alan], 'sync');
+    await dbService.updateCustomer({...grace, name: 'Grace B. Hopper'});
+    await dbService.enqueueOutboxEntry('update', {...grace, name: 'Grace B. Hopper'});
+    await dbService.deleteCustomer(alan.id);
+    await dbService.addPendingDeletion(ada, 5000);
+  };
+
+  const withoutExportTime = ({exportedAt: _exportedAt, ...snapshot}: any) => snapshot;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    storage = new NodeSqliteAdapter();
+    dbService.setStorageAdapter(storage);
+    // These tests delete the only Admin
+    dbService.setMinimumAdmins(0);
+    await dbService.initDatabase('backup.db');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await dbService.closeDatabase();
+    storage.dispose();
+  });
+
+  it('should bring back unsynced work on a fresh install', async () => {
+    await createLocalState();
+    const exported = await BackupService.exportToJson();
+    const snapshot = JSON.parse(exported);
+    expect(snapshot).toMatchObject({
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion: LATEST_SCHEMA_VERSION,
+    });
+    expect(snapshot.customers.find((c: any) => c.id === alan.id).deletedAt).toEqual(
+      expect.any(Number),
+    );
+
+    await dbService.closeDatabase();
+    storage.dispose();
+    await dbService.initDatabase('backup.db');
+    const report = await BackupService.importSnapshot(exported, 'replace');
+
+    expect(report).toMatchObject({inserted: 3, replaced: 0, outboxEntries: 1, pendingDeletions: 1});
+    expect(withoutExportTime(await BackupService.exportSnapshot())).toEqual(
+      withoutExportTime(snapshot),
+    );
+    expect(await dbService.getLocalChangeTimes()).toHaveProperty(grace.id);
+    const events = await dbService.getCustomerEvents({customerId: grace.id});
+    expect(events.map(event => [event.type, event.source])).toEqual([['create', 'import']]);
+  });
+
+  it('should leave out customers the backup does not have when replacing', async () => {
+    await dbService.insertCustomer(ada);
+    const snapshot = await BackupService.exportSnapshot();
+    await dbService.insertCustomer(grace);
+    await dbService.enqueueOutboxEntry('create', grace);
+
+    const report = await BackupService.importSnapshot(snapshot, 'replace');
+
+    expect(report).toMatchObject({mode: 'replace', removed: 1, replaced: 1});
+    expect(await dbService.getAllCustomers()).toEqual([ada]);
+    expect(await dbService.getOutboxEntries()).toEqual([]);
+    const events = await dbService.getCustomerEvents({customerId: grace.id});
+    expect(events[0]).toMatchObject({type: 'purge', source: 'import'});
+  });
+
+  it('should merge by id, normalizing and checking rows like insertCustomers', async () => {
+    await createLocalState();
+    const snapshot = await BackupService.exportSnapshot();
+    await dbService.insertCustomer({id: '4', name: 'Edsger Dijkstra', email: 'ed@example.com', role: 'Manager'});
+    snapshot.customers = [
+      {...ada, role: 'administrator' as any, deletedAt: null, localUpdatedAt: null},
+      {...grace, name: '', deletedAt: null, localUpdatedAt: null},
+    ];
+
+    const report = await BackupService.importSnapshot(snapshot, 'merge');
+    const again = await BackupService.importSnapshot(snapshot, 'merge');
+
+    expect(report).toMatchObject({mode: 'merge', replaced: 1, rejected: 1, outboxEntries: 0});
+    expect(report.rejections[0].reason).toBe('Missing name');
+    expect(again.outboxEntries).toBe(0);
+    expect((await dbService.getAllCustomers()).map(c => c.id)).toEqual(['1', '4', '2']);
+    expect((await dbService.getAllCustomers())[0].role).toBe('Admin');
+    expect(await dbService.getOutboxEntries()).toHaveLength(1);
+  });
+
+  it('should add roles the backup has and this catalog lacks', async () => {
+    const staff = {name: 'Staff', label: 'Staff', rank: 0, aliases: []};
+    await dbService.replaceRoles([...dbService.getRoles(), staff]);
+    await dbService.insertCustomers([ada, {...alan, role: 'Staff'}]);
+    const exported = await BackupService.exportToJson();
+
+    await dbService.closeDatabase();
+    storage.dispose();
+    await dbService.initDatabase('backup.db');
+    await BackupService.importSnapshot(exported, 'merge');
+
+    expect(dbService.getRoles().map(role => role.name)).toEqual(['Admin', 'Manager', 'Staff']);
+    expect(await dbService.getAllCustomers()).toEqual([ada, {...alan, role: 'Staff'}]);
+  });
+
+  it('should refuse damaged or newer backups before writing anything', async () => {
+    await dbService.insertCustomer(ada);
+    const snapshot = await BackupService.exportSnapshot();
+    const importing = (input: unknown) => BackupService.importSnapshot(input, 'replace');
+
+    await expect(importing('{"formatVersion": 1')).rejects.toThrow('not valid JSON');
+    await expect(importing({customers: []})).rejects.toThrow('not a customer backup');
+    await expect(
+      importing({...snapshot, formatVersion: BACKUP_FORMAT_VERSION + 1}),
+    ).rejects.toThrow('newer version of the app');
+    await expect(
+      importing({...snapshot, schemaVersion: LATEST_SCHEMA_VERSION + 1}),
+    ).rejects.toThrow('newer version of the app');
+    await expect(
+      importing({
+        ...snapshot,
+        customers: [{...grace, deletedAt: 'yesterday'}],
+        outbox: [{operation: 'rename'}],
+      }),
+    ).rejects.toMatchObject({
+      name: 'InputValidationError',
+      message: expect.stringContaining('customers[0] deletedAt must be a timestamp; outbox[0]'),
+    });
+
+    expect(await dbService.getAllCustomers()).toEqual([ada]);
+  });
+});
@@ -0,0 +1,109 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {ENVIRONMENT_STORAGE_KEY, EnvironmentService} from '../EnvironmentService';
+import {DatabaseService} from '../../database/DatabaseService';
+import {GraphQLService} from '../GraphQLService';
+import {EnvironmentConfigError} from '../../config/environment';
+
+jest.mock('../../database/DatabaseService');
+jest.mock('../GraphQLService');
+
+const mockDatabaseService = {
+  setMinimumAdmins: jest.fn(),
+  initDatabase: jest.fn(),
+  purgeDeletedCustomers: jest.fn(),
+  rotateDatabaseKey: jest.fn(),
+};
+
+const mockedGraphQLService = GraphQLService as jest.Mocked<typeof GraphQLService>;
+
+describe('EnvironmentService', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    (DatabaseService.getInstance as jest.Mock).mockReturnValue(mockDatabaseService);
+    await AsyncStorage.clear();
+  });
+
+  it('should start in dev with the original database', async () => {
+    const config = await EnvironmentService.initialize();
+
+    expect(config.name).toBe('dev');
+    expect(mockedGraphQLService.configure).toHaveBeenCalledWith(config);
+    expect(mockDatabaseService.initDatabase).toHaveBeenCalledWith(
+      'ZellerCustomers.db',
+    );
+    expect(EnvironmentService.getActive()).toBe(config);
+  });
+
+  it('should reopen the environment saved in settings', async () => {
+    await AsyncStorage.setItem(ENVIRONMENT_STORAGE_KEY, 'mock');
+
+    const config = await EnvironmentService.initialize();
+
+    expect(config.name).toBe('mock');
+    expect(mockDatabaseService.initDatabase).toHaveBeenCalledWith(
+      'ZellerCustomers-mock.db',
+    );
+  });
+
+  it('should fall back when the saved environment is not configured', async () => {
+    await AsyncStorage.setItem(ENVIRONMENT_STORAGE_KEY, 'prod');
+
+    const config = await EnvironmentService.initialize();
+
+    expect(config.name).toBe('dev');
+  });
+
+  it('should reconfigure and remember the choice when switching', async () => {
+    await EnvironmentService.switchTo('mock');
+
+    expect(mockedGraphQLService.configure).toHaveBeenCalledWith(
+      expect.objectContaining({name: 'mock'}),
+    );
+    expect(await AsyncStorage.getItem(ENVIRONMENT_STORAGE_KEY)).toBe('mock');
+  });
+
+  it('should purge customers past the trash retention period', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(40 * 24 * 60 * 60 * 1000);
+
+    await EnvironmentService.switchTo('mock');
+    now.mockRestore();
+
+    expect(mockDatabaseService.purgeDeletedCustomers).toHaveBeenCalledWith(
+      10 * 24 * 60 * 60 * 1000,
+    );
+  });
+
+  it('should start even when the database key cannot be rotated', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(100 * 24 * 60 * 60 * 1000);
+    mockDatabaseService.rotateDatabaseKey.mockRejectedValueOnce(new Error('keychain locked'));
+
+    await EnvironmentService.switchTo('mock');
+    now.mockRestore();
+
+    expect(mockDatabaseService.rotateDatabaseKey).toHaveBeenCalledWith(
+      10 * 24 * 60 * 60 * 1000,
+    );
+    expect(EnvironmentService.getActive()?.name).toBe('mock');
+  });
+
+  it('should refuse to switch to an unconfigured environment', async () => {
+    await expect(EnvironmentService.switchTo('staging')).rejects.toThrow(
+      EnvironmentConfigError,
+    );
+    expect(mockedGraphQLService.configure).not.toHaveBeenCalled();
+    expect(await AsyncStorage.getItem(ENVIRONMENT_STORAGE_KEY)).toBeNull();
+  });
+
+  it('should list every environment with its problems', () => {
+    const options = EnvironmentService.getOptions();
+
+    expect(options.map(option => option.config.name)).toEqual([
+      'dev',
+      'staging',
+      'prod',
+      'mock',
+    ]);
+    expect(options[1].problems).toContain('GraphQL endpoint is not set');
+  });
+});
@@ -0,0 +1,95 @@
+import {apolloClient, GraphQLService} from '../GraphQLService';
+import {ZellerCustomer, ZellerCustomerConnection} from '../../types';
+
+const customer = (id: string): ZellerCustomer => ({
+  id,
+  name: `Customer ${id}`,
+  email: `customer${id}@example.com`,
+  role: 'Manager',
+});
+
+// Serves `pages` in order, linking each to the next through nextToken
+const servePages = (pages: ZellerCustomer[][]) =>
+  jest.fn(async ({variables}: any) => {
+    const index = variables?.nextToken ? Number(variables.nextToken) : 0;
+    const connection: ZellerCustomerConnection = {
+      items: pages[index],
+      nextToken: index + 1 < pages.length ? String(index + 1) : null,
+    };
+    return {data: {listZellerCustomers: connection}};
+  });
+
+describe('GraphQLService pagination', () => {
+  const pages = [[customer('1'), customer('2')], [customer('3')], [customer('4')]];
+  let query: jest.Mock;
+
+  beforeEach(() => {
+    query = servePages(pages);
+    (apolloClient as any).query = query;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should follow nextToken through every page', async () => {
+    const result = await GraphQLService.fetchAllCustomers({pageSize: 2});
+
+    expect(result.items.map(c => c.id)).toEqual(['1', '2', '3', '4']);
+    expect(result.nextToken).toBeNull();
+    expect(query).toHaveBeenCalledTimes(3);
+    expect(query.mock.calls[1][0].variables).toEqual(
+      expect.objectContaining({limit: 2, nextToken: '1'}),
+    );
+  });
+
+  it('should stop at maxPages and return the token to continue from', async () => {
+    const result = await GraphQLService.fetchAllCustomers({maxPages: 2});
+
+    expect(result.items.map(c => c.id)).toEqual(['1', '2', '3']);
+    expect(result.nextToken).toBe('2');
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it('should yield pages one at a time', async () => {
+    const seen: string[][] = [];
+    for await (const page of GraphQLService.iterateCustomerPages()) {
+      seen.push(page.items.map(c => c.id));
+    }
+
+    expect(seen).toEqual([['1', '2'], ['3'], ['4']]);
+  });
+
+  it('should stop requesting pages once cancelled', async () => {
+    const controller = new AbortController();
+    const iterator = GraphQLService.iterateCustomerPages({
+      signal: controller.signal,
+    });
+
+    await iterator.next();
+    controller.abort();
+
+    await expect(iterator.next()).rejects.toMatchObject({name: 'AbortError'});
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass the signal through to the request', async () => {
+    const controller = new AbortController();
+    await GraphQLService.fetchCustomerPage({}, controller.signal);
+
+    expect(query.mock.calls[0][0].context).toEqual({
+      fetchOptions: {signal: controller.signal},
+    });
+  });
+
+  it('should fail instead of looping on a repeated nextToken', async () => {
+    query.mockResolvedValue({
+      data: {listZellerCustomers: {items: [customer('1')], nextToken: 'same'}},
+    });
+
+    await expect(GraphQLService.fetchAllCustomers()).rejects.toThrow(
+      'repeated nextToken',
+    );
+  });
+});
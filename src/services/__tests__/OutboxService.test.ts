@@ -0,0 +1,190 @@
+import {OutboxService, isPermanentFailure} from '../OutboxService';
+import {DatabaseService} from '../../database/DatabaseService';
+import {GraphQLService} from '../GraphQLService';
+import {OutboxEntry} from '../../types';
+import {getRetryDelay} from '../../utils/backoff';
+
+jest.mock('../../database/DatabaseService');
+jest.mock('../GraphQLService');
+
+const mockDatabaseService = {
+  getOutboxEntries: jest.fn(),
+  deleteOutboxEntry: jest.fn(),
+  markOutboxEntryFailed: jest.fn(),
+  moveOutboxEntryToDeadLetter: jest.fn(),
+  requeueOutboxEntry: jest.fn(),
+  replaceCustomerId: jest.fn(),
+  getSyncConflicts: jest.fn(),
+};
+
+const mockedGraphQLService = GraphQLService as jest.Mocked<typeof GraphQLService>;
+
+const createEntry = (overrides: Partial<OutboxEntry>): OutboxEntry => ({
+  id: 1,
+  operation: 'update',
+  customerId: 'c1',
+  payload: {id: 'c1', name: 'John Doe', email: 'john@example.com', role: 'Admin'},
+  status: 'pending',
+  attempts: 0,
+  nextAttemptAt: 0,
+  lastError: null,
+  createdAt: 0,
+  ...overrides,
+});
+
+const networkError = () => new TypeError('Network request failed');
+
+describe('OutboxService', () => {
+  const now = 1_000_000;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (DatabaseService.getInstance as jest.Mock).mockReturnValue(mockDatabaseService);
+    mockDatabaseService.getSyncConflicts.mockResolvedValue([]);
+    jest.spyOn(console, 'error').mockImplementation(jest.fn());
+  });
+
+  it('should replay entries in order and remove them once sent', async () => {
+    const calls: string[] = [];
+    mockDatabaseService.getOutboxEntries.mockResolvedValue([
+      createEntry({id: 1, operation: 'update'}),
+      createEntry({id: 2, operation: 'delete'}),
+    ]);
+    mockedGraphQLService.updateCustomer.mockImplementation(async customer => {
+      calls.push('update');
+      return customer;
+    });
+    mockedGraphQLService.deleteCustomer.mockImplementation(async id => {
+      calls.push('delete');
+      return id;
+    });
+
+    const result = await OutboxService.replay(now);
+
+    expect(calls).toEqual(['update', 'delete']);
+    expect(mockDatabaseService.deleteOutboxEntry.mock.calls).toEqual([[1], [2]]);
+    expect(result).toMatchObject({sent: 2, remaining: 0, nextAttemptAt: null});
+  });
+
+  it('should back off and stop at the first retryable failure', async () => {
+    mockDatabaseService.getOutboxEntries.mockResolvedValue([
+      createEntry({id: 1, attempts: 2}),
+      createEntry({id: 2}),
+    ]);
+    mockedGraphQLService.updateCustomer.mockRejectedValue(networkError());
+
+    const result = await OutboxService.replay(now);
+
+    expect(mockDatabaseService.markOutboxEntryFailed).toHaveBeenCalledWith(
+      1,
+      'Network request failed',
+      now + getRetryDelay(3),
+    );
+    expect(mockedGraphQLService.updateCustomer).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({sent: 0, remaining: 2});
+  });
+
+  it('should not send entries that are still backing off', async () => {
+    mockDatabaseService.getOutboxEntries.mockResolvedValue([
+      createEntry({id: 1, nextAttemptAt: now + 5000}),
+    ]);
+
+    const result = await OutboxService.replay(now);
+
+    expect(mockedGraphQLService.updateCustomer).not.toHaveBeenCalled();
+    expect(result.nextAttemptAt).toBe(now + 5000);
+  });
+
+  it('should dead-letter permanent failures and keep replaying', async () => {
+    const rejected = Object.assign(new Error('Invalid input'), {
+      name: 'CombinedGraphQLErrors',
+    });
+    mockDatabaseService.getOutboxEntries.mockResolvedValue([
+      createEntry({id: 1, operation: 'update'}),
+      createEntry({id: 2, operation: 'delete'}),
+    ]);
+    mockedGraphQLService.updateCustomer.mockRejectedValue(rejected);
+    mockedGraphQLService.deleteCustomer.mockResolvedValue('c1');
+
+    const result = await OutboxService.replay(now);
+
+    expect(mockDatabaseService.moveOutboxEntryToDeadLetter).toHaveBeenCalledWith(
+      1,
+      'Invalid input',
+    );
+    expect(mockDatabaseService.deleteOutboxEntry).toHaveBeenCalledWith(2);
+    expect(result).toMatchObject({sent: 1, deadLettered: 1});
+  });
+
+  it('should carry server-assigned ids into later entries', async () => {
+    mockDatabaseService.getOutboxEntries.mockResolvedValue([
+      createEntry({
+        id: 1,
+        operation: 'create',
+        customerId: 'local-1',
+        payload: {
+          id: 'local-1',
+          name: 'New User',
+          email: 'new@example.com',
+          role: 'Manager',
+        },
+      }),
+      createEntry({
+        id: 2,
+        operation: 'update',
+        customerId: 'local-1',
+        payload: {
+          id: 'local-1',
+          name: 'New Name',
+          email: 'new@example.com',
+          role: 'Manager',
+        },
+      }),
+    ]);
+    mockedGraphQLService.createCustomer.mockImplementation(async input => ({
+      id: 'server-1',
+      ...input,
+    }));
+    mockedGraphQLService.updateCustomer.mockImplementation(async customer => customer);
+
+    const result = await OutboxService.replay(now);
+
+    expect(mockDatabaseService.replaceCustomerId).toHaveBeenCalledWith(
+      'local-1',
+      'server-1',
+    );
+    expect(mockedGraphQLService.updateCustomer).toHaveBeenCalledWith(
+      expect.objectContaining({id: 'server-1', name: 'New Name'}),
+    );
+    expect(result.idChanges).toEqual({'local-1': 'server-1'});
+  });
+
+  it('should hold back changes to customers with an open sync conflict', async () => {
+    mockDatabaseService.getOutboxEntries.mockResolvedValue([
+      createEntry({id: 1, customerId: 'c1'}),
+    ]);
+    mockDatabaseService.getSyncConflicts.mockResolvedValue([
+      {customerId: 'c1', local: null, server: null, detectedAt: 0},
+    ]);
+
+    const result = await OutboxService.replay(now);
+
+    expect(mockedGraphQLService.updateCustomer).not.toHaveBeenCalled();
+    expect(result.sent).toBe(0);
+  });
+
+  describe('isPermanentFailure', () => {
+    it('should treat network failures and throttling as retryable', () => {
+      expect(isPermanentFailure(networkError())).toBe(false);
+      expect(isPermanentFailure({name: 'ServerError', statusCode: 429})).toBe(false);
+      expect(isPermanentFailure({name: 'ServerError', statusCode: 503})).toBe(false);
+    });
+
+    it('should treat rejected requests as permanent', () => {
+      expect(isPermanentFailure({name: 'ServerError', statusCode: 400})).toBe(true);
+      expect(
+        isPermanentFailure(new Error('Failed to update customer - no data returned')),
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import {RoleCatalogService} from '../RoleCatalogService';
+import {DatabaseService} from '../../database/DatabaseService';
+import {NodeSqliteAdapter} from '../../database/adapters/NodeSqliteAdapter';
+import {DEFAULT_ROLES} from '../../utils/roles';
+
+describe('RoleCatalogService', () => {
+  const dbService = DatabaseService.getInstance();
+  let storage: NodeSqliteAdapter;
+
+  beforeEach(async () => {
+    storage = new NodeSqliteAdapter();
+    dbService.setStorageAdapter(storage);
+    await dbService.initDatabase('roles.db');
+  });
+
+  afterEach(async () => {
+    await dbService.closeDatabase();
+    storage.dispose();
+  });
+
+  it('should replace the catalog with the server one, filling in what it left out', async () => {
+    const roles = await RoleCatalogService.refreshFromServer(async () => [
+      {name: 'Owner'},
+      {name: ' Admin ', label: 'Administrator', rank: null, aliases: ['administrator', null]},
+      {name: ''},
+      {name: 'Owner', label: 'Duplicate'},
+      {name: 'Staff', rank: 0},
+    ]);
+
+    expect(roles).toEqual([
+      {name: 'Owner', label: 'Owner', rank: 5, aliases: []},
+      {name: 'Admin', label: 'Administrator', rank: 4, aliases: ['administrator']},
+      {name: 'Staff', label: 'Staff', rank: 0, aliases: []},
+    ]);
+    expect(dbService.getRoles()).toEqual(roles);
+  });
+
+  it('should keep roles customers still hold and never empty the catalog', async () => {
+    await dbService.insertCustomer({
+      id: '1',
+      name: 'Grace Hopper',
+      email: 'grace@example.com',
+      role: 'Manager',
+    });
+
+    await RoleCatalogService.refreshFromServer(async () => [{name: 'Owner', rank: 3}]);
+    expect(dbService.getRoles().map(role => role.name)).toEqual(['Owner', 'Manager']);
+
+    await expect(RoleCatalogService.refreshFromServer(async () => [])).rejects.toThrow(
+      'The server listed no roles',
+    );
+    expect(dbService.getRoles().map(role => role.name)).toEqual(['Owner', 'Manager']);
+  });
+
+  it('should start from the default catalog', () => {
+    expect(dbService.getRoles()).toEqual(DEFAULT_ROLES);
+  });
+});
@@ -0,0 +1,370 @@
+import {RemoteCustomerSource, SyncService} from '../SyncService';
+import {DatabaseService} from '../../database/DatabaseService';
+import {
+  SyncChangeSet,
+  SyncStateRecord,
+  ZellerCustomer,
+} from '../../types';
+import {DEFAULT_ROLES} from '../../utils/roles';
+
+jest.mock('../../database/DatabaseService');
+jest.mock('../GraphQLService');
+
+const mockDatabaseService = {
+  normalizeCustomer: jest.fn((customer: ZellerCustomer) => ({
+    id: customer.id,
+    name: customer.name,
+    email: customer.email,
+    role: customer.role,
+  })),
+  getAllCustomers: jest.fn(),
+  getSyncState: jest.fn(),
+  getLocalChangeTimes: jest.fn(),
+  getSyncConflicts: jest.fn(),
+  getQuarantinedCustomers: jest.fn(),
+  getRoles: jest.fn(() => DEFAULT_ROLES),
+  getCustomerCount: jest.fn(),
+  applySyncChanges: jest.fn(),
+  setMetadata: jest.fn(),
+};
+
+// Stands in for the AppSync endpoint with a fixed list of customers
+const createSource = (customers: ZellerCustomer[]): RemoteCustomerSource => ({
+  fetchCustomers: jest.fn(async () => customers),
+});
+
+const john: ZellerCustomer = {
+  id: '1',
+  name: 'John Doe',
+  email: 'john@example.com',
+  role: 'Admin',
+};
+const jane: ZellerCustomer = {
+  id: '2',
+  name: 'Jane Smith',
+  email: 'jane@example.com',
+  role: 'Manager',
+};
+
+const snapshotOf = (customer: ZellerCustomer, syncedAt = 100): SyncStateRecord => ({
+  customerId: customer.id,
+  serverSnapshot: customer,
+  syncedAt,
+  localDeletedAt: null,
+});
+
+const appliedChanges = (): SyncChangeSet =>
+  mockDatabaseService.applySyncChanges.mock.calls[0][0];
+
+describe('SyncService', () => {
+  const now = () => 5000;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (DatabaseService.getInstance as jest.Mock).mockReturnValue(mockDatabaseService);
+    mockDatabaseService.getAllCustomers.mockResolvedValue([]);
+    mockDatabaseService.getSyncState.mockResolvedValue({});
+    mockDatabaseService.getLocalChangeTimes.mockResolvedValue({});
+    mockDatabaseService.getSyncConflicts.mockResolvedValue([]);
+    mockDatabaseService.getQuarantinedCustomers.mockResolvedValue([]);
+    mockDatabaseService.getCustomerCount.mockResolvedValue(0);
+  });
+
+  it('should add server customers that are missing locally', async () => {
+    const result = await SyncService.syncCustomers({
+      source: createSource([john, jane]),
+      now,
+    });
+
+    expect(result).toMatchObject({added: 2, updated: 0, deleted: 0});
+    expect(appliedChanges().upserts).toEqual([john, jane]);
+    expect(appliedChanges().snapshots).toEqual([john, jane]);
+    expect(mockDatabaseService.setMetadata).toHaveBeenCalledWith(
+      'customers.lastSyncedAt',
+      '5000',
+    );
+  });
+
+  it('should apply server updates and deletes to unchanged local rows', async () => {
+    const renamed = {...john, name: 'Johnny Doe'};
+    mockDatabaseService.getAllCustomers.mockResolvedValue([john, jane]);
+    mockDatabaseService.getSyncState.mockResolvedValue({
+      '1': snapshotOf(john),
+      '2': snapshotOf(jane),
+    });
+
+    const result = await SyncService.syncCustomers({
+      source: createSource([renamed]),
+      now,
+    });
+
+    expect(result).toMatchObject({updated: 1, deleted: 1});
+    expect(appliedChanges().upserts).toEqual([renamed]);
+    expect(appliedChanges().deletes).toEqual(['2']);
+  });
+
+  it('should keep customers created locally that the server has not seen', async () => {
+    mockDatabaseService.getAllCustomers.mockResolvedValue([john]);
+    mockDatabaseService.getLocalChangeTimes.mockResolvedValue({'1': 10});
+
+    const result = await SyncService.syncCustomers({source: createSource([]), now});
+
+    expect(result.deleted).toBe(0);
+    expect(appliedChanges().deletes).toEqual([]);
+  });
+
+  it('should leave local-only edits for the outbox to push', async () => {
+    const edited = {...john, role: 'Manager' as const};
+    mockDatabaseService.getAllCustomers.mockResolvedValue([edited]);
+    mockDatabaseService.getSyncState.mockResolvedValue({'1': snapshotOf(john)});
+    mockDatabaseService.getLocalChangeTimes.mockResolvedValue({'1': 200});
+
+    await SyncService.syncCustomers({source: createSource([john]), now});
+
+    expect(appliedChanges().upserts).toEqual([]);
+    expect(appliedChanges().conflicts).toEqual([]);
+  });
+
+  describe('quarantine', () => {
+    const unnamed = {...jane, name: null} as unknown as ZellerCustomer;
+    const owner = {...john, role: 'Owner'};
+
+    it('should hold back invalid records as sent and keep their local copies', async () => {
+      mockDatabaseService.getAllCustomers.mockResolvedValue([john, jane]);
+      mockDatabaseService.getSyncState.mockResolvedValue({
+        '1': snapshotOf(john),
+        '2': snapshotOf(jane),
+      });
+
+      const result = await SyncService.syncCustomers({
+        source: createSource([owner, unnamed]),
+        now,
+      });
+
+      expect(result).toMatchObject({updated: 0, deleted: 0, quarantined: 2});
+      expect(appliedChanges()).toMatchObject({upserts: [], deletes: [], forgotten: []});
+      expect(appliedChanges().quarantined).toEqual([
+        {customerId: '1', raw: owner, reasons: ['unknown-role'], receivedAt: 5000},
+        {customerId: '2', raw: unnamed, reasons: ['missing-name'], receivedAt: 5000},
+      ]);
+    });
+
+    it('should let a local edit replace an invalid record', async () => {
+      mockDatabaseService.getAllCustomers.mockResolvedValue([john]);
+      mockDatabaseService.getSyncState.mockResolvedValue({'1': snapshotOf(john)});
+      mockDatabaseService.getLocalChangeTimes.mockResolvedValue({'1': 200});
+
+      await SyncService.syncCustomers({source: createSource([owner]), now});
+
+      expect(appliedChanges().quarantined).toEqual([]);
+      expect(appliedChanges().deletes).toEqual([]);
+    });
+
+    it('should release records the server has since fixed', async () => {
+      mockDatabaseService.getQuarantinedCustomers.mockResolvedValue([
+        {customerId: '1', raw: owner, reasons: ['unknown-role'], receivedAt: 100},
+      ]);
+
+      const result = await SyncService.syncCustomers({source: createSource([john]), now});
+
+      expect(result.added).toBe(1);
+      expect(appliedChanges()).toMatchObject({released: ['1'], quarantined: []});
+    });
+
+    it('should quarantine invalid records from a subscription', async () => {
+      const applied = await SyncService.applyRemoteChange(
+        {type: 'update', customer: {...john, email: '  '}},
+        now,
+      );
+
+      expect(applied).toBe(true);
+      expect(appliedChanges()).toMatchObject({
+        upserts: [],
+        quarantined: [{customerId: '1', reasons: ['missing-email']}],
+      });
+    });
+  });
+
+  describe('conflicts', () => {
+    const localEdit = {...john, name: 'Local Name'};
+    const serverEdit = {...john, name: 'Server Name'};
+
+    beforeEach(() => {
+      mockDatabaseService.getAllCustomers.mockResolvedValue([localEdit]);
+      mockDatabaseService.getSyncState.mockResolvedValue({'1': snapshotOf(john)});
+      mockDatabaseService.getLocalChangeTimes.mockResolvedValue({'1': 4000});
+    });
+
+    it('should replace the local change under server-wins', async () => {
+      await SyncService.syncCustomers({
+        policy: 'server-wins',
+        source: createSource([serverEdit]),
+        now,
+      });
+
+      expect(appliedChanges().upserts).toEqual([serverEdit]);
+      expect(appliedChanges().discardOutbox).toEqual(['1']);
+    });
+
+    it('should let a server change seen after the local edit win under last-writer-wins', async () => {
+      await SyncService.syncCustomers({
+        policy: 'last-writer-wins',
+        source: createSource([serverEdit]),
+        now,
+      });
+
+      expect(appliedChanges().upserts).toEqual([serverEdit]);
+    });
+
+    it('should keep a local edit made after the server change under last-writer-wins', async () => {
+      mockDatabaseService.getSyncConflicts.mockResolvedValue([
+        {customerId: '1', local: john, server: serverEdit, detectedAt: 3000},
+      ]);
+
+      const result = await SyncService.syncCustomers({
+        policy: 'last-writer-wins',
+        source: createSource([serverEdit]),
+        now,
+      });
+
+      expect(result).toMatchObject({updated: 0, conflicts: []});
+      expect(appliedChanges()).toMatchObject({
+        upserts: [],
+        snapshots: [serverEdit],
+        discardOutbox: [],
+        resolvedConflicts: ['1'],
+      });
+    });
+
+    it('should date a server change it has seen before from the open conflict', async () => {
+      mockDatabaseService.getSyncConflicts.mockResolvedValue([
+        {customerId: '1', local: john, server: serverEdit, detectedAt: 3000},
+      ]);
+
+      const result = await SyncService.syncCustomers({
+        policy: 'manual',
+        source: createSource([serverEdit]),
+        now,
+      });
+
+      expect(result.conflicts).toEqual([
+        {customerId: '1', local: localEdit, server: serverEdit, detectedAt: 3000},
+      ]);
+    });
+
+    it('should record the conflict under manual', async () => {
+      const result = await SyncService.syncCustomers({
+        policy: 'manual',
+        source: createSource([serverEdit]),
+        now,
+      });
+
+      const expected = {
+        customerId: '1',
+        local: localEdit,
+        server: serverEdit,
+        detectedAt: 5000,
+      };
+      expect(result.conflicts).toEqual([expected]);
+      expect(appliedChanges().conflicts).toEqual([expected]);
+      expect(appliedChanges().upserts).toEqual([]);
+    });
+  });
+
+  describe('first sync', () => {
+    const createPagedSource = (pages: ZellerCustomer[][]) => ({
+      fetchCustomers: jest.fn(),
+      fetchCustomerPages: jest.fn(async function* () {
+        yield* pages;
+      }),
+    });
+
+    it('should write each page to an empty database as it arrives', async () => {
+      const source = createPagedSource([[john], [jane]]);
+
+      const result = await SyncService.syncCustomers({source, now});
+
+      expect(result.added).toBe(2);
+      expect(source.fetchCustomers).not.toHaveBeenCalled();
+      expect(mockDatabaseService.applySyncChanges).toHaveBeenCalledTimes(2);
+      expect(mockDatabaseService.applySyncChanges.mock.calls[1][0]).toMatchObject({
+        upserts: [jane],
+        snapshots: [jane],
+      });
+    });
+
+    it('should quarantine invalid records on each page', async () => {
+      const source = createPagedSource([[john, {...jane, role: 'Staff'}]]);
+
+      const result = await SyncService.syncCustomers({source, now});
+
+      expect(result).toMatchObject({added: 1, quarantined: 1});
+      expect(appliedChanges()).toMatchObject({
+        upserts: [john],
+        quarantined: [{customerId: '2', reasons: ['unknown-role']}],
+      });
+    });
+
+    it('should diff as usual once the database has customers', async () => {
+      mockDatabaseService.getCustomerCount.mockResolvedValue(1);
+      mockDatabaseService.getAllCustomers.mockResolvedValue([john]);
+      const source = createPagedSource([[john]]);
+      source.fetchCustomers.mockResolvedValue([john]);
+
+      await SyncService.syncCustomers({source, now});
+
+      expect(source.fetchCustomerPages).not.toHaveBeenCalled();
+      expect(source.fetchCustomers).toHaveBeenCalled();
+    });
+  });
+
+  it('should apply the chosen side when a conflict is resolved', async () => {
+    const serverEdit = {...john, name: 'Server Name'};
+    mockDatabaseService.getSyncConflicts.mockResolvedValue([
+      {customerId: '1', local: john, server: serverEdit, detectedAt: 1},
+    ]);
+
+    await SyncService.resolveConflict('1', 'use-server', now);
+
+    expect(appliedChanges()).toMatchObject({
+      upserts: [serverEdit],
+      discardOutbox: ['1'],
+      resolvedConflicts: ['1'],
+    });
+  });
+
+  describe('applyRemoteChange', () => {
+    it('should write a teammate update straight to the database', async () => {
+      const renamed = {...john, name: 'Johnny Doe'};
+
+      const applied = await SyncService.applyRemoteChange(
+        {type: 'update', customer: renamed},
+        now,
+      );
+
+      expect(applied).toBe(true);
+      expect(appliedChanges()).toMatchObject({
+        upserts: [renamed],
+        snapshots: [renamed],
+      });
+    });
+
+    it('should delete and forget a customer deleted elsewhere', async () => {
+      await SyncService.applyRemoteChange({type: 'delete', customer: john}, now);
+
+      expect(appliedChanges()).toMatchObject({deletes: ['1'], forgotten: ['1']});
+    });
+
+    it('should leave customers with local changes for a full sync', async () => {
+      mockDatabaseService.getLocalChangeTimes.mockResolvedValue({'1': 10});
+
+      const applied = await SyncService.applyRemoteChange(
+        {type: 'update', customer: john},
+        now,
+      );
+
+      expect(applied).toBe(false);
+      expect(mockDatabaseService.applySyncChanges).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  useCustomerStore,
+  CUSTOMER_PAGE_SIZE,
+  UNDO_DELETE_WINDOW_MS,
+} from '../customerStore';
+import {DatabaseService} from '../../database/DatabaseService';
+import {NodeSqliteAdapter} from '../../database/adapters/NodeSqliteAdapter';
+import {GraphQLService} from '../../services/GraphQLService';
+import {MockAppSyncServer} from '../../mock/MockAppSyncServer';
+import {ZellerCustomer} from '../../types';
+
+// Store -> SyncService -> GraphQLService -> Apollo -> mock AppSync, with
+// DatabaseService running real SQL in memory. Nothing is faked.
+jest.unmock('@apollo/client');
+
+const serverCustomers: ZellerCustomer[] = [
+  {id: '1', name: 'Ada Lovelace', email: 'ada@example.com', role: 'Admin'},
+  {id: '2', name: 'Grace Hopper', email: 'grace@example.com', role: 'Manager'},
+  {id: '3', name: 'Alan Turing', email: 'alan@example.com', role: 'Manager'},
+];
+
+describe('CustomerStore with the mock AppSync server', () => {
+  const dbService = DatabaseService.getInstance();
+  let server: MockAppSyncServer;
+  let storage: NodeSqliteAdapter;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    server = new MockAppSyncServer({customers: serverCustomers, defaultLimit: 2});
+    GraphQLService.connectToMockServer(server);
+    storage = new NodeSqliteAdapter();
+    dbService.setStorageAdapter(storage);
+    // These tests delete the only Admin
+    dbService.setMinimumAdmins(0);
+    await dbService.initDatabase('integration.db');
+    useCustomerStore.getState().resetForEnvironmentChange();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    useCustomerStore.getState().resetForEnvironmentChange();
+    await dbService.closeDatabase();
+    storage.dispose();
+  });
+
+  const customerIds = () =>
+    useCustomerStore.getState().customerWindows.All.customers.map(c => c.id);
+
+  it('should load every server customer on first launch', async () => {
+    await useCustomerStore.getState().loadCustomers();
+
+    // Sorted by name, as SQLite returns them
+    expect(customerIds()).toEqual(['1', '3', '2']);
+  });
+
+  it('should keep local data when the server errors', async () => {
+    await useCustomerStore.getState().loadCustomers();
+    server.failNext({type: 'http', status: 500});
+
+    await useCustomerStore.getState().refreshCustomers();
+
+    expect(customerIds()).toHaveLength(3);
+    expect(useCustomerStore.getState().error).toBeNull();
+  });
+
+  it('should not mistake a GraphQL error for an empty server', async () => {
+    await useCustomerStore.getState().loadCustomers();
+    server.failNext({type: 'graphql', message: 'Unauthorized', errorType: 'Unauthorized'});
+
+    await useCustomerStore.getState().refreshCustomers();
+
+    expect(customerIds()).toHaveLength(3);
+  });
+
+  it('should search the synced customers with full-text search', async () => {
+    await useCustomerStore.getState().loadCustomers();
+
+    useCustomerStore.getState().setSearchTerm('gra hop');
+    await useCustomerStore.getState().filterCustomers();
+
+    expect(customerIds()).toEqual(['2']);
+  });
+
+  it('should load further pages as the list scrolls', async () => {
+    server.reset([]);
+    const local = Array.from({length: CUSTOMER_PAGE_SIZE * 2 + 1}, (_, index) => ({
+      id: `local-${index}`,
+      name: `Customer ${String(index).padStart(3, '0')}`,
+      email: `customer${index}@example.com`,
+      role: 'Manager' as const,
+    }));
+    await dbService.insertCustomers(local);
+    await useCustomerStore.getState().loadCustomers();
+    expect(customerIds()).toHaveLength(CUSTOMER_PAGE_SIZE);
+
+    await useCustomerStore.getState().loadMoreCustomers('All');
+    await useCustomerStore.getState().loadMoreCustomers('All');
+
+    expect(customerIds()).toEqual(local.map(customer => customer.id));
+    expect(useCustomerStore.getState().customerWindows.All.hasMore).toBe(false);
+    expect(useCustomerStore.getState().customerWindows.Admin.customers).toEqual([]);
+  });
+
+  it('should follow local and server writes without reloading', async () => {
+    await useCustomerStore.getState().loadCustomers();
+    // Ada is the only Admin, so Alan's promotion needs no approval
+    await useCustomerStore
+      .getState()
+      .updateCustomer({...serverCustomers[2], role: 'Admin'});
+
+    await useCustomerStore.getState().setActingAdmin('1');
+    await useCustomerStore
+      .getState()
+      .addCustomer({name: 'Barbara Liskov', email: 'barbara@example.com', role: 'Admin'});
+    await useCustomerStore
+      .getState()
+      .updateCustomer({...serverCustomers[1], role: 'Admin'});
+    // Both promotions Ada asked for wait for Alan
+    const {roleRequests} = useCustomerStore.getState();
+    expect(roleRequests.map(request => request.customerName)).toEqual([
+      'Barbara Liskov',
+      'Grace Hopper',
+    ]);
+    await useCustomerStore.getState().setActingAdmin('3');
+    for (const request of roleRequests) {
+      await useCustomerStore.getState().approveRoleRequest(request.id);
+    }
+    // Live queries read again once the writes commit
+    await new Promise<void>(resolve => setTimeout(() => resolve(), 0));
+
+    const {customerWindows} = useCustomerStore.getState();
+    expect(customerWindows.Admin.customers.map(c => c.name)).toEqual([
+      'Ada Lovelace',
+      'Alan Turing',
+      'Barbara Liskov',
+      'Grace Hopper',
+    ]);
+    expect(customerWindows.Manager.customers).toEqual([]);
+  });
+
+  it('should finish a deletion interrupted by the app closing', async () => {
+    jest.useFakeTimers({doNotFake: ['nextTick', 'setImmediate']});
+    await useCustomerStore.getState().loadCustomers();
+    await useCustomerStore.getState().deleteCustomer('1');
+    expect(customerIds()).not.toContain('1');
+
+    // The app is killed inside the undo window and launched again
+    useCustomerStore.getState().resetForEnvironmentChange();
+    await dbService.closeDatabase();
+    await dbService.initDatabase('integration.db');
+    await jest.advanceTimersByTimeAsync(UNDO_DELETE_WINDOW_MS);
+    await useCustomerStore.getState().loadCustomers();
+
+    expect(customerIds()).toEqual(['3', '2']);
+    expect((await dbService.getDeletedCustomers()).map(c => c.id)).toEqual(['1']);
+    expect(await dbService.getPendingDeletions()).toEqual([]);
+  });
+
+  it('should bring an undone deletion back without deleting it', async () => {
+    jest.useFakeTimers({doNotFake: ['nextTick', 'setImmediate']});
+    await useCustomerStore.getState().loadCustomers();
+
+    await useCustomerStore.getState().deleteCustomer('2');
+    await useCustomerStore.getState().undoDelete('2');
+    await jest.advanceTimersByTimeAsync(UNDO_DELETE_WINDOW_MS);
+
+    expect(customerIds()).toContain('2');
+    expect(await dbService.getDeletedCustomers()).toEqual([]);
+  });
+});
@@ -1,22 +1,48 @@
-import {useCustomerStore} from '../customerStore';
+import {useCustomerStore, UNDO_DELETE_WINDOW_MS} from '../customerStore';
 import {DatabaseService} from '../../database/DatabaseService';
 import {GraphQLService} from '../../services/GraphQLService';
-import {ZellerCustomer} from '../../types';
+import {SyncService} from '../../services/SyncService';
+import {RoleCatalogService} from '../../services/RoleCatalogService';
+import {LiveCustomerQueryOptions} from '../../database/LiveCustomerQuery';
+import {CustomerQueryScope, UserRole, ZellerCustomer} from '../../types';
+import {AppError, PolicyError, StorageError, toStorageError} from '../../errors/AppError';
+import {DEFAULT_ROLES} from '../../utils/roles';
 
 // Mock dependencies
 jest.mock('../../database/DatabaseService');
 jest.mock('../../services/GraphQLService');
+jest.mock('../../services/SyncService');
+jest.mock('../../services/RoleCatalogService');
 
 const mockDatabaseService = {
-  getAllCustomers: jest.fn(),
+  watchCustomers: jest.fn(),
   insertCustomers: jest.fn(),
   insertCustomer: jest.fn(),
   updateCustomer: jest.fn(),
   deleteCustomer: jest.fn(),
-  testDatabaseConnection: jest.fn(),
-  testInsertSingleCustomer: jest.fn(),
   getCustomerCount: jest.fn(),
-  recreateTableWithoutConstraint: jest.fn(),
+  addPendingDeletion: jest.fn(),
+  removePendingDeletion: jest.fn(),
+  getPendingDeletions: jest.fn(),
+  getDeletedCustomers: jest.fn(),
+  restoreCustomer: jest.fn(),
+  purgeCustomer: jest.fn(),
+  getRoles: jest.fn(),
+  resolveQuarantinedCustomer: jest.fn(),
+  getMinimumAdmins: jest.fn(),
+  getProtectedAdminIds: jest.fn(),
+  needsApproval: jest.fn(),
+  requestRoleChange: jest.fn(),
+  getRoleRequests: jest.fn(),
+  getAdmins: jest.fn(),
+  approveRoleRequest: jest.fn(),
+  getMetadata: jest.fn(),
+  setMetadata: jest.fn(),
+  getRoleGrants: jest.fn(),
+  revertExpiredGrants: jest.fn(),
+  getOutboxEntries: jest.fn(),
+  requeueOutboxEntry: jest.fn(),
+  deleteOutboxEntry: jest.fn(),
 };
 
 const mockGraphQLService = {
@@ -43,6 +69,50 @@ mockedGraphQLService.deleteCustomer.mockImplementation(
   mockGraphQLService.deleteCustomer
 );
 
+const mockedSyncService = SyncService as jest.Mocked<typeof SyncService>;
+const mockedRoleCatalogService = RoleCatalogService as jest.Mocked<typeof RoleCatalogService>;
+
+// Stands in for DatabaseService.watchCustomers over the stored rows, filtered
+// the way the SQL query would be. Storing new rows (or a failure) notifies
+// every open query, as a committed write would.
+let storedRows: ZellerCustomer[] | Error = [];
+const openQueries = new Set<() => void>();
+
+const mockStoredCustomers = (rows: ZellerCustomer[] | Error) => {
+  storedRows = rows;
+  openQueries.forEach(emit => emit());
+};
+
+const watchStoredCustomers = (
+  {role, searchTerm}: CustomerQueryScope,
+  {onResults, onError}: LiveCustomerQueryOptions,
+) => {
+  const emit = () => {
+    if (storedRows instanceof Error) {
+      onError(storedRows);
+      return;
+    }
+    onResults({
+      customers: storedRows.filter(
+        customer =>
+          (!role || customer.role === role) &&
+          (!searchTerm || customer.name.toLowerCase().includes(searchTerm.toLowerCase())),
+      ),
+      hasMore: false,
+    });
+  };
+  openQueries.add(emit);
+  emit();
+  return {
+    loadMore: jest.fn().mockResolvedValue(undefined),
+    settled: () => Promise.resolve(),
+    close: () => openQueries.delete(emit),
+  };
+};
+
+const loadedCustomers = (role: UserRole = 'All') =>
+  useCustomerStore.getState().customerWindows[role].customers;
+
 describe('CustomerStore', () => {
   const mockCustomers: ZellerCustomer[] = [
     {
@@ -62,9 +132,25 @@ describe('CustomerStore', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockedDatabaseService.mockReturnValue(mockDatabaseService);
-    mockDatabaseService.testDatabaseConnection.mockResolvedValue(true);
-    mockDatabaseService.testInsertSingleCustomer.mockResolvedValue(undefined);
     mockDatabaseService.getCustomerCount.mockResolvedValue(0);
+    mockDatabaseService.getPendingDeletions.mockResolvedValue([]);
+    mockDatabaseService.getRoles.mockReturnValue(DEFAULT_ROLES);
+    mockDatabaseService.getMinimumAdmins.mockReturnValue(1);
+    mockDatabaseService.getProtectedAdminIds.mockResolvedValue([]);
+    mockDatabaseService.needsApproval.mockResolvedValue(false);
+    mockDatabaseService.getRoleRequests.mockResolvedValue([]);
+    mockDatabaseService.getAdmins.mockResolvedValue([]);
+    mockDatabaseService.getMetadata.mockResolvedValue(null);
+    mockDatabaseService.getRoleGrants.mockResolvedValue([]);
+    mockDatabaseService.revertExpiredGrants.mockResolvedValue([]);
+    mockedGraphQLService.offersRoleCatalog.mockReturnValue(true);
+    mockedRoleCatalogService.refreshFromServer.mockResolvedValue(DEFAULT_ROLES);
+    mockDatabaseService.insertCustomers.mockResolvedValue({
+      inserted: 0,
+      replaced: 0,
+      rejected: 0,
+      rejections: [],
+    });
     mockGraphQLService.fetchAllCustomers.mockResolvedValue({items: []});
     mockGraphQLService.createCustomer.mockImplementation(async input => ({
       id: 'new-id',
@@ -72,56 +158,148 @@ describe('CustomerStore', () => {
     }));
     mockGraphQLService.updateCustomer.mockImplementation(async customer => customer);
     mockGraphQLService.deleteCustomer.mockResolvedValue('deleted-id');
+    mockedSyncService.syncCustomers.mockResolvedValue({
+      added: 0,
+      updated: 0,
+      deleted: 0,
+      conflicts: [],
+      quarantined: 0,
+    });
+    mockedSyncService.getConflicts.mockResolvedValue([]);
+    mockedSyncService.getQuarantinedCustomers.mockResolvedValue([]);
+    mockDatabaseService.watchCustomers.mockImplementation(watchStoredCustomers);
+    storedRows = [];
     // Reset store state
+    useCustomerStore.getState().resetForEnvironmentChange();
     useCustomerStore.setState({
-      customers: [],
-      filteredCustomers: [],
       loading: false,
       error: null,
       searchTerm: '',
+      sortOrder: 'name-asc',
       selectedRole: 'All',
       refreshing: false,
+      conflictPolicy: 'last-writer-wins',
+      syncConflicts: [],
+      pendingDeletions: [],
+      deletedCustomers: [],
     });
   });
 
   describe('loadCustomers', () => {
-    it('should load customers from database and GraphQL', async () => {
-      // First call (before seeding) returns empty, second call (after seeding) returns the seeded customers
-      mockDatabaseService.getAllCustomers
-        .mockResolvedValueOnce([])
-        .mockResolvedValueOnce(mockCustomers);
-      mockGraphQLService.fetchAllCustomers.mockResolvedValue({
-        items: mockCustomers,
-      });
+    it('should sync with the server and then load customers from the database', async () => {
+      mockStoredCustomers(mockCustomers);
+      useCustomerStore.setState({conflictPolicy: 'server-wins'});
 
       const store = useCustomerStore.getState();
       await store.loadCustomers();
 
-      expect(mockDatabaseService.getAllCustomers).toHaveBeenCalled();
-      expect(mockGraphQLService.fetchAllCustomers).toHaveBeenCalled();
-      expect(mockDatabaseService.insertCustomers).toHaveBeenCalledWith(mockCustomers);
-      expect(useCustomerStore.getState().customers).toEqual(mockCustomers);
+      expect(mockedSyncService.syncCustomers).toHaveBeenCalledWith({
+        policy: 'server-wins',
+      });
+      expect(mockDatabaseService.watchCustomers).toHaveBeenCalled();
+      expect(loadedCustomers()).toEqual(mockCustomers);
     });
 
     it('should handle network error gracefully', async () => {
       const localCustomers = [mockCustomers[0]];
-      mockDatabaseService.getAllCustomers.mockResolvedValue(localCustomers);
-      mockGraphQLService.fetchAllCustomers.mockRejectedValue(new Error('Network error'));
+      mockStoredCustomers(localCustomers);
+      mockedSyncService.syncCustomers.mockRejectedValue(new Error('Network error'));
 
       const store = useCustomerStore.getState();
       await store.loadCustomers();
 
-      expect(useCustomerStore.getState().customers).toEqual(localCustomers);
+      expect(loadedCustomers()).toEqual(localCustomers);
       expect(useCustomerStore.getState().error).toBeNull();
     });
 
+    it('should expose conflicts left for manual review', async () => {
+      const conflict = {
+        customerId: '1',
+        local: mockCustomers[0],
+        server: {...mockCustomers[0], role: 'Manager' as const},
+        detectedAt: 1,
+      };
+      mockStoredCustomers(mockCustomers);
+      mockedSyncService.getConflicts.mockResolvedValue([conflict]);
+
+      await useCustomerStore.getState().loadCustomers();
+
+      expect(useCustomerStore.getState().syncConflicts).toEqual([conflict]);
+    });
+
     it('should set error on database failure', async () => {
-      mockDatabaseService.getAllCustomers.mockRejectedValue(new Error('DB error'));
+      mockStoredCustomers(new Error('DB error'));
 
       const store = useCustomerStore.getState();
       await store.loadCustomers();
 
-      expect(useCustomerStore.getState().error).toBe('Failed to load customers');
+      const {error} = useCustomerStore.getState();
+      expect(error?.operation).toBe('load customers');
+      expect(error?.cause).toBeInstanceOf(AppError);
+      expect(error?.cause.message).toBe('DB error');
+    });
+
+    it('should offer a retry that loads again', async () => {
+      mockStoredCustomers(new Error('DB error'));
+      await useCustomerStore.getState().loadCustomers();
+
+      mockStoredCustomers(mockCustomers);
+      await useCustomerStore.getState().error?.retry?.();
+
+      expect(loadedCustomers()).toHaveLength(mockCustomers.length);
+    });
+
+    it('should give each role of the catalog a tab before syncing', async () => {
+      const staff = {name: 'Staff', label: 'Staff', rank: 0, aliases: []};
+      mockDatabaseService.getRoles.mockReturnValue([...DEFAULT_ROLES, staff]);
+      mockStoredCustomers([...mockCustomers, {...mockCustomers[0], id: '3', role: 'Staff'}]);
+
+      await useCustomerStore.getState().loadCustomers();
+
+      expect(mockedRoleCatalogService.refreshFromServer).toHaveBeenCalled();
+      expect(
+        mockedRoleCatalogService.refreshFromServer.mock.invocationCallOrder[0],
+      ).toBeLessThan(mockedSyncService.syncCustomers.mock.invocationCallOrder[0]);
+      expect(useCustomerStore.getState().roles).toEqual([...DEFAULT_ROLES, staff]);
+      expect(Object.keys(useCustomerStore.getState().customerWindows)).toEqual([
+        'All',
+        'Admin',
+        'Manager',
+        'Staff',
+      ]);
+      expect(loadedCustomers('Staff').map(customer => customer.id)).toEqual(['3']);
+    });
+
+    it('should keep the local roles when the server has none to give', async () => {
+      mockedRoleCatalogService.refreshFromServer.mockRejectedValue(new Error('Network error'));
+      mockStoredCustomers(mockCustomers);
+
+      await useCustomerStore.getState().loadCustomers();
+
+      expect(useCustomerStore.getState().roles).toEqual(DEFAULT_ROLES);
+      expect(loadedCustomers('Admin')).toHaveLength(1);
+    });
+
+    it('should not ask an endpoint without a role catalog for one', async () => {
+      mockedGraphQLService.offersRoleCatalog.mockReturnValue(false);
+      mockStoredCustomers(mockCustomers);
+
+      await useCustomerStore.getState().loadCustomers();
+
+      expect(mockedRoleCatalogService.refreshFromServer).not.toHaveBeenCalled();
+      expect(mockedSyncService.syncCustomers).toHaveBeenCalled();
+      expect(useCustomerStore.getState().roles).toEqual(DEFAULT_ROLES);
+    });
+
+    it('should not offer a retry that cannot help', async () => {
+      mockStoredCustomers(new StorageError('database disk image is malformed'));
+
+      await useCustomerStore.getState().loadCustomers();
+
+      expect(useCustomerStore.getState().error).toMatchObject({
+        cause: {kind: 'storage'},
+        retry: null,
+      });
     });
   });
 
@@ -133,14 +311,17 @@ describe('CustomerStore', () => {
         role: 'Manager' as const,
       };
 
-      mockDatabaseService.insertCustomer.mockResolvedValue(undefined);
+      mockDatabaseService.insertCustomer.mockImplementation(async customer => {
+        mockStoredCustomers([customer]);
+      });
 
       const store = useCustomerStore.getState();
+      await store.filterCustomers();
       await store.addCustomer(newCustomerData);
 
       expect(mockDatabaseService.insertCustomer).toHaveBeenCalled();
-      expect(useCustomerStore.getState().customers).toHaveLength(1);
-      expect(useCustomerStore.getState().customers[0]).toMatchObject(newCustomerData);
+      expect(loadedCustomers()).toHaveLength(1);
+      expect(loadedCustomers()[0]).toMatchObject(newCustomerData);
     });
 
     it('should handle add customer error', async () => {
@@ -150,72 +331,413 @@ describe('CustomerStore', () => {
         role: 'Manager' as const,
       };
 
-      mockDatabaseService.insertCustomer.mockRejectedValue(new Error('DB error'));
+      mockDatabaseService.insertCustomer.mockRejectedValue(
+        toStorageError(new Error('UNIQUE constraint failed: customers.id')),
+      );
 
       const store = useCustomerStore.getState();
-      
-      await expect(store.addCustomer(newCustomerData)).rejects.toThrow();
-      expect(useCustomerStore.getState().error).toBe('Failed to add customer');
+
+      // The caller (the form) explains the failure, not the store
+      await expect(store.addCustomer(newCustomerData)).rejects.toMatchObject({
+        kind: 'storage',
+        constraint: 'unique',
+        retryable: false,
+      });
+      expect(useCustomerStore.getState().error).toBeNull();
     });
   });
 
-  describe('filterCustomers', () => {
+  describe('deleteCustomer', () => {
     beforeEach(() => {
-      useCustomerStore.setState({
-        customers: mockCustomers,
+      jest.useFakeTimers();
+      mockStoredCustomers(mockCustomers);
+      return useCustomerStore.getState().filterCustomers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should refuse to delete the last Admin and say why', async () => {
+      mockDatabaseService.getProtectedAdminIds.mockResolvedValue(['1']);
+      await useCustomerStore.getState().loadProtectedAdmins();
+
+      await expect(useCustomerStore.getState().deleteCustomer('1')).rejects.toMatchObject({
+        kind: 'policy',
+        message: expect.stringContaining('John Doe is needed to keep at least one Admin'),
       });
+      await expect(
+        useCustomerStore.getState().updateCustomer({...mockCustomers[0], role: 'Manager'}),
+      ).rejects.toThrow(PolicyError);
+      expect(mockDatabaseService.addPendingDeletion).not.toHaveBeenCalled();
+      expect(mockDatabaseService.updateCustomer).not.toHaveBeenCalled();
+
+      // Other changes to the same customer go ahead
+      await useCustomerStore.getState().updateCustomer({...mockCustomers[0], name: 'John Roe'});
+      expect(mockDatabaseService.updateCustomer).toHaveBeenCalled();
     });
 
-    it('should filter by role', () => {
-      useCustomerStore.setState({selectedRole: 'Admin'});
-      const store = useCustomerStore.getState();
-      store.filterCustomers();
+    it('should hide the customer and only delete it after the undo window', async () => {
+      await useCustomerStore.getState().deleteCustomer('1');
 
-      const filtered = useCustomerStore.getState().filteredCustomers;
-      expect(filtered).toHaveLength(1);
-      expect(filtered[0].role).toBe('Admin');
+      expect(loadedCustomers().map(c => c.id)).toEqual(['2']);
+      expect(mockDatabaseService.addPendingDeletion).toHaveBeenCalledWith(
+        mockCustomers[0],
+        expect.any(Number),
+      );
+
+      await jest.advanceTimersByTimeAsync(UNDO_DELETE_WINDOW_MS - 1);
+      expect(mockDatabaseService.deleteCustomer).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockDatabaseService.deleteCustomer).toHaveBeenCalledWith('1', false);
+      expect(useCustomerStore.getState().pendingDeletions).toEqual([]);
     });
 
-    it('should filter by search term', () => {
-      useCustomerStore.setState({searchTerm: 'john'});
-      const store = useCustomerStore.getState();
-      store.filterCustomers();
+    it('should restore the customer when undone', async () => {
+      await useCustomerStore.getState().deleteCustomer('1');
+      await useCustomerStore.getState().undoDelete('1');
+      await jest.advanceTimersByTimeAsync(UNDO_DELETE_WINDOW_MS);
 
-      const filtered = useCustomerStore.getState().filteredCustomers;
-      expect(filtered).toHaveLength(1);
-      expect(filtered[0].name.toLowerCase()).toContain('john');
+      expect(mockDatabaseService.removePendingDeletion).toHaveBeenCalledWith('1');
+      expect(mockDatabaseService.deleteCustomer).not.toHaveBeenCalled();
+      expect(loadedCustomers()).toEqual(mockCustomers);
     });
 
-    it('should filter by both role and search term', () => {
-      useCustomerStore.setState({
-        selectedRole: 'Manager',
-        searchTerm: 'jane',
+    it('should finish deletions left pending by a previous launch', async () => {
+      mockDatabaseService.getPendingDeletions.mockResolvedValue([
+        {customer: mockCustomers[0], deleteAt: 0},
+      ]);
+      mockStoredCustomers([mockCustomers[1]]);
+
+      await useCustomerStore.getState().loadCustomers();
+
+      expect(mockDatabaseService.deleteCustomer).toHaveBeenCalledWith('1', false);
+      expect(loadedCustomers()).toEqual([mockCustomers[1]]);
+    });
+  });
+
+  describe('trash', () => {
+    const deleted = {...mockCustomers[0], deletedAt: 1000};
+
+    it('should restore a customer from the trash into the list', async () => {
+      mockDatabaseService.getDeletedCustomers.mockResolvedValue([deleted]);
+      mockDatabaseService.restoreCustomer.mockImplementation(async () => {
+        mockStoredCustomers(mockCustomers);
+        return false;
       });
-      const store = useCustomerStore.getState();
-      store.filterCustomers();
+      mockStoredCustomers([mockCustomers[1]]);
+
+      await useCustomerStore.getState().filterCustomers();
+      await useCustomerStore.getState().loadDeletedCustomers();
+      await useCustomerStore.getState().restoreCustomer('1');
 
-      const filtered = useCustomerStore.getState().filteredCustomers;
-      expect(filtered).toHaveLength(1);
-      expect(filtered[0].role).toBe('Manager');
-      expect(filtered[0].name.toLowerCase()).toContain('jane');
+      expect(mockDatabaseService.restoreCustomer).toHaveBeenCalledWith('1', false);
+      expect(useCustomerStore.getState().deletedCustomers).toEqual([]);
+      expect(loadedCustomers()).toEqual(mockCustomers);
     });
 
-    it('should return all customers when no filters applied', () => {
-      useCustomerStore.setState({
-        selectedRole: 'All',
-        searchTerm: '',
+    it('should purge a customer from the trash', async () => {
+      useCustomerStore.setState({deletedCustomers: [deleted]});
+
+      await useCustomerStore.getState().purgeCustomer('1');
+
+      expect(mockDatabaseService.purgeCustomer).toHaveBeenCalledWith('1');
+      expect(useCustomerStore.getState().deletedCustomers).toEqual([]);
+    });
+  });
+
+  describe('role requests', () => {
+    const request = {
+      id: 7,
+      customerId: '2',
+      customerName: 'Jane Smith',
+      fromRole: 'Manager',
+      toRole: 'Admin',
+      requestedBy: '1',
+      requestedAt: 1000,
+      status: 'pending' as const,
+      decidedBy: null,
+      decidedAt: null,
+    };
+
+    beforeEach(() => {
+      mockStoredCustomers(mockCustomers);
+      return useCustomerStore.getState().filterCustomers();
+    });
+
+    it('should save the rest of an edit and ask for the promotion', async () => {
+      mockDatabaseService.needsApproval.mockResolvedValue(true);
+      mockDatabaseService.getRoleRequests.mockResolvedValue([request]);
+      await useCustomerStore.getState().setActingAdmin('1');
+
+      await useCustomerStore
+        .getState()
+        .updateCustomer({...mockCustomers[1], name: 'Jane Doe', role: 'Admin'});
+
+      expect(mockDatabaseService.needsApproval).toHaveBeenCalledWith('Manager', 'Admin');
+      expect(mockDatabaseService.updateCustomer).toHaveBeenCalledWith(
+        {...mockCustomers[1], name: 'Jane Doe'},
+        null,
+        false,
+      );
+      expect(mockDatabaseService.requestRoleChange).toHaveBeenCalledWith(
+        '2',
+        'Admin',
+        '1',
+        null,
+      );
+      expect(useCustomerStore.getState().roleRequests).toEqual([request]);
+    });
+
+    it('should not save a held promotion until an Admin asks for it', async () => {
+      mockDatabaseService.needsApproval.mockResolvedValue(true);
+      await useCustomerStore.getState().setActingAdmin(null);
+
+      await expect(
+        useCustomerStore.getState().updateCustomer({...mockCustomers[1], role: 'Admin'}),
+      ).rejects.toThrow('Choose which Admin you are before asking for a promotion');
+      expect(mockDatabaseService.updateCustomer).not.toHaveBeenCalled();
+      expect(mockDatabaseService.requestRoleChange).not.toHaveBeenCalled();
+    });
+
+    it('should decide requests as the chosen Admin only', async () => {
+      mockDatabaseService.getAdmins.mockResolvedValue([mockCustomers[0]]);
+      mockDatabaseService.getRoleRequests.mockResolvedValue([request]);
+      await useCustomerStore.getState().loadRoleRequests();
+      await useCustomerStore.getState().setActingAdmin(null);
+
+      await expect(useCustomerStore.getState().approveRoleRequest(7)).rejects.toThrow(
+        PolicyError,
+      );
+      expect(mockDatabaseService.approveRoleRequest).not.toHaveBeenCalled();
+
+      await useCustomerStore.getState().setActingAdmin('1');
+      mockDatabaseService.getRoleRequests.mockResolvedValue([]);
+      await useCustomerStore.getState().approveRoleRequest(7);
+
+      expect(mockDatabaseService.setMetadata).toHaveBeenCalledWith(
+        'roleRequests.actingAdminId',
+        '1',
+      );
+      expect(mockDatabaseService.approveRoleRequest).toHaveBeenCalledWith(7, '1', false);
+      expect(useCustomerStore.getState().roleRequests).toEqual([]);
+    });
+  });
+
+  describe('temporary roles', () => {
+    beforeEach(() => {
+      mockStoredCustomers(mockCustomers);
+      return useCustomerStore.getState().filterCustomers();
+    });
+
+    it('should save a promotion with when it ends', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+      await useCustomerStore.getState().updateCustomer({...mockCustomers[1], role: 'Admin'}, 500);
+
+      expect(mockDatabaseService.updateCustomer).toHaveBeenCalledWith(
+        {...mockCustomers[1], role: 'Admin'},
+        1500,
+        false,
+      );
+      jest.restoreAllMocks();
+    });
+
+    it('should revert ended roles on load and follow the rest', async () => {
+      const grant = {
+        id: 1,
+        customerId: '2',
+        previousRole: 'Manager',
+        grantedRole: 'Admin',
+        grantedAt: 0,
+        expiresAt: Date.now() + 60000,
+        status: 'active' as const,
+        endedAt: null,
+      };
+      mockDatabaseService.getRoleGrants.mockResolvedValue([grant]);
+
+      await useCustomerStore.getState().loadCustomers();
+
+      expect(mockDatabaseService.revertExpiredGrants).toHaveBeenCalled();
+      expect(useCustomerStore.getState().roleGrants).toEqual([grant]);
+      useCustomerStore.getState().stopGrantTimer();
+    });
+  });
+
+  describe('quarantine', () => {
+    const entry = {
+      customerId: '1',
+      raw: {...mockCustomers[0], role: 'Owner'},
+      reasons: ['unknown-role' as const],
+      receivedAt: 1000,
+    };
+
+    it('should load the records a sync held back', async () => {
+      mockedSyncService.getQuarantinedCustomers.mockResolvedValue([entry]);
+
+      await useCustomerStore.getState().syncCustomers();
+
+      expect(useCustomerStore.getState().quarantinedCustomers).toEqual([entry]);
+    });
+
+    it('should save a fixed record and take it off the review list', async () => {
+      useCustomerStore.setState({quarantinedCustomers: [entry]});
+      mockDatabaseService.resolveQuarantinedCustomer.mockImplementation(async () => {
+        mockStoredCustomers([mockCustomers[0]]);
       });
+
+      await useCustomerStore.getState().filterCustomers();
+      await useCustomerStore.getState().fixQuarantinedCustomer(mockCustomers[0]);
+
+      expect(mockDatabaseService.resolveQuarantinedCustomer).toHaveBeenCalledWith(
+        mockCustomers[0],
+        false,
+      );
+      expect(useCustomerStore.getState().quarantinedCustomers).toEqual([]);
+      expect(loadedCustomers()).toEqual([mockCustomers[0]]);
+    });
+  });
+
+  describe('dead letters', () => {
+    it('should report a retry that could not be queued', async () => {
+      mockDatabaseService.requeueOutboxEntry.mockRejectedValue(
+        new StorageError('database is locked'),
+      );
+
+      await expect(useCustomerStore.getState().retryDeadLetter(7)).resolves.toBeUndefined();
+
+      expect(useCustomerStore.getState().error?.operation).toBe('retry the failed change');
+    });
+
+    it('should report a change that could not be discarded', async () => {
+      mockDatabaseService.deleteOutboxEntry.mockRejectedValue(
+        new StorageError('database is locked'),
+      );
+
+      await expect(useCustomerStore.getState().discardDeadLetter(7)).resolves.toBeUndefined();
+
+      expect(useCustomerStore.getState().error?.operation).toBe(
+        'discard the failed change',
+      );
+    });
+  });
+
+  describe('filterCustomers', () => {
+    beforeEach(() => {
+      mockStoredCustomers(mockCustomers);
+    });
+
+    it('should load a window for each role tab', async () => {
+      await useCustomerStore.getState().filterCustomers();
+
+      expect(loadedCustomers('All')).toHaveLength(2);
+      expect(loadedCustomers('Admin').map(c => c.id)).toEqual(['1']);
+      expect(loadedCustomers('Manager').map(c => c.id)).toEqual(['2']);
+    });
+
+    it('should filter by search term', async () => {
+      useCustomerStore.setState({searchTerm: 'john'});
       const store = useCustomerStore.getState();
-      store.filterCustomers();
+      await store.filterCustomers();
+
+      expect(mockDatabaseService.watchCustomers).toHaveBeenCalledWith(
+        expect.objectContaining({searchTerm: 'john'}),
+        expect.anything(),
+      );
+      expect(loadedCustomers().map(c => c.id)).toEqual(['1']);
+      expect(loadedCustomers('Manager')).toEqual([]);
+    });
+
+    it('should watch in the chosen sort order', async () => {
+      useCustomerStore.getState().setSortOrder('name-desc');
+      await useCustomerStore.getState().filterCustomers();
+
+      expect(mockDatabaseService.watchCustomers).toHaveBeenCalledWith(
+        expect.objectContaining({sortOrder: 'name-desc'}),
+        expect.anything(),
+      );
+    });
+
+    it('should follow writes without being asked', async () => {
+      await useCustomerStore.getState().filterCustomers();
+
+      mockStoredCustomers([mockCustomers[1]]);
+
+      expect(loadedCustomers().map(c => c.id)).toEqual(['2']);
+      expect(loadedCustomers('Admin')).toEqual([]);
+    });
+
+    it('should stop following the previous search', async () => {
+      await useCustomerStore.getState().filterCustomers();
+      useCustomerStore.setState({searchTerm: 'jane'});
+      await useCustomerStore.getState().filterCustomers();
+
+      expect(openQueries.size).toBe(3);
+      expect(loadedCustomers().map(c => c.id)).toEqual(['2']);
+    });
+
+    it('should report a failed read', async () => {
+      mockStoredCustomers(new Error('DB error'));
+
+      await useCustomerStore.getState().filterCustomers();
 
-      const filtered = useCustomerStore.getState().filteredCustomers;
-      expect(filtered).toHaveLength(2);
+      expect(useCustomerStore.getState().error?.operation).toBe('load customers');
+    });
+  });
+
+  describe('loadMoreCustomers', () => {
+    it("should ask the tab's live query for the next page", async () => {
+      const loadMore = jest.fn().mockResolvedValue(undefined);
+      mockDatabaseService.watchCustomers.mockImplementation(
+        (_scope: CustomerQueryScope, {onResults}: LiveCustomerQueryOptions) => {
+          onResults({customers: [mockCustomers[0]], hasMore: true});
+          return {loadMore, settled: () => Promise.resolve(), close: jest.fn()};
+        },
+      );
+      await useCustomerStore.getState().filterCustomers();
+
+      await useCustomerStore.getState().loadMoreCustomers('Admin');
+
+      expect(loadMore).toHaveBeenCalledTimes(1);
+      expect(useCustomerStore.getState().customerWindows.Admin.loadingMore).toBe(false);
+    });
+
+    it('should report a page that failed and let the next one load', async () => {
+      const loadMore = jest
+        .fn()
+        .mockRejectedValueOnce(new StorageError('database is locked'))
+        .mockResolvedValue(undefined);
+      mockDatabaseService.watchCustomers.mockImplementation(
+        (_scope: CustomerQueryScope, {onResults}: LiveCustomerQueryOptions) => {
+          onResults({customers: [mockCustomers[0]], hasMore: true});
+          return {loadMore, settled: () => Promise.resolve(), close: jest.fn()};
+        },
+      );
+      await useCustomerStore.getState().filterCustomers();
+
+      await useCustomerStore.getState().loadMoreCustomers('Admin');
+
+      expect(useCustomerStore.getState().error?.operation).toBe('load more customers');
+      expect(useCustomerStore.getState().customerWindows.Admin.loadingMore).toBe(false);
+
+      await useCustomerStore.getState().loadMoreCustomers('Admin');
+
+      expect(loadMore).toHaveBeenCalledTimes(2);
+    });
+
+    it('should do nothing once the end of the list is loaded', async () => {
+      await useCustomerStore.getState().filterCustomers();
+
+      await useCustomerStore.getState().loadMoreCustomers('All');
+
+      const [{value: query}] = mockDatabaseService.watchCustomers.mock.results;
+      expect(query.loadMore).not.toHaveBeenCalled();
     });
   });
 
   describe('setSearchTerm', () => {
     it('should update search term and trigger filtering', () => {
-      useCustomerStore.setState({customers: mockCustomers});
       const store = useCustomerStore.getState();
       
       store.setSearchTerm('john');
@@ -226,8 +748,7 @@ describe('CustomerStore', () => {
   });
 
   describe('setSelectedRole', () => {
-    it('should update selected role and trigger filtering', () => {
-      useCustomerStore.setState({customers: mockCustomers});
+    it('should update selected role', () => {
       const store = useCustomerStore.getState();
       
       store.setSelectedRole('Admin');
@@ -235,4 +756,63 @@ describe('CustomerStore', () => {
       expect(useCustomerStore.getState().selectedRole).toBe('Admin');
     });
   });
+
+  describe('realtime updates', () => {
+    afterEach(() => {
+      useCustomerStore.getState().stopRealtimeUpdates();
+    });
+
+    it('should subscribe once and unsubscribe when stopped', () => {
+      const unsubscribe = jest.fn();
+      mockedGraphQLService.subscribeToCustomerChanges.mockReturnValue(unsubscribe);
+
+      const store = useCustomerStore.getState();
+      store.startRealtimeUpdates();
+      store.startRealtimeUpdates();
+      store.stopRealtimeUpdates();
+
+      expect(mockedGraphQLService.subscribeToCustomerChanges).toHaveBeenCalledTimes(1);
+      expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should show when live updates stop arriving', () => {
+      useCustomerStore.getState().startRealtimeUpdates();
+      const [handlers] = mockedGraphQLService.subscribeToCustomerChanges.mock.calls[0];
+
+      handlers.onError?.(new Error('Unknown field'));
+
+      expect(useCustomerStore.getState().error).toMatchObject({
+        operation: 'follow changes made elsewhere',
+        cause: expect.objectContaining({message: 'Unknown field'}),
+      });
+      useCustomerStore.getState().stopRealtimeUpdates();
+    });
+
+    it('should apply a teammate change and show it', async () => {
+      const updated = {...mockCustomers[0], name: 'Johnny Doe'};
+      mockedSyncService.applyRemoteChange.mockImplementation(async () => {
+        mockStoredCustomers([updated]);
+        return true;
+      });
+      await useCustomerStore.getState().filterCustomers();
+
+      await useCustomerStore
+        .getState()
+        .applyRemoteChange({type: 'update', customer: updated});
+
+      expect(mockedSyncService.syncCustomers).not.toHaveBeenCalled();
+      expect(loadedCustomers()).toEqual([updated]);
+    });
+
+    it('should run a full sync when the customer also changed locally', async () => {
+      mockedSyncService.applyRemoteChange.mockResolvedValue(false);
+      mockStoredCustomers(mockCustomers);
+
+      await useCustomerStore
+        .getState()
+        .applyRemoteChange({type: 'delete', customer: mockCustomers[0]});
+
+      expect(mockedSyncService.syncCustomers).toHaveBeenCalled();
+    });
+  });
 });
@@ -1,27 +1,74 @@
 import {create} from 'zustand';
-import {ZellerCustomer, UserRole} from '../types';
+import {
+  CustomerRole,
+  ZellerCustomer,
+  UserRole,
+  OutboxEntry,
+  ConflictPolicy,
+  ConflictResolution,
+  SyncConflict,
+  RemoteCustomerChange,
+  PendingDeletion,
+  DeletedCustomer,
+  CustomerEvent,
+  CustomerSortOrder,
+  LiveCustomerResults,
+  QuarantinedCustomer,
+  RoleDefinition,
+  RoleGrant,
+  RoleRequest,
+} from '../types';
 import {DatabaseService} from '../database/DatabaseService';
+import {LiveCustomerQuery} from '../database/LiveCustomerQuery';
+import {OutboxService} from '../services/OutboxService';
+import {SyncService} from '../services/SyncService';
 import {GraphQLService} from '../services/GraphQLService';
-
+import {RoleCatalogService} from '../services/RoleCatalogService';
+import {
+  ALL_ROLES_TAB,
+  DEFAULT_MINIMUM_ADMINS,
+  DEFAULT_ROLES,
+  describeAdminMinimum,
+  getDefaultRole,
+  getRoleTabs,
+  isAdminRole,
+} from '../utils/roles';
+import {AppError, PolicyError, toAppError} from '../errors/AppError';
+
+// When enabled, every local change is also recorded in the outbox and
+// replayed to AppSync in order once the network is reachable.
 const ENABLE_REMOTE_MUTATIONS = false;
 
-const normalizeRole = (role: string): 'Admin' | 'Manager' => {
-  const normalized = String(role).trim().toLowerCase();
+// How long a deletion can be undone before the row is really removed
+export const UNDO_DELETE_WINDOW_MS = 5000;
 
-  if (normalized.includes('admin')) {
-    return 'Admin';
-  }
+// Rows read from SQLite per page as the list scrolls
+export const CUSTOMER_PAGE_SIZE = 50;
 
-  return 'Manager';
-};
+// The Admin this device decides role requests as
+export const ACTING_ADMIN_KEY = 'roleRequests.actingAdminId';
 
-const normalizeCustomer = (customer: ZellerCustomer): ZellerCustomer => ({
-  ...customer,
-  role: normalizeRole(customer.role),
-});
+// Temporary roles are checked at least this often while the app is open,
+// since timers can't wait for weeks
+const MAX_GRANT_TIMER_MS = 24 * 60 * 60 * 1000;
+
+// The part of one role tab's list loaded so far, in display order
+export interface CustomerWindow {
+  customers: ZellerCustomer[];
+  // False once the end of the list is loaded
+  hasMore: boolean;
+  loadingMore: boolean;
+}
 
-const normalizeCustomers = (customers: ZellerCustomer[]): ZellerCustomer[] =>
-  customers.map(normalizeCustomer);
+// An empty window for each tab of `roles`
+const createCustomerWindows = (roles: RoleDefinition[]): Record<UserRole, CustomerWindow> =>
+  Object.fromEntries(
+    getRoleTabs(roles).map(role => [role, {customers: [], hasMore: false, loadingMore: false}]),
+  );
+
+const isSameCatalog = (a: RoleDefinition[], b: RoleDefinition[]) =>
+  a.length === b.length &&
+  a.every((role, index) => role.name === b[index].name && role.label === b[index].label);
 
 const createLocalCustomer = (
   customer: Omit<ZellerCustomer, 'id'>,
@@ -30,106 +77,343 @@ const createLocalCustomer = (
   id: Date.now().toString() + Math.random().toString(36).slice(2, 9),
 });
 
+// A failed background action (loading, refreshing, resolving conflicts), kept
+// for the UI to explain. Add, update and delete throw to their caller
+// instead. `retry` is only set when running the action again can help.
+export interface CustomerStoreError {
+  cause: AppError;
+  // What was being attempted, e.g. 'load customers'
+  operation: string;
+  retry: (() => Promise<void>) | null;
+}
+
 interface CustomerState {
-  customers: ZellerCustomer[];
-  filteredCustomers: ZellerCustomer[];
+  // The role catalog, most senior first. There is a tab for each role.
+  roles: RoleDefinition[];
+  // One window per role tab, all for the current search term and sort order
+  customerWindows: Record<UserRole, CustomerWindow>;
   loading: boolean;
-  error: string | null;
+  error: CustomerStoreError | null;
   searchTerm: string;
+  sortOrder: CustomerSortOrder;
   selectedRole: UserRole;
   refreshing: boolean;
+  deadLetters: OutboxEntry[];
+  conflictPolicy: ConflictPolicy;
+  syncConflicts: SyncConflict[];
+  // Server records that failed validation, waiting for someone to fix them
+  quarantinedCustomers: QuarantinedCustomer[];
+  pendingDeletions: PendingDeletion[];
+  deletedCustomers: DeletedCustomer[];
+  // Audit log of the customer open in the edit screen, newest first
+  customerHistory: CustomerEvent[];
+  // Admins the team must keep, and the admins that can't be deleted or
+  // demoted because it has no more than that
+  minimumAdmins: number;
+  protectedAdminIds: string[];
+  // Promotions to an admin role waiting for an Admin's approval, oldest
+  // first, and the Admins who can give it
+  roleRequests: RoleRequest[];
+  admins: ZellerCustomer[];
+  actingAdminId: string | null;
+  // Temporary roles still running, soonest to end first
+  roleGrants: RoleGrant[];
 }
 
 interface CustomerActions {
   loadCustomers: () => Promise<void>;
   refreshCustomers: () => Promise<void>;
   addCustomer: (customer: Omit<ZellerCustomer, 'id'>) => Promise<void>;
-  updateCustomer: (customer: ZellerCustomer) => Promise<void>;
+  updateCustomer: (customer: ZellerCustomer, grantFor?: number | null) => Promise<void>;
   deleteCustomer: (id: string) => Promise<void>;
+  undoDelete: (id: string) => Promise<void>;
+  commitPendingDeletions: () => Promise<void>;
+  loadDeletedCustomers: () => Promise<void>;
+  restoreCustomer: (id: string) => Promise<void>;
+  purgeCustomer: (id: string) => Promise<void>;
+  loadCustomerHistory: (id: string) => Promise<void>;
+  loadProtectedAdmins: () => Promise<void>;
+  loadRoleRequests: () => Promise<void>;
+  setActingAdmin: (id: string | null) => Promise<void>;
+  approveRoleRequest: (id: number) => Promise<void>;
+  rejectRoleRequest: (id: number) => Promise<void>;
+  loadRoleGrants: () => Promise<void>;
+  revertExpiredGrants: () => Promise<void>;
+  stopGrantTimer: () => void;
   setSearchTerm: (term: string) => void;
   setSelectedRole: (role: UserRole) => void;
-  filterCustomers: () => void;
+  setSortOrder: (sortOrder: CustomerSortOrder) => void;
+  filterCustomers: () => Promise<void>;
+  loadMoreCustomers: (role: UserRole) => Promise<void>;
   clearError: () => void;
+  replayOutbox: () => Promise<void>;
+  loadDeadLetters: () => Promise<void>;
+  retryDeadLetter: (id: number) => Promise<void>;
+  discardDeadLetter: (id: number) => Promise<void>;
+  syncCustomers: () => Promise<void>;
+  setConflictPolicy: (policy: ConflictPolicy) => void;
+  resolveConflict: (
+    customerId: string,
+    resolution: ConflictResolution,
+  ) => Promise<void>;
+  loadQuarantinedCustomers: () => Promise<void>;
+  fixQuarantinedCustomer: (customer: ZellerCustomer) => Promise<void>;
+  startRealtimeUpdates: () => void;
+  stopRealtimeUpdates: () => void;
+  applyRemoteChange: (change: RemoteCustomerChange) => Promise<void>;
+  resetForEnvironmentChange: () => void;
 }
 
 type CustomerStore = CustomerState & CustomerActions;
 
 export const useCustomerStore = create<CustomerStore>((set, get) => {
   const getDbService = () => DatabaseService.getInstance();
+  // Each tab is bound to a live query for the current search and sort
+  // order; its latest results are kept to show again when pending
+  // deletions change.
+  const liveQueries = new Map<UserRole, LiveCustomerQuery>();
+  const liveResults = new Map<UserRole, LiveCustomerResults>();
+  let replayTimer: ReturnType<typeof setTimeout> | null = null;
+  let grantTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopRealtime: (() => void) | null = null;
+  const deletionTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  // Rows waiting out their undo window stay in SQLite but not on screen
+  const withoutPendingDeletions = (customers: ZellerCustomer[]) => {
+    const pending = new Set(get().pendingDeletions.map(d => d.customer.id));
+    return pending.size > 0
+      ? customers.filter(customer => !pending.has(customer.id))
+      : customers;
+  };
+
+  const clearDeletionTimer = (id: string) => {
+    const timer = deletionTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      deletionTimers.delete(id);
+    }
+  };
+
+  const reportError = (
+    operation: string,
+    error: unknown,
+    retry?: () => Promise<void>,
+  ) => {
+    const cause = toAppError(error);
+    console.error(`Failed to ${operation}:`, error);
+    set({
+      error: {
+        cause,
+        operation,
+        // A failed retry reports itself, so its rejection is not needed
+        retry: retry && cause.retryable ? () => retry().catch(() => undefined) : null,
+      },
+    });
+  };
+
+  const findLoadedCustomer = (id: string): ZellerCustomer | undefined => {
+    for (const window of Object.values(get().customerWindows)) {
+      const customer = window.customers.find(c => c.id === id);
+      if (customer) {
+        return customer;
+      }
+    }
+    return undefined;
+  };
+
+  const setLoadingMore = (role: UserRole, loadingMore: boolean) => {
+    set(state => ({
+      customerWindows: {
+        ...state.customerWindows,
+        [role]: {...state.customerWindows[role], loadingMore},
+      },
+    }));
+  };
+
+  const showResults = () => {
+    set(state => {
+      const customerWindows = createCustomerWindows(state.roles);
+      Object.keys(customerWindows).forEach(role => {
+        const results = liveResults.get(role);
+        customerWindows[role] = {
+          customers: withoutPendingDeletions(results?.customers ?? []),
+          hasMore: results?.hasMore ?? false,
+          loadingMore: state.customerWindows[role]?.loadingMore ?? false,
+        };
+      });
+      return {customerWindows};
+    });
+  };
+
+  const closeLiveQueries = () => {
+    liveQueries.forEach(query => query.close());
+    liveQueries.clear();
+    liveResults.clear();
+  };
+
+  // Binds every tab to a live query for the current search term and sort
+  // order, replacing the previous ones. Resolves once each has results.
+  const watchCustomers = async () => {
+    closeLiveQueries();
+    const {searchTerm, sortOrder, roles} = get();
+    getRoleTabs(roles).forEach(role => {
+      const query = getDbService().watchCustomers(
+        {
+          role: role === ALL_ROLES_TAB ? undefined : role,
+          searchTerm: searchTerm.trim(),
+          sortOrder,
+        },
+        {
+          pageSize: CUSTOMER_PAGE_SIZE,
+          onResults: results => {
+            liveResults.set(role, results);
+            showResults();
+            // Every change to a customer reaches the All tab
+            if (role === ALL_ROLES_TAB) {
+              get().loadProtectedAdmins();
+              get().loadRoleRequests();
+              get().loadRoleGrants();
+            }
+          },
+          onError: error => {
+            // The tabs usually fail together; one report is enough
+            if (get().error?.operation !== 'load customers') {
+              reportError('load customers', error, () => get().filterCustomers());
+            }
+          },
+        },
+      );
+      liveQueries.set(role, query);
+    });
+    await Promise.all(Array.from(liveQueries.values(), query => query.settled()));
+  };
+
+  // Shows the database's role catalog, giving each role a tab. Tabs that
+  // are already bound to live queries are bound again.
+  const showRoles = async () => {
+    const roles = getDbService().getRoles();
+    if (isSameCatalog(roles, get().roles)) {
+      return;
+    }
+    set(state => ({
+      roles,
+      customerWindows: createCustomerWindows(roles),
+      selectedRole: getRoleTabs(roles).includes(state.selectedRole)
+        ? state.selectedRole
+        : ALL_ROLES_TAB,
+    }));
+    if (liveQueries.size > 0) {
+      await watchCustomers();
+    }
+  };
+
+  // Refuses to delete (`role` null) or demote a protected admin before
+  // anything is written. DatabaseService checks again when it writes.
+  const assertAdminsRemain = (customer: ZellerCustomer, role: CustomerRole | null) => {
+    const {roles, minimumAdmins, protectedAdminIds} = get();
+    if (role !== null && isAdminRole(roles, role)) {
+      return;
+    }
+    if (protectedAdminIds.includes(customer.id)) {
+      throw new PolicyError(describeAdminMinimum(customer.name, minimumAdmins));
+    }
+  };
+
+  // The Admin promotions are asked for and decided as. There is no
+  // sign-in, so whoever uses the app says which Admin they are first.
+  const getActingAdminId = (action: string): string => {
+    const {actingAdminId} = get();
+    if (!actingAdminId) {
+      throw new PolicyError(`Choose which Admin you are before ${action}`);
+    }
+    return actingAdminId;
+  };
+
+  // Asks for the promotion the caller held back and shows it as pending
+  const requestPromotion = async (
+    customerId: string,
+    role: CustomerRole,
+    requestedBy: string,
+    grantFor: number | null = null,
+  ) => {
+    await getDbService().requestRoleChange(customerId, role, requestedBy, grantFor);
+    await get().loadRoleRequests();
+  };
+
+  // Removes the row for good once the undo window is over. The remote delete
+  // is only queued now, so an undone deletion never reaches the server.
+  const commitDeletion = async (deletion: PendingDeletion) => {
+    const {id} = deletion.customer;
+    clearDeletionTimer(id);
+    set(state => ({
+      pendingDeletions: state.pendingDeletions.filter(d => d.customer.id !== id),
+    }));
+
+    await getDbService().deleteCustomer(id, ENABLE_REMOTE_MUTATIONS);
+    if (ENABLE_REMOTE_MUTATIONS) {
+      get().replayOutbox();
+    }
+  };
+
+  const scheduleDeletion = (deletion: PendingDeletion) => {
+    clearDeletionTimer(deletion.customer.id);
+    deletionTimers.set(
+      deletion.customer.id,
+      setTimeout(() => {
+        commitDeletion(deletion).catch(error =>
+          reportError('delete the customer', error, () => commitDeletion(deletion)),
+        );
+      }, Math.max(deletion.deleteAt - Date.now(), 0)),
+    );
+  };
 
   return {
     // Initial state
-    customers: [],
-    filteredCustomers: [],
+    roles: DEFAULT_ROLES,
+    customerWindows: createCustomerWindows(DEFAULT_ROLES),
     loading: false,
     error: null,
     searchTerm: '',
-    selectedRole: 'All',
+    sortOrder: 'name-asc',
+    selectedRole: ALL_ROLES_TAB,
     refreshing: false,
+    deadLetters: [],
+    conflictPolicy: 'last-writer-wins',
+    syncConflicts: [],
+    quarantinedCustomers: [],
+    pendingDeletions: [],
+    deletedCustomers: [],
+    customerHistory: [],
+    minimumAdmins: DEFAULT_MINIMUM_ADMINS,
+    protectedAdminIds: [],
+    roleRequests: [],
+    admins: [],
+    actingAdminId: null,
+    roleGrants: [],
 
     // Actions
     loadCustomers: async () => {
       try {
         set({loading: true, error: null});
 
-        const dbService = getDbService();
+        // initDatabase has already checked the database and repaired it
+        await get().commitPendingDeletions();
+        await get().revertExpiredGrants();
 
-        // Test database connection first
-        const dbConnectionOk = await dbService.testDatabaseConnection();
-        if (dbConnectionOk) {
-          await dbService.testInsertSingleCustomer();
+        // Pull server changes first; being offline is not an error
+        try {
+          await get().syncCustomers();
+        } catch (syncError) {
+          console.log('Sync failed, continuing with local data:', syncError);
         }
 
-        let customers: ZellerCustomer[] = [];
-
-        const customerCount = await dbService.getCustomerCount();
-
-        // If there is no data locally, seed once from GraphQL
-        if (customerCount === 0) {
-          try {
-            const response = await GraphQLService.fetchAllCustomers();
-            if (response.items && response.items.length > 0) {
-              try {
-                await dbService.insertCustomers(response.items);
-              } catch (insertError: any) {
-                console.error('Error inserting customers:', insertError);
-                
-                // Check if it's a role constraint error
-                if (insertError.message && insertError.message.includes('CHECK constraint failed: role')) {
-                  try {
-                    await dbService.recreateTableWithoutConstraint();
-                    await dbService.insertCustomers(response.items);
-                  } catch (recreateError) {
-                    console.error('Failed to recreate table and insert customers:', recreateError);
-                    throw recreateError;
-                  }
-                } else {
-                  throw insertError;
-                }
-              }
-              
-              // Verify data was actually saved
-              const verifyCustomers = await dbService.getAllCustomers();
-              customers = verifyCustomers;
-            }
-          } catch (networkError) {
-            // Continue with (currently empty) local data if network fails
-          }
-        }
+        await watchCustomers();
 
-        // If we didn't populate customers from GraphQL seeding, load from local DB
-        if (customers.length === 0) {
-          const localCustomers = await dbService.getAllCustomers();
-          customers = localCustomers;
+        if (ENABLE_REMOTE_MUTATIONS) {
+          get().replayOutbox();
         }
-
-        set({customers: normalizeCustomers(customers)});
-
-        // Apply current filters
-        get().filterCustomers();
       } catch (error) {
-        set({error: 'Failed to load customers'});
-        console.error('Error loading customers:', error);
+        reportError('load customers', error, () => get().loadCustomers());
       } finally {
         set({loading: false});
       }
@@ -139,101 +423,306 @@ export const useCustomerStore = create<CustomerStore>((set, get) => {
       try {
         set({refreshing: true, error: null});
 
-        const dbService = getDbService();
-
-        // For refresh, just reload the latest state from local database
-        const localCustomers = await dbService.getAllCustomers();
-        set({customers: normalizeCustomers(localCustomers)});
-        get().filterCustomers();
+        // The live queries show whatever the sync changed
+        try {
+          await get().syncCustomers();
+        } catch (syncError) {
+          console.log('Sync failed, showing local data:', syncError);
+        }
       } catch (error) {
-        set({error: 'Failed to refresh customers'});
-        console.error('Error refreshing customers:', error);
+        reportError('refresh customers', error, () => get().refreshCustomers());
       } finally {
         set({refreshing: false});
       }
     },
 
+    // A new customer in an admin role starts in the default role until an
+    // Admin approves the promotion
     addCustomer: async (customerData: Omit<ZellerCustomer, 'id'>) => {
       try {
         const dbService = getDbService();
-        let newCustomer: ZellerCustomer;
+        const startingRole = getDefaultRole(get().roles);
+        const held =
+          startingRole !== undefined &&
+          (await dbService.needsApproval(startingRole, customerData.role));
+        const requestedBy = held ? getActingAdminId('asking for a promotion') : null;
+        // The local id is swapped for the server id when the create replays
+        const newCustomer = createLocalCustomer(
+          held ? {...customerData, role: startingRole} : customerData,
+        );
+
+        await dbService.insertCustomer(newCustomer, 'local', ENABLE_REMOTE_MUTATIONS);
+        if (requestedBy) {
+          await requestPromotion(newCustomer.id, customerData.role, requestedBy);
+        }
 
         if (ENABLE_REMOTE_MUTATIONS) {
-          try {
-            newCustomer = await GraphQLService.createCustomer(customerData);
-          } catch (error) {
-            console.log('Remote create failed, saving locally instead:', error);
-            newCustomer = createLocalCustomer(customerData);
-          }
-        } else {
-          newCustomer = createLocalCustomer(customerData);
+          get().replayOutbox();
         }
+      } catch (error) {
+        console.error('Error adding customer:', error);
+        throw toAppError(error);
+      }
+    },
+
+    // Saves everything but a promotion to an admin role, which is asked
+    // for instead. With `grantFor`, the new role lasts that many ms.
+    updateCustomer: async (customer: ZellerCustomer, grantFor: number | null = null) => {
+      try {
+        const dbService = getDbService();
+        const existing = findLoadedCustomer(customer.id) ?? customer;
+        assertAdminsRemain(existing, customer.role);
+        const held = await dbService.needsApproval(existing.role, customer.role);
+        const requestedBy = held ? getActingAdminId('asking for a promotion') : null;
+        const saved = held ? {...customer, role: existing.role} : customer;
+
+        await dbService.updateCustomer(
+          saved,
+          grantFor !== null && !held ? Date.now() + grantFor : null,
+          ENABLE_REMOTE_MUTATIONS,
+        );
+        if (requestedBy) {
+          await requestPromotion(customer.id, customer.role, requestedBy, grantFor);
+        }
+
+        if (ENABLE_REMOTE_MUTATIONS) {
+          get().replayOutbox();
+        }
+      } catch (error) {
+        console.error('Error updating customer:', error);
+        throw toAppError(error);
+      }
+    },
+
+    // Hides the customer straight away but only deletes the row once
+    // UNDO_DELETE_WINDOW_MS has passed without undoDelete being called.
+    deleteCustomer: async (id: string) => {
+      try {
+        const existing = findLoadedCustomer(id);
+        if (!existing) {
+          return;
+        }
+        assertAdminsRemain(existing, null);
+
+        const deletion: PendingDeletion = {
+          customer: existing,
+          deleteAt: Date.now() + UNDO_DELETE_WINDOW_MS,
+        };
+        await getDbService().addPendingDeletion(existing, deletion.deleteAt);
 
-        await dbService.insertCustomer(newCustomer);
-        
-        const normalizedCustomer = normalizeCustomer(newCustomer);
         set(state => ({
-          customers: [...state.customers, normalizedCustomer],
+          pendingDeletions: [...state.pendingDeletions, deletion],
         }));
+        showResults();
+        await get().loadProtectedAdmins();
+        await get().loadRoleRequests();
 
-        get().filterCustomers();
+        scheduleDeletion(deletion);
       } catch (error) {
-        set({error: 'Failed to add customer'});
-        console.error('Error adding customer:', error);
-        throw error;
+        console.error('Error deleting customer:', error);
+        throw toAppError(error);
       }
     },
 
-    updateCustomer: async (customer: ZellerCustomer) => {
+    undoDelete: async (id: string) => {
+      // Too late once the window has closed
+      if (!get().pendingDeletions.some(d => d.customer.id === id)) {
+        return;
+      }
+
+      clearDeletionTimer(id);
+      set(state => ({
+        pendingDeletions: state.pendingDeletions.filter(d => d.customer.id !== id),
+      }));
+
+      const restore = async () => {
+        await getDbService().removePendingDeletion(id);
+        showResults();
+        await get().loadProtectedAdmins();
+        await get().loadRoleRequests();
+      };
       try {
-        const dbService = getDbService();
+        await restore();
+      } catch (error) {
+        reportError('restore the customer', error, restore);
+      }
+    },
+
+    // Finishes deletions left pending when the app last closed. Their undo
+    // window closed with the app, so they all go ahead.
+    commitPendingDeletions: async () => {
+      const deletions = await getDbService().getPendingDeletions();
+      for (const deletion of deletions) {
+        if (!deletionTimers.has(deletion.customer.id)) {
+          await commitDeletion(deletion);
+        }
+      }
+    },
+
+    loadDeletedCustomers: async () => {
+      try {
+        set({deletedCustomers: await getDbService().getDeletedCustomers()});
+      } catch (error) {
+        console.error('Error loading deleted customers:', error);
+        throw toAppError(error);
+      }
+    },
+
+    // Takes a customer out of the trash. If its remote delete was already
+    // sent, the customer is created on the server again.
+    restoreCustomer: async (id: string) => {
+      try {
+        await getDbService().restoreCustomer(id, ENABLE_REMOTE_MUTATIONS);
+
+        set(state => ({
+          deletedCustomers: state.deletedCustomers.filter(c => c.id !== id),
+        }));
+
         if (ENABLE_REMOTE_MUTATIONS) {
-          try {
-            await GraphQLService.updateCustomer(customer);
-          } catch (error) {
-            console.log('Remote update failed, continuing with local update:', error);
-          }
+          get().replayOutbox();
         }
+      } catch (error) {
+        console.error('Error restoring customer:', error);
+        throw toAppError(error);
+      }
+    },
 
-        await dbService.updateCustomer(customer);
-        
-        const normalizedCustomer = normalizeCustomer(customer);
+    purgeCustomer: async (id: string) => {
+      try {
+        await getDbService().purgeCustomer(id);
         set(state => ({
-          customers: state.customers.map(c =>
-            c.id === normalizedCustomer.id ? normalizedCustomer : c
-          ),
+          deletedCustomers: state.deletedCustomers.filter(c => c.id !== id),
         }));
+      } catch (error) {
+        console.error('Error purging customer:', error);
+        throw toAppError(error);
+      }
+    },
 
-        get().filterCustomers();
+    // The history is informational, so failing to load it is only logged
+    loadCustomerHistory: async (id: string) => {
+      set({customerHistory: []});
+      try {
+        set({
+          customerHistory: await getDbService().getCustomerEvents({customerId: id}),
+        });
       } catch (error) {
-        set({error: 'Failed to update customer'});
-        console.error('Error updating customer:', error);
-        throw error;
+        console.error('Error loading customer history:', error);
       }
     },
 
-    deleteCustomer: async (id: string) => {
+    // Informational like the history: the database checks every write
+    // whatever the screens were told
+    loadProtectedAdmins: async () => {
+      try {
+        const dbService = getDbService();
+        set({
+          minimumAdmins: dbService.getMinimumAdmins(),
+          protectedAdminIds: await dbService.getProtectedAdminIds(),
+        });
+      } catch (error) {
+        console.error('Error loading protected admins:', error);
+      }
+    },
+
+    // Informational too: approving checks the request again
+    loadRoleRequests: async () => {
       try {
         const dbService = getDbService();
+        const admins = await dbService.getAdmins();
+        const savedAdminId = await dbService.getMetadata(ACTING_ADMIN_KEY);
+        set({
+          roleRequests: await dbService.getRoleRequests(),
+          admins,
+          // Forgotten once they are no longer an Admin
+          actingAdminId: admins.some(admin => admin.id === savedAdminId) ? savedAdminId : null,
+        });
+      } catch (error) {
+        console.error('Error loading role requests:', error);
+      }
+    },
+
+    setActingAdmin: async (id: string | null) => {
+      try {
+        await getDbService().setMetadata(ACTING_ADMIN_KEY, id ?? '');
+        set({actingAdminId: id});
+      } catch (error) {
+        console.error('Error choosing the acting admin:', error);
+        throw toAppError(error);
+      }
+    },
+
+    // Moves the customer into the requested role as the acting Admin, who
+    // must not be the one who asked
+    approveRoleRequest: async (id: number) => {
+      try {
+        await getDbService().approveRoleRequest(
+          id,
+          getActingAdminId('deciding requests'),
+          ENABLE_REMOTE_MUTATIONS,
+        );
+        await get().loadRoleRequests();
+
         if (ENABLE_REMOTE_MUTATIONS) {
-          try {
-            await GraphQLService.deleteCustomer(id);
-          } catch (error) {
-            console.log('Remote delete failed, removing locally:', error);
-          }
+          get().replayOutbox();
         }
+      } catch (error) {
+        console.error('Error approving role request:', error);
+        throw toAppError(error);
+      }
+    },
 
-        await dbService.deleteCustomer(id);
-        
-        set(state => ({
-          customers: state.customers.filter(c => c.id !== id),
-        }));
+    rejectRoleRequest: async (id: number) => {
+      try {
+        await getDbService().rejectRoleRequest(id, getActingAdminId('deciding requests'));
+        await get().loadRoleRequests();
+      } catch (error) {
+        console.error('Error rejecting role request:', error);
+        throw toAppError(error);
+      }
+    },
 
-        get().filterCustomers();
+    // Informational like the requests; also keeps a timer for the next
+    // temporary role to end while the app is open
+    loadRoleGrants: async () => {
+      try {
+        const roleGrants = await getDbService().getRoleGrants();
+        set({roleGrants});
+
+        get().stopGrantTimer();
+        if (roleGrants.length > 0) {
+          grantTimer = setTimeout(() => {
+            grantTimer = null;
+            get().revertExpiredGrants();
+          }, Math.min(Math.max(roleGrants[0].expiresAt - Date.now(), 0), MAX_GRANT_TIMER_MS));
+        }
       } catch (error) {
-        set({error: 'Failed to delete customer'});
-        console.error('Error deleting customer:', error);
-        throw error;
+        console.error('Error loading role grants:', error);
+      }
+    },
+
+    // Moves customers whose temporary role has ended back to their previous
+    // role. A failure is only logged; the next load or timer tries again.
+    revertExpiredGrants: async () => {
+      try {
+        const reverted = await getDbService().revertExpiredGrants(
+          Date.now(),
+          ENABLE_REMOTE_MUTATIONS,
+        );
+        if (ENABLE_REMOTE_MUTATIONS && reverted.length > 0) {
+          get().replayOutbox();
+        }
+      } catch (error) {
+        console.error('Error reverting temporary roles:', error);
+      }
+      await get().loadRoleGrants();
+    },
+
+    // Timers don't run in the background; revertExpiredGrants catches up
+    stopGrantTimer: () => {
+      if (grantTimer) {
+        clearTimeout(grantTimer);
+        grantTimer = null;
       }
     },
 
@@ -243,34 +732,269 @@ export const useCustomerStore = create<CustomerStore>((set, get) => {
       setTimeout(() => get().filterCustomers(), 0);
     },
 
+    // Every tab keeps its own window, so switching tabs reads nothing
     setSelectedRole: (role: UserRole) => {
       set({selectedRole: role});
-      // Auto-filter when role changes
+    },
+
+    setSortOrder: (sortOrder: CustomerSortOrder) => {
+      set({sortOrder});
+      // Auto-filter when the sort order changes
       setTimeout(() => get().filterCustomers(), 0);
     },
 
-    filterCustomers: () => {
-      const {customers, selectedRole, searchTerm} = get();
-      let filtered = [...customers];
+    // Starts every tab again from its first page for the current search
+    // term and sort order
+    filterCustomers: async () => {
+      await watchCustomers();
+    },
 
-      // Filter by role
-      if (selectedRole !== 'All') {
-        filtered = filtered.filter(customer => customer.role === selectedRole);
+    // Called as the list nears the end of what is loaded
+    loadMoreCustomers: async (role: UserRole) => {
+      const query = liveQueries.get(role);
+      const {hasMore, loadingMore} = get().customerWindows[role];
+      if (!query || !hasMore || loadingMore) {
+        return;
       }
 
-      // Filter by search term
-      if (searchTerm.trim()) {
-        const searchLower = searchTerm.toLowerCase().trim();
-        filtered = filtered.filter(customer =>
-          customer.name.toLowerCase().includes(searchLower)
-        );
+      setLoadingMore(role, true);
+      try {
+        await query.loadMore();
+      } catch (error) {
+        reportError('load more customers', error, () => get().loadMoreCustomers(role));
+      } finally {
+        // Paging must stay possible after a failed page
+        setLoadingMore(role, false);
       }
-
-      set({filteredCustomers: filtered});
     },
 
     clearError: () => {
       set({error: null});
     },
+
+    replayOutbox: async () => {
+      if (!ENABLE_REMOTE_MUTATIONS) {
+        return;
+      }
+
+      if (replayTimer) {
+        clearTimeout(replayTimer);
+        replayTimer = null;
+      }
+
+      try {
+        const result = await OutboxService.replay();
+
+        const {idChanges} = result;
+        if (Object.keys(idChanges).length > 0) {
+          set(state => ({
+            pendingDeletions: state.pendingDeletions.map(d =>
+              idChanges[d.customer.id]
+                ? {...d, customer: {...d.customer, id: idChanges[d.customer.id]}}
+                : d,
+            ),
+          }));
+          // Pending deletions must commit under the server's id
+          Object.entries(idChanges).forEach(([oldId, newId]) => {
+            const deletion = get().pendingDeletions.find(d => d.customer.id === newId);
+            if (deletionTimers.has(oldId) && deletion) {
+              clearDeletionTimer(oldId);
+              scheduleDeletion(deletion);
+            }
+          });
+          showResults();
+        }
+
+        // Retry once the earliest backed-off entry becomes due
+        if (result.nextAttemptAt !== null) {
+          replayTimer = setTimeout(() => {
+            replayTimer = null;
+            get().replayOutbox();
+          }, Math.max(result.nextAttemptAt - Date.now(), 0));
+        }
+      } catch (error) {
+        console.error('Error replaying outbox:', error);
+      }
+
+      await get().loadDeadLetters();
+    },
+
+    loadDeadLetters: async () => {
+      try {
+        const deadLetters = await OutboxService.getDeadLetters();
+        set({deadLetters});
+      } catch (error) {
+        console.error('Error loading dead letters:', error);
+      }
+    },
+
+    retryDeadLetter: async (id: number) => {
+      try {
+        await OutboxService.retryDeadLetter(id);
+        await get().replayOutbox();
+        await get().loadDeadLetters();
+      } catch (error) {
+        reportError('retry the failed change', error, () => get().retryDeadLetter(id));
+      }
+    },
+
+    discardDeadLetter: async (id: number) => {
+      try {
+        await OutboxService.discardDeadLetter(id);
+        await get().loadDeadLetters();
+      } catch (error) {
+        reportError('discard the failed change', error, () => get().discardDeadLetter(id));
+      }
+    },
+
+    // Throws when the server cannot be reached so callers can decide whether
+    // that matters.
+    syncCustomers: async () => {
+      // Server customers may hold roles added since the last sync. Offline,
+      // or where the endpoint has no role catalog, the one kept locally is
+      // used; a restored backup may have changed it.
+      if (GraphQLService.offersRoleCatalog()) {
+        try {
+          await RoleCatalogService.refreshFromServer();
+        } catch (roleError) {
+          console.log('Role catalog refresh failed, using local roles:', roleError);
+        }
+      }
+      await showRoles();
+
+      const result = await SyncService.syncCustomers({
+        policy: get().conflictPolicy,
+      });
+      if (result.conflicts.length > 0) {
+        console.log(`Sync found ${result.conflicts.length} conflicts to review`);
+      }
+      if (result.quarantined > 0) {
+        console.log(`Sync held back ${result.quarantined} invalid records for review`);
+      }
+      set({syncConflicts: await SyncService.getConflicts()});
+      await get().loadQuarantinedCustomers();
+    },
+
+    setConflictPolicy: (policy: ConflictPolicy) => {
+      set({conflictPolicy: policy});
+    },
+
+    resolveConflict: async (
+      customerId: string,
+      resolution: ConflictResolution,
+    ) => {
+      try {
+        await SyncService.resolveConflict(customerId, resolution);
+        set({syncConflicts: await SyncService.getConflicts()});
+        await get().refreshCustomers();
+      } catch (error) {
+        reportError('resolve the sync conflict', error, () =>
+          get().resolveConflict(customerId, resolution),
+        );
+      }
+    },
+
+    loadQuarantinedCustomers: async () => {
+      try {
+        set({quarantinedCustomers: await SyncService.getQuarantinedCustomers()});
+      } catch (error) {
+        console.error('Error loading quarantined customers:', error);
+      }
+    },
+
+    // Saves someone's correction of a quarantined record and sends it to the
+    // server in place of the invalid one.
+    fixQuarantinedCustomer: async (customer: ZellerCustomer) => {
+      try {
+        await getDbService().resolveQuarantinedCustomer(customer, ENABLE_REMOTE_MUTATIONS);
+
+        set(state => ({
+          quarantinedCustomers: state.quarantinedCustomers.filter(
+            entry => entry.customerId !== customer.id,
+          ),
+        }));
+
+        if (ENABLE_REMOTE_MUTATIONS) {
+          get().replayOutbox();
+        }
+      } catch (error) {
+        console.error('Error fixing quarantined customer:', error);
+        throw toAppError(error);
+      }
+    },
+
+    startRealtimeUpdates: () => {
+      if (stopRealtime) {
+        return;
+      }
+
+      stopRealtime = GraphQLService.subscribeToCustomerChanges({
+        onChange: change => {
+          get().applyRemoteChange(change);
+        },
+        // Catch up on anything sent while the socket was down
+        onReconnect: () => {
+          get().refreshCustomers();
+        },
+        // The subscription is started again with backoff; meanwhile changes
+        // made elsewhere only arrive with a refresh
+        onError: error => {
+          reportError('follow changes made elsewhere', error);
+        },
+      });
+    },
+
+    stopRealtimeUpdates: () => {
+      stopRealtime?.();
+      stopRealtime = null;
+    },
+
+    applyRemoteChange: async (change: RemoteCustomerChange) => {
+      try {
+        const applied = await SyncService.applyRemoteChange(change);
+        if (!applied) {
+          // Changed here too; let the conflict policy decide
+          await get().syncCustomers();
+        } else {
+          await get().loadQuarantinedCustomers();
+        }
+      } catch (error) {
+        console.error('Error applying realtime update:', error);
+      }
+    },
+
+    // Drops everything loaded from the previous environment's database and
+    // server before another one is opened.
+    resetForEnvironmentChange: () => {
+      get().stopRealtimeUpdates();
+      get().stopGrantTimer();
+      if (replayTimer) {
+        clearTimeout(replayTimer);
+        replayTimer = null;
+      }
+      // Pending deletions stay on disk and are committed the next time that
+      // environment's database is loaded
+      Array.from(deletionTimers.keys()).forEach(clearDeletionTimer);
+      closeLiveQueries();
+      set({
+        roles: DEFAULT_ROLES,
+        customerWindows: createCustomerWindows(DEFAULT_ROLES),
+        selectedRole: ALL_ROLES_TAB,
+        error: null,
+        searchTerm: '',
+        deadLetters: [],
+        syncConflicts: [],
+        quarantinedCustomers: [],
+        pendingDeletions: [],
+        deletedCustomers: [],
+        customerHistory: [],
+        minimumAdmins: DEFAULT_MINIMUM_ADMINS,
+        protectedAdminIds: [],
+        roleRequests: [],
+        admins: [],
+        actingAdminId: null,
+        roleGrants: [],
+      });
+    },
   };
 });
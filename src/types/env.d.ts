@@ -0,0 +1,6 @@
+// process.env.NAME references are replaced at build time by
+// babel-plugin-transform-inline-environment-variables; React Native has no
+// Node typings to describe them.
+declare var process: {
+  env: {[name: string]: string | undefined};
+};
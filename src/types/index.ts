@@ -1,8 +1,48 @@
+// The name of a role in the role catalog, e.g. 'Admin'
+export type CustomerRole = string;
+
+// One entry of the role catalog. Higher ranks carry more authority; a move
+// to a higher rank is a promotion. `aliases` are other spellings the server
+// or older data may use for the role.
+export interface RoleDefinition {
+  name: CustomerRole;
+  label: string;
+  rank: number;
+  aliases: string[];
+}
+
 export interface ZellerCustomer {
   id: string;
   name: string;
   email: string;
-  role: 'Admin' | 'Manager';
+  role: CustomerRole;
+}
+
+export interface BulkInsertRejection {
+  customer: Partial<ZellerCustomer>;
+  reason: string;
+}
+
+export interface BulkInsertReport {
+  inserted: number;
+  replaced: number;
+  rejected: number;
+  rejections: BulkInsertRejection[];
+}
+
+// A change pushed by an AppSync subscription. Deletes carry only the id.
+export interface RemoteCustomerChange {
+  type: 'create' | 'update' | 'delete';
+  customer: ZellerCustomer;
+}
+
+// A role as listZellerRoles returns it. Missing fields are filled in when it
+// is added to the catalog.
+export interface RemoteZellerRole {
+  name: string;
+  label?: string | null;
+  rank?: number | null;
+  aliases?: Array<string | null> | null;
 }
 
 export interface ZellerCustomerConnection {
@@ -36,7 +76,17 @@ export interface ListZellerCustomersQuery {
   nextToken?: string;
 }
 
-export type UserRole = 'All' | 'Admin' | 'Manager';
+// Paging controls for reading customers from AppSync. `maxPages` bounds how
+// many requests are made; `signal` cancels between and during requests.
+export interface CustomerPageOptions {
+  filter?: TableZellerCustomerFilterInput;
+  pageSize?: number;
+  maxPages?: number;
+  signal?: AbortSignal;
+}
+
+// A tab on the customer list: 'All', or a role from the catalog
+export type UserRole = CustomerRole;
 
 export interface ValidationError {
   field: string;
@@ -46,23 +96,280 @@ export interface ValidationError {
 export interface FormData {
   name: string;
   email: string;
-  role: 'Admin' | 'Manager';
+  role: CustomerRole;
 }
 
 // GraphQL Mutation Input Types
 export interface CreateZellerCustomerInput {
   name: string;
   email: string;
-  role: 'Admin' | 'Manager';
+  role: CustomerRole;
 }
 
 export interface UpdateZellerCustomerInput {
   id: string;
   name: string;
   email: string;
-  role: 'Admin' | 'Manager';
+  role: CustomerRole;
 }
 
 export interface DeleteZellerCustomerInput {
   id: string;
 }
+
+// Offline outbox
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+export type OutboxStatus = 'pending' | 'dead';
+
+export interface OutboxEntry {
+  id: number;
+  operation: OutboxOperation;
+  customerId: string;
+  payload: ZellerCustomer;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  createdAt: number;
+}
+
+export interface OutboxReplayResult {
+  sent: number;
+  deadLettered: number;
+  remaining: number;
+  nextAttemptAt: number | null;
+  idChanges: Record<string, string>;
+}
+
+// Sync
+export type ConflictPolicy = 'last-writer-wins' | 'server-wins' | 'manual';
+
+export type ConflictResolution = 'keep-local' | 'use-server';
+
+// A customer changed both on this device and on the server since the last
+// sync. A null side means that side deleted the customer.
+export interface SyncConflict {
+  customerId: string;
+  local: ZellerCustomer | null;
+  server: ZellerCustomer | null;
+  detectedAt: number;
+}
+
+export interface SyncStateRecord {
+  customerId: string;
+  serverSnapshot: ZellerCustomer;
+  syncedAt: number;
+  localDeletedAt: number | null;
+}
+
+export interface SyncChangeSet {
+  upserts: ZellerCustomer[];
+  deletes: string[];
+  snapshots: ZellerCustomer[];
+  forgotten: string[];
+  conflicts: SyncConflict[];
+  resolvedConflicts: string[];
+  discardOutbox: string[];
+  quarantined: QuarantinedCustomer[];
+  // Customer ids whose quarantine entry no longer applies
+  released: string[];
+}
+
+export interface SyncResult {
+  added: number;
+  updated: number;
+  deleted: number;
+  conflicts: SyncConflict[];
+  // Server records held back for review instead of being written
+  quarantined: number;
+}
+
+// Why a server record was held back
+export type QuarantineReason = 'missing-name' | 'missing-email' | 'missing-role' | 'unknown-role';
+
+// A server customer that failed validation. It is kept exactly as the server
+// sent it, and any local copy is left alone, until someone fixes it or the
+// server sends a valid version.
+export interface QuarantinedCustomer {
+  customerId: string;
+  raw: Record<string, unknown>;
+  reasons: QuarantineReason[];
+  receivedAt: number;
+}
+
+// A deletion waiting out its undo window. The row stays in SQLite, hidden
+// from the list, until `deleteAt`.
+export interface PendingDeletion {
+  customer: ZellerCustomer;
+  deleteAt: number;
+}
+
+// A soft-deleted customer waiting in the trash
+export interface DeletedCustomer extends ZellerCustomer {
+  deletedAt: number;
+}
+
+export type CustomerEventType = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+// Who made a change: someone using this device, a sync with the server
+// (including realtime updates), a bulk import, a temporary role running
+// out, or a repair closing the history of a customer the file lost
+export type CustomerEventSource = 'local' | 'sync' | 'import' | 'expiry' | 'repair';
+
+export type RoleChange = 'promotion' | 'demotion';
+
+// One entry in the append-only audit log of customer changes
+export interface CustomerEvent {
+  id: number;
+  customerId: string;
+  type: CustomerEventType;
+  source: CustomerEventSource;
+  before: ZellerCustomer | null;
+  after: ZellerCustomer | null;
+  // Set when the change moved the customer to or from Admin
+  roleChange: RoleChange | null;
+  occurredAt: number;
+}
+
+export type RoleRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+// A move into an admin role, asked for by an Admin and waiting for (or
+// decided by) another Admin, who is not the customer being moved either.
+// `requestedBy` and `decidedBy` are customer ids. Cancelled requests are
+// ones whose customer was deleted first.
+export interface RoleRequest {
+  id: number;
+  customerId: string;
+  // As the customer is named now
+  customerName: string;
+  fromRole: CustomerRole;
+  toRole: CustomerRole;
+  requestedBy: string;
+  requestedAt: number;
+  // How long the role lasts once approved, in ms; null for good
+  grantFor: number | null;
+  status: RoleRequestStatus;
+  decidedBy: string | null;
+  decidedAt: number | null;
+}
+
+export type RoleGrantStatus = 'active' | 'reverted' | 'superseded';
+
+// A promotion that lasts until `expiresAt`, when the customer goes back to
+// `previousRole`. A grant is superseded when the role changes some other
+// way first.
+export interface RoleGrant {
+  id: number;
+  customerId: string;
+  previousRole: CustomerRole;
+  grantedRole: CustomerRole;
+  grantedAt: number;
+  expiresAt: number;
+  status: RoleGrantStatus;
+  endedAt: number | null;
+}
+
+export type CustomerSortOrder = 'name-asc' | 'name-desc';
+
+// Where a page of local customers ended. Pass it back as `after` to read the
+// next page; it stays valid while rows before it are added or removed.
+export interface CustomerCursor {
+  sortKey: string;
+  id: string;
+}
+
+export interface CustomerPageQuery {
+  role?: CustomerRole;
+  searchTerm?: string;
+  sortOrder?: CustomerSortOrder;
+  after?: CustomerCursor | null;
+  limit: number;
+}
+
+export interface CustomerPage {
+  customers: ZellerCustomer[];
+  // Null once the last page has been read
+  nextCursor: CustomerCursor | null;
+}
+
+// A live query: the same filters as a page, without the position
+export type CustomerQueryScope = Omit<CustomerPageQuery, 'after' | 'limit'>;
+
+export interface LiveCustomerResults {
+  customers: ZellerCustomer[];
+  // True while loadMore can read further matching rows
+  hasMore: boolean;
+}
+
+// Backup and restore
+export type BackupImportMode = 'replace' | 'merge';
+
+// A customer along with the local state a restore has to bring back
+export interface BackupCustomer extends ZellerCustomer {
+  deletedAt: number | null;
+  // Set while the change has not reached the server
+  localUpdatedAt: number | null;
+}
+
+// Everything on this device the server may not have yet
+export interface DatabaseBackup {
+  customers: BackupCustomer[];
+  outbox: OutboxEntry[];
+  pendingDeletions: PendingDeletion[];
+  syncState: SyncStateRecord[];
+  // Absent from backups made before roles came from a catalog
+  roles?: RoleDefinition[];
+}
+
+// A backup as exported to JSON
+export interface BackupSnapshot extends DatabaseBackup {
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+}
+
+export interface BackupImportReport extends BulkInsertReport {
+  mode: BackupImportMode;
+  // Customers on the device that a replacing import left out
+  removed: number;
+  outboxEntries: number;
+  pendingDeletions: number;
+}
+
+// Database health
+export type DatabaseHealthIssueKind =
+  // PRAGMA integrity_check found damage, or a table could not be read
+  | 'corruption'
+  | 'missing-table'
+  // The file was last migrated by a newer version of the app
+  | 'schema-version'
+  | 'duplicate-rows'
+  | 'orphaned-rows'
+  | 'search-index';
+
+export interface DatabaseHealthIssue {
+  kind: DatabaseHealthIssueKind;
+  detail: string;
+}
+
+export type DatabaseRepair =
+  | 'removed-duplicate-rows'
+  | 'removed-orphaned-rows'
+  // Cancelled requests, ended grants and closed histories of lost customers
+  | 'closed-orphaned-records'
+  | 'rebuilt-search-index'
+  // Salvaged what could be read into a new, freshly migrated file
+  | 'rebuilt-database';
+
+export interface DatabaseHealthReport {
+  healthy: boolean;
+  checkedAt: number;
+  schemaVersion: number;
+  // Still present after any repairs
+  issues: DatabaseHealthIssue[];
+  repairs: DatabaseRepair[];
+  // Tables a rebuild could not salvage. Customers lost this way are fetched
+  // from the server again by the next sync.
+  lostTables: string[];
+}
@@ -0,0 +1,58 @@
+import {buildFtsMatchQuery, matchesSearchTerm, tokenizeSearchTerm} from '../search';
+import {ZellerCustomer} from '../../types';
+
+describe('search utils', () => {
+  const customer: ZellerCustomer = {
+    id: '1',
+    name: 'Jane Smith',
+    email: 'jane.smith@zeller.com',
+    role: 'Admin',
+  };
+
+  describe('tokenizeSearchTerm', () => {
+    it('should split on whitespace and punctuation', () => {
+      expect(tokenizeSearchTerm('  Jane  zeller.com ')).toEqual([
+        'jane',
+        'zeller',
+        'com',
+      ]);
+    });
+
+    it('should return no tokens for blank input', () => {
+      expect(tokenizeSearchTerm('   ')).toEqual([]);
+    });
+  });
+
+  describe('buildFtsMatchQuery', () => {
+    it('should build a prefix query for every token', () => {
+      expect(buildFtsMatchQuery('jane zeller.com')).toBe(
+        '"jane"* "zeller"* "com"*',
+      );
+    });
+
+    it('should strip FTS syntax characters from user input', () => {
+      expect(buildFtsMatchQuery('"jane" OR (smith*)')).toBe(
+        '"jane"* "or"* "smith"*',
+      );
+    });
+
+    it('should return null when there is nothing to search for', () => {
+      expect(buildFtsMatchQuery('.. @')).toBeNull();
+    });
+  });
+
+  describe('matchesSearchTerm', () => {
+    it('should match tokens across name and email', () => {
+      expect(matchesSearchTerm(customer, 'jane zeller.com')).toBe(true);
+      expect(matchesSearchTerm(customer, 'smi zel')).toBe(true);
+    });
+
+    it('should require every token to match', () => {
+      expect(matchesSearchTerm(customer, 'jane example')).toBe(false);
+    });
+
+    it('should only match the start of words', () => {
+      expect(matchesSearchTerm(customer, 'ane')).toBe(false);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import {ValidationUtils} from '../validation';
 import {FormData} from '../../types';
+import {DEFAULT_ROLES} from '../roles';
 
 describe('ValidationUtils', () => {
   describe('validateName', () => {
@@ -114,7 +115,7 @@ describe('ValidationUtils', () => {
 
   describe('validateRole', () => {
     it('should return error for empty role', () => {
-      const result = ValidationUtils.validateRole('');
+      const result = ValidationUtils.validateRole('', DEFAULT_ROLES);
       expect(result).toEqual({
         field: 'role',
         message: 'Please select a valid role (Admin or Manager)',
@@ -122,7 +123,7 @@ describe('ValidationUtils', () => {
     });
 
     it('should return error for invalid role', () => {
-      const result = ValidationUtils.validateRole('InvalidRole');
+      const result = ValidationUtils.validateRole('InvalidRole', DEFAULT_ROLES);
       expect(result).toEqual({
         field: 'role',
         message: 'Please select a valid role (Admin or Manager)',
@@ -130,14 +131,27 @@ describe('ValidationUtils', () => {
     });
 
     it('should return null for Admin role', () => {
-      const result = ValidationUtils.validateRole('Admin');
+      const result = ValidationUtils.validateRole('Admin', DEFAULT_ROLES);
       expect(result).toBeNull();
     });
 
     it('should return null for Manager role', () => {
-      const result = ValidationUtils.validateRole('Manager');
+      const result = ValidationUtils.validateRole('Manager', DEFAULT_ROLES);
       expect(result).toBeNull();
     });
+
+    it('should accept and list the roles of the given catalog', () => {
+      const roles = [
+        ...DEFAULT_ROLES,
+        {name: 'Owner', label: 'Owner', rank: 3, aliases: []},
+        {name: 'Staff', label: 'Staff', rank: 0, aliases: []},
+      ];
+
+      expect(ValidationUtils.validateRole('Staff', roles)).toBeNull();
+      expect(ValidationUtils.validateRole('Viewer', roles)?.message).toBe(
+        'Please select a valid role (Owner, Admin, Manager or Staff)',
+      );
+    });
   });
 
   describe('validateForm', () => {
@@ -148,7 +162,7 @@ describe('ValidationUtils', () => {
         role: 'Admin',
       };
 
-      const result = ValidationUtils.validateForm(formData);
+      const result = ValidationUtils.validateForm(formData, DEFAULT_ROLES);
       expect(result).toHaveLength(2);
       expect(result[0].field).toBe('name');
       expect(result[1].field).toBe('email');
@@ -161,7 +175,7 @@ describe('ValidationUtils', () => {
         role: 'Manager',
       };
 
-      const result = ValidationUtils.validateForm(formData);
+      const result = ValidationUtils.validateForm(formData, DEFAULT_ROLES);
       expect(result).toHaveLength(0);
     });
   });
@@ -0,0 +1,6 @@
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Exponential backoff: 2s, 4s, 8s ... capped at five minutes.
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
@@ -0,0 +1,141 @@
+import {CustomerRole, RoleChange, RoleDefinition, UserRole} from '../types';
+
+// The tab listing customers of every role
+export const ALL_ROLES_TAB: UserRole = 'All';
+
+// The catalog every database starts with. Must match the rows migration 10
+// seeds.
+export const DEFAULT_ROLES: RoleDefinition[] = [
+  {
+    name: 'Admin',
+    label: 'Admin',
+    rank: 2,
+    aliases: ['administrator', 'admin_user', 'system_admin'],
+  },
+  {
+    name: 'Manager',
+    label: 'Manager',
+    rank: 1,
+    aliases: ['team_manager', 'project_manager', 'manager_user'],
+  },
+];
+
+// The role that manages access. Customers holding it, or a more senior role,
+// count as admins.
+export const ADMIN_ROLE: CustomerRole = 'Admin';
+
+// How many admins a team keeps unless its environment says otherwise
+export const DEFAULT_MINIMUM_ADMINS = 1;
+
+// Most senior first, which is the order tabs and pickers show them in
+export const sortRoles = (roles: RoleDefinition[]): RoleDefinition[] =>
+  [...roles].sort((a, b) => b.rank - a.rank || a.name.localeCompare(b.name));
+
+export const findRole = (
+  roles: RoleDefinition[],
+  name: string,
+): RoleDefinition | undefined => roles.find(role => role.name === name);
+
+// What an unrecognised role is stored as: the least senior one, so a typo
+// never grants more than the catalog's lowest role
+export const getDefaultRole = (roles: RoleDefinition[]): CustomerRole | undefined =>
+  sortRoles(roles).pop()?.name;
+
+// The catalog role `role` names exactly: its name or an alias, in any case.
+// Null when it names none, so server records are never guessed at.
+export const resolveRole = (role: unknown, roles: RoleDefinition[]): CustomerRole | null => {
+  const lower = String(role ?? '').trim().toLowerCase();
+  const match = sortRoles(roles).find(
+    candidate =>
+      candidate.name.toLowerCase() === lower ||
+      candidate.aliases.some(alias => alias.toLowerCase() === lower),
+  );
+  return match?.name ?? null;
+};
+
+// Maps a role as a form or an old row spells it onto the catalog: its name
+// or an alias in any case first, then a name it contains ("team_admin"),
+// then the default role.
+export const normalizeRole = (role: string, roles: RoleDefinition[]): CustomerRole => {
+  const exact = resolveRole(role, roles);
+  if (exact) {
+    return exact;
+  }
+
+  const value = String(role ?? '').trim();
+  const lower = value.toLowerCase();
+  const contained = sortRoles(roles).find(candidate =>
+    lower.includes(candidate.name.toLowerCase()),
+  );
+  if (contained) {
+    return contained.name;
+  }
+
+  return getDefaultRole(roles) ?? value;
+};
+
+// A catalog without an Admin role is managed by its most senior role
+export const isAdminRole = (roles: RoleDefinition[], role: CustomerRole): boolean => {
+  const adminRank = findRole(roles, ADMIN_ROLE)?.rank ?? sortRoles(roles)[0]?.rank;
+  const rank = findRole(roles, role)?.rank;
+  return rank !== undefined && adminRank !== undefined && rank >= adminRank;
+};
+
+export const getAdminRoles = (roles: RoleDefinition[]): CustomerRole[] =>
+  roles.filter(role => isAdminRole(roles, role.name)).map(role => role.name);
+
+// Why `name` can't be deleted or moved out of the admin roles
+export const describeAdminMinimum = (name: string, minimumAdmins: number): string =>
+  `${name} is needed to keep at least ${
+    minimumAdmins === 1 ? 'one Admin' : `${minimumAdmins} Admins`
+  } on the team. Make someone else an Admin first.`;
+
+// 'All' followed by every role, most senior first
+export const getRoleTabs = (roles: RoleDefinition[]): UserRole[] => [
+  ALL_ROLES_TAB,
+  ...sortRoles(roles).map(role => role.name),
+];
+
+export const getRoleLabel = (roles: RoleDefinition[], name: UserRole): string =>
+  findRole(roles, name)?.label ?? name;
+
+// A move between roles of the same rank is neither
+export const getRoleChange = (
+  roles: RoleDefinition[],
+  before: CustomerRole,
+  after: CustomerRole,
+): RoleChange | null => {
+  const from = findRole(roles, before)?.rank ?? 0;
+  const to = findRole(roles, after)?.rank ?? 0;
+  if (from === to) {
+    return null;
+  }
+  return to > from ? 'promotion' : 'demotion';
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long a temporary role can be given for, as offered by the edit screen
+export const ROLE_GRANT_DURATIONS = [
+  {label: '8 hours', ms: 8 * HOUR_MS},
+  {label: '1 day', ms: 24 * HOUR_MS},
+  {label: '1 week', ms: 7 * 24 * HOUR_MS},
+];
+
+// What is left of a temporary role, e.g. "45m", "5h", "3d"
+export const describeTimeLeft = (expiresAt: number, now: number = Date.now()): string => {
+  const minutes = Math.max(Math.ceil((expiresAt - now) / 60000), 0);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.ceil(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.ceil(hours / 24)}d`;
+};
+
+// "Admin", "Admin or Manager", "Owner, Admin or Manager"
+export const formatRoleList = (roles: RoleDefinition[]): string => {
+  const labels = sortRoles(roles).map(role => role.label);
+  return labels.length > 1
+    ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}`
+    : labels.join('');
+};
@@ -0,0 +1,40 @@
+import {ZellerCustomer} from '../types';
+
+// Whitespace and ASCII punctuation separate tokens, mirroring how the FTS5
+// unicode61 tokenizer splits "jane@zeller.com" into "jane", "zeller", "com".
+// Stripping punctuation also keeps FTS query syntax out of user input.
+const TOKEN_SEPARATOR = /[\s!-/:-@[-`{-~]+/;
+
+export const tokenizeSearchTerm = (term: string): string[] =>
+  (term || '')
+    .toLowerCase()
+    .split(TOKEN_SEPARATOR)
+    .filter(token => token.length > 0);
+
+// Builds an FTS5 MATCH expression where every token must match the start of
+// a word in name or email, e.g. "jane zeller.com" -> "jane"* "zeller"* "com"*
+export const buildFtsMatchQuery = (term: string): string | null => {
+  const tokens = tokenizeSearchTerm(term);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  return tokens.map(token => `"${token}"*`).join(' ');
+};
+
+// In-memory equivalent of the FTS query, used when the index is unavailable.
+export const matchesSearchTerm = (
+  customer: ZellerCustomer,
+  term: string,
+): boolean => {
+  const tokens = tokenizeSearchTerm(term);
+  if (tokens.length === 0) {
+    return true;
+  }
+
+  const words = [
+    ...tokenizeSearchTerm(customer.name),
+    ...tokenizeSearchTerm(customer.email),
+  ];
+  return tokens.every(token => words.some(word => word.startsWith(token)));
+};
@@ -1,4 +1,5 @@
-import {ValidationError, FormData} from '../types';
+import {ValidationError, FormData, RoleDefinition} from '../types';
+import {findRole, formatRoleList} from './roles';
 
 export class ValidationUtils {
   public static validateName(name: string): ValidationError | null {
@@ -48,18 +49,19 @@ export class ValidationUtils {
     return null;
   }
 
-  public static validateRole(role: string): ValidationError | null {
-    if (!role || (role !== 'Admin' && role !== 'Manager')) {
+  // `roles` is the role catalog the role must come from
+  public static validateRole(role: string, roles: RoleDefinition[]): ValidationError | null {
+    if (!role || !findRole(roles, role)) {
       return {
         field: 'role',
-        message: 'Please select a valid role (Admin or Manager)',
+        message: `Please select a valid role (${formatRoleList(roles)})`,
       };
     }
 
     return null;
   }
 
-  public static validateForm(formData: FormData): ValidationError[] {
+  public static validateForm(formData: FormData, roles: RoleDefinition[]): ValidationError[] {
     const errors: ValidationError[] = [];
 
     const nameError = this.validateName(formData.name);
@@ -72,7 +74,7 @@ export class ValidationUtils {
       errors.push(emailError);
     }
 
-    const roleError = this.validateRole(formData.role);
+    const roleError = this.validateRole(formData.role, roles);
     if (roleError) {
       errors.push(roleError);
     }